@@ -0,0 +1,95 @@
+import type { AgentAnalyticsResponse, AgentLeaderboardEntry } from "../../packages/shared/schema.js";
+import type { AgentResultCount, AnalyticsBucket } from "./storage.js";
+
+/**
+ * Agent pass-rate rollups
+ * Turns grouped PASS/FAIL counts from the store into the analytics page's leaderboard,
+ * timeline and task breakdowns. Pure, so it can be checked against hand-built counts.
+ */
+
+interface PassCounts {
+  passed: number;
+  total: number;
+}
+
+/**
+ * Display key for an agent/model pair, matching the labels used in AgentResultsTable
+ */
+export function toAgentKey(agentName: string, model: string | null): string {
+  return model ? `${agentName} (${model})` : agentName;
+}
+
+/**
+ * Sums counts into `groups` under `key`, creating the group with `init` on first use
+ */
+function accumulate<T extends PassCounts>(
+  groups: Map<string, T>,
+  key: string,
+  init: () => T,
+  row: AgentResultCount
+): void {
+  let group = groups.get(key);
+  if (!group) {
+    group = init();
+    groups.set(key, group);
+  }
+  group.total += row.count;
+  if (row.status === 'PASS') group.passed += row.count;
+}
+
+/**
+ * Builds the analytics response; the leaderboard and timeline come from the period counts,
+ * the difficulty and category breakdowns from their own per-task counts
+ */
+export function buildAgentAnalytics(
+  bucket: AnalyticsBucket,
+  since: Date | undefined,
+  periodCounts: Array<AgentResultCount & { period: Date }>,
+  difficultyCounts: Array<AgentResultCount & { value: string }>,
+  categoryCounts: Array<AgentResultCount & { value: string }>
+): AgentAnalyticsResponse {
+  const leaderboard = new Map<string, AgentLeaderboardEntry>();
+  const timeline = new Map<string, AgentAnalyticsResponse['timeline'][number]>();
+  const byDifficulty = new Map<string, AgentAnalyticsResponse['byDifficulty'][number]>();
+  const byCategory = new Map<string, AgentAnalyticsResponse['byCategory'][number]>();
+
+  periodCounts.forEach(row => {
+    const agentKey = toAgentKey(row.agentName, row.model);
+    const period = row.period.toISOString();
+
+    accumulate(leaderboard, agentKey, () => ({
+      agentKey,
+      agentName: row.agentName,
+      model: row.model,
+      passed: 0,
+      total: 0,
+      passRate: 0,
+    }), row);
+    accumulate(timeline, `${agentKey}\u0000${period}`, () => ({ agentKey, period, passed: 0, total: 0 }), row);
+  });
+
+  difficultyCounts.forEach(row => {
+    const agentKey = toAgentKey(row.agentName, row.model);
+    accumulate(byDifficulty, `${agentKey}\u0000${row.value}`, () => ({ agentKey, difficulty: row.value, passed: 0, total: 0 }), row);
+  });
+
+  categoryCounts.forEach(row => {
+    const agentKey = toAgentKey(row.agentName, row.model);
+    accumulate(byCategory, `${agentKey}\u0000${row.value}`, () => ({ agentKey, category: row.value, passed: 0, total: 0 }), row);
+  });
+
+  const entries = Array.from(leaderboard.values());
+  entries.forEach(entry => {
+    entry.passRate = entry.total > 0 ? entry.passed / entry.total : 0;
+  });
+
+  return {
+    bucket,
+    since: since ? since.toISOString() : null,
+    // Best pass rate first; more runs wins a tie
+    leaderboard: entries.sort((a, b) => b.passRate - a.passRate || b.total - a.total),
+    timeline: Array.from(timeline.values()).sort((a, b) => a.period.localeCompare(b.period)),
+    byDifficulty: Array.from(byDifficulty.values()),
+    byCategory: Array.from(byCategory.values()),
+  };
+}
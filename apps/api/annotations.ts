@@ -0,0 +1,70 @@
+import type { Annotation, AnnotationRow } from "../../packages/shared/schema.js";
+import { Permission, UserRole, type AuthContext } from "../../packages/shared/auth.js";
+
+/**
+ * Reviewer annotations
+ * Rows are stored per run; these helpers shape them for the client and for the
+ * optional PR comment mirror, and decide who may delete them.
+ */
+
+/**
+ * Authors may delete their own annotations, admins any; without auth everyone is an admin
+ * Either way the annotate permission is needed, as for creating one.
+ */
+export function canDeleteAnnotation(row: AnnotationRow, auth: AuthContext): boolean {
+  if (!auth.permissions.includes(Permission.ANNOTATE)) return false;
+  return auth.role === UserRole.ADMIN || (!!auth.userId && row.authorId === auth.userId);
+}
+
+export function toAnnotationResponse(row: AnnotationRow, auth: AuthContext): Annotation {
+  return {
+    id: row.id,
+    runId: row.runId,
+    prNumber: row.prNumber,
+    artifactName: row.artifactName,
+    path: row.path,
+    lineStart: row.lineStart,
+    lineEnd: row.lineEnd,
+    castTime: row.castTime,
+    body: row.body,
+    authorId: row.authorId,
+    authorName: row.authorName,
+    githubCommentUrl: row.githubCommentUrl,
+    createdAt: row.createdAt.toISOString(),
+    canDelete: canDeleteAnnotation(row, auth),
+  };
+}
+
+function formatCastTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Where an annotation points, e.g. "`tasks/x/agent.log` lines 10-12" or "`agent.cast` at 1:23"
+ */
+export function describeAnnotationTarget(row: Pick<AnnotationRow, 'path' | 'lineStart' | 'lineEnd' | 'castTime'>): string {
+  if (row.castTime !== null) {
+    return `\`${row.path}\` at ${formatCastTime(row.castTime)}`;
+  }
+  const start = row.lineStart ?? 1;
+  const end = row.lineEnd ?? start;
+  return start === end ? `\`${row.path}\` line ${start}` : `\`${row.path}\` lines ${start}-${end}`;
+}
+
+/**
+ * Markdown body for mirroring an annotation to the PR as a comment
+ */
+export function formatAnnotationComment(row: AnnotationRow, link?: string): string {
+  const agent = row.artifactName.replace(/^recordings-/i, '');
+  const quoted = row.body.split('\n').map(line => `> ${line}`).join('\n');
+  const lines = [
+    `**${row.authorName}** annotated ${describeAnnotationTarget(row)} of **${agent}** in run ${row.runId}:`,
+    '',
+    quoted,
+  ];
+  if (link) {
+    lines.push('', `[Open in LogFlix](${link})`);
+  }
+  return lines.join('\n');
+}
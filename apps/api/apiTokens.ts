@@ -0,0 +1,45 @@
+import { createHash, randomBytes } from "crypto";
+import type { Request } from "express";
+import type { ApiTokenRow } from "../../packages/shared/schema.js";
+import type { ApiToken, Permission } from "../../packages/shared/auth.js";
+
+/**
+ * Personal API tokens
+ * Secrets are "lfx_" plus 32 random bytes; only their SHA-256 hash is stored, which
+ * is enough for a random secret of that length. These helpers mint tokens, hash them
+ * for lookup and read them from the Authorization header.
+ */
+
+const TOKEN_PREFIX = 'lfx_';
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { token, tokenHash: hashApiToken(token), tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+/**
+ * The API token from an `Authorization: Bearer lfx_...` header, if there is one
+ * Other bearer values are left alone; they may be Clerk session tokens.
+ */
+export function getBearerApiToken(req: Request): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') || '');
+  return match && match[1].startsWith(TOKEN_PREFIX) ? match[1] : undefined;
+}
+
+export function toApiTokenResponse(row: ApiTokenRow): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.tokenPrefix,
+    scopes: row.scopes as Permission[],
+    repositories: row.repositories,
+    expiresAt: row.expiresAt ? row.expiresAt.toISOString() : null,
+    lastUsedAt: row.lastUsedAt ? row.lastUsedAt.toISOString() : null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,83 @@
+import type { Request, Response } from "express";
+import type { Logger } from "pino";
+import type { AuditAction, AuditLogEntry, AuditLogRow } from "../../packages/shared/schema.js";
+import type { AuthContext } from "../../packages/shared/auth.js";
+import { storage } from "./storage.js";
+
+/**
+ * Audit log
+ * Admin changes and reads of logs, casts and artifacts are appended to the
+ * audit_log table with the actor, organization and request id. Every entry is
+ * also written to the request logger, so nothing is lost without a database.
+ */
+
+export interface AuditEvent {
+  action: AuditAction;
+  target: string;
+  repository?: string | null;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Records an audit event for the authenticated user of this request
+ * Resolves once the row is written, so callers can await it before responding:
+ * serverless instances may be frozen as soon as the response is sent. A failed
+ * write is logged and never fails the request.
+ */
+export async function recordAudit(req: Request, res: Response, event: AuditEvent, fallbackLogger: Logger): Promise<void> {
+  const requestLogger: Logger = res.locals.logger || fallbackLogger;
+  const auth = res.locals.auth as AuthContext | undefined;
+  const entry = {
+    actorId: auth?.userId || null,
+    actorName: auth?.displayName || (auth?.userId ? 'Unknown user' : 'Local user'),
+    action: event.action,
+    organizationId: auth?.organizationId || null,
+    repository: event.repository ?? null,
+    target: event.target,
+    // Requests made with an API token say which one, so a leaked token's use can be traced
+    details: auth?.apiToken ? { ...event.details, apiTokenId: auth.apiToken.id } : event.details ?? null,
+    requestId: req.id ? String(req.id) : null,
+  };
+
+  requestLogger.info({ audit: entry }, `Audit: ${event.action}`);
+
+  try {
+    await storage?.appendAuditLog(entry);
+  } catch (error) {
+    requestLogger.error({ error, action: event.action, target: event.target }, "Failed to write audit log entry");
+  }
+}
+
+export function toAuditLogEntry(row: AuditLogRow): AuditLogEntry {
+  return {
+    id: row.id,
+    actorId: row.actorId,
+    actorName: row.actorName,
+    action: row.action as AuditAction,
+    organizationId: row.organizationId,
+    repository: row.repository,
+    target: row.target,
+    details: row.details ?? null,
+    requestId: row.requestId,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+const CSV_COLUMNS: Array<keyof AuditLogEntry> = [
+  'createdAt', 'actorId', 'actorName', 'action', 'organizationId', 'repository', 'target', 'details', 'requestId',
+];
+
+// Quotes every field; a leading =, +, - or @ is escaped so spreadsheets don't evaluate it as a formula
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+export function toAuditCsv(entries: AuditLogEntry[]): string {
+  const lines = [CSV_COLUMNS.join(',')].concat(
+    entries.map(entry => CSV_COLUMNS.map(column => toCsvField(entry[column])).join(','))
+  );
+  return `${lines.join('\r\n')}\r\n`;
+}
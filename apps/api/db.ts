@@ -0,0 +1,19 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "../../packages/shared/schema.js";
+
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Database connection
+ * Persistence is optional - when DATABASE_URL is not set, `db` is null and
+ * features backed by the database fall back to GitHub-only behaviour
+ */
+export const pool = process.env.DATABASE_URL
+  ? new Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+
+export const db = pool ? drizzle({ client: pool, schema }) : null;
+
+export type Database = NonNullable<typeof db>;
@@ -0,0 +1,37 @@
+import { EventEmitter } from "node:events";
+import type { LiveUpdateEvent } from "../../packages/shared/schema.js";
+
+type LiveUpdateListener = (event: LiveUpdateEvent) => void;
+
+/**
+ * In-process event bus for live updates
+ * Webhook handlers publish here; the live update stream route subscribes and fans out to clients
+ */
+export class LiveUpdateBus {
+  private emitter = new EventEmitter();
+
+  // Events only reach clients connected to the instance that received the webhook; on a
+  // multi-instance deployment clients can't rely on them alone
+  readonly crossInstance = false;
+
+  constructor() {
+    // Every connected client subscribes, so lift the default listener warning threshold
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: LiveUpdateEvent): void {
+    this.emitter.emit('update', event);
+  }
+
+  /**
+   * Subscribes to live updates, returns an unsubscribe function
+   */
+  subscribe(listener: LiveUpdateListener): () => void {
+    this.emitter.on('update', listener);
+    return () => {
+      this.emitter.off('update', listener);
+    };
+  }
+}
+
+export const liveUpdates = new LiveUpdateBus();
@@ -0,0 +1,137 @@
+import type { AgentFlakiness, FlakinessResponse, TaskFlakiness } from "../../packages/shared/schema.js";
+import type { AttemptResult } from "./storage.js";
+import { toAgentKey } from "./analytics.js";
+
+/**
+ * Flaky result detection
+ * A commit is flaky for an agent/model pair when its resolved results differ between
+ * attempts (re-runs or separate runs) on the same head SHA. Tasks inherit flakiness
+ * from the pairs run against their PR. The report lists both, most flaky first.
+ */
+
+interface CommitAttempts {
+  headSha: string;
+  prNumber: number | null;
+  agentKey: string;
+  agentName: string;
+  model: string | null;
+  outcomes: Array<'PASS' | 'FAIL'>;
+}
+
+interface TaskCommits {
+  shas: Set<string>;
+  flakyShas: Set<string>;
+  agentKeys: Set<string>;
+}
+
+function isFlaky(commit: CommitAttempts): boolean {
+  return commit.outcomes.length > 1 && commit.outcomes.some(outcome => outcome !== commit.outcomes[0]);
+}
+
+/**
+ * Groups attempt results per head commit and agent/model pair, keeping attempt order
+ */
+function groupByCommit(results: AttemptResult[]): CommitAttempts[] {
+  const commits = new Map<string, CommitAttempts>();
+
+  results.forEach(result => {
+    const agentKey = toAgentKey(result.agentName, result.model);
+    const key = `${result.headSha}\u0000${agentKey}`;
+    let commit = commits.get(key);
+    if (!commit) {
+      commit = {
+        headSha: result.headSha,
+        prNumber: result.prNumber,
+        agentKey,
+        agentName: result.agentName,
+        model: result.model,
+        outcomes: [],
+      };
+      commits.set(key, commit);
+    }
+    commit.outcomes.push(result.status);
+  });
+
+  // A single attempt has nothing to compare against
+  return Array.from(commits.values()).filter(commit => commit.outcomes.length > 1);
+}
+
+/**
+ * Builds the flakiness response from results ordered oldest attempt first
+ * With `prNumber`, agent pairs only count that PR's commits and tasks are limited to its tasks;
+ * task scores always cover the repository's whole history
+ */
+export function buildFlakinessReport(
+  results: AttemptResult[],
+  prTasks: Array<{ prNumber: number; taskId: string }>,
+  prNumber?: number
+): FlakinessResponse {
+  const commits = groupByCommit(results);
+  const agents = new Map<string, AgentFlakiness>();
+  const tasks = new Map<string, TaskCommits>();
+
+  const taskIdsByPR = new Map<number, string[]>();
+  prTasks.forEach(({ prNumber: pr, taskId }) => {
+    const taskIds = taskIdsByPR.get(pr) || [];
+    taskIds.push(taskId);
+    taskIdsByPR.set(pr, taskIds);
+  });
+
+  commits.forEach(commit => {
+    const flaky = isFlaky(commit);
+
+    if (prNumber === undefined || commit.prNumber === prNumber) {
+      let agent = agents.get(commit.agentKey);
+      if (!agent) {
+        agent = {
+          agentKey: commit.agentKey,
+          agentName: commit.agentName,
+          model: commit.model,
+          commits: 0,
+          flakyCommits: [],
+          score: 0,
+        };
+        agents.set(commit.agentKey, agent);
+      }
+      agent.commits++;
+      if (flaky) {
+        agent.flakyCommits.push({ headSha: commit.headSha, prNumber: commit.prNumber, outcomes: commit.outcomes });
+      }
+    }
+
+    // A task's commit is flaky when any pair flipped on it
+    const taskIds = commit.prNumber !== null ? taskIdsByPR.get(commit.prNumber) || [] : [];
+    taskIds.forEach(taskId => {
+      let task = tasks.get(taskId);
+      if (!task) {
+        task = { shas: new Set(), flakyShas: new Set(), agentKeys: new Set() };
+        tasks.set(taskId, task);
+      }
+      task.shas.add(commit.headSha);
+      if (flaky) {
+        task.flakyShas.add(commit.headSha);
+        task.agentKeys.add(commit.agentKey);
+      }
+    });
+  });
+
+  const scopedTaskIds = prNumber !== undefined ? taskIdsByPR.get(prNumber) || [] : null;
+
+  return {
+    prNumber: prNumber ?? null,
+    // Flakiest first; more evidence wins a tie
+    agents: Array.from(agents.values())
+      .map(agent => ({ ...agent, score: agent.flakyCommits.length / agent.commits }))
+      .sort((a, b) => b.score - a.score || b.commits - a.commits),
+    tasks: Array.from(tasks.entries())
+      .filter(([taskId]) => !scopedTaskIds || scopedTaskIds.indexOf(taskId) !== -1)
+      .map(([taskId, task]): TaskFlakiness => ({
+        taskId,
+        commits: task.shas.size,
+        flakyCommits: task.flakyShas.size,
+        score: task.flakyShas.size / task.shas.size,
+        flakyAgents: Array.from(task.agentKeys).sort(),
+      }))
+      .sort((a, b) => b.score - a.score || b.commits - a.commits),
+  };
+}
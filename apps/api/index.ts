@@ -32,8 +32,19 @@ const logger = pino({
   })
 });
 
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
+
 const app = express();
-app.use(express.json());
+// Keep the raw body around for webhook signature verification
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Add Pino HTTP middleware with request ID and response time
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from "express";
-import { getAuth, clerkClient } from "@clerk/express";
+import { getAuth, clerkClient, type User } from "@clerk/express";
 import {
   UserRole,
   Permission,
@@ -7,11 +7,13 @@ import {
   AuthContext,
   ClerkOrganizationMetadata,
   getPermissionsForRole,
-  hasPermission,
+  getApiTokenPermissions,
   canAccessRepository,
-  isValidRole
 } from "../../../packages/shared/auth.js";
 import { fetchAllUserAccessibleRepositories, fetchUserOrgMembership, shouldBeAdmin } from "../../../packages/shared/githubSync.js";
+import { storage } from "../storage.js";
+import { getBearerApiToken, hashApiToken } from "../apiTokens.js";
+import { githubAppAuth } from "../../../packages/github-client/index.js";
 
 // Check if Clerk is enabled
 const isClerkEnabled = !!(process.env.CLERK_PUBLISHABLE_KEY && process.env.CLERK_SECRET_KEY);
@@ -19,6 +21,16 @@ const isClerkEnabled = !!(process.env.CLERK_PUBLISHABLE_KEY && process.env.CLERK
 // GitHub sync configuration
 const GITHUB_SYNC_INTERVAL_MS = parseInt(process.env.GITHUB_SYNC_INTERVAL_HOURS || "24", 10) * 60 * 60 * 1000;
 
+/**
+ * Name shown for a user on annotations and triage: full name, then username, then primary email
+ */
+export function getUserDisplayName(user: User): string | undefined {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ')
+    || user.username
+    || user.emailAddresses.find((e) => e.id === user.primaryEmailAddressId)?.emailAddress
+    || undefined;
+}
+
 /**
  * Check if GitHub access sync is needed
  */
@@ -173,9 +185,130 @@ async function syncGitHubAccessIfNeeded(
   }
 }
 
+/**
+ * Builds the RBAC context for a user, syncing GitHub repository access if needed
+ * Shared by session and API token authentication so both resolve roles the same way.
+ */
+async function loadAuthContext(
+  userId: string,
+  orgId: string | undefined,
+  requestLogger?: any
+): Promise<{ authContext: AuthContext; githubToken?: string }> {
+  // Fetch user metadata from Clerk to get role and permissions
+  const user = await clerkClient.users.getUser(userId);
+  let metadata = ((user.publicMetadata as unknown) || {}) as UserMetadata;
+
+  metadata = await syncGitHubAccessIfNeeded(userId, orgId, metadata, requestLogger);
+
+  // Retrieve GitHub OAuth token for API calls
+  let githubToken: string | undefined;
+  try {
+    const tokenResponse = await clerkClient.users.getUserOauthAccessToken(userId, 'github');
+    const tokens = Array.isArray(tokenResponse) ? tokenResponse : tokenResponse.data;
+    githubToken = tokens?.[0]?.token;
+    if (requestLogger && githubToken) {
+      requestLogger.debug({ userId }, "GitHub OAuth token retrieved for API calls");
+    }
+  } catch (tokenError) {
+    if (requestLogger) {
+      requestLogger.warn({ userId, error: tokenError }, "Could not retrieve GitHub OAuth token for API calls");
+    }
+  }
+
+  // Default to member role if not specified; custom roles resolve against the organization's definitions below
+  const role = metadata.role || UserRole.MEMBER;
+
+  // Fetch organization metadata from Clerk if user belongs to an organization
+  let organizationMetadata: ClerkOrganizationMetadata | undefined;
+  if (orgId) {
+    try {
+      const organization = await clerkClient.organizations.getOrganization({ organizationId: orgId });
+      organizationMetadata = (organization.publicMetadata as unknown) as ClerkOrganizationMetadata | undefined;
+
+      if (requestLogger) {
+        requestLogger.debug({ userId, orgId, orgMetadata: organizationMetadata }, "Fetched organization metadata");
+      }
+    } catch (orgError) {
+      if (requestLogger) {
+        requestLogger.warn({ userId, orgId, error: orgError }, "Failed to fetch organization metadata");
+      }
+    }
+  }
+
+  const authContext: AuthContext = {
+    userId,
+    role,
+    permissions: getPermissionsForRole(role, organizationMetadata?.roles),
+    assignedRepositories: metadata.assignedRepositories || [],
+    organizationId: orgId,
+    organizationMetadata,
+    displayName: getUserDisplayName(user),
+  };
+
+  return { authContext, githubToken };
+}
+
+/**
+ * Resolves a personal API token to its owner's auth context, narrowed to the token's scopes
+ * Returns undefined for unknown, revoked or expired tokens, and for owners who were deleted
+ * or have left the organization the token was created in.
+ */
+async function authenticateApiToken(
+  token: string,
+  requestLogger?: any
+): Promise<{ authContext: AuthContext; githubToken?: string } | undefined> {
+  const row = await storage?.getActiveApiTokenByHash(hashApiToken(token));
+  if (!row || (row.expiresAt && row.expiresAt.getTime() <= Date.now())) {
+    return undefined;
+  }
+
+  let owner: { authContext: AuthContext; githubToken?: string };
+  try {
+    // Roles resolve against the organization's definitions, so only while the owner still belongs to it
+    if (row.organizationId) {
+      const { data: memberships } = await clerkClient.organizations.getOrganizationMembershipList({
+        organizationId: row.organizationId,
+        userId: [row.userId],
+        limit: 1,
+      });
+      if (memberships.length === 0) {
+        if (requestLogger) {
+          requestLogger.warn({ tokenId: row.id, userId: row.userId, orgId: row.organizationId }, "API token owner is no longer in the organization");
+        }
+        return undefined;
+      }
+    }
+
+    owner = await loadAuthContext(row.userId, row.organizationId ?? undefined, requestLogger);
+  } catch (error) {
+    if (requestLogger) {
+      requestLogger.warn({ tokenId: row.id, userId: row.userId, error }, "Could not load API token owner");
+    }
+    return undefined;
+  }
+
+  const { authContext, githubToken } = owner;
+
+  storage?.touchApiToken(row.id).catch((error) => {
+    if (requestLogger) {
+      requestLogger.warn({ tokenId: row.id, error }, "Failed to record API token use");
+    }
+  });
+
+  return {
+    authContext: {
+      ...authContext,
+      permissions: getApiTokenPermissions(authContext.permissions, row.scopes),
+      apiToken: { id: row.id, repositories: row.repositories },
+    },
+    githubToken,
+  };
+}
+
 /**
  * Middleware to require authentication for routes
  * Attaches user info and RBAC context to res.locals.auth
+ * Accepts a Clerk session or an `Authorization: Bearer lfx_...` personal API token
  * If Clerk is not configured, this middleware passes through (for development)
  * Automatically syncs GitHub repository access if needed
  */
@@ -192,6 +325,23 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
   }
 
   try {
+    const requestLogger = res.locals.logger;
+
+    const apiToken = getBearerApiToken(req);
+    if (apiToken) {
+      const resolved = await authenticateApiToken(apiToken, requestLogger);
+      if (!resolved) {
+        return res.status(401).json({
+          error: "Unauthorized",
+          message: "Invalid, expired or revoked API token",
+        });
+      }
+
+      res.locals.auth = resolved.authContext;
+      res.locals.githubToken = resolved.githubToken;
+      return next();
+    }
+
     const auth = getAuth(req);
 
     if (!auth.userId) {
@@ -201,17 +351,10 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
       });
     }
 
-    // Fetch user metadata from Clerk to get role and permissions
-    const user = await clerkClient.users.getUser(auth.userId);
-    let metadata = ((user.publicMetadata as unknown) || {}) as UserMetadata;
-
     // Extract orgId from session claims
     // The 'o' claim contains organization info: { id, slg, rol, per, fpm }
     const orgId = (auth.sessionClaims?.o as { id?: string })?.id;
 
-    // Automatically sync GitHub repository access if needed
-    const requestLogger = res.locals.logger;
-
     // Debug logging to help diagnose organization issues
     if (requestLogger) {
       requestLogger.debug({
@@ -222,53 +365,7 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
       }, "Session claims debugging");
     }
 
-    metadata = await syncGitHubAccessIfNeeded(auth.userId, orgId, metadata, requestLogger);
-
-    // Retrieve GitHub OAuth token for API calls
-    let githubToken: string | undefined;
-    try {
-      const tokenResponse = await clerkClient.users.getUserOauthAccessToken(auth.userId, 'github');
-      const tokens = Array.isArray(tokenResponse) ? tokenResponse : tokenResponse.data;
-      githubToken = tokens?.[0]?.token;
-      if (requestLogger && githubToken) {
-        requestLogger.debug({ userId: auth.userId }, "GitHub OAuth token retrieved for API calls");
-      }
-    } catch (tokenError) {
-      if (requestLogger) {
-        requestLogger.warn({ userId: auth.userId, error: tokenError }, "Could not retrieve GitHub OAuth token for API calls");
-      }
-    }
-
-    // Default to member role if not specified
-    const role = metadata.role && isValidRole(metadata.role)
-      ? metadata.role
-      : UserRole.MEMBER;
-
-    // Fetch organization metadata from Clerk if user belongs to an organization
-    let organizationMetadata: ClerkOrganizationMetadata | undefined;
-    if (orgId) {
-      try {
-        const organization = await clerkClient.organizations.getOrganization({ organizationId: orgId });
-        organizationMetadata = (organization.publicMetadata as unknown) as ClerkOrganizationMetadata | undefined;
-
-        if (requestLogger) {
-          requestLogger.debug({ userId: auth.userId, orgId, orgMetadata: organizationMetadata }, "Fetched organization metadata");
-        }
-      } catch (orgError) {
-        if (requestLogger) {
-          requestLogger.warn({ userId: auth.userId, orgId, error: orgError }, "Failed to fetch organization metadata");
-        }
-      }
-    }
-
-    const authContext: AuthContext = {
-      userId: auth.userId,
-      role,
-      permissions: getPermissionsForRole(role),
-      assignedRepositories: metadata.assignedRepositories || [],
-      organizationId: orgId,
-      organizationMetadata,
-    };
+    const { authContext, githubToken } = await loadAuthContext(auth.userId, orgId, requestLogger);
 
     // Attach auth context to res.locals for use in routes
     res.locals.auth = authContext;
@@ -319,9 +416,8 @@ export async function optionalAuth(req: Request, res: Response, next: NextFuncti
     const user = await clerkClient.users.getUser(auth.userId);
     const metadata = ((user.publicMetadata as unknown) || {}) as UserMetadata;
 
-    const role = metadata.role && isValidRole(metadata.role)
-      ? metadata.role
-      : UserRole.MEMBER;
+    // Organization metadata isn't loaded here, so custom roles only get repository visibility
+    const role = metadata.role || UserRole.MEMBER;
 
     const authContext: AuthContext = {
       userId: auth.userId,
@@ -359,7 +455,7 @@ export function requirePermission(permission: Permission) {
       });
     }
 
-    if (!hasPermission(authContext.role, permission)) {
+    if (!authContext.permissions.includes(permission)) {
       return res.status(403).json({
         error: "Forbidden",
         message: "You do not have permission to access this resource",
@@ -370,6 +466,13 @@ export function requirePermission(permission: Permission) {
   };
 }
 
+/**
+ * Whether a file inside a run artifact may be read: casts need view:casts, everything else view:logs
+ */
+export function canReadArtifactFile(authContext: AuthContext, path: string): boolean {
+  return authContext.permissions.includes(path.toLowerCase().endsWith('.cast') ? Permission.VIEW_CASTS : Permission.VIEW_LOGS);
+}
+
 /**
  * Middleware to require admin role
  */
@@ -383,10 +486,26 @@ export function requireAdmin(req: Request, res: Response, next: NextFunction) {
     });
   }
 
-  if (authContext.role !== UserRole.ADMIN) {
+  if (authContext.role !== UserRole.ADMIN || authContext.apiToken) {
+    return res.status(403).json({
+      error: "Forbidden",
+      message: authContext.apiToken ? "API tokens can't be used for admin routes" : "This resource requires admin access",
+    });
+  }
+
+  next();
+}
+
+/**
+ * Middleware to require a signed-in session, e.g. for managing API tokens, which a token can't do
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  const authContext = res.locals.auth as AuthContext;
+
+  if (authContext?.apiToken) {
     return res.status(403).json({
       error: "Forbidden",
-      message: "This resource requires admin access",
+      message: "This resource can't be used with an API token",
     });
   }
 
@@ -396,7 +515,7 @@ export function requireAdmin(req: Request, res: Response, next: NextFunction) {
 /**
  * Middleware to require repository access
  */
-export function requireRepositoryAccess(req: Request, res: Response, next: NextFunction) {
+export async function requireRepositoryAccess(req: Request, res: Response, next: NextFunction) {
   const authContext = res.locals.auth as AuthContext;
 
   if (!authContext || !authContext.userId) {
@@ -427,5 +546,34 @@ export function requireRepositoryAccess(req: Request, res: Response, next: NextF
     });
   }
 
+  // A token limited to some repositories can't reach the owner's others
+  const tokenRepositories = authContext.apiToken?.repositories || [];
+  if (tokenRepositories.length > 0 && !tokenRepositories.includes(repoId)) {
+    return res.status(403).json({
+      error: "Forbidden",
+      message: "This API token is not scoped to this repository",
+    });
+  }
+
+  // With a GitHub App installed on the repository, GitHub calls use its installation token instead of
+  // the user's OAuth token. The app may be installed on other organizations too, so only repositories
+  // of this organization's GitHub org qualify, and members only those assigned to them by full name.
+  const githubOrganization = authContext.organizationMetadata?.githubOrganization;
+  const isOrganizationRepository = !!githubOrganization && owner === githubOrganization &&
+    (authContext.role === UserRole.ADMIN || authContext.assignedRepositories.includes(repoId));
+  if (!githubAppAuth || !isOrganizationRepository) {
+    return next();
+  }
+  try {
+    const installationToken = await githubAppAuth.getRepositoryToken(String(owner), String(repo));
+    if (installationToken) {
+      res.locals.githubToken = installationToken;
+    }
+  } catch (error) {
+    const requestLogger = res.locals.logger;
+    if (requestLogger) {
+      requestLogger.warn({ repository: repoId, error }, "GitHub App token lookup failed, using the OAuth token");
+    }
+  }
   next();
 }
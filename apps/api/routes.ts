@@ -1,12 +1,39 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import type { Logger } from "pino";
 import { createHash } from "crypto";
-import { GitHubOctokitService } from "../../packages/github-client/index.js";
-import { requireAuth, requireAdmin, requireRepositoryAccess } from "./middleware/auth.js";
-import { clerkClient } from "@clerk/express";
-import { UserRole, UserMetadata, AuthContext, canAccessRepository } from "../../packages/shared/auth.js";
-import { GitHubWorkflowArtifact } from "../../packages/shared/schema.js";
+import { GitHubOctokitService, ArtifactEntryTooLargeError, githubAppAuth } from "../../packages/github-client/index.js";
+import { requireAuth, requireAdmin, requireSession, requireRepositoryAccess, requirePermission, canReadArtifactFile, getUserDisplayName } from "./middleware/auth.js";
+import { clerkClient, type User } from "@clerk/express";
+import {
+  UserRole,
+  UserMetadata,
+  AuthContext,
+  AdminUser,
+  BulkUserUpdate,
+  BulkUserUpdateResult,
+  CreateApiTokenRequest,
+  CreatedApiToken,
+  API_TOKEN_SCOPES,
+  Permission,
+  RoleDefinition,
+  ClerkOrganizationMetadata,
+  CUSTOM_ROLE_PERMISSIONS,
+  canAccessRepository,
+  isKnownRole,
+  isValidRole,
+  listRoles,
+} from "../../packages/shared/auth.js";
+import { GitHubWorkflowArtifact, createAnnotationSchema, triageStateSchema, updateTaskTriageSchema, TRIAGE_STATES, auditActionSchema, AUDIT_ACTIONS, type TriageAssignee } from "../../packages/shared/schema.js";
+import { storage, type AuditLogFilters } from "./storage.js";
+import { liveUpdates } from "./events.js";
+import { verifyWebhookSignature, handleWebhookEvent } from "./webhooks.js";
+import { buildAgentAnalytics } from "./analytics.js";
+import { buildFlakinessReport } from "./flakiness.js";
+import { canDeleteAnnotation, formatAnnotationComment, toAnnotationResponse } from "./annotations.js";
+import { toTaskTriageResponse, toTriageQueueItem } from "./triage.js";
+import { recordAudit, toAuditCsv, toAuditLogEntry } from "./audit.js";
+import { generateApiToken, toApiTokenResponse } from "./apiTokens.js";
 
 /**
  * GitHub Client Cache
@@ -109,6 +136,91 @@ process.on('SIGINT', () => {
   githubClientCache.clear();
 });
 
+const LIVE_UPDATE_HEARTBEAT_MS = 25 * 1000;
+const JOB_LOG_POLL_INTERVAL_MS = 5 * 1000;
+const MAX_CONTENT_PAGE_LINES = 10000;
+const MAX_CONTENT_PAGE_BYTES = 4 * 1024 * 1024;
+const MAX_SEARCH_MATCHES = 500;
+const MAX_SEARCH_CONTEXT_LINES = 10;
+const MAX_REPO_SEARCH_RESULTS = 100;
+const MAX_REINDEX_PULL_REQUESTS = 100;
+const REINDEX_PAGE_SIZE = 10; // PRs per reindex request, to stay within serverless time limits
+const MAX_TRIAGE_QUEUE_RESULTS = 500;
+const CLERK_LIST_PAGE_SIZE = 100;
+const MAX_ADMIN_USERS = 500; // Clerk's page size limit
+const DEFAULT_AUDIT_LOG_RESULTS = 100;
+const MAX_AUDIT_LOG_RESULTS = 500;
+const MAX_AUDIT_EXPORT_ROWS = 10000;
+const MAX_API_TOKENS_PER_USER = 25;
+const MAX_API_TOKEN_LIFETIME_DAYS = 365;
+
+const ROLE_ID_PATTERN = /^[a-z][a-z0-9-]{1,31}$/;
+
+const isRepositoryId = (repo: unknown): repo is string =>
+  typeof repo === 'string' && /^[^/\s]+\/[^/\s]+$/.test(repo);
+
+/**
+ * Reads the audit log filters shared by the admin view and the export, scoped to the caller's organization
+ */
+function parseAuditLogFilters(query: Request['query'], auth: AuthContext, limit: number): { filters: AuditLogFilters } | { error: string } {
+  const param = (name: string) => typeof query[name] === 'string' && query[name] ? query[name] as string : undefined;
+  const action = param('action');
+  const since = param('since') ? new Date(param('since')!) : undefined;
+  const until = param('until') ? new Date(param('until')!) : undefined;
+  const beforeId = param('before') ? parseInt(param('before')!, 10) : undefined;
+
+  if (action && !auditActionSchema.safeParse(action).success) {
+    return { error: `Invalid action. Must be one of: ${AUDIT_ACTIONS.join(', ')}` };
+  }
+  if ((since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+    return { error: "Invalid since or until date" };
+  }
+  if (beforeId !== undefined && isNaN(beforeId)) {
+    return { error: "Invalid before parameter" };
+  }
+
+  return {
+    filters: {
+      organizationId: auth.organizationId,
+      actorId: param('actor'),
+      action,
+      repository: param('repository'),
+      since,
+      until,
+      beforeId,
+      limit,
+    },
+  };
+}
+
+/**
+ * Every member of a Clerk organization with their user metadata, paging through memberships
+ */
+async function listOrganizationUsers(organizationId: string): Promise<User[]> {
+  const userIds: string[] = [];
+  for (let offset = 0; ; offset += CLERK_LIST_PAGE_SIZE) {
+    const { data: memberships, totalCount } = await clerkClient.organizations.getOrganizationMembershipList({
+      organizationId,
+      limit: CLERK_LIST_PAGE_SIZE,
+      offset,
+    });
+    userIds.push(...memberships.flatMap(membership => membership.publicUserData?.userId ?? []));
+    if (memberships.length < CLERK_LIST_PAGE_SIZE || offset + CLERK_LIST_PAGE_SIZE >= totalCount) {
+      break;
+    }
+  }
+
+  const users: User[] = [];
+  for (let i = 0; i < userIds.length; i += CLERK_LIST_PAGE_SIZE) {
+    const { data } = await clerkClient.users.getUserList({
+      userId: userIds.slice(i, i + CLERK_LIST_PAGE_SIZE),
+      limit: CLERK_LIST_PAGE_SIZE,
+    });
+    users.push(...data);
+  }
+  return users;
+}
+
 export async function registerRoutes(app: Express, logger: Logger): Promise<Server> {
   /**
    * Creates GitHub service instance with request-specific parameters
@@ -122,9 +234,95 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
       requestLogger.debug({ owner, repo, workflow, hasToken: !!githubToken }, 'Creating GitHub service instance');
     }
     
-    return new GitHubOctokitService(owner, repo, workflow, requestLogger || logger, githubToken);
+    return new GitHubOctokitService(owner, repo, workflow, requestLogger || logger, githubToken, storage);
   };
 
+  // ============= GITHUB WEBHOOK ROUTES =============
+  // Authenticated by HMAC signature rather than Clerk, since GitHub is the caller
+  app.post("/api/webhooks/github", async (req, res) => {
+    const requestLogger = res.locals.logger || logger;
+    const secret = process.env.GITHUB_WEBHOOK_SECRET;
+
+    if (!secret) {
+      requestLogger.warn('GITHUB_WEBHOOK_SECRET not configured - rejecting webhook delivery');
+      return res.status(503).json({ error: "Webhooks are not configured" });
+    }
+
+    const eventName = req.get('X-GitHub-Event');
+    const deliveryId = req.get('X-GitHub-Delivery');
+
+    if (!req.rawBody || !verifyWebhookSignature(req.rawBody, req.get('X-Hub-Signature-256'), secret)) {
+      requestLogger.warn({ eventName, deliveryId }, 'Rejected webhook with invalid signature');
+      return res.status(401).json({ error: "Invalid webhook signature" });
+    }
+
+    if (!eventName) {
+      return res.status(400).json({ error: "Missing X-GitHub-Event header" });
+    }
+
+    try {
+      const result = await handleWebhookEvent(eventName, req.body, {
+        store: storage,
+        bus: liveUpdates,
+        logger: requestLogger.child({ deliveryId, eventName }),
+      });
+
+      res.status(result.handled ? 200 : 202).json({ handled: result.handled, event: result.event });
+    } catch (error) {
+      requestLogger.error({ error, eventName, deliveryId }, 'Failed to process webhook');
+      res.status(500).json({ error: "Failed to process webhook" });
+    }
+  });
+
+  // ============= LIVE UPDATE ROUTES =============
+  // Server-Sent Events stream of webhook-driven updates, scoped to a repository and optionally a PR
+  app.get("/api/live/updates", requireAuth, requireRepositoryAccess, (req, res) => {
+    const requestLogger = res.locals.logger || logger;
+    const owner = String(req.query.owner);
+    const repo = String(req.query.repo);
+    const repository = `${owner}/${repo}`;
+    const prNumber = typeof req.query.pr === 'string' ? parseInt(req.query.pr, 10) : undefined;
+
+    if (prNumber !== undefined && isNaN(prNumber)) {
+      return res.status(400).json({ error: "Invalid PR number" });
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    // Without a webhook secret nothing is ever published, and without a cross-instance bus this stream
+    // may miss webhooks received elsewhere; either way clients should keep polling at the usual rate
+    const webhooksEnabled = !!process.env.GITHUB_WEBHOOK_SECRET;
+    res.write(`event: ready\ndata: ${JSON.stringify({
+      repository,
+      pr: prNumber ?? null,
+      webhooksEnabled,
+      crossInstance: liveUpdates.crossInstance,
+    })}\n\n`);
+
+    const unsubscribe = liveUpdates.subscribe((event) => {
+      if (event.repository.toLowerCase() !== repository.toLowerCase()) return;
+      // Job events carry no PR numbers, so PR-scoped clients receive them and match on run id
+      if (prNumber !== undefined && event.pullRequests.length > 0 && !event.pullRequests.includes(prNumber)) return;
+
+      res.write(`event: update\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+
+    // Comment lines keep proxies from closing idle connections
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), LIVE_UPDATE_HEARTBEAT_MS);
+
+    requestLogger.debug({ repository, prNumber }, 'Live update stream opened');
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      requestLogger.debug({ repository, prNumber }, 'Live update stream closed');
+    });
+  });
+
   // ============= USER & PERMISSIONS API ROUTES =============
   app.get("/api/user/permissions", requireAuth, async (req, res) => {
     try {
@@ -136,6 +334,7 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
         permissions: authContext.permissions,
         assignedRepositories: authContext.assignedRepositories,
         organizationId: authContext.organizationId,
+        roles: listRoles(authContext.organizationMetadata?.roles),
       });
     } catch (error) {
       const requestLogger = res.locals.logger || logger;
@@ -166,7 +365,23 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
       }
 
       const { githubOrganization, defaultWorkflow } = authContext.organizationMetadata;
-      const githubToken = res.locals.githubToken;
+
+      // An installation of the GitHub App on the organization serves users without a linked GitHub account
+      const installationToken = await githubAppAuth?.getOrganizationToken(githubOrganization) ?? null;
+      const githubToken: string | undefined = installationToken || res.locals.githubToken;
+
+      if (!githubToken) {
+        requestLogger.warn({ userId: authContext.userId, githubOrg: githubOrganization }, "No GitHub OAuth token or app installation");
+        return res.status(403).json({
+          error: "GitHub Access Required",
+          message: "Link your GitHub account, or ask an admin to install the LogFlix GitHub App on the organization.",
+        });
+      }
+
+      // Admins also see every repository the app is installed on, whether or not GitHub sync assigned it
+      const repositories = authContext.role === UserRole.ADMIN && installationToken
+        ? Array.from(new Set(authContext.assignedRepositories.concat(await githubAppAuth!.listInstallationRepositories(githubOrganization))))
+        : authContext.assignedRepositories;
 
       // Create a hash of the token to use as a non-sensitive cache key
       const tokenHash = createHash('sha256').update(githubToken).digest('hex');
@@ -185,7 +400,7 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
       // These come from GitHub OAuth token and include all repos the user has access to
       // Fetch metadata from GitHub API for each repository in parallel (limited by GitHub rate limiting)
       const userRepos = await Promise.all(
-        authContext.assignedRepositories.map(async (fullName) => {
+        repositories.map(async (fullName) => {
           const [owner, repoName] = fullName.split('/');
 
           // Fetch metadata from GitHub API
@@ -254,28 +469,147 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
     }
   });
 
+  // Personal API tokens for scripts: sent as `Authorization: Bearer lfx_...` and resolved by requireAuth
+  app.get("/api/user/tokens", requireAuth, requireSession, async (req, res) => {
+    try {
+      if (!storage) {
+        return res.status(503).json({ error: "API tokens require a database (DATABASE_URL)" });
+      }
+
+      const authContext = res.locals.auth as AuthContext;
+      if (!authContext.userId) {
+        return res.json({ tokens: [], scopes: API_TOKEN_SCOPES });
+      }
+
+      const rows = await storage.getApiTokens(authContext.userId);
+      res.json({ tokens: rows.map(toApiTokenResponse), scopes: API_TOKEN_SCOPES });
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ error }, "Error fetching API tokens");
+      res.status(500).json({ error: "Failed to fetch API tokens" });
+    }
+  });
+
+  // The secret is only in this response; afterwards only its prefix is shown
+  app.post("/api/user/tokens", requireAuth, requireSession, async (req, res) => {
+    try {
+      if (!storage) {
+        return res.status(503).json({ error: "API tokens require a database (DATABASE_URL)" });
+      }
+
+      const authContext = res.locals.auth as AuthContext;
+      if (!authContext.userId) {
+        return res.status(400).json({ error: "API tokens require sign-in" });
+      }
+
+      const { name, scopes, repositories = [], expiresInDays = null } = req.body as CreateApiTokenRequest;
+
+      if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+        return res.status(400).json({ error: "Token name is required (at most 100 characters)" });
+      }
+
+      if (!Array.isArray(scopes) || !scopes.every(scope => API_TOKEN_SCOPES.includes(scope))) {
+        return res.status(400).json({ error: `Scopes must be a subset of: ${API_TOKEN_SCOPES.join(', ')}` });
+      }
+
+      // A token never gets more than its owner has now; the scopes are intersected again on every use
+      if (!scopes.every(scope => authContext.permissions.includes(scope))) {
+        return res.status(400).json({ error: "You can't grant a token permissions your role doesn't have" });
+      }
+
+      if (!Array.isArray(repositories) || !repositories.every(isRepositoryId)) {
+        return res.status(400).json({ error: "Invalid repository format. Use 'owner/repo'" });
+      }
+
+      if (!repositories.every(repo => canAccessRepository(authContext.role, authContext.assignedRepositories, repo))) {
+        return res.status(400).json({ error: "Tokens can only be limited to repositories you can access" });
+      }
+
+      if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_API_TOKEN_LIFETIME_DAYS)) {
+        return res.status(400).json({ error: `expiresInDays must be between 1 and ${MAX_API_TOKEN_LIFETIME_DAYS}, or null` });
+      }
+
+      const existing = await storage.getApiTokens(authContext.userId);
+      if (existing.length >= MAX_API_TOKENS_PER_USER) {
+        return res.status(400).json({ error: `You can have at most ${MAX_API_TOKENS_PER_USER} tokens; revoke one first` });
+      }
+
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const row = await storage.createApiToken({
+        userId: authContext.userId,
+        organizationId: authContext.organizationId ?? null,
+        name: name.trim(),
+        tokenHash,
+        tokenPrefix,
+        scopes: API_TOKEN_SCOPES.filter(scope => scopes.includes(scope)),
+        repositories,
+        expiresAt: expiresInDays !== null ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+
+      await recordAudit(req, res, {
+        action: 'token.create',
+        target: `token:${row.id}`,
+        details: { name: row.name, scopes: row.scopes, repositories: row.repositories, expiresAt: row.expiresAt },
+      }, logger);
+
+      const response: CreatedApiToken = { token, apiToken: toApiTokenResponse(row) };
+      res.status(201).json(response);
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ error }, "Error creating API token");
+      res.status(500).json({ error: "Failed to create API token" });
+    }
+  });
+
+  app.delete("/api/user/tokens/:tokenId", requireAuth, requireSession, async (req, res) => {
+    try {
+      if (!storage) {
+        return res.status(503).json({ error: "API tokens require a database (DATABASE_URL)" });
+      }
+
+      const authContext = res.locals.auth as AuthContext;
+      const tokenId = parseInt(req.params.tokenId, 10);
+      if (isNaN(tokenId)) {
+        return res.status(400).json({ error: "Invalid token ID" });
+      }
+
+      if (!authContext.userId || !(await storage.revokeApiToken(authContext.userId, tokenId))) {
+        return res.status(404).json({ error: "Token not found" });
+      }
+
+      await recordAudit(req, res, { action: 'token.revoke', target: `token:${tokenId}` }, logger);
+      res.status(204).end();
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ tokenId: req.params.tokenId, error }, "Error revoking API token");
+      res.status(500).json({ error: "Failed to revoke API token" });
+    }
+  });
+
   // ============= ADMIN API ROUTES =============
   app.get("/api/admin/users", requireAuth, requireAdmin, async (req, res) => {
     try {
       const client = clerkClient;
       const usersResponse = await client.users.getUserList({
-        limit: 100,
+        limit: MAX_ADMIN_USERS,
       });
 
-      const users = usersResponse.data.map((user) => {
+      const users: AdminUser[] = usersResponse.data.map((user) => {
         const metadata = ((user.publicMetadata as unknown) || {}) as UserMetadata;
         return {
           id: user.id,
           email: user.emailAddresses.find((e) => e.id === user.primaryEmailAddressId)?.emailAddress,
           firstName: user.firstName,
           lastName: user.lastName,
+          imageUrl: user.imageUrl,
           role: metadata.role || UserRole.MEMBER,
           assignedRepositories: metadata.assignedRepositories || [],
           createdAt: user.createdAt,
+          lastSignInAt: user.lastSignInAt,
         };
       });
 
-      res.json({ users });
+      res.json({ users, totalCount: usersResponse.totalCount });
     } catch (error) {
       const requestLogger = res.locals.logger || logger;
       requestLogger.error({ error }, "Error fetching users");
@@ -287,9 +621,15 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
     try {
       const { userId } = req.params;
       const { role } = req.body;
+      const customRoles = (res.locals.auth as AuthContext).organizationMetadata?.roles;
 
-      if (!role || (role !== UserRole.ADMIN && role !== UserRole.MEMBER)) {
-        return res.status(400).json({ error: "Invalid role. Must be 'admin' or 'member'" });
+      if (!role || typeof role !== 'string' || !isKnownRole(role, customRoles)) {
+        return res.status(400).json({ error: "Invalid role. Must be 'admin', 'member' or a role defined for this organization" });
+      }
+
+      // Keeps the last admin from locking everyone out by accident
+      if (userId === (res.locals.auth as AuthContext).userId && role !== UserRole.ADMIN) {
+        return res.status(400).json({ error: "You can't remove your own admin role" });
       }
 
       const client = clerkClient;
@@ -303,6 +643,12 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
         },
       });
 
+      await recordAudit(req, res, {
+        action: 'user.role.update',
+        target: `user:${userId}`,
+        details: { previousRole: metadata.role || UserRole.MEMBER, role },
+      }, logger);
+
       res.json({
         message: "User role updated successfully",
         userId,
@@ -324,12 +670,7 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
         return res.status(400).json({ error: "Repositories must be an array" });
       }
 
-      const isValid = repositories.every((repo) => {
-        const parts = repo.split('/');
-        return parts.length === 2 && parts[0] && parts[1];
-      });
-
-      if (!isValid) {
+      if (!repositories.every(isRepositoryId)) {
         return res.status(400).json({ error: "Invalid repository format. Use 'owner/repo'" });
       }
 
@@ -344,6 +685,12 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
         },
       });
 
+      await recordAudit(req, res, {
+        action: 'user.repositories.update',
+        target: `user:${userId}`,
+        details: { previousRepositories: metadata.assignedRepositories || [], repositories },
+      }, logger);
+
       res.json({
         message: "User repositories updated successfully",
         userId,
@@ -356,6 +703,234 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
     }
   });
 
+  // Applies one edit to many users; each user is updated independently and failures are reported per user
+  app.patch("/api/admin/users", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const requestLogger = res.locals.logger || logger;
+      const { userIds, role, addRepositories = [], removeRepositories = [] } = req.body as BulkUserUpdate;
+
+      if (!Array.isArray(userIds) || userIds.length === 0 || !userIds.every(id => typeof id === 'string')) {
+        return res.status(400).json({ error: "userIds must be a non-empty array" });
+      }
+
+      if (role !== undefined && (typeof role !== 'string' || !isKnownRole(role, (res.locals.auth as AuthContext).organizationMetadata?.roles))) {
+        return res.status(400).json({ error: "Invalid role. Must be 'admin', 'member' or a role defined for this organization" });
+      }
+
+      if (!Array.isArray(addRepositories) || !Array.isArray(removeRepositories)
+        || ![...addRepositories, ...removeRepositories].every(isRepositoryId)) {
+        return res.status(400).json({ error: "Invalid repository format. Use 'owner/repo'" });
+      }
+
+      if (role === undefined && addRepositories.length === 0 && removeRepositories.length === 0) {
+        return res.status(400).json({ error: "Nothing to update" });
+      }
+
+      if (role !== undefined && role !== UserRole.ADMIN && userIds.includes((res.locals.auth as AuthContext).userId)) {
+        return res.status(400).json({ error: "You can't remove your own admin role" });
+      }
+
+      const result: BulkUserUpdateResult = { updated: [], failed: [] };
+      for (const userId of userIds) {
+        try {
+          const user = await clerkClient.users.getUser(userId);
+          const metadata = ((user.publicMetadata as unknown) || {}) as UserMetadata;
+          const repositories = (metadata.assignedRepositories || [])
+            .concat(addRepositories.filter(repo => !(metadata.assignedRepositories || []).includes(repo)))
+            .filter(repo => !removeRepositories.includes(repo));
+
+          await clerkClient.users.updateUser(userId, {
+            publicMetadata: {
+              ...metadata,
+              ...(role !== undefined && { role }),
+              assignedRepositories: repositories,
+            },
+          });
+          result.updated.push(userId);
+          await recordAudit(req, res, {
+            action: 'user.bulk-update',
+            target: `user:${userId}`,
+            details: {
+              ...(role !== undefined && { previousRole: metadata.role || UserRole.MEMBER, role }),
+              previousRepositories: metadata.assignedRepositories || [],
+              repositories,
+            },
+          }, logger);
+        } catch (error) {
+          requestLogger.warn({ userId, error }, "Bulk user update failed for user");
+          result.failed.push({ userId, error: error instanceof Error ? error.message : "Update failed" });
+        }
+      }
+
+      requestLogger.info({ updated: result.updated.length, failed: result.failed.length, role, addRepositories, removeRepositories }, "Bulk user update");
+      res.json(result);
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ error }, "Error bulk updating users");
+      res.status(500).json({ error: "Failed to update users" });
+    }
+  });
+
+  // Custom roles live in the Clerk organization's public metadata next to the GitHub org mapping
+  app.get("/api/admin/roles", requireAuth, requireAdmin, async (req, res) => {
+    const authContext = res.locals.auth as AuthContext;
+    res.json({
+      roles: listRoles(authContext.organizationMetadata?.roles),
+      assignablePermissions: CUSTOM_ROLE_PERMISSIONS,
+    });
+  });
+
+  app.put("/api/admin/roles/:roleId", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const requestLogger = res.locals.logger || logger;
+      const authContext = res.locals.auth as AuthContext;
+      const { roleId } = req.params;
+      const { name, description, permissions } = req.body as Partial<RoleDefinition>;
+
+      if (!authContext.organizationId) {
+        return res.status(400).json({ error: "Custom roles require an organization" });
+      }
+
+      if (!ROLE_ID_PATTERN.test(roleId) || isValidRole(roleId)) {
+        return res.status(400).json({ error: "Role IDs are 2-32 lowercase letters, digits or dashes, and can't replace a built-in role" });
+      }
+
+      if (typeof name !== 'string' || !name.trim() || name.length > 50) {
+        return res.status(400).json({ error: "Role name is required (at most 50 characters)" });
+      }
+
+      if (!Array.isArray(permissions) || !permissions.every(p => CUSTOM_ROLE_PERMISSIONS.includes(p))) {
+        return res.status(400).json({ error: `Permissions must be a subset of: ${CUSTOM_ROLE_PERMISSIONS.join(', ')}` });
+      }
+
+      const role: RoleDefinition = {
+        id: roleId,
+        name: name.trim(),
+        ...(typeof description === 'string' && description.trim() && { description: description.trim() }),
+        permissions: CUSTOM_ROLE_PERMISSIONS.filter(p => permissions.includes(p)),
+      };
+
+      // Re-read the organization so concurrent edits to other roles aren't lost
+      const organization = await clerkClient.organizations.getOrganization({ organizationId: authContext.organizationId });
+      const metadata = ((organization.publicMetadata as unknown) || {}) as ClerkOrganizationMetadata;
+      const roles = (metadata.roles || []).filter(r => r.id !== roleId).concat(role);
+
+      await clerkClient.organizations.updateOrganizationMetadata(authContext.organizationId, {
+        publicMetadata: { roles },
+      });
+
+      await recordAudit(req, res, {
+        action: 'role.save',
+        target: `role:${roleId}`,
+        details: { previous: metadata.roles?.find(r => r.id === roleId) ?? null, role },
+      }, logger);
+      requestLogger.info({ orgId: authContext.organizationId, roleId, permissions: role.permissions }, "Custom role saved");
+      res.json({ role: { ...role, builtIn: false } });
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ roleId: req.params.roleId, error }, "Error saving custom role");
+      res.status(500).json({ error: "Failed to save role" });
+    }
+  });
+
+  // Users who still hold a deleted role keep repository visibility only until they're given another role
+  app.delete("/api/admin/roles/:roleId", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const requestLogger = res.locals.logger || logger;
+      const authContext = res.locals.auth as AuthContext;
+      const { roleId } = req.params;
+
+      if (!authContext.organizationId) {
+        return res.status(400).json({ error: "Custom roles require an organization" });
+      }
+
+      const organization = await clerkClient.organizations.getOrganization({ organizationId: authContext.organizationId });
+      const metadata = ((organization.publicMetadata as unknown) || {}) as ClerkOrganizationMetadata;
+      const roles = metadata.roles || [];
+
+      if (!roles.some(r => r.id === roleId)) {
+        return res.status(404).json({ error: "Role not found" });
+      }
+
+      await clerkClient.organizations.updateOrganizationMetadata(authContext.organizationId, {
+        publicMetadata: { roles: roles.filter(r => r.id !== roleId) },
+      });
+
+      await recordAudit(req, res, {
+        action: 'role.delete',
+        target: `role:${roleId}`,
+        details: { previous: roles.find(r => r.id === roleId) },
+      }, logger);
+      requestLogger.info({ orgId: authContext.organizationId, roleId }, "Custom role deleted");
+      res.status(204).end();
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ roleId: req.params.roleId, error }, "Error deleting custom role");
+      res.status(500).json({ error: "Failed to delete role" });
+    }
+  });
+
+  // Newest first; pass the last entry's id as `before` for the next page
+  app.get("/api/admin/audit", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      if (!storage) {
+        return res.status(503).json({ error: "The audit log requires a database (DATABASE_URL)" });
+      }
+
+      const parsedLimit = parseInt(req.query.limit as string, 10);
+      const limit = isNaN(parsedLimit) ? DEFAULT_AUDIT_LOG_RESULTS : Math.min(Math.max(parsedLimit, 1), MAX_AUDIT_LOG_RESULTS);
+      const parsed = parseAuditLogFilters(req.query, res.locals.auth as AuthContext, limit);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const rows = await storage.getAuditLog(parsed.filters);
+      res.json({
+        entries: rows.map(toAuditLogEntry),
+        nextBefore: rows.length === limit ? rows[rows.length - 1].id : null,
+      });
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ error }, "Error fetching audit log");
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
+  // Same filters as the view, as a JSON or CSV download; exports are audited too
+  app.get("/api/admin/audit/export", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      if (!storage) {
+        return res.status(503).json({ error: "The audit log requires a database (DATABASE_URL)" });
+      }
+
+      const format = req.query.format === 'csv' ? 'csv' : 'json';
+      const parsed = parseAuditLogFilters(req.query, res.locals.auth as AuthContext, MAX_AUDIT_EXPORT_ROWS);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const entries = (await storage.getAuditLog(parsed.filters)).map(toAuditLogEntry);
+      const { organizationId, limit, ...filters } = parsed.filters;
+      await recordAudit(req, res, {
+        action: 'audit.export',
+        target: 'audit-log',
+        details: { format, filters, count: entries.length },
+      }, logger);
+
+      const fileName = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.set('Content-Disposition', `attachment; filename="${fileName}"`);
+      if (format === 'csv') {
+        res.type('text/csv').send(toAuditCsv(entries));
+      } else {
+        res.json({ entries, truncated: entries.length === MAX_AUDIT_EXPORT_ROWS });
+      }
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ error }, "Error exporting audit log");
+      res.status(500).json({ error: "Failed to export audit log" });
+    }
+  });
+
   // ============= GITHUB API ROUTES =============
   app.get("/api/github/repo-stats/:owner/:repo", requireAuth, requireRepositoryAccess, async (req, res) => {
     try {
@@ -504,8 +1079,20 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
         return res.status(400).json({ error: "Invalid limit parameter (must be 1-100)" });
       }
 
-      requestLogger.debug({ limit: limitNumber }, 'Fetching workflow hierarchy');
-      const hierarchy = await githubService.getHierarchy(limitNumber);
+      // Run logs are only downloaded for callers allowed to read them
+      const canViewLogs = (res.locals.auth as AuthContext).permissions.includes(Permission.VIEW_LOGS);
+
+      requestLogger.debug({ limit: limitNumber, includeLogs: canViewLogs }, 'Fetching workflow hierarchy');
+      const hierarchy = await githubService.getHierarchy(limitNumber, canViewLogs);
+
+      const runIdsWithLogs = hierarchy.workflow_runs.filter(entry => entry.logs?.length).map(entry => entry.run.id);
+      if (runIdsWithLogs.length > 0) {
+        await recordAudit(req, res, {
+          action: 'logs.view',
+          repository: `${req.query.owner}/${req.query.repo}`,
+          target: `runs:${runIdsWithLogs.join(',')}`,
+        }, logger);
+      }
       
       requestLogger.debug({
         runsCount: hierarchy.workflow_runs.length,
@@ -532,12 +1119,13 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
       }
 
       const runIdNumber = parseInt(runId, 10);
+      const canViewLogs = (res.locals.auth as AuthContext).permissions.includes(Permission.VIEW_LOGS);
 
-      requestLogger.debug({ runId: runIdNumber }, 'Fetching workflow run with logs and artifacts');
+      requestLogger.debug({ runId: runIdNumber, includeLogs: canViewLogs }, 'Fetching workflow run with logs and artifacts');
       
       const [workflowRun, logs, artifacts] = await Promise.allSettled([
         githubService.getWorkflowRun(runIdNumber),
-        githubService.getWorkflowRunLogs(runIdNumber),
+        canViewLogs ? githubService.getWorkflowRunLogs(runIdNumber) : Promise.resolve([]),
         githubService.getWorkflowRunArtifacts(runIdNumber),
       ]);
 
@@ -548,6 +1136,14 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
         return res.status(404).json({ error: "Workflow run not found" });
       }
 
+      if (logs.status === 'fulfilled' && logs.value.length > 0) {
+        await recordAudit(req, res, {
+          action: 'logs.view',
+          repository: `${req.query.owner}/${req.query.repo}`,
+          target: `run:${runIdNumber}`,
+        }, logger);
+      }
+
       const response = {
         run,
         logs: logs.status === 'fulfilled' ? logs.value : [],
@@ -571,7 +1167,7 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
     }
   });
 
-  app.get("/api/github/workflow-logs/:runId", requireAuth, requireRepositoryAccess, async (req, res) => {
+  app.get("/api/github/workflow-logs/:runId", requireAuth, requireRepositoryAccess, requirePermission(Permission.VIEW_LOGS), async (req, res) => {
     try {
       const { runId } = req.params;
       const requestLogger = res.locals.logger || logger;
@@ -587,6 +1183,11 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
       requestLogger.debug({ runId: runIdNumber }, 'Fetching workflow logs');
       const logs = await githubService.getWorkflowRunLogs(runIdNumber);
 
+      await recordAudit(req, res, {
+        action: 'logs.view',
+        repository: `${req.query.owner}/${req.query.repo}`,
+        target: `run:${runIdNumber}`,
+      }, logger);
       requestLogger.debug({ runId: runIdNumber, logCount: logs.length }, 'Workflow logs retrieved');
       res.json({ logs });
     } catch (error) {
@@ -596,6 +1197,38 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
     }
   });
 
+  // Re-runs a workflow run on GitHub, optionally only its failed jobs
+  app.post("/api/github/workflow-run/:runId/rerun", requireAuth, requireRepositoryAccess, requirePermission(Permission.RERUN_WORKFLOWS), async (req, res) => {
+    try {
+      const requestLogger = res.locals.logger || logger;
+      const githubService = getGitHubService(req.query, requestLogger, res.locals.githubToken);
+
+      const runId = parseInt(req.params.runId, 10);
+      if (isNaN(runId)) {
+        return res.status(400).json({ error: "Invalid run ID parameter" });
+      }
+
+      const failedOnly = req.body?.failedOnly === true;
+      const started = await githubService.rerunWorkflowRun(runId, failedOnly);
+      if (!started) {
+        return res.status(502).json({ error: "GitHub did not accept the re-run request" });
+      }
+
+      await recordAudit(req, res, {
+        action: 'workflow.rerun',
+        repository: `${req.query.owner}/${req.query.repo}`,
+        target: `run:${runId}`,
+        details: { failedOnly },
+      }, logger);
+      requestLogger.info({ runId, failedOnly, userId: (res.locals.auth as AuthContext).userId }, 'Workflow re-run requested');
+      res.status(202).json({ runId, failedOnly });
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ runId: req.params.runId, error }, "Error re-running workflow");
+      res.status(500).json({ error: "Failed to re-run workflow" });
+    }
+  });
+
   app.get("/api/github/workflow-artifacts/:runId", requireAuth, requireRepositoryAccess, async (req, res) => {
     try {
       const { runId } = req.params;
@@ -632,7 +1265,7 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
     }
   });
 
-  app.get("/api/github/download-artifact/:runId/:artifactName", requireAuth, requireRepositoryAccess, async (req, res) => {
+  app.get("/api/github/download-artifact/:runId/:artifactName", requireAuth, requireRepositoryAccess, requirePermission(Permission.DOWNLOAD_ARTIFACTS), async (req, res) => {
     try {
       const { runId, artifactName } = req.params;
       const requestLogger = res.locals.logger || logger;
@@ -657,6 +1290,11 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
         return res.status(404).json({ error: "Artifact not found or failed to download" });
       }
 
+      await recordAudit(req, res, {
+        action: 'artifact.download',
+        repository: `${req.query.owner}/${req.query.repo}`,
+        target: `run:${runIdNumber}/${artifactName}`,
+      }, logger);
       requestLogger.info({ runId: runIdNumber, artifactName }, 'Artifact download completed');
       res.json({ message: result });
     } catch (error) {
@@ -757,9 +1395,11 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
       }, 'Cast-related artifacts filtered');
 
       // Get cast files from each artifact
+      // Artifacts are listed regardless, since the logs tab finds each agent's artifact here
+      const canViewCasts = (res.locals.auth as AuthContext).permissions.includes(Permission.VIEW_CASTS);
       const castFilesPromises = castArtifacts.map(async (artifact) => {
         // Use new unified method to get cast files
-        const files = await githubService.getArtifactAllFiles(artifact.id, 'cast');
+        const files = canViewCasts ? await githubService.getArtifactAllFiles(artifact.id, 'cast') : [];
         return {
           artifact_id: artifact.id,
           artifact_name: artifact.name,
@@ -937,6 +1577,106 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
     }
   });
 
+  // Stream job logs incrementally (Server-Sent Events) for tailing in-progress jobs
+  // Each chunk carries its end offset as the event id, so reconnects resume via Last-Event-ID
+  app.get("/api/github/job-logs/:jobId/stream", requireAuth, requireRepositoryAccess, requirePermission(Permission.VIEW_LOGS), async (req, res) => {
+    const { jobId } = req.params;
+    const requestLogger = res.locals.logger || logger;
+    const githubToken = res.locals.githubToken;
+
+    if (!jobId || isNaN(parseInt(jobId, 10))) {
+      return res.status(400).json({ error: "Invalid job ID parameter" });
+    }
+
+    const resumeFrom = req.get('Last-Event-ID') ?? (typeof req.query.offset === 'string' ? req.query.offset : '0');
+    let offset = parseInt(resumeFrom, 10);
+    if (isNaN(offset) || offset < 0) {
+      return res.status(400).json({ error: "Invalid offset parameter" });
+    }
+
+    const jobIdNumber = parseInt(jobId, 10);
+    const githubService = getGitHubService(req.query, requestLogger, githubToken);
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    let polling = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const poll = async () => {
+      if (closed || polling) return;
+      polling = true;
+      clearTimeout(timer);
+
+      try {
+        const chunk = await githubService.getJobLogsFromOffset(jobIdNumber, offset);
+        if (closed) return;
+
+        if (chunk) {
+          if (chunk.content || chunk.reset) {
+            res.write(`id: ${chunk.nextOffset}\nevent: chunk\ndata: ${JSON.stringify({
+              content: chunk.content,
+              offset: chunk.offset,
+              nextOffset: chunk.nextOffset,
+              reset: chunk.reset,
+            })}\n\n`);
+          }
+          offset = chunk.nextOffset;
+
+          if (chunk.status === 'completed') {
+            requestLogger.debug({ jobId: jobIdNumber, offset }, 'Job completed, ending log stream');
+            res.write(`event: complete\ndata: ${JSON.stringify({
+              status: chunk.status,
+              conclusion: chunk.conclusion,
+              nextOffset: chunk.nextOffset,
+            })}\n\n`);
+            closed = true;
+            unsubscribe();
+            res.end();
+            return;
+          }
+        } else {
+          // Keep the connection alive while GitHub has nothing to serve yet
+          res.write(': waiting\n\n');
+        }
+      } finally {
+        polling = false;
+      }
+
+      timer = setTimeout(poll, JOB_LOG_POLL_INTERVAL_MS);
+    };
+
+    // A webhook for this job means new output is likely; poll right away instead of waiting
+    const unsubscribe = liveUpdates.subscribe((event) => {
+      if (event.type === 'workflow_job' && event.jobId === jobIdNumber) {
+        poll();
+      }
+    });
+
+    req.on('close', () => {
+      closed = true;
+      clearTimeout(timer);
+      unsubscribe();
+    });
+
+    // Reconnects resume past offset 0 and aren't a new view
+    if (offset === 0) {
+      await recordAudit(req, res, {
+        action: 'logs.view',
+        repository: `${req.query.owner}/${req.query.repo}`,
+        target: `job:${jobIdNumber}`,
+      }, logger);
+    }
+
+    requestLogger.debug({ jobId: jobIdNumber, offset }, 'Job log stream opened');
+    poll();
+  });
+
   // Get agent test results for a workflow run
   app.get("/api/github/agent-test-results/:runId", requireAuth, requireRepositoryAccess, async (req, res) => {
     try {
@@ -969,6 +1709,45 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
     }
   });
 
+  // Compare two workflow runs: agent result flips, added/removed tasks, duration deltas and tests.log diffs
+  app.get("/api/github/compare-runs/:baseRunId/:headRunId", requireAuth, requireRepositoryAccess, requirePermission(Permission.VIEW_LOGS), async (req, res) => {
+    try {
+      const requestLogger = res.locals.logger || logger;
+      const githubToken = res.locals.githubToken;
+      const githubService = getGitHubService(req.query, requestLogger, githubToken);
+
+      const baseRunId = parseInt(req.params.baseRunId, 10);
+      const headRunId = parseInt(req.params.headRunId, 10);
+
+      if (isNaN(baseRunId) || isNaN(headRunId)) {
+        return res.status(400).json({ error: "Invalid run ID parameter" });
+      }
+
+      if (baseRunId === headRunId) {
+        return res.status(400).json({ error: "Choose two different runs to compare" });
+      }
+
+      const comparison = await githubService.compareWorkflowRuns(baseRunId, headRunId);
+
+      if (!comparison) {
+        return res.status(404).json({ error: "Workflow runs not found" });
+      }
+
+      // The comparison carries both runs' tests.log diffs
+      await recordAudit(req, res, {
+        action: 'logs.view',
+        repository: `${req.query.owner}/${req.query.repo}`,
+        target: `compare:${baseRunId}...${headRunId}`,
+      }, logger);
+
+      res.json(comparison);
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ baseRunId: req.params.baseRunId, headRunId: req.params.headRunId, error }, "Error comparing workflow runs");
+      res.status(500).json({ error: "Failed to compare workflow runs" });
+    }
+  });
+
   // List files in an artifact (with optional type filtering)
   app.get("/api/github/artifact/:artifactId/files", requireAuth, requireRepositoryAccess, async (req, res) => {
     try {
@@ -993,7 +1772,10 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
 
       requestLogger.info({ artifactId: artifactIdNumber, type: fileType }, 'Listing files in artifact');
 
-      const files = await githubService.getArtifactAllFiles(artifactIdNumber, fileType);
+      // Casts and logs are gated separately, so a listing only includes the kinds the user may read
+      const auth = res.locals.auth as AuthContext;
+      const files = (await githubService.getArtifactAllFiles(artifactIdNumber, fileType))
+        .filter(file => canReadArtifactFile(auth, file.path));
 
       requestLogger.info({
         artifactId: artifactIdNumber,
@@ -1014,7 +1796,7 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
     }
   });
 
-  // Read file content from artifact (with metadata)
+  // Read file content from artifact (with metadata), optionally paged by lines or bytes
   app.get("/api/github/artifact/:artifactId/content", requireAuth, requireRepositoryAccess, async (req, res) => {
     try {
       const { artifactId } = req.params;
@@ -1031,8 +1813,82 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
         return res.status(400).json({ error: "File path is required" });
       }
 
+      if (!canReadArtifactFile(res.locals.auth as AuthContext, path)) {
+        return res.status(403).json({
+          error: "Forbidden",
+          message: "You do not have permission to view this file",
+        });
+      }
+
       const artifactIdNumber = parseInt(artifactId, 10);
 
+      // Optional paging: a line window (startLine/lineCount) or a byte window (offset/length)
+      const parsePagingParam = (value: unknown) => typeof value === 'string' ? parseInt(value, 10) : undefined;
+      const startLine = parsePagingParam(req.query.startLine);
+      const lineCount = parsePagingParam(req.query.lineCount);
+      const offset = parsePagingParam(req.query.offset);
+      const length = parsePagingParam(req.query.length);
+      const isLineRange = startLine !== undefined || lineCount !== undefined;
+      const isByteRange = offset !== undefined || length !== undefined;
+
+      if (isLineRange && isByteRange) {
+        return res.status(400).json({ error: "Use either startLine/lineCount or offset/length, not both" });
+      }
+      if ([startLine, lineCount, offset, length].some(value => value !== undefined && (isNaN(value) || value < 0))) {
+        return res.status(400).json({ error: "Paging parameters must be non-negative integers" });
+      }
+
+      // Extract metadata from path
+      const fileName = path.split('/').pop() || path;
+      const fileExtension = (fileName.split('.').pop() || '').toLowerCase();
+      const fileType: 'cast' | 'log' | 'txt' | 'unknown' = ['cast', 'log', 'txt'].includes(fileExtension) ? fileExtension as 'cast' | 'log' | 'txt' : 'unknown';
+
+      if (isLineRange || isByteRange) {
+        const range = isLineRange
+          ? { unit: 'lines' as const, start: startLine ?? 0, count: Math.min(lineCount ?? MAX_CONTENT_PAGE_LINES, MAX_CONTENT_PAGE_LINES) }
+          : { unit: 'bytes' as const, start: offset ?? 0, count: Math.min(length ?? MAX_CONTENT_PAGE_BYTES, MAX_CONTENT_PAGE_BYTES) };
+
+        requestLogger.info({
+          artifactId: artifactIdNumber,
+          path,
+          range,
+          endpoint: '/artifact/:id/content'
+        }, 'Reading file range from artifact');
+
+        const page = await githubService.readArtifactFileRange(artifactIdNumber, path, range);
+
+        if (!page) {
+          return res.status(404).json({ error: "File not found in artifact" });
+        }
+
+        // Viewers page through large files; only the first page counts as opening it
+        if (page.start === 0) {
+          await recordAudit(req, res, {
+            action: fileType === 'cast' ? 'cast.view' : 'logs.view',
+            repository: `${req.query.owner}/${req.query.repo}`,
+            target: `artifact:${artifactIdNumber}/${path}`,
+          }, logger);
+        }
+
+        return res.json({
+          content: page.content,
+          metadata: {
+            fileName,
+            filePath: path,
+            fileSize: page.totalBytes,
+            totalBytes: page.totalBytes,
+            totalLines: page.totalLines,
+            fileType,
+            artifactId: artifactIdNumber
+          },
+          range: {
+            unit: page.unit,
+            start: page.start,
+            end: page.end
+          }
+        });
+      }
+
       requestLogger.info({
         artifactId: artifactIdNumber,
         path,
@@ -1045,10 +1901,11 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
         return res.status(404).json({ error: "File not found in artifact" });
       }
 
-      // Extract metadata from path
-      const fileName = path.split('/').pop() || path;
-      const fileExtension = (fileName.split('.').pop() || '').toLowerCase();
-      const fileType: 'cast' | 'log' | 'txt' | 'unknown' = ['cast', 'log', 'txt'].includes(fileExtension) ? fileExtension as 'cast' | 'log' | 'txt' : 'unknown';
+      await recordAudit(req, res, {
+        action: fileType === 'cast' ? 'cast.view' : 'logs.view',
+        repository: `${req.query.owner}/${req.query.repo}`,
+        target: `artifact:${artifactIdNumber}/${path}`,
+      }, logger);
 
       const response = {
         content,
@@ -1056,6 +1913,8 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
           fileName,
           filePath: path,
           fileSize: content.length,
+          totalBytes: Buffer.byteLength(content, 'utf8'),
+          totalLines: content.length === 0 ? 0 : content.split('\n').length - (content.endsWith('\n') ? 1 : 0),
           fileType,
           artifactId: artifactIdNumber
         }
@@ -1071,6 +1930,15 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
 
       res.json(response);
     } catch (error) {
+      if (error instanceof ArtifactEntryTooLargeError) {
+        const toMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+        return res.status(413).json({
+          error: `File is too large to display (${toMegabytes(error.size)} MB, limit ${toMegabytes(error.limit)} MB). Download the artifact to view it.`,
+          size: error.size,
+          limit: error.limit,
+        });
+      }
+
       const requestLogger = res.locals.logger || logger;
       requestLogger.error({
         artifactId: req.params.artifactId,
@@ -1081,6 +1949,475 @@ export async function registerRoutes(app: Express, logger: Logger): Promise<Serv
     }
   });
 
+  // Full-text search across a run's agent logs and terminal recordings
+  app.get("/api/github/search/run/:runId", requireAuth, requireRepositoryAccess, async (req, res) => {
+    try {
+      const { runId } = req.params;
+      const { q } = req.query;
+      const requestLogger = res.locals.logger || logger;
+      const githubToken = res.locals.githubToken;
+      const githubService = getGitHubService(req.query, requestLogger, githubToken);
+
+      if (!runId || isNaN(parseInt(runId, 10))) {
+        return res.status(400).json({ error: "Invalid run ID parameter" });
+      }
+
+      if (!q || typeof q !== 'string' || !q.trim()) {
+        return res.status(400).json({ error: "Search query is required" });
+      }
+
+      const parseOption = (value: unknown) => typeof value === 'string' ? parseInt(value, 10) : NaN;
+      const limit = parseOption(req.query.limit);
+      const context = parseOption(req.query.context);
+
+      const results = await githubService.searchRunArtifacts(parseInt(runId, 10), q, {
+        caseSensitive: req.query.caseSensitive === 'true',
+        contextLines: isNaN(context) ? undefined : Math.min(Math.max(context, 0), MAX_SEARCH_CONTEXT_LINES),
+        maxMatches: isNaN(limit) ? undefined : Math.min(Math.max(limit, 1), MAX_SEARCH_MATCHES),
+      });
+
+      const auth = res.locals.auth as AuthContext;
+      const matches = results.matches.filter(match => canReadArtifactFile(auth, match.filePath));
+
+      // Matches quote file content, so each kind of file they came from counts as viewed
+      const matchedFiles = Array.from(new Set(matches.map(match => match.filePath)));
+      const castFiles = matchedFiles.filter(path => path.toLowerCase().endsWith('.cast'));
+      const logFiles = matchedFiles.filter(path => !path.toLowerCase().endsWith('.cast'));
+      for (const [action, files] of [['cast.view', castFiles], ['logs.view', logFiles]] as const) {
+        if (files.length > 0) {
+          await recordAudit(req, res, {
+            action,
+            repository: `${req.query.owner}/${req.query.repo}`,
+            target: `run:${runId}`,
+            details: { query: q, files },
+          }, logger);
+        }
+      }
+
+      res.json({ ...results, matches });
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ runId: req.params.runId, query: req.query.q, error }, "Error searching run artifacts");
+      res.status(500).json({ error: "Failed to search run artifacts" });
+    }
+  });
+
+  // Repo-wide search over indexed task definitions and failure logs
+  app.get("/api/github/search/repo", requireAuth, requireRepositoryAccess, async (req, res) => {
+    try {
+      if (!storage) {
+        return res.status(503).json({ error: "Repository search requires a database (DATABASE_URL)" });
+      }
+
+      const repository = `${req.query.owner}/${req.query.repo}`;
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      const tag = typeof req.query.tag === 'string' && req.query.tag ? req.query.tag : undefined;
+      const category = typeof req.query.category === 'string' && req.query.category ? req.query.category : undefined;
+      const since = typeof req.query.since === 'string' ? new Date(req.query.since) : undefined;
+      const parsedLimit = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : NaN;
+      const limit = isNaN(parsedLimit) ? 50 : Math.min(Math.max(parsedLimit, 1), MAX_REPO_SEARCH_RESULTS);
+
+      if (!query && !tag && !category) {
+        return res.status(400).json({ error: "A search query, tag or category is required" });
+      }
+
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ error: "Invalid since date" });
+      }
+
+      const filters = { query: query || undefined, tag, category, since, limit };
+      const canViewLogs = (res.locals.auth as AuthContext).permissions.includes(Permission.VIEW_LOGS);
+      const [tasks, failures] = await Promise.all([
+        storage.searchTaskDefinitions(repository, filters),
+        // Failure logs are only searched by text; filters alone would list every failure
+        query && canViewLogs ? storage.searchFailureLogs(repository, { ...filters, query }) : Promise.resolve([]),
+      ]);
+
+      res.json({ query, tasks, failures });
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ query: req.query.q, error }, "Error searching repository index");
+      res.status(500).json({ error: "Failed to search repository" });
+    }
+  });
+
+  // Tags and categories available as repo search filters
+  app.get("/api/github/search/repo/facets", requireAuth, requireRepositoryAccess, async (req, res) => {
+    try {
+      if (!storage) {
+        return res.status(503).json({ error: "Repository search requires a database (DATABASE_URL)" });
+      }
+
+      res.json(await storage.getTaskFacets(`${req.query.owner}/${req.query.repo}`));
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ error }, "Error fetching repository search facets");
+      res.status(500).json({ error: "Failed to fetch search facets" });
+    }
+  });
+
+  // Backfill the search index from the most recently updated PRs; admin-only since it fans out to many GitHub calls
+  app.post("/api/github/search/repo/reindex", requireAuth, requireAdmin, requireRepositoryAccess, async (req, res) => {
+    try {
+      const requestLogger = res.locals.logger || logger;
+      const githubToken = res.locals.githubToken;
+      const githubService = getGitHubService(req.query, requestLogger, githubToken);
+
+      if (!storage) {
+        return res.status(503).json({ error: "Repository search requires a database (DATABASE_URL)" });
+      }
+
+      const parsedLimit = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : NaN;
+      const prLimit = isNaN(parsedLimit) ? 30 : Math.min(Math.max(parsedLimit, 1), MAX_REINDEX_PULL_REQUESTS);
+      // The cursor is the next page of PRs; clients repeat the request with nextCursor until it's null
+      const page = typeof req.query.cursor === 'string' ? parseInt(req.query.cursor, 10) : 1;
+      if (isNaN(page) || page < 1) {
+        return res.status(400).json({ error: "Invalid cursor parameter" });
+      }
+      if ((page - 1) * REINDEX_PAGE_SIZE >= prLimit) {
+        return res.json({ pullRequests: 0, tasks: 0, runs: 0, nextCursor: null });
+      }
+
+      requestLogger.info({ owner: req.query.owner, repo: req.query.repo, prLimit, page }, 'Backfilling repository search index');
+
+      const { hasMore, ...counts } = await githubService.indexRepository(page, REINDEX_PAGE_SIZE);
+      res.json({
+        ...counts,
+        nextCursor: hasMore && page * REINDEX_PAGE_SIZE < prLimit ? String(page + 1) : null,
+      });
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ error }, "Error indexing repository");
+      res.status(500).json({ error: "Failed to index repository" });
+    }
+  });
+
+  // Agent pass rates across all stored PR runs, over time and by task difficulty/category
+  app.get("/api/github/analytics/agents", requireAuth, requireRepositoryAccess, async (req, res) => {
+    try {
+      if (!storage) {
+        return res.status(503).json({ error: "Analytics require a database (DATABASE_URL)" });
+      }
+
+      const repository = `${req.query.owner}/${req.query.repo}`;
+      const bucket = typeof req.query.bucket === 'string' ? req.query.bucket : 'week';
+      const since = typeof req.query.since === 'string' ? new Date(req.query.since) : undefined;
+
+      if (bucket !== 'day' && bucket !== 'week' && bucket !== 'month') {
+        return res.status(400).json({ error: "bucket must be one of day, week, month" });
+      }
+
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ error: "Invalid since date" });
+      }
+
+      const [periodCounts, difficultyCounts, categoryCounts] = await Promise.all([
+        storage.getAgentResultCountsByPeriod(repository, bucket, since),
+        storage.getAgentResultCountsByTask(repository, 'difficulty', since),
+        storage.getAgentResultCountsByTask(repository, 'category', since),
+      ]);
+
+      res.json(buildAgentAnalytics(bucket, since, periodCounts, difficultyCounts, categoryCounts));
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ error }, "Error building agent analytics");
+      res.status(500).json({ error: "Failed to build agent analytics" });
+    }
+  });
+
+  // Tasks and agent/model pairs whose results flip between attempts on the same commit
+  app.get("/api/github/analytics/flakiness", requireAuth, requireRepositoryAccess, async (req, res) => {
+    try {
+      if (!storage) {
+        return res.status(503).json({ error: "Flakiness analysis requires a database (DATABASE_URL)" });
+      }
+
+      const repository = `${req.query.owner}/${req.query.repo}`;
+      const prNumber = typeof req.query.pr === 'string' ? parseInt(req.query.pr, 10) : undefined;
+
+      if (prNumber !== undefined && isNaN(prNumber)) {
+        return res.status(400).json({ error: "Invalid PR number" });
+      }
+
+      const [results, prTasks] = await Promise.all([
+        storage.getRepeatedAttemptResults(repository),
+        storage.getTaskIdsByPR(repository),
+      ]);
+
+      res.json(buildFlakinessReport(results, prTasks, prNumber));
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ error }, "Error building flakiness report");
+      res.status(500).json({ error: "Failed to build flakiness report" });
+    }
+  });
+
+  // ============= ANNOTATIONS =============
+  // Reviewer notes on log line ranges and cast timestamps of a run's artifacts
+
+  app.get("/api/github/annotations/:runId", requireAuth, requireRepositoryAccess, async (req, res) => {
+    try {
+      if (!storage) {
+        return res.status(503).json({ error: "Annotations require a database (DATABASE_URL)" });
+      }
+
+      const runId = parseInt(req.params.runId, 10);
+      if (isNaN(runId)) {
+        return res.status(400).json({ error: "Invalid run ID parameter" });
+      }
+
+      const auth = res.locals.auth as AuthContext;
+      const rows = await storage.getAnnotations(`${req.query.owner}/${req.query.repo}`, runId);
+      res.json({ annotations: rows.map(row => toAnnotationResponse(row, auth)) });
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ runId: req.params.runId, error }, "Error fetching annotations");
+      res.status(500).json({ error: "Failed to fetch annotations" });
+    }
+  });
+
+  app.post("/api/github/annotations/:runId", requireAuth, requireRepositoryAccess, requirePermission(Permission.ANNOTATE), async (req, res) => {
+    try {
+      const requestLogger = res.locals.logger || logger;
+
+      if (!storage) {
+        return res.status(503).json({ error: "Annotations require a database (DATABASE_URL)" });
+      }
+
+      const runId = parseInt(req.params.runId, 10);
+      if (isNaN(runId)) {
+        return res.status(400).json({ error: "Invalid run ID parameter" });
+      }
+
+      const parsed = createAnnotationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid annotation" });
+      }
+
+      const input = parsed.data;
+      if (input.mirrorToPR && !input.prNumber) {
+        return res.status(400).json({ error: "A PR number is required to mirror an annotation" });
+      }
+
+      const auth = res.locals.auth as AuthContext;
+      let row = await storage.createAnnotation({
+        repository: `${req.query.owner}/${req.query.repo}`,
+        runId,
+        prNumber: input.prNumber ?? null,
+        artifactName: input.artifactName,
+        path: input.path,
+        lineStart: input.lineStart ?? null,
+        lineEnd: input.lineStart !== undefined ? input.lineEnd ?? input.lineStart : null,
+        castTime: input.castTime ?? null,
+        body: input.body,
+        authorId: auth.userId || null,
+        authorName: auth.displayName || (auth.userId ? 'Unknown user' : 'Local user'),
+      });
+
+      // The annotation is kept even if GitHub rejects the comment; the client reports the failure
+      let mirrorError: string | undefined;
+      if (input.mirrorToPR && input.prNumber) {
+        const githubService = getGitHubService(req.query, requestLogger, res.locals.githubToken);
+        const comment = await githubService.createPullRequestComment(input.prNumber, formatAnnotationComment(row, input.link));
+        if (comment) {
+          row = await storage.setAnnotationComment(row.id, comment.id, comment.html_url);
+        } else {
+          mirrorError = "Annotation saved, but posting the PR comment failed";
+        }
+      }
+
+      requestLogger.info({ runId, annotationId: row.id, mirrored: !!row.githubCommentUrl }, 'Annotation created');
+      res.status(201).json({ annotation: toAnnotationResponse(row, auth), mirrorError });
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ runId: req.params.runId, error }, "Error creating annotation");
+      res.status(500).json({ error: "Failed to create annotation" });
+    }
+  });
+
+  // Mirrored PR comments are left in place; they belong to the PR conversation once posted
+  app.delete("/api/github/annotations/:runId/:annotationId", requireAuth, requireRepositoryAccess, requirePermission(Permission.ANNOTATE), async (req, res) => {
+    try {
+      if (!storage) {
+        return res.status(503).json({ error: "Annotations require a database (DATABASE_URL)" });
+      }
+
+      const runId = parseInt(req.params.runId, 10);
+      const annotationId = parseInt(req.params.annotationId, 10);
+      if (isNaN(runId) || isNaN(annotationId)) {
+        return res.status(400).json({ error: "Invalid run or annotation ID parameter" });
+      }
+
+      const row = await storage.getAnnotation(`${req.query.owner}/${req.query.repo}`, runId, annotationId);
+      if (!row) {
+        return res.status(404).json({ error: "Annotation not found" });
+      }
+
+      if (!canDeleteAnnotation(row, res.locals.auth as AuthContext)) {
+        return res.status(403).json({ error: "Only the author or an admin can delete this annotation" });
+      }
+
+      await storage.deleteAnnotation(annotationId);
+      res.status(204).end();
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ annotationId: req.params.annotationId, error }, "Error deleting annotation");
+      res.status(500).json({ error: "Failed to delete annotation" });
+    }
+  });
+
+  // ============= TASK TRIAGE =============
+  // Review state, assignee and reason per task; untriaged tasks are needs-review
+
+  app.get("/api/github/triage/pr/:prNumber", requireAuth, requireRepositoryAccess, async (req, res) => {
+    try {
+      if (!storage) {
+        return res.status(503).json({ error: "Task triage requires a database (DATABASE_URL)" });
+      }
+
+      const prNumber = parseInt(req.params.prNumber, 10);
+      if (isNaN(prNumber)) {
+        return res.status(400).json({ error: "Invalid PR number parameter" });
+      }
+
+      const rows = await storage.getTaskTriageForPR(`${req.query.owner}/${req.query.repo}`, prNumber);
+      res.json({ triage: rows.map(row => toTaskTriageResponse(row.prNumber, row.taskId, row)) });
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ prNumber: req.params.prNumber, error }, "Error fetching task triage");
+      res.status(500).json({ error: "Failed to fetch task triage" });
+    }
+  });
+
+  app.put("/api/github/triage/pr/:prNumber/:taskId", requireAuth, requireRepositoryAccess, requirePermission(Permission.TRIAGE), async (req, res) => {
+    try {
+      const requestLogger = res.locals.logger || logger;
+
+      if (!storage) {
+        return res.status(503).json({ error: "Task triage requires a database (DATABASE_URL)" });
+      }
+
+      const prNumber = parseInt(req.params.prNumber, 10);
+      if (isNaN(prNumber)) {
+        return res.status(400).json({ error: "Invalid PR number parameter" });
+      }
+
+      const parsed = updateTaskTriageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid triage update" });
+      }
+
+      const repository = `${req.query.owner}/${req.query.repo}`;
+      const input = parsed.data;
+
+      const auth = res.locals.auth as AuthContext;
+
+      // The assignee's name is stored with the row so the queue doesn't need a Clerk lookup per task
+      let assigneeName: string | null = null;
+      if (input.assigneeId) {
+        const isMember = !!auth.organizationId && (await clerkClient.organizations.getOrganizationMembershipList({
+          organizationId: auth.organizationId,
+          userId: [input.assigneeId],
+          limit: 1,
+        })).data.length > 0;
+        const assignee = isMember ? await clerkClient.users.getUser(input.assigneeId).catch(() => null) : null;
+        const metadata = ((assignee?.publicMetadata as unknown) || {}) as UserMetadata;
+        if (!assignee || !canAccessRepository(metadata.role || UserRole.MEMBER, metadata.assignedRepositories || [], repository)) {
+          return res.status(400).json({ error: "Assignee not found or has no access to this repository" });
+        }
+        assigneeName = getUserDisplayName(assignee) || assignee.id;
+      }
+
+      const row = await storage.upsertTaskTriage({
+        repository,
+        prNumber,
+        taskId: req.params.taskId,
+        state: input.state,
+        assigneeId: input.assigneeId,
+        assigneeName,
+        reason: input.reason || null,
+        updatedById: auth.userId || null,
+        updatedByName: auth.displayName || (auth.userId ? 'Unknown user' : 'Local user'),
+        updatedAt: new Date(),
+      });
+
+      requestLogger.info({ prNumber, taskId: row.taskId, state: row.state, assigneeId: row.assigneeId }, 'Task triaged');
+      res.json({ triage: toTaskTriageResponse(prNumber, row.taskId, row) });
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ prNumber: req.params.prNumber, taskId: req.params.taskId, error }, "Error updating task triage");
+      res.status(500).json({ error: "Failed to update task triage" });
+    }
+  });
+
+  // Indexed tasks across the repo; ?state= takes a comma-separated list and ?assignee= "me" or "unassigned"
+  app.get("/api/github/triage/queue", requireAuth, requireRepositoryAccess, async (req, res) => {
+    try {
+      if (!storage) {
+        return res.status(503).json({ error: "Task triage requires a database (DATABASE_URL)" });
+      }
+
+      const stateParam = typeof req.query.state === 'string' && req.query.state ? req.query.state : 'needs-review';
+      const states = stateParam === 'all' ? [...TRIAGE_STATES] : stateParam.split(',');
+      const parsedStates = triageStateSchema.array().min(1).safeParse(states);
+      if (!parsedStates.success) {
+        return res.status(400).json({ error: `Invalid state filter (expected ${TRIAGE_STATES.join(', ')} or all)` });
+      }
+
+      const auth = res.locals.auth as AuthContext;
+      let assigneeId: string | null | undefined;
+      if (req.query.assignee === 'unassigned') {
+        assigneeId = null;
+      } else if (req.query.assignee === 'me') {
+        if (!auth.userId) {
+          return res.status(400).json({ error: "Filtering by assignee requires signing in" });
+        }
+        assigneeId = auth.userId;
+      }
+
+      const parsedLimit = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : NaN;
+      const limit = isNaN(parsedLimit) ? 200 : Math.min(Math.max(parsedLimit, 1), MAX_TRIAGE_QUEUE_RESULTS);
+      const rows = await storage.getTriageQueue(`${req.query.owner}/${req.query.repo}`, {
+        states: parsedStates.data,
+        assigneeId,
+        limit,
+      });
+
+      res.json({ tasks: rows.map(toTriageQueueItem) });
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ error }, "Error fetching triage queue");
+      res.status(500).json({ error: "Failed to fetch triage queue" });
+    }
+  });
+
+  // Members of the caller's organization who can be assigned tasks in this repository; empty without Clerk
+  app.get("/api/github/triage/assignees", requireAuth, requireRepositoryAccess, requirePermission(Permission.TRIAGE), async (req, res) => {
+    try {
+      const auth = res.locals.auth as AuthContext;
+      if (!auth.userId || !auth.organizationId) {
+        return res.json({ assignees: [] });
+      }
+
+      const repository = `${req.query.owner}/${req.query.repo}`;
+      const users = await listOrganizationUsers(auth.organizationId);
+
+      const assignees: TriageAssignee[] = users
+        .filter((user) => {
+          const metadata = ((user.publicMetadata as unknown) || {}) as UserMetadata;
+          return canAccessRepository(metadata.role || UserRole.MEMBER, metadata.assignedRepositories || [], repository);
+        })
+        .map((user) => ({ id: user.id, name: getUserDisplayName(user) || user.id }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      res.json({ assignees });
+    } catch (error) {
+      const requestLogger = res.locals.logger || logger;
+      requestLogger.error({ error }, "Error fetching triage assignees");
+      res.status(500).json({ error: "Failed to fetch assignees" });
+    }
+  });
+
   // Get review comments for a workflow run
   app.get("/api/github/review-comments-for-run/:runId", requireAuth, requireRepositoryAccess, async (req, res) => {
     try {
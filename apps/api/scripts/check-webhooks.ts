@@ -0,0 +1,159 @@
+import assert from "assert/strict";
+import { createHmac } from "crypto";
+import { readFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { fileURLToPath } from "url";
+import pino from "pino";
+import type { WorkflowRunStore } from "../../../packages/github-client/index.js";
+import type { GitHubWorkflowRun, LiveUpdateEvent } from "../../../packages/shared/schema.js";
+import { LiveUpdateBus } from "../events.js";
+import { handleWebhookEvent, verifyWebhookSignature } from "../webhooks.js";
+
+/**
+ * Webhook receiver check
+ * Replays the recorded GitHub deliveries in fixtures/webhooks through signature
+ * verification and handleWebhookEvent, with an in-memory store and bus instead of
+ * a database or GitHub. Run with `pnpm --filter @logflix/api check:webhooks`.
+ */
+
+const FIXTURES_DIR = resolve(dirname(fileURLToPath(import.meta.url)), "../fixtures/webhooks");
+const SECRET = "fixture-webhook-secret";
+const RECEIVED_AT = new Date("2025-07-14T09:45:00Z");
+
+const logger = pino({ level: "silent" });
+
+function loadFixture(name: string): { rawBody: Buffer; payload: any } {
+  const rawBody = readFileSync(resolve(FIXTURES_DIR, `${name}.json`));
+  return { rawBody, payload: JSON.parse(rawBody.toString("utf8")) };
+}
+
+function sign(rawBody: Buffer, secret = SECRET): string {
+  return `sha256=${createHmac("sha256", secret).update(rawBody).digest("hex")}`;
+}
+
+/**
+ * Store that only records the writes webhook handling is allowed to make
+ */
+function createRecordingStore() {
+  const runs: Array<{ repository: string; runs: GitHubWorkflowRun[] }> = [];
+  const jobs: Array<{ repository: string; runId: number; jobIds: number[] }> = [];
+  const store: Pick<WorkflowRunStore, "saveWorkflowRuns" | "saveWorkflowJobs"> = {
+    async saveWorkflowRuns(repository, savedRuns) {
+      runs.push({ repository, runs: savedRuns });
+    },
+    async saveWorkflowJobs(repository, runId, savedJobs) {
+      jobs.push({ repository, runId, jobIds: savedJobs.map(job => job.id) });
+    },
+  };
+  return { store: store as WorkflowRunStore, runs, jobs };
+}
+
+async function deliver(eventName: string, fixture: string) {
+  const { rawBody, payload } = loadFixture(fixture);
+  assert.ok(verifyWebhookSignature(rawBody, sign(rawBody), SECRET), `${fixture}: signature should verify`);
+
+  const recording = createRecordingStore();
+  const bus = new LiveUpdateBus();
+  const published: LiveUpdateEvent[] = [];
+  bus.subscribe(event => published.push(event));
+
+  const result = await handleWebhookEvent(eventName, payload, {
+    store: recording.store,
+    bus,
+    logger,
+    now: () => RECEIVED_AT,
+  });
+  return { result, published, ...recording };
+}
+
+const checks: Array<[string, () => Promise<void> | void]> = [
+  ["rejects missing, malformed, wrong-secret and tampered signatures", () => {
+    const { rawBody } = loadFixture("workflow_run.completed");
+    assert.equal(verifyWebhookSignature(rawBody, undefined, SECRET), false);
+    assert.equal(verifyWebhookSignature(rawBody, "sha1=abc", SECRET), false);
+    assert.equal(verifyWebhookSignature(rawBody, sign(rawBody, "another-secret"), SECRET), false);
+    assert.equal(verifyWebhookSignature(Buffer.concat([rawBody, Buffer.from(" ")]), sign(rawBody), SECRET), false);
+  }],
+
+  ["workflow_run stores the run and publishes its status to the PR", async () => {
+    const { result, published, runs } = await deliver("workflow_run", "workflow_run.completed");
+    assert.equal(result.handled, true);
+    assert.equal(runs.length, 1);
+    assert.equal(runs[0].repository, "acme-labs/agent-tasks");
+    assert.deepEqual(
+      { id: runs[0].runs[0].id, attempt: runs[0].runs[0].run_attempt, conclusion: runs[0].runs[0].conclusion },
+      { id: 16241782310, attempt: 2, conclusion: "failure" }
+    );
+    assert.deepEqual(published, [{
+      type: "workflow_run",
+      action: "completed",
+      repository: "acme-labs/agent-tasks",
+      pullRequests: [287],
+      runId: 16241782310,
+      status: "completed",
+      conclusion: "failure",
+      receivedAt: RECEIVED_AT.toISOString(),
+    }]);
+  }],
+
+  ["workflow_job stores the job under its run and publishes it without PR numbers", async () => {
+    const { result, published, jobs } = await deliver("workflow_job", "workflow_job.completed");
+    assert.equal(result.handled, true);
+    assert.deepEqual(jobs, [{ repository: "acme-labs/agent-tasks", runId: 16241782310, jobIds: [45530912877] }]);
+    assert.equal(published.length, 1);
+    assert.deepEqual(
+      { runId: published[0].runId, jobId: published[0].jobId, pullRequests: published[0].pullRequests, conclusion: published[0].conclusion },
+      { runId: 16241782310, jobId: 45530912877, pullRequests: [], conclusion: "failure" }
+    );
+  }],
+
+  ["pull_request publishes the PR state", async () => {
+    const { result, published, runs, jobs } = await deliver("pull_request", "pull_request.synchronize");
+    assert.equal(result.handled, true);
+    assert.equal(runs.length + jobs.length, 0);
+    assert.deepEqual(
+      { type: published[0].type, action: published[0].action, pullRequests: published[0].pullRequests, status: published[0].status },
+      { type: "pull_request", action: "synchronize", pullRequests: [287], status: "open" }
+    );
+  }],
+
+  ["issue_comment on a PR publishes to that PR", async () => {
+    const { result, published } = await deliver("issue_comment", "issue_comment.created");
+    assert.equal(result.handled, true);
+    assert.deepEqual(
+      { type: published[0].type, pullRequests: published[0].pullRequests },
+      { type: "issue_comment", pullRequests: [287] }
+    );
+  }],
+
+  ["issue_comment on a plain issue is skipped", async () => {
+    const { result, published } = await deliver("issue_comment", "issue_comment.issue");
+    assert.equal(result.handled, false);
+    assert.equal(published.length, 0);
+  }],
+
+  ["unsupported events are ignored", async () => {
+    const { result, published, runs } = await deliver("check_suite", "workflow_run.completed");
+    assert.equal(result.handled, false);
+    assert.equal(published.length + runs.length, 0);
+  }],
+];
+
+async function main() {
+  let failures = 0;
+  for (const [name, check] of checks) {
+    try {
+      await check();
+      console.log(`ok - ${name}`);
+    } catch (error) {
+      failures++;
+      console.error(`not ok - ${name}`);
+      console.error(error);
+    }
+  }
+
+  console.log(`${checks.length - failures}/${checks.length} webhook checks passed`);
+  process.exitCode = failures > 0 ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,794 @@
+import { and, desc, eq, gte, inArray, isNull, lt, or, sql, type SQL } from "drizzle-orm";
+import type {
+  WorkflowRunStore,
+  StoredAgentTestResult,
+  StoredWorkflowJob,
+  StoredArtifactFile,
+  StoredTaskDefinition,
+  StoredFailureLog,
+} from "../../packages/github-client/index.js";
+import {
+  workflowRuns,
+  workflowJobs,
+  agentTestResults,
+  workflowArtifacts,
+  artifactFiles,
+  taskDefinitions,
+  failureLogs,
+  annotations,
+  type AnnotationRow,
+  type InsertAnnotation,
+  taskTriage,
+  type TaskTriageRow,
+  type InsertTaskTriage,
+  type TriageState,
+  auditLog,
+  type AuditLogRow,
+  type InsertAuditLog,
+  apiTokens,
+  type ApiTokenRow,
+  type InsertApiToken,
+  type GitHubWorkflowRun,
+  type GitHubWorkflowArtifact,
+  type RepoSearchTaskHit,
+  type RepoSearchFailureHit,
+} from "../../packages/shared/schema.js";
+import { db, type Database } from "./db.js";
+
+/**
+ * Filters for repo-wide search; `query` uses web search syntax ("quoted phrases", OR, -exclude)
+ */
+export interface RepoSearchFilters {
+  query?: string;
+  tag?: string;
+  category?: string;
+  since?: Date;
+  limit: number;
+}
+
+/**
+ * PASS/FAIL result counts per agent and model, grouped by a time period or a task attribute
+ */
+export interface AgentResultCount {
+  agentName: string;
+  model: string | null;
+  status: 'PASS' | 'FAIL';
+  count: number;
+}
+
+/**
+ * Which indexed tasks the review queue lists; `assigneeId: null` means unassigned only
+ */
+export interface TriageQueueFilters {
+  states: TriageState[];
+  assigneeId?: string | null;
+  limit: number;
+}
+
+/**
+ * An indexed task with its triage row, if it has been triaged
+ */
+export interface TriageQueueRow {
+  prNumber: number;
+  taskId: string;
+  instruction: string;
+  category: string | null;
+  difficulty: string | null;
+  triage: TaskTriageRow | null;
+}
+
+/**
+ * Audit log query; `organizationId` scopes to one Clerk organization and `beforeId` pages back from the newest entry
+ */
+export interface AuditLogFilters {
+  organizationId?: string;
+  actorId?: string;
+  action?: string;
+  repository?: string;
+  since?: Date;
+  until?: Date;
+  beforeId?: number;
+  limit: number;
+}
+
+export type AnalyticsBucket = 'day' | 'week' | 'month';
+
+/**
+ * One resolved agent result of one run attempt, for comparing attempts on the same commit
+ */
+export interface AttemptResult {
+  headSha: string;
+  prNumber: number | null;
+  runId: number;
+  runAttempt: number;
+  agentName: string;
+  model: string | null;
+  status: 'PASS' | 'FAIL';
+}
+
+// Matches are wrapped in <<< >>> so the client can highlight without trusting HTML
+const HEADLINE_OPTIONS = 'StartSel=<<<, StopSel=>>>, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "';
+
+/**
+ * Database-backed run/result store
+ * Keeps workflow runs, jobs, agent results and artifact file indexes so they
+ * remain available after GitHub expires the underlying artifacts and logs
+ */
+export class DatabaseStorage implements WorkflowRunStore {
+  constructor(private readonly database: Database) {}
+
+  async saveWorkflowRuns(repository: string, runs: GitHubWorkflowRun[], prNumber?: number): Promise<void> {
+    if (runs.length === 0) return;
+    const syncedAt = new Date();
+
+    await this.database
+      .insert(workflowRuns)
+      .values(runs.map(run => ({
+        id: run.id,
+        repository,
+        workflowId: run.workflow_id ?? null,
+        workflowName: run.workflow_name ?? null,
+        name: run.name,
+        status: run.status,
+        conclusion: run.conclusion,
+        headSha: run.head_sha,
+        headBranch: run.head_branch,
+        prNumber: prNumber ?? null,
+        runNumber: run.run_number,
+        runAttempt: run.run_attempt,
+        htmlUrl: run.html_url,
+        createdAt: new Date(run.created_at),
+        updatedAt: new Date(run.updated_at),
+        syncedAt,
+      })))
+      .onConflictDoUpdate({
+        target: workflowRuns.id,
+        set: {
+          status: sql`excluded.status`,
+          conclusion: sql`excluded.conclusion`,
+          prNumber: sql`coalesce(excluded.pr_number, ${workflowRuns.prNumber})`,
+          updatedAt: sql`excluded.updated_at`,
+          syncedAt: sql`excluded.synced_at`,
+        },
+      });
+  }
+
+  async saveWorkflowJobs(repository: string, runId: number, jobs: StoredWorkflowJob[]): Promise<void> {
+    if (jobs.length === 0) return;
+    const syncedAt = new Date();
+
+    await this.database
+      .insert(workflowJobs)
+      .values(jobs.map(job => ({
+        id: job.id,
+        runId,
+        repository,
+        name: job.name,
+        status: job.status,
+        conclusion: job.conclusion,
+        syncedAt,
+      })))
+      .onConflictDoUpdate({
+        target: workflowJobs.id,
+        set: {
+          status: sql`excluded.status`,
+          conclusion: sql`excluded.conclusion`,
+          syncedAt: sql`excluded.synced_at`,
+        },
+      });
+  }
+
+  async saveAgentTestResults(repository: string, runId: number, results: StoredAgentTestResult[]): Promise<void> {
+    if (results.length === 0) return;
+    const recordedAt = new Date();
+
+    await this.database
+      .insert(agentTestResults)
+      .values(results.map(result => ({
+        runId,
+        jobId: result.jobId,
+        runAttempt: result.runAttempt,
+        repository,
+        agentName: result.agentName,
+        model: result.model,
+        status: result.status,
+        source: result.source,
+        conclusion: result.conclusion,
+        jobStatus: result.jobStatus,
+        recordedAt,
+      })))
+      .onConflictDoUpdate({
+        target: [agentTestResults.runId, agentTestResults.jobId],
+        set: {
+          status: sql`excluded.status`,
+          source: sql`excluded.source`,
+          conclusion: sql`excluded.conclusion`,
+          jobStatus: sql`excluded.job_status`,
+          recordedAt: sql`excluded.recorded_at`,
+        },
+      });
+  }
+
+  async getAgentTestResults(repository: string, runId: number): Promise<StoredAgentTestResult[]> {
+    const rows = await this.database
+      .select()
+      .from(agentTestResults)
+      .where(and(eq(agentTestResults.repository, repository), eq(agentTestResults.runId, runId)));
+
+    return rows.map(row => ({
+      jobId: row.jobId,
+      runAttempt: row.runAttempt,
+      agentName: row.agentName,
+      model: row.model,
+      status: row.status as StoredAgentTestResult['status'],
+      source: row.source as StoredAgentTestResult['source'],
+      conclusion: row.conclusion,
+      jobStatus: row.jobStatus,
+    }));
+  }
+
+  async saveWorkflowArtifacts(repository: string, runId: number, artifacts: GitHubWorkflowArtifact[]): Promise<void> {
+    if (artifacts.length === 0) return;
+    const syncedAt = new Date();
+
+    await this.database
+      .insert(workflowArtifacts)
+      .values(artifacts.map(artifact => ({
+        id: artifact.id,
+        runId,
+        repository,
+        name: artifact.name,
+        sizeInBytes: artifact.size_in_bytes,
+        downloadUrl: artifact.download_url,
+        expired: artifact.expired,
+        createdAt: artifact.created_at ? new Date(artifact.created_at) : null,
+        updatedAt: artifact.updated_at ? new Date(artifact.updated_at) : null,
+        syncedAt,
+      })))
+      .onConflictDoUpdate({
+        target: workflowArtifacts.id,
+        set: {
+          expired: sql`excluded.expired`,
+          updatedAt: sql`excluded.updated_at`,
+          syncedAt: sql`excluded.synced_at`,
+        },
+      });
+  }
+
+  async getWorkflowArtifacts(repository: string, runId: number): Promise<GitHubWorkflowArtifact[]> {
+    const rows = await this.database
+      .select()
+      .from(workflowArtifacts)
+      .where(and(eq(workflowArtifacts.repository, repository), eq(workflowArtifacts.runId, runId)));
+
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      size_in_bytes: row.sizeInBytes,
+      download_url: row.downloadUrl,
+      created_at: row.createdAt ? row.createdAt.toISOString() : null,
+      updated_at: row.updatedAt ? row.updatedAt.toISOString() : null,
+      expired: row.expired,
+      workflow_run_id: row.runId,
+    }));
+  }
+
+  async saveArtifactFiles(artifactId: number, files: StoredArtifactFile[]): Promise<void> {
+    if (files.length === 0) return;
+
+    await this.database
+      .insert(artifactFiles)
+      .values(files.map(file => ({
+        artifactId,
+        path: file.path,
+        name: file.name,
+        size: file.size,
+      })))
+      .onConflictDoNothing({ target: [artifactFiles.artifactId, artifactFiles.path] });
+  }
+
+  // File rows carry no repository of their own; it comes from the artifact they belong to
+  async getArtifactFiles(repository: string, artifactId: number): Promise<StoredArtifactFile[]> {
+    const rows = await this.database
+      .select({ name: artifactFiles.name, path: artifactFiles.path, size: artifactFiles.size })
+      .from(artifactFiles)
+      .innerJoin(workflowArtifacts, eq(workflowArtifacts.id, artifactFiles.artifactId))
+      .where(and(eq(workflowArtifacts.repository, repository), eq(artifactFiles.artifactId, artifactId)));
+
+    return rows.map(row => ({ name: row.name, path: row.path, size: row.size }));
+  }
+
+  async saveTaskDefinitions(repository: string, prNumber: number, tasks: StoredTaskDefinition[]): Promise<void> {
+    if (tasks.length === 0) return;
+    const indexedAt = new Date();
+
+    await this.database
+      .insert(taskDefinitions)
+      .values(tasks.map(task => ({
+        repository,
+        prNumber,
+        taskId: task.taskId,
+        instruction: task.instruction,
+        category: task.category,
+        difficulty: task.difficulty,
+        tags: task.tags,
+        searchText: [task.taskId, task.instruction, task.category, ...task.tags].filter(Boolean).join('\n'),
+        indexedAt,
+      })))
+      .onConflictDoUpdate({
+        target: [taskDefinitions.repository, taskDefinitions.prNumber, taskDefinitions.taskId],
+        set: {
+          instruction: sql`excluded.instruction`,
+          category: sql`excluded.category`,
+          difficulty: sql`excluded.difficulty`,
+          tags: sql`excluded.tags`,
+          searchText: sql`excluded.search_text`,
+          indexedAt: sql`excluded.indexed_at`,
+        },
+      });
+  }
+
+  async saveFailureLogs(repository: string, runId: number, logs: StoredFailureLog[]): Promise<void> {
+    if (logs.length === 0) return;
+    const indexedAt = new Date();
+
+    await this.database
+      .insert(failureLogs)
+      .values(logs.map(log => ({
+        jobId: log.jobId,
+        runId,
+        repository,
+        agentName: log.agentName,
+        model: log.model,
+        content: log.content,
+        indexedAt,
+      })))
+      .onConflictDoNothing({ target: failureLogs.jobId });
+  }
+
+  async getFailureLogJobIds(repository: string, runId: number): Promise<number[]> {
+    const rows = await this.database
+      .select({ jobId: failureLogs.jobId })
+      .from(failureLogs)
+      .where(and(eq(failureLogs.repository, repository), eq(failureLogs.runId, runId)));
+
+    return rows.map(row => row.jobId);
+  }
+
+  /**
+   * Full-text search over indexed task.yaml fields, optionally narrowed by tag and category
+   */
+  async searchTaskDefinitions(repository: string, filters: RepoSearchFilters): Promise<RepoSearchTaskHit[]> {
+    const conditions: SQL[] = [eq(taskDefinitions.repository, repository), ...this.taskFilterConditions(filters)];
+    const tsQuery = filters.query ? sql`websearch_to_tsquery('english', ${filters.query})` : null;
+
+    if (tsQuery) {
+      conditions.push(sql`to_tsvector('english', ${taskDefinitions.searchText}) @@ ${tsQuery}`);
+    }
+
+    const rows = await this.database
+      .select({
+        prNumber: taskDefinitions.prNumber,
+        taskId: taskDefinitions.taskId,
+        category: taskDefinitions.category,
+        difficulty: taskDefinitions.difficulty,
+        tags: taskDefinitions.tags,
+        indexedAt: taskDefinitions.indexedAt,
+        snippet: tsQuery
+          ? sql<string>`ts_headline('english', ${taskDefinitions.instruction}, ${tsQuery}, ${HEADLINE_OPTIONS})`
+          : sql<string>`left(${taskDefinitions.instruction}, 240)`,
+      })
+      .from(taskDefinitions)
+      .where(and(...conditions))
+      .orderBy(tsQuery
+        ? desc(sql`ts_rank(to_tsvector('english', ${taskDefinitions.searchText}), ${tsQuery})`)
+        : desc(taskDefinitions.prNumber))
+      .limit(filters.limit);
+
+    return rows.map(row => ({ ...row, indexedAt: row.indexedAt.toISOString() }));
+  }
+
+  /**
+   * Full-text search over stored failure logs, joined to the run and the tasks of its PR
+   * Tag and category filters restrict hits to PRs that touch a matching task
+   */
+  async searchFailureLogs(repository: string, filters: RepoSearchFilters & { query: string }): Promise<RepoSearchFailureHit[]> {
+    const tsQuery = sql`websearch_to_tsquery('english', ${filters.query})`;
+    const conditions: SQL[] = [
+      eq(failureLogs.repository, repository),
+      sql`to_tsvector('english', ${failureLogs.content}) @@ ${tsQuery}`,
+    ];
+
+    if (filters.since) {
+      conditions.push(gte(workflowRuns.createdAt, filters.since));
+    }
+
+    const taskConditions = this.taskFilterConditions(filters);
+    if (taskConditions.length > 0) {
+      conditions.push(sql`exists (
+        select 1 from ${taskDefinitions}
+        where ${taskDefinitions.repository} = ${failureLogs.repository}
+          and ${taskDefinitions.prNumber} = ${workflowRuns.prNumber}
+          and ${and(...taskConditions)}
+      )`);
+    }
+
+    const rows = await this.database
+      .select({
+        prNumber: workflowRuns.prNumber,
+        taskIds: sql<string[]>`coalesce((
+          select array_agg(${taskDefinitions.taskId}) from ${taskDefinitions}
+          where ${taskDefinitions.repository} = ${failureLogs.repository}
+            and ${taskDefinitions.prNumber} = ${workflowRuns.prNumber}
+        ), '{}'::text[])`,
+        runId: failureLogs.runId,
+        runNumber: workflowRuns.runNumber,
+        jobId: failureLogs.jobId,
+        agentName: failureLogs.agentName,
+        model: failureLogs.model,
+        snippet: sql<string>`ts_headline('english', ${failureLogs.content}, ${tsQuery}, ${HEADLINE_OPTIONS})`,
+        runCreatedAt: workflowRuns.createdAt,
+        htmlUrl: workflowRuns.htmlUrl,
+      })
+      .from(failureLogs)
+      .leftJoin(workflowRuns, eq(workflowRuns.id, failureLogs.runId))
+      .where(and(...conditions))
+      .orderBy(desc(sql`coalesce(${workflowRuns.createdAt}, ${failureLogs.indexedAt})`))
+      .limit(filters.limit);
+
+    return rows.map(row => ({
+      ...row,
+      runCreatedAt: row.runCreatedAt ? row.runCreatedAt.toISOString() : null,
+    }));
+  }
+
+  /**
+   * Tags and categories of indexed tasks with their task counts, for search filters
+   */
+  async getTaskFacets(repository: string): Promise<{
+    tags: Array<{ value: string; count: number }>;
+    categories: Array<{ value: string; count: number }>;
+  }> {
+    const tagRows = await this.database.execute<{ value: string; count: number }>(sql`
+      select tag as value, count(*)::int as count
+      from ${taskDefinitions}, unnest(${taskDefinitions.tags}) as tag
+      where ${taskDefinitions.repository} = ${repository}
+      group by tag
+      order by count desc, tag
+      limit 100
+    `);
+
+    const categories = await this.database
+      .select({ value: sql<string>`${taskDefinitions.category}`, count: sql<number>`count(*)::int` })
+      .from(taskDefinitions)
+      .where(and(eq(taskDefinitions.repository, repository), sql`${taskDefinitions.category} is not null`))
+      .groupBy(taskDefinitions.category)
+      .orderBy(desc(sql`count(*)`));
+
+    return { tags: tagRows.rows, categories };
+  }
+
+  /**
+   * Resolved agent results per period of the run's creation time
+   */
+  async getAgentResultCountsByPeriod(
+    repository: string,
+    bucket: AnalyticsBucket,
+    since?: Date
+  ): Promise<Array<AgentResultCount & { period: Date }>> {
+    // The bucket is inlined (not a bind parameter) so the GROUP BY expression matches the select
+    const period = sql<Date>`date_trunc(${sql.raw(`'${bucket}'`)}, ${workflowRuns.createdAt})`;
+
+    const rows = await this.database
+      .select({
+        agentName: agentTestResults.agentName,
+        model: agentTestResults.model,
+        status: agentTestResults.status,
+        period,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(agentTestResults)
+      .innerJoin(workflowRuns, eq(workflowRuns.id, agentTestResults.runId))
+      .where(and(...this.resultConditions(repository, since)))
+      .groupBy(agentTestResults.agentName, agentTestResults.model, agentTestResults.status, period);
+
+    return rows.map(row => ({
+      ...row,
+      status: row.status as AgentResultCount['status'],
+      period: new Date(row.period),
+    }));
+  }
+
+  /**
+   * Resolved agent results per difficulty or category of the tasks in the run's PR
+   * Results aren't tied to a single task, so each counts once per value however many of the PR's tasks share it
+   */
+  async getAgentResultCountsByTask(
+    repository: string,
+    field: 'difficulty' | 'category',
+    since?: Date
+  ): Promise<Array<AgentResultCount & { value: string }>> {
+    const value = field === 'difficulty'
+      ? sql<string>`coalesce(${taskDefinitions.difficulty}, 'unspecified')`
+      : sql<string>`coalesce(${taskDefinitions.category}, 'uncategorized')`;
+
+    const rows = await this.database
+      .select({
+        agentName: agentTestResults.agentName,
+        model: agentTestResults.model,
+        status: agentTestResults.status,
+        value,
+        count: sql<number>`count(distinct ${agentTestResults.id})::int`,
+      })
+      .from(agentTestResults)
+      .innerJoin(workflowRuns, eq(workflowRuns.id, agentTestResults.runId))
+      .innerJoin(taskDefinitions, and(
+        eq(taskDefinitions.repository, agentTestResults.repository),
+        eq(taskDefinitions.prNumber, workflowRuns.prNumber)
+      ))
+      .where(and(...this.resultConditions(repository, since)))
+      .groupBy(agentTestResults.agentName, agentTestResults.model, agentTestResults.status, value);
+
+    return rows.map(row => ({ ...row, status: row.status as AgentResultCount['status'] }));
+  }
+
+  /**
+   * Resolved agent results on head commits with results from more than one run or attempt, oldest attempt first
+   */
+  async getRepeatedAttemptResults(repository: string): Promise<AttemptResult[]> {
+    const repeatedShas = this.database
+      .select({ headSha: workflowRuns.headSha })
+      .from(agentTestResults)
+      .innerJoin(workflowRuns, eq(workflowRuns.id, agentTestResults.runId))
+      .where(and(...this.resultConditions(repository)))
+      .groupBy(workflowRuns.headSha)
+      .having(sql`count(distinct (${agentTestResults.runId}, ${agentTestResults.runAttempt})) > 1`);
+
+    const rows = await this.database
+      .select({
+        headSha: workflowRuns.headSha,
+        prNumber: workflowRuns.prNumber,
+        runId: workflowRuns.id,
+        runAttempt: agentTestResults.runAttempt,
+        agentName: agentTestResults.agentName,
+        model: agentTestResults.model,
+        status: agentTestResults.status,
+      })
+      .from(agentTestResults)
+      .innerJoin(workflowRuns, eq(workflowRuns.id, agentTestResults.runId))
+      .where(and(
+        ...this.resultConditions(repository),
+        inArray(workflowRuns.headSha, repeatedShas)
+      ))
+      .orderBy(workflowRuns.createdAt, agentTestResults.runAttempt);
+
+    return rows.map(row => ({ ...row, status: row.status as AttemptResult['status'] }));
+  }
+
+  /**
+   * Task ids indexed for each PR
+   */
+  async getTaskIdsByPR(repository: string): Promise<Array<{ prNumber: number; taskId: string }>> {
+    return this.database
+      .select({ prNumber: taskDefinitions.prNumber, taskId: taskDefinitions.taskId })
+      .from(taskDefinitions)
+      .where(eq(taskDefinitions.repository, repository));
+  }
+
+  /**
+   * Annotations on a run's artifacts, oldest first
+   */
+  async getAnnotations(repository: string, runId: number): Promise<AnnotationRow[]> {
+    return this.database
+      .select()
+      .from(annotations)
+      .where(and(eq(annotations.repository, repository), eq(annotations.runId, runId)))
+      .orderBy(annotations.createdAt);
+  }
+
+  async getAnnotation(repository: string, runId: number, id: number): Promise<AnnotationRow | undefined> {
+    const [row] = await this.database
+      .select()
+      .from(annotations)
+      .where(and(eq(annotations.repository, repository), eq(annotations.runId, runId), eq(annotations.id, id)));
+    return row;
+  }
+
+  async createAnnotation(annotation: InsertAnnotation): Promise<AnnotationRow> {
+    const [row] = await this.database.insert(annotations).values(annotation).returning();
+    return row;
+  }
+
+  /**
+   * Records the PR comment an annotation was mirrored to
+   */
+  async setAnnotationComment(id: number, commentId: number, commentUrl: string): Promise<AnnotationRow> {
+    const [row] = await this.database
+      .update(annotations)
+      .set({ githubCommentId: commentId, githubCommentUrl: commentUrl })
+      .where(eq(annotations.id, id))
+      .returning();
+    return row;
+  }
+
+  async deleteAnnotation(id: number): Promise<void> {
+    await this.database.delete(annotations).where(eq(annotations.id, id));
+  }
+
+  /**
+   * Triage rows for the tasks of one PR
+   */
+  async getTaskTriageForPR(repository: string, prNumber: number): Promise<TaskTriageRow[]> {
+    return this.database
+      .select()
+      .from(taskTriage)
+      .where(and(eq(taskTriage.repository, repository), eq(taskTriage.prNumber, prNumber)));
+  }
+
+  async upsertTaskTriage(triage: InsertTaskTriage): Promise<TaskTriageRow> {
+    const [row] = await this.database
+      .insert(taskTriage)
+      .values(triage)
+      .onConflictDoUpdate({
+        target: [taskTriage.repository, taskTriage.prNumber, taskTriage.taskId],
+        set: {
+          state: sql`excluded.state`,
+          assigneeId: sql`excluded.assignee_id`,
+          assigneeName: sql`excluded.assignee_name`,
+          reason: sql`excluded.reason`,
+          updatedById: sql`excluded.updated_by_id`,
+          updatedByName: sql`excluded.updated_by_name`,
+          updatedAt: sql`excluded.updated_at`,
+        },
+      })
+      .returning();
+    return row;
+  }
+
+  /**
+   * Indexed tasks in the given triage states, newest PR first
+   * Tasks without a triage row count as needs-review.
+   */
+  async getTriageQueue(repository: string, filters: TriageQueueFilters): Promise<TriageQueueRow[]> {
+    const conditions: SQL[] = [
+      eq(taskDefinitions.repository, repository),
+      inArray(sql<string>`coalesce(${taskTriage.state}, 'needs-review')`, filters.states),
+    ];
+    if (filters.assigneeId === null) {
+      conditions.push(sql`${taskTriage.assigneeId} is null`);
+    } else if (filters.assigneeId) {
+      conditions.push(eq(taskTriage.assigneeId, filters.assigneeId));
+    }
+
+    return this.database
+      .select({
+        prNumber: taskDefinitions.prNumber,
+        taskId: taskDefinitions.taskId,
+        instruction: taskDefinitions.instruction,
+        category: taskDefinitions.category,
+        difficulty: taskDefinitions.difficulty,
+        triage: taskTriage,
+      })
+      .from(taskDefinitions)
+      .leftJoin(taskTriage, and(
+        eq(taskTriage.repository, taskDefinitions.repository),
+        eq(taskTriage.prNumber, taskDefinitions.prNumber),
+        eq(taskTriage.taskId, taskDefinitions.taskId)
+      ))
+      .where(and(...conditions))
+      .orderBy(desc(taskDefinitions.prNumber), taskDefinitions.taskId)
+      .limit(filters.limit);
+  }
+
+  async appendAuditLog(entry: InsertAuditLog): Promise<void> {
+    await this.database.insert(auditLog).values(entry);
+  }
+
+  /**
+   * Audit entries matching the filters, newest first
+   */
+  async getAuditLog(filters: AuditLogFilters): Promise<AuditLogRow[]> {
+    const conditions: SQL[] = [];
+    if (filters.organizationId) {
+      conditions.push(eq(auditLog.organizationId, filters.organizationId));
+    }
+    if (filters.actorId) {
+      conditions.push(eq(auditLog.actorId, filters.actorId));
+    }
+    if (filters.action) {
+      conditions.push(eq(auditLog.action, filters.action));
+    }
+    if (filters.repository) {
+      conditions.push(eq(auditLog.repository, filters.repository));
+    }
+    if (filters.since) {
+      conditions.push(gte(auditLog.createdAt, filters.since));
+    }
+    if (filters.until) {
+      conditions.push(lt(auditLog.createdAt, filters.until));
+    }
+    if (filters.beforeId !== undefined) {
+      conditions.push(lt(auditLog.id, filters.beforeId));
+    }
+
+    return this.database
+      .select()
+      .from(auditLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLog.id))
+      .limit(filters.limit);
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiTokenRow> {
+    const [row] = await this.database.insert(apiTokens).values(token).returning();
+    return row;
+  }
+
+  /**
+   * A user's tokens that haven't been revoked, newest first; expired ones are included
+   */
+  async getApiTokens(userId: string): Promise<ApiTokenRow[]> {
+    return this.database
+      .select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getActiveApiTokenByHash(tokenHash: string): Promise<ApiTokenRow | undefined> {
+    const [row] = await this.database
+      .select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.tokenHash, tokenHash), isNull(apiTokens.revokedAt)));
+    return row;
+  }
+
+  /**
+   * Records a use of the token, at most once a minute to keep scripted bursts from writing every request
+   */
+  async touchApiToken(id: number): Promise<void> {
+    await this.database
+      .update(apiTokens)
+      .set({ lastUsedAt: sql`now()` })
+      .where(and(
+        eq(apiTokens.id, id),
+        or(isNull(apiTokens.lastUsedAt), lt(apiTokens.lastUsedAt, sql`now() - interval '1 minute'`))
+      ));
+  }
+
+  /**
+   * Revokes one of the user's tokens; false when it doesn't exist, isn't theirs or is already revoked
+   */
+  async revokeApiToken(userId: string, id: number): Promise<boolean> {
+    const rows = await this.database
+      .update(apiTokens)
+      .set({ revokedAt: sql`now()` })
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .returning({ id: apiTokens.id });
+    return rows.length > 0;
+  }
+
+  private resultConditions(repository: string, since?: Date): SQL[] {
+    const conditions: SQL[] = [
+      eq(agentTestResults.repository, repository),
+      inArray(agentTestResults.status, ['PASS', 'FAIL']),
+    ];
+    if (since) {
+      conditions.push(gte(workflowRuns.createdAt, since));
+    }
+    return conditions;
+  }
+
+  private taskFilterConditions(filters: RepoSearchFilters): SQL[] {
+    const conditions: SQL[] = [];
+    if (filters.tag) {
+      conditions.push(sql`${taskDefinitions.tags} @> array[${filters.tag}]::text[]`);
+    }
+    if (filters.category) {
+      conditions.push(eq(taskDefinitions.category, filters.category));
+    }
+    return conditions;
+  }
+}
+
+export const storage = db ? new DatabaseStorage(db) : undefined;
@@ -0,0 +1,35 @@
+import type { TaskTriage, TaskTriageRow, TriageQueueItem, TriageState } from "../../packages/shared/schema.js";
+import type { TriageQueueRow } from "./storage.js";
+
+/**
+ * Task triage
+ * A task has no row until someone triages it; these helpers fill in the
+ * needs-review default and shape rows for the PR view and the triage queue.
+ */
+
+const INSTRUCTION_PREVIEW_LENGTH = 240;
+
+export function toTaskTriageResponse(prNumber: number, taskId: string, row: TaskTriageRow | null | undefined): TaskTriage {
+  return {
+    prNumber,
+    taskId,
+    state: (row?.state as TriageState | undefined) ?? 'needs-review',
+    assigneeId: row?.assigneeId ?? null,
+    assigneeName: row?.assigneeName ?? null,
+    reason: row?.reason ?? null,
+    updatedByName: row?.updatedByName ?? null,
+    updatedAt: row ? row.updatedAt.toISOString() : null,
+  };
+}
+
+export function toTriageQueueItem(row: TriageQueueRow): TriageQueueItem {
+  const instruction = row.instruction.trim();
+  return {
+    ...toTaskTriageResponse(row.prNumber, row.taskId, row.triage),
+    category: row.category,
+    difficulty: row.difficulty,
+    instruction: instruction.length > INSTRUCTION_PREVIEW_LENGTH
+      ? `${instruction.slice(0, INSTRUCTION_PREVIEW_LENGTH).trimEnd()}…`
+      : instruction,
+  };
+}
@@ -0,0 +1,206 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Logger } from "pino";
+import type { WorkflowRunStore } from "../../packages/github-client/index.js";
+import type { GitHubWorkflowRun, LiveUpdateEvent } from "../../packages/shared/schema.js";
+import type { LiveUpdateBus } from "./events.js";
+
+/**
+ * GitHub webhook ingestion
+ * Kept free of Express so handlers can be exercised with recorded payload fixtures:
+ * pass the raw body, headers and a stub store/bus and inspect the result.
+ */
+
+export const SUPPORTED_WEBHOOK_EVENTS = ['workflow_run', 'workflow_job', 'pull_request', 'issue_comment', 'ping'] as const;
+
+export type SupportedWebhookEvent = typeof SUPPORTED_WEBHOOK_EVENTS[number];
+
+export interface WebhookDependencies {
+  store?: WorkflowRunStore;
+  bus: LiveUpdateBus;
+  logger: Logger;
+  now?: () => Date;
+}
+
+export interface WebhookResult {
+  handled: boolean;
+  event: string;
+  action?: string;
+  repository?: string;
+  update?: LiveUpdateEvent;
+}
+
+/**
+ * Verifies the `X-Hub-Signature-256` header against the raw request body
+ */
+export function verifyWebhookSignature(
+  rawBody: Buffer | string,
+  signatureHeader: string | undefined,
+  secret: string
+): boolean {
+  if (!signatureHeader || !signatureHeader.startsWith('sha256=')) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`,
+    'utf8'
+  );
+  const received = Buffer.from(signatureHeader, 'utf8');
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Maps a webhook `workflow_run` object onto the shared workflow run shape
+ */
+function toWorkflowRun(run: any): GitHubWorkflowRun {
+  return {
+    id: run.id,
+    name: run.name ?? null,
+    status: run.status,
+    conclusion: run.conclusion ?? null,
+    created_at: run.created_at,
+    updated_at: run.updated_at,
+    html_url: run.html_url,
+    workflow_id: run.workflow_id,
+    workflow_name: run.name ?? undefined,
+    head_sha: run.head_sha,
+    head_branch: run.head_branch ?? null,
+    run_number: run.run_number,
+    run_attempt: run.run_attempt || 1,
+  };
+}
+
+/**
+ * Extracts PR numbers from the `pull_requests` array on workflow runs
+ */
+function pullRequestNumbers(pullRequests: any[] | undefined): number[] {
+  return (pullRequests || [])
+    .map((pr: any) => pr?.number)
+    .filter((number: any): number is number => typeof number === 'number');
+}
+
+/**
+ * Applies a verified webhook delivery to server-side state and notifies live clients
+ */
+export async function handleWebhookEvent(
+  eventName: string,
+  payload: any,
+  deps: WebhookDependencies
+): Promise<WebhookResult> {
+  const { store, bus, logger } = deps;
+  const receivedAt = (deps.now ? deps.now() : new Date()).toISOString();
+  const repository: string | undefined = payload?.repository?.full_name;
+  const action: string | undefined = payload?.action;
+
+  if (eventName === 'ping') {
+    logger.info({ hookId: payload?.hook_id, repository }, 'Received webhook ping');
+    return { handled: true, event: eventName, repository };
+  }
+
+  if (!repository || !(SUPPORTED_WEBHOOK_EVENTS as readonly string[]).includes(eventName)) {
+    logger.debug({ eventName, action, repository }, 'Ignoring unsupported webhook event');
+    return { handled: false, event: eventName, action, repository };
+  }
+
+  let update: LiveUpdateEvent | undefined;
+
+  switch (eventName as SupportedWebhookEvent) {
+    case 'workflow_run': {
+      const run = payload.workflow_run;
+      if (!run) break;
+
+      if (store) {
+        await store.saveWorkflowRuns(repository, [toWorkflowRun(run)]);
+      }
+
+      update = {
+        type: 'workflow_run',
+        action: action || 'unknown',
+        repository,
+        pullRequests: pullRequestNumbers(run.pull_requests),
+        runId: run.id,
+        status: run.status,
+        conclusion: run.conclusion ?? null,
+        receivedAt,
+      };
+      break;
+    }
+
+    case 'workflow_job': {
+      const job = payload.workflow_job;
+      if (!job) break;
+
+      if (store) {
+        await store.saveWorkflowJobs(repository, job.run_id, [{
+          id: job.id,
+          name: job.name,
+          conclusion: job.conclusion ?? null,
+          status: job.status,
+        }]);
+      }
+
+      // Job payloads don't carry PR numbers; clients scope by run id instead
+      update = {
+        type: 'workflow_job',
+        action: action || 'unknown',
+        repository,
+        pullRequests: [],
+        runId: job.run_id,
+        jobId: job.id,
+        status: job.status,
+        conclusion: job.conclusion ?? null,
+        receivedAt,
+      };
+      break;
+    }
+
+    case 'pull_request': {
+      const pr = payload.pull_request;
+      if (!pr) break;
+
+      update = {
+        type: 'pull_request',
+        action: action || 'unknown',
+        repository,
+        pullRequests: [pr.number],
+        status: pr.state,
+        receivedAt,
+      };
+      break;
+    }
+
+    case 'issue_comment': {
+      const issue = payload.issue;
+      // issue_comment fires for issues too; only PR conversations are relevant
+      if (!issue || !issue.pull_request) break;
+
+      update = {
+        type: 'issue_comment',
+        action: action || 'unknown',
+        repository,
+        pullRequests: [issue.number],
+        receivedAt,
+      };
+      break;
+    }
+  }
+
+  if (!update) {
+    logger.debug({ eventName, action, repository }, 'Webhook payload not applicable, skipping');
+    return { handled: false, event: eventName, action, repository };
+  }
+
+  logger.info({
+    eventName,
+    action,
+    repository,
+    runId: update.runId,
+    jobId: update.jobId,
+    pullRequests: update.pullRequests,
+  }, 'Processed GitHub webhook');
+
+  bus.publish(update);
+
+  return { handled: true, event: eventName, action, repository, update };
+}
@@ -7,6 +7,12 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import RepositorySelector from "@/components/RepositorySelector";
 import { OrganizationManager } from "@/components/OrganizationManager";
 import Home from "@/pages/Home";
+import RepoSearch from "@/pages/RepoSearch";
+import RepoAnalytics from "@/pages/RepoAnalytics";
+import TriageQueue from "@/pages/TriageQueue";
+import AdminConsole from "@/pages/AdminConsole";
+import AuditLog from "@/pages/AuditLog";
+import ApiTokens from "@/pages/ApiTokens";
 import SignInPage from "@/pages/SignIn";
 import SignUpPage from "@/pages/SignUp";
 import NotFound from "@/pages/not-found";
@@ -79,6 +85,109 @@ function AuthenticatedRouter() {
         </SignedIn>
       </Route>
 
+      {/* Personal API tokens belong to a Clerk user, so this has no unauthenticated counterpart either */}
+      <Route path="/settings/tokens">
+        <SignedOut>
+          <Redirect to="/sign-in" />
+        </SignedOut>
+        <SignedIn>
+          <OrganizationManager />
+          <ApiTokens />
+        </SignedIn>
+      </Route>
+
+      {/* Admin console; needs Clerk for users and roles, so it has no unauthenticated counterpart */}
+      <Route path="/admin/audit">
+        <SignedOut>
+          <Redirect to="/sign-in" />
+        </SignedOut>
+        <SignedIn>
+          <OrganizationManager />
+          <AuditLog />
+        </SignedIn>
+      </Route>
+
+      <Route path="/admin">
+        <SignedOut>
+          <Redirect to="/sign-in" />
+        </SignedOut>
+        <SignedIn>
+          <OrganizationManager />
+          <AdminConsole />
+        </SignedIn>
+      </Route>
+
+      <Route path="/repo/:repo/analytics">
+        {(params) => (
+          <>
+            <SignedOut>
+              <Redirect to="/sign-in" />
+            </SignedOut>
+            <SignedIn>
+              <OrganizationManager />
+              <RepoAnalytics repoName={params.repo} />
+            </SignedIn>
+          </>
+        )}
+      </Route>
+
+      <Route path="/repo/:repo/triage">
+        {(params) => (
+          <>
+            <SignedOut>
+              <Redirect to="/sign-in" />
+            </SignedOut>
+            <SignedIn>
+              <OrganizationManager />
+              <TriageQueue repoName={params.repo} />
+            </SignedIn>
+          </>
+        )}
+      </Route>
+
+      <Route path="/repo/:repo/search">
+        {(params) => (
+          <>
+            <SignedOut>
+              <Redirect to="/sign-in" />
+            </SignedOut>
+            <SignedIn>
+              <OrganizationManager />
+              <RepoSearch repoName={params.repo} />
+            </SignedIn>
+          </>
+        )}
+      </Route>
+
+      {/* Deep links into a PR: /repo/:repo/pr/:pr/run/:runId/:tab */}
+      <Route path="/repo/:repo/pr/:pr/run/:runId/:tab?">
+        {(params) => (
+          <>
+            <SignedOut>
+              <Redirect to="/sign-in" />
+            </SignedOut>
+            <SignedIn>
+              <OrganizationManager />
+              <Home repoName={params.repo} linkParams={params} />
+            </SignedIn>
+          </>
+        )}
+      </Route>
+
+      <Route path="/repo/:repo/pr/:pr">
+        {(params) => (
+          <>
+            <SignedOut>
+              <Redirect to="/sign-in" />
+            </SignedOut>
+            <SignedIn>
+              <OrganizationManager />
+              <Home repoName={params.repo} linkParams={params} />
+            </SignedIn>
+          </>
+        )}
+      </Route>
+
       <Route path="/repo/:repo">
         {(params) => (
           <>
@@ -119,6 +228,77 @@ function UnauthenticatedRouter() {
         </div>
       </Route>
 
+      <Route path="/repo/:repo/analytics">
+        {(params) => (
+          <div className="relative">
+            {/* Warning banner that auth is disabled */}
+            <div className="absolute left-4 right-4 top-4 z-50 rounded-lg bg-yellow-500/10 border border-yellow-500/20 p-3 text-sm text-yellow-500">
+              <strong>Authentication Disabled:</strong> Configure VITE_CLERK_PUBLISHABLE_KEY to enable user authentication.
+            </div>
+            <div className="pt-16">
+              <RepoAnalytics repoName={params.repo} />
+            </div>
+          </div>
+        )}
+      </Route>
+
+      <Route path="/repo/:repo/triage">
+        {(params) => (
+          <div className="relative">
+            {/* Warning banner that auth is disabled */}
+            <div className="absolute left-4 right-4 top-4 z-50 rounded-lg bg-yellow-500/10 border border-yellow-500/20 p-3 text-sm text-yellow-500">
+              <strong>Authentication Disabled:</strong> Configure VITE_CLERK_PUBLISHABLE_KEY to enable user authentication.
+            </div>
+            <div className="pt-16">
+              <TriageQueue repoName={params.repo} />
+            </div>
+          </div>
+        )}
+      </Route>
+
+      <Route path="/repo/:repo/search">
+        {(params) => (
+          <div className="relative">
+            {/* Warning banner that auth is disabled */}
+            <div className="absolute left-4 right-4 top-4 z-50 rounded-lg bg-yellow-500/10 border border-yellow-500/20 p-3 text-sm text-yellow-500">
+              <strong>Authentication Disabled:</strong> Configure VITE_CLERK_PUBLISHABLE_KEY to enable user authentication.
+            </div>
+            <div className="pt-16">
+              <RepoSearch repoName={params.repo} />
+            </div>
+          </div>
+        )}
+      </Route>
+
+      {/* Deep links into a PR: /repo/:repo/pr/:pr/run/:runId/:tab */}
+      <Route path="/repo/:repo/pr/:pr/run/:runId/:tab?">
+        {(params) => (
+          <div className="relative">
+            {/* Warning banner that auth is disabled */}
+            <div className="absolute left-4 right-4 top-4 z-50 rounded-lg bg-yellow-500/10 border border-yellow-500/20 p-3 text-sm text-yellow-500">
+              <strong>Authentication Disabled:</strong> Configure VITE_CLERK_PUBLISHABLE_KEY to enable user authentication.
+            </div>
+            <div className="pt-16">
+              <Home repoName={params.repo} linkParams={params} />
+            </div>
+          </div>
+        )}
+      </Route>
+
+      <Route path="/repo/:repo/pr/:pr">
+        {(params) => (
+          <div className="relative">
+            {/* Warning banner that auth is disabled */}
+            <div className="absolute left-4 right-4 top-4 z-50 rounded-lg bg-yellow-500/10 border border-yellow-500/20 p-3 text-sm text-yellow-500">
+              <strong>Authentication Disabled:</strong> Configure VITE_CLERK_PUBLISHABLE_KEY to enable user authentication.
+            </div>
+            <div className="pt-16">
+              <Home repoName={params.repo} linkParams={params} />
+            </div>
+          </div>
+        )}
+      </Route>
+
       <Route path="/repo/:repo">
         {(params) => (
           <div className="relative">
@@ -6,6 +6,8 @@ import {
 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { sanitizeStatus } from "@/lib/statusHelpers";
+import { AgentFlakiness } from "@logflix/shared/schema";
+import FlakinessBadge from "./FlakinessBadge";
 
 interface AgentTestResult {
   model: string | null;
@@ -24,6 +26,7 @@ interface AgentTestResultsData {
 interface AgentResultsTableProps {
   agentTestResultsData: AgentTestResultsData | null | undefined;
   isLoading: boolean;
+  flakiness?: AgentFlakiness[];
 }
 
 /**
@@ -68,6 +71,24 @@ const StatusDisplay = ({ result }: { result: AgentTestResult }) => {
   );
 };
 
+/**
+ * Flakiness badge for one agent/model pair, keyed the same way as the server's agent keys
+ */
+const AgentFlakinessBadge = ({ agentName, model, flakiness }: { agentName: string; model: string | null; flakiness?: AgentFlakiness[] }) => {
+  const agentKey = model ? `${agentName} (${model})` : agentName;
+  const entry = flakiness?.find(f => f.agentKey === agentKey);
+  if (!entry) return null;
+
+  return (
+    <FlakinessBadge
+      score={entry.score}
+      commits={entry.commits}
+      flakyCommits={entry.flakyCommits.length}
+      details={entry.flakyCommits.map(c => `${c.headSha.substring(0, 7)}: ${c.outcomes.join(' → ')}`)}
+    />
+  );
+};
+
 /**
  * AgentResultsTable Component
  *
@@ -75,8 +96,9 @@ const StatusDisplay = ({ result }: { result: AgentTestResult }) => {
  * - Single-model agents (Oracle, NOP)
  * - Multi-model agents (Terminus with different LLMs)
  * - Status badges and tooltips
+ * - Flakiness badges for pairs whose results flipped between attempts on a commit
  */
-export default function AgentResultsTable({ agentTestResultsData, isLoading }: AgentResultsTableProps) {
+export default function AgentResultsTable({ agentTestResultsData, isLoading, flakiness }: AgentResultsTableProps) {
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-8">
@@ -166,8 +188,9 @@ export default function AgentResultsTable({ agentTestResultsData, isLoading }: A
                 {/* Model rows */}
                 {results.map((result, idx) => (
                   <div key={`${agentName}-${result.model || idx}`} className="grid grid-cols-[2fr_1.5fr_1.5fr] gap-6 px-4 py-3 hover:bg-muted/5 transition-colors">
-                    <div className="flex items-center text-sm text-foreground pl-6">
+                    <div className="flex items-center gap-2 text-sm text-foreground pl-6">
                       {result.model || 'Default'}
+                      <AgentFlakinessBadge agentName={agentName} model={result.model} flakiness={flakiness} />
                     </div>
                     <StatusDisplay result={result} />
                   </div>
@@ -198,16 +221,19 @@ export default function AgentResultsTable({ agentTestResultsData, isLoading }: A
 
             return (
               <div key={agentName} className="grid grid-cols-[2fr_1.5fr_1.5fr] gap-6 px-4 py-3 border-b border-muted/20 hover:bg-muted/5 transition-colors">
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <div className="text-sm font-semibold text-foreground cursor-help inline-block">
-                      {agentName}
-                    </div>
-                  </TooltipTrigger>
-                  <TooltipContent side="right">
-                    {agentTooltip}
-                  </TooltipContent>
-                </Tooltip>
+                <div className="flex items-center gap-2">
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <div className="text-sm font-semibold text-foreground cursor-help inline-block">
+                        {agentName}
+                      </div>
+                    </TooltipTrigger>
+                    <TooltipContent side="right">
+                      {agentTooltip}
+                    </TooltipContent>
+                  </Tooltip>
+                  <AgentFlakinessBadge agentName={agentName} model={result.model} flakiness={flakiness} />
+                </div>
                 <StatusDisplay result={result} />
               </div>
             );
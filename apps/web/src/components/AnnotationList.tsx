@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { ExternalLink, MessageSquarePlus, Trash2 } from "lucide-react";
+import type { Annotation } from "@logflix/shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { formatDateTime } from "@/lib/date";
+import { formatPlaybackTime } from "@/lib/cast";
+
+interface AnnotationListProps {
+  /** Annotations on the file being viewed */
+  annotations: Annotation[];
+  /** What a new annotation attaches to, e.g. "lines 10-12"; null until something is selected */
+  targetLabel: string | null;
+  /** Shown in place of the form while there is no target */
+  targetHint: string;
+  /** Mirroring needs a PR to comment on */
+  canMirror: boolean;
+  /** False for users without the annotate permission; the list is then read-only */
+  canCreate?: boolean;
+  isSaving: boolean;
+  onCreate: (body: string, mirrorToPR: boolean) => Promise<unknown>;
+  onSelect: (annotation: Annotation) => void;
+  onDelete: (annotation: Annotation) => void;
+}
+
+export function annotationLocation(annotation: Annotation): string {
+  if (annotation.castTime !== null) return formatPlaybackTime(annotation.castTime);
+  if (annotation.lineStart === null) return '';
+  return annotation.lineEnd !== null && annotation.lineEnd !== annotation.lineStart
+    ? `L${annotation.lineStart}-${annotation.lineEnd}`
+    : `L${annotation.lineStart}`;
+}
+
+/**
+ * Annotations on one log or cast, newest last, with a form for adding one at the current target
+ */
+export default function AnnotationList({
+  annotations,
+  targetLabel,
+  targetHint,
+  canMirror,
+  canCreate = true,
+  isSaving,
+  onCreate,
+  onSelect,
+  onDelete,
+}: AnnotationListProps) {
+  const [body, setBody] = useState('');
+  const [mirrorToPR, setMirrorToPR] = useState(false);
+
+  const submit = async () => {
+    if (!body.trim()) return;
+    try {
+      await onCreate(body.trim(), canMirror && mirrorToPR);
+      setBody('');
+    } catch {
+      // The mutation reports the error; keep the text so it can be retried
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-y-auto scrollbar-thin space-y-2 p-3">
+        {annotations.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No annotations on this file yet</p>
+        ) : annotations.map(annotation => (
+          <div key={annotation.id} className="rounded-lg border border-border p-2 text-sm">
+            <div className="flex items-center gap-2 mb-1">
+              <button
+                type="button"
+                className="font-mono text-xs text-info hover:underline"
+                onClick={() => onSelect(annotation)}
+                title="Jump to this annotation"
+              >
+                {annotationLocation(annotation)}
+              </button>
+              <span className="text-xs font-medium truncate">{annotation.authorName}</span>
+              <span className="text-xs text-muted-foreground ml-auto flex-shrink-0">{formatDateTime(annotation.createdAt)}</span>
+            </div>
+            <p className="text-xs whitespace-pre-wrap break-words">{annotation.body}</p>
+            {(annotation.githubCommentUrl || annotation.canDelete) && (
+              <div className="flex items-center gap-2 mt-1">
+                {annotation.githubCommentUrl && (
+                  <a
+                    href={annotation.githubCommentUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1"
+                  >
+                    <ExternalLink className="h-3 w-3" />
+                    PR comment
+                  </a>
+                )}
+                {annotation.canDelete && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-1 ml-auto text-muted-foreground hover:text-destructive"
+                    onClick={() => onDelete(annotation)}
+                    title="Delete annotation"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canCreate && (
+        <div className="border-t border-border p-3 space-y-2 flex-shrink-0">
+          {targetLabel ? (
+            <>
+              <Textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                placeholder={`Annotate ${targetLabel}`}
+                className="min-h-[64px] text-sm"
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submit();
+                }}
+              />
+              <div className="flex items-center gap-2">
+                {canMirror && (
+                  <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+                    <Checkbox checked={mirrorToPR} onCheckedChange={(checked) => setMirrorToPR(checked === true)} />
+                    Also post to PR
+                  </label>
+                )}
+                <Button size="sm" className="ml-auto" onClick={submit} disabled={!body.trim() || isSaving}>
+                  <MessageSquarePlus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">{targetHint}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
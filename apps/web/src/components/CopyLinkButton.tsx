@@ -0,0 +1,35 @@
+import { Link } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+
+interface CopyLinkButtonProps {
+  /** Called on click so the link reflects the state at that moment (e.g. the playback position) */
+  getUrl: () => string;
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Copies a deep link to the clipboard and confirms with a toast
+ */
+export default function CopyLinkButton({ getUrl, label = "Copy link", className }: CopyLinkButtonProps) {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    const url = getUrl();
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied", description: url });
+    } catch {
+      // Clipboard access is denied outside secure contexts; show the link so it can be copied by hand
+      toast({ title: "Couldn't copy link", description: url, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Button variant="ghost" size="sm" className={className} onClick={copy} title={label}>
+      <Link className="h-4 w-4 mr-1" />
+      {label}
+    </Button>
+  );
+}
@@ -1,127 +1,69 @@
 import { useState, useEffect, useMemo, useRef } from "react";
-import { Play, Pause, RotateCcw, Brain, Terminal, Clock } from "lucide-react";
+import { Play, Pause, RotateCcw, Brain, Terminal, Clock, Keyboard } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { cleanAnsiCodes } from "@/lib/ansi";
-import AnsiToHtml from "ansi-to-html";
-
-interface CastEvent {
-  timestamp: number;
-  type: "i" | "o" | "m";
-  content: string;
-}
-
-interface AgentThinking {
-  timestamp: number;
-  state_analysis?: string;
-  explanation?: string;
-  commands?: Array<string | { [key: string]: any }>;
-  is_task_complete?: boolean;
-  raw_content?: string;
-  [key: string]: any;
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import EpisodeTimeline from "./EpisodeTimeline";
+import TerminalScreenView from "./TerminalScreenView";
+import CopyLinkButton from "./CopyLinkButton";
+import AnnotationList from "./AnnotationList";
+import { useCastPlayback } from "@/hooks/useCastPlayback";
+import { getCommandText, toPlaybackTime, toRawTime } from "@/lib/cast";
+import type { Annotation } from "@logflix/shared/schema";
+
+interface CastAnnotations {
+  /** Annotations on this recording; times are in the uncompressed recording */
+  items: Annotation[];
+  canMirror: boolean;
+  canCreate: boolean;
+  isSaving: boolean;
+  onCreate: (time: number, body: string, mirrorToPR: boolean) => Promise<unknown>;
+  onDelete: (annotation: Annotation) => void;
 }
 
 interface CustomTerminalViewerProps {
   castContent: string;
   showAgentThinking?: boolean;
+  /** Jump playback to `time` (seconds from the first event); `nonce` lets the same time be requested twice */
+  seekTo?: { time: number; nonce: number } | null;
+  /** Names the session in episode exports */
+  title?: string;
+  /** Link to this session at `time` (seconds in the uncompressed recording); adds a copy link button */
+  shareLink?: (time: number) => string;
+  /** Adds a Notes tab and timeline markers */
+  annotations?: CastAnnotations;
 }
 
-export default function CustomTerminalViewer({ castContent, showAgentThinking = true }: CustomTerminalViewerProps) {
+export default function CustomTerminalViewer({ castContent, showAgentThinking = true, seekTo, title = 'Agent session', shareLink, annotations }: CustomTerminalViewerProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [playbackSpeed, setPlaybackSpeed] = useState(1);
   const [isScrubbing, setIsScrubbing] = useState(false);
   const [wasPlayingBeforeScrub, setWasPlayingBeforeScrub] = useState(false);
+  // 'auto' follows the recording's idle_time_limit; 'off' keeps every pause
+  const [idleLimit, setIdleLimit] = useState<'auto' | 'off' | number>('auto');
+  const [showInput, setShowInput] = useState(false);
   
   const terminalRef = useRef<HTMLDivElement>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
-
-  // Parse cast data
-  const { events, agentThoughts, startTime } = useMemo(() => {
-    const events: CastEvent[] = [];
-    const agentThoughts: AgentThinking[] = [];
-    let startTime = 0;
-    
-    if (!castContent) return { events, agentThoughts, startTime };
-
-    const lines = castContent.split('\n').filter(line => line.trim());
-    
-    for (const line of lines) {
-      try {
-        const parsed = JSON.parse(line);
-        
-        // Skip header line
-        if (parsed.version !== undefined) {
-          continue;
-        }
-        
-        // Parse event lines
-        if (Array.isArray(parsed) && parsed.length >= 3) {
-          const [timestamp, type, content] = parsed;
-          
-          if (startTime === 0) startTime = timestamp;
-          
-          events.push({
-            timestamp: timestamp - startTime,
-            type,
-            content
-          });
-          
-          // Parse agent thinking from 'm' events
-          if (type === 'm') {
-            // New format: "Episode N: X commands" (string)
-            // Old format: JSON object with thinking data
-            if (typeof content === 'string') {
-              // Check if it's an episode marker
-              const episodeMatch = content.match(/^Episode (\d+): (\d+) commands?$/);
-              if (episodeMatch) {
-                const [, episodeNum, commandCount] = episodeMatch;
-                agentThoughts.push({
-                  timestamp: timestamp - startTime,
-                  type: 'episode',
-                  episodeNumber: parseInt(episodeNum),
-                  commandCount: parseInt(commandCount),
-                  raw_content: content
-                });
-              } else {
-                // Try to parse as JSON
-                try {
-                  const thinking = JSON.parse(content);
-                  agentThoughts.push({
-                    timestamp: timestamp - startTime,
-                    ...thinking
-                  });
-                } catch {
-                  // Plain text metadata
-                  agentThoughts.push({
-                    timestamp: timestamp - startTime,
-                    raw_content: content
-                  });
-                }
-              }
-            } else {
-              // Object format
-              agentThoughts.push({
-                timestamp: timestamp - startTime,
-                ...content
-              });
-            }
-          }
-        }
-      } catch (error) {
-        // Skip malformed lines
-      }
-    }
-    
-    return { events, agentThoughts, startTime };
-  }, [castContent]);
-
-  // Get events up to current time
-  const visibleEvents = useMemo(() => {
-    return events.filter(event => event.timestamp <= currentTime);
-  }, [events, currentTime]);
+  const inputListRef = useRef<HTMLDivElement>(null);
+  const appliedSeekRef = useRef<number | null>(null);
+
+  // Parsing and the emulated screen at currentTime come from a worker
+  const { summary, frame } = useCastPlayback(castContent, currentTime, {
+    idleTimeLimit: idleLimit === 'auto' ? undefined : idleLimit === 'off' ? null : idleLimit,
+  });
+  const maxTime = summary?.maxTime ?? 0;
+  const headerIdleLimit = summary?.header.idleTimeLimit;
+
+  const typedInput = useMemo(
+    () => (summary?.inputLines ?? []).filter(line => line.timestamp <= currentTime),
+    [summary, currentTime]
+  );
+  const agentThoughts = useMemo(() => summary?.agentThoughts ?? [], [summary]);
+  const episodes = useMemo(() => summary?.episodes ?? [], [summary]);
 
   // Get current agent thinking
   const currentThinking = useMemo(() => {
@@ -129,117 +71,85 @@ export default function CustomTerminalViewer({ castContent, showAgentThinking =
     return relevantThoughts[relevantThoughts.length - 1];
   }, [agentThoughts, currentTime]);
 
-  // Calculate max time first
-  const maxTime = Math.max(...events.map(e => e.timestamp), 0);
-
   // Extract thinking events for timeline markers, with fallback interval markers
   const thinkingEvents = useMemo(() => {
-    const agentThinkingEvents = events.filter(event => event.type === 'm');
+    const markers = summary?.markers ?? [];
     
     // If we have agent thinking events, use those
-    if (agentThinkingEvents.length > 0) {
-      return agentThinkingEvents;
+    if (markers.length > 0) {
+      return markers.map(timestamp => ({ timestamp, type: 'm' }));
     }
     
     // Otherwise, create fallback markers at regular intervals for navigation
-    if (maxTime > 0 && events.length > 0) {
-      const intervalMarkers: CastEvent[] = [];
+    if (maxTime > 0) {
+      const intervalMarkers: Array<{ timestamp: number; type: string }> = [];
       const markerCount = Math.min(8, Math.max(3, Math.floor(maxTime / 30))); // One marker every ~30 seconds, max 8 markers
       
       for (let i = 1; i < markerCount; i++) {
         const timestamp = (i * maxTime) / markerCount;
         intervalMarkers.push({
           timestamp,
-          type: 'o', // Use output type as fallback
-          content: `Navigation marker ${i}`
+          type: 'o' // Use output type as fallback
         });
       }
       return intervalMarkers;
     }
     
     return [];
-  }, [events, maxTime]);
-
-  // Terminal content with progressive display - preserve ANSI codes and newlines
-  const terminalContent = useMemo(() => {
-    const outputEvents = visibleEvents.filter(event => event.type === 'o');
+  }, [summary, maxTime]);
 
-    let content = '';
-    for (const event of outputEvents) {
-      // Keep ANSI codes for color, convert \r\n to \n for proper display
-      content += event.content.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+  // Auto-scroll terminal during playback
+  useEffect(() => {
+    if (isPlaying && !isScrubbing && terminalRef.current) {
+      terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
     }
+  }, [frame, isPlaying, isScrubbing]);
 
-    // Remove cursor control sequences and bracketed paste mode that ansi-to-html doesn't handle
-    content = content
-      .replace(/\x1b\[\?2004[hl]/g, '')  // Remove bracketed paste mode
-      .replace(/\x1b\[([0-9;]*)[HfABCDKJsuhl]/g, '')  // Remove cursor movement and clear sequences
-      .replace(/\x1b\[\?[0-9;]*[hl]/g, '')  // Remove mode changes
-      .replace(/\x1b\][0-9];[^\x07]*\x07/g, '')  // Remove OSC sequences
-      .replace(/\x1b\[[0-9;]*[mGK]/g, (match) => {
-        // Keep only SGR (color) sequences, remove others
-        if (match.endsWith('m')) return match;
-        return '';
-      });
-
-    // Convert ANSI color codes to HTML using ansi-to-html library
-    const converter = new AnsiToHtml({
-      fg: '#d0d0d0',
-      bg: '#282c34',
-      newline: true,
-      escapeXML: true,
-      stream: false,
-      colors: {
-        0: '#2e3436',   // Black
-        1: '#ff6b6b',   // Red
-        2: '#5af78e',   // Green
-        3: '#f3f99d',   // Yellow
-        4: '#57c7ff',   // Blue
-        5: '#ff79c6',   // Magenta
-        6: '#9aedfe',   // Cyan
-        7: '#d0d0d0',   // White
-        8: '#808080',   // Bright Black (Gray)
-        9: '#ff8787',   // Bright Red
-        10: '#90ee90',  // Bright Green
-        11: '#ffff87',  // Bright Yellow
-        12: '#87ceeb',  // Bright Blue
-        13: '#ffb3ff',  // Bright Magenta
-        14: '#b0e0e6',  // Bright Cyan
-        15: '#ffffff'   // Bright White
+  // External seek requests (e.g. from search results) pause playback at the requested time
+  // Their times are in the uncompressed recording, so wait for the parse to map them
+  useEffect(() => {
+    if (!seekTo || !summary || appliedSeekRef.current === seekTo.nonce) return;
+    appliedSeekRef.current = seekTo.nonce;
+    setIsPlaying(false);
+    setCurrentTime(toPlaybackTime(summary.idleGaps, seekTo.time));
+    requestAnimationFrame(() => {
+      if (terminalRef.current) {
+        terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
       }
     });
+  }, [seekTo, summary]);
 
-    return converter.toHtml(content);
-  }, [visibleEvents]);
-
+  // Compressing idle time shortens the recording; keep the position inside it
+  useEffect(() => {
+    if (summary && currentTime > summary.maxTime) setCurrentTime(summary.maxTime);
+  }, [summary, currentTime]);
 
-  // Auto-scroll terminal during playback
   useEffect(() => {
-    if (isPlaying && !isScrubbing && terminalRef.current) {
-      terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
+    if (showInput && inputListRef.current) {
+      inputListRef.current.scrollTop = inputListRef.current.scrollHeight;
     }
-  }, [terminalContent, isPlaying, isScrubbing]);
+  }, [typedInput.length, showInput]);
 
-  // Playback control with real timestamps
+  // Playback clock - advances with wall time, so fast speeds don't depend on how dense the events are
   useEffect(() => {
-    if (!isPlaying || events.length === 0 || isScrubbing) return;
+    if (!isPlaying || isScrubbing || maxTime === 0) return;
+
+    let last = performance.now();
+    let frameId = requestAnimationFrame(function tick(now) {
+      const elapsed = (now - last) / 1000;
+      last = now;
+      setCurrentTime(prev => Math.min(maxTime, prev + elapsed * playbackSpeed));
+      frameId = requestAnimationFrame(tick);
+    });
 
-    const nextEvent = events.find(event => event.timestamp > currentTime);
-    
-    if (!nextEvent) {
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, isScrubbing, maxTime, playbackSpeed]);
+
+  useEffect(() => {
+    if (isPlaying && maxTime > 0 && currentTime >= maxTime) {
       setIsPlaying(false);
-      setCurrentTime(maxTime);
-      return;
     }
-
-    const delayMs = Math.max(10, ((nextEvent.timestamp - currentTime) * 1000) / playbackSpeed);
-    
-    const timeout = setTimeout(() => {
-      setCurrentTime(nextEvent.timestamp);
-    }, delayMs);
-
-    return () => clearTimeout(timeout);
-  }, [isPlaying, currentTime, events, playbackSpeed, maxTime, isScrubbing]);
+  }, [isPlaying, currentTime, maxTime]);
 
   // Handle scrubbing start/end
   const handleScrubStart = () => {
@@ -272,6 +182,11 @@ export default function CustomTerminalViewer({ castContent, showAgentThinking =
               <CardTitle className="flex items-center gap-2">
                 <Terminal className="h-4 w-4" />
                 Agent Terminal Session
+                {summary?.header.title && (
+                  <span className="text-sm font-normal text-muted-foreground truncate max-w-[16rem]" title={summary.header.title}>
+                    {summary.header.title}
+                  </span>
+                )}
               </CardTitle>
               
               <div className="flex items-center gap-2">
@@ -287,7 +202,11 @@ export default function CustomTerminalViewer({ castContent, showAgentThinking =
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => setIsPlaying(!isPlaying)}
+                  onClick={() => {
+                    // Play from the start again once the end is reached
+                    if (!isPlaying && maxTime > 0 && currentTime >= maxTime) setCurrentTime(0);
+                    setIsPlaying(!isPlaying);
+                  }}
                   data-testid="button-play-pause"
                 >
                   {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
@@ -302,7 +221,42 @@ export default function CustomTerminalViewer({ castContent, showAgentThinking =
                   <option value={1}>1x</option>
                   <option value={2}>2x</option>
                   <option value={4}>4x</option>
+                  <option value={8}>8x</option>
+                  <option value={16}>16x</option>
+                </select>
+
+                <select
+                  value={idleLimit}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    setIdleLimit(value === 'auto' || value === 'off' ? value : Number(value));
+                  }}
+                  className="text-xs bg-muted rounded px-2 py-1"
+                  title="Shorten pauses between events"
+                >
+                  <option value="auto">Idle: {headerIdleLimit ? `${headerIdleLimit}s (recording)` : 'off (recording)'}</option>
+                  <option value="off">Idle: off</option>
+                  <option value={1}>Idle: 1s</option>
+                  <option value={2}>Idle: 2s</option>
+                  <option value={5}>Idle: 5s</option>
                 </select>
+
+                <Button
+                  variant={showInput ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setShowInput(!showInput)}
+                  title="Show typed input separately from output"
+                  disabled={!summary || summary.inputLines.length === 0}
+                >
+                  <Keyboard className="h-4 w-4" />
+                </Button>
+
+                {shareLink && (
+                  <CopyLinkButton
+                    label="Copy link at time"
+                    getUrl={() => shareLink(summary ? toRawTime(summary.idleGaps, currentTime) : currentTime)}
+                  />
+                )}
               </div>
             </div>
             
@@ -349,6 +303,25 @@ export default function CustomTerminalViewer({ castContent, showAgentThinking =
                   );
                 })}
                 
+                {/* Annotation markers, above the track so they don't hide thinking markers */}
+                {summary && annotations?.items.map(annotation => {
+                  const time = toPlaybackTime(summary.idleGaps, annotation.castTime ?? 0);
+                  const position = maxTime > 0 ? Math.max(0, Math.min(100, (time / maxTime) * 100)) : 0;
+                  return (
+                    <button
+                      key={`note-${annotation.id}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsPlaying(false);
+                        setCurrentTime(time);
+                      }}
+                      className="absolute -top-3 w-2 h-2 rotate-45 bg-violet-400 hover:bg-violet-300 z-30 cursor-pointer"
+                      style={{ left: `${position}%`, transform: 'translateX(-50%) rotate(45deg)' }}
+                      title={`${annotation.authorName} • ${formatTime(time)}: ${annotation.body}`}
+                    />
+                  );
+                })}
+
                 {/* Progress handle - Fully visible */}
                 <div
                   className="absolute top-1/2 w-3 h-3 -translate-y-1/2 bg-white rounded-full border-2 border-blue-500 shadow-md z-20"
@@ -371,28 +344,39 @@ export default function CustomTerminalViewer({ castContent, showAgentThinking =
           </CardHeader>
           
           <CardContent className="p-0">
-            <div className="h-[700px] bg-[#282c34] text-gray-100 font-mono text-sm overflow-hidden">
+            <div className={`${showInput ? 'h-[520px]' : 'h-[700px]'} bg-[#282c34] text-gray-100 font-mono text-sm overflow-hidden`}>
               <div 
                 ref={terminalRef}
                 className="h-full p-4 overflow-y-auto scrollbar-thin scrollbar-track-gray-800 scrollbar-thumb-gray-600"
               >
-                {terminalContent ? (
-                  <pre
-                    className="whitespace-pre font-mono leading-relaxed"
-                    style={{
-                      fontFamily: 'Monaco, Menlo, "Ubuntu Mono", monospace',
-                      fontSize: '13px',
-                      lineHeight: '1.4'
-                    }}
-                    dangerouslySetInnerHTML={{
-                      __html: terminalContent
-                    }}
-                  />
+                {summary ? (
+                  <TerminalScreenView frame={frame} fontSize={13} placeholder="No terminal session yet... Press play to start" />
                 ) : (
-                  <div className="text-gray-500">No terminal session yet... Press play to start</div>
+                  <div className="text-gray-500">Parsing recording...</div>
                 )}
               </div>
             </div>
+
+            {/* Typed input - 'i' events, kept apart from what the terminal echoed */}
+            {showInput && (
+              <div ref={inputListRef} className="h-[180px] overflow-y-auto scrollbar-thin border-t border-border font-mono text-xs">
+                {typedInput.length === 0 ? (
+                  <div className="p-3 text-muted-foreground">No input typed yet</div>
+                ) : (
+                  typedInput.map((line, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => setCurrentTime(line.timestamp)}
+                      className={`w-full flex gap-3 px-3 py-1 text-left hover:bg-muted/50 ${index === typedInput.length - 1 ? 'bg-info/10' : ''}`}
+                    >
+                      <span className="text-muted-foreground flex-shrink-0">{formatTime(line.timestamp)}</span>
+                      <span className="whitespace-pre-wrap break-all">{line.text}</span>
+                    </button>
+                  ))
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -401,147 +385,183 @@ export default function CustomTerminalViewer({ castContent, showAgentThinking =
       {showAgentThinking && (
         <div className="lg:col-span-1">
           <Card className="h-full">
-            <CardHeader className="pb-3">
-              <CardTitle className="flex items-center gap-2">
-                <Brain className="h-4 w-4" />
-                Agent Thinking
-              </CardTitle>
-            </CardHeader>
-            
-            <CardContent className="space-y-4">
-              <ScrollArea className="h-[700px]">
-                {currentThinking ? (
-                  <div className="space-y-4">
-                    {/* Episode Information (New Format) */}
-                    {currentThinking.type === 'episode' && (
-                      <div>
-                        <Badge variant="outline" className="mb-2">
-                          Episode {currentThinking.episodeNumber}
-                        </Badge>
-                        <p className="text-xs text-muted-foreground">
-                          {currentThinking.commandCount} command{currentThinking.commandCount !== 1 ? 's' : ''} executed
-                        </p>
-                      </div>
-                    )}
-
-                    {/* Task Completion Status */}
-                    {currentThinking.is_task_complete !== undefined && (
-                      <div>
-                        <Badge
-                          variant={currentThinking.is_task_complete ? "default" : "secondary"}
-                          className="mb-2"
-                        >
-                          {currentThinking.is_task_complete ? "Task Complete" : "In Progress"}
-                        </Badge>
-                      </div>
-                    )}
-
-                    {/* State Analysis */}
-                    {currentThinking.state_analysis && (
-                      <div>
-                        <h4 className="font-medium text-sm mb-2 text-accent">State Analysis</h4>
-                        <p className="text-xs text-muted-foreground leading-relaxed">
-                          {currentThinking.state_analysis}
-                        </p>
-                      </div>
-                    )}
-
-                    {/* Explanation */}
-                    {currentThinking.explanation && (
-                      <div>
-                        <h4 className="font-medium text-sm mb-2 text-primary">Next Actions</h4>
-                        <p className="text-xs text-muted-foreground leading-relaxed">
-                          {currentThinking.explanation}
-                        </p>
-                      </div>
+            <Tabs defaultValue="current">
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center gap-2">
+                    <Brain className="h-4 w-4" />
+                    Agent Thinking
+                  </CardTitle>
+                  <TabsList className="h-8">
+                    <TabsTrigger value="current" className="text-xs">Current</TabsTrigger>
+                    <TabsTrigger value="episodes" className="text-xs">Episodes</TabsTrigger>
+                    {annotations && (
+                      <TabsTrigger value="notes" className="text-xs">
+                        Notes{annotations.items.length > 0 ? ` (${annotations.items.length})` : ''}
+                      </TabsTrigger>
                     )}
+                  </TabsList>
+                </div>
+              </CardHeader>
+            
+              <CardContent className="space-y-4">
+                <TabsContent value="episodes" className="m-0">
+                  <ScrollArea className="h-[700px]">
+                    <EpisodeTimeline
+                      episodes={episodes}
+                      currentTime={currentTime}
+                      maxTime={maxTime}
+                      onSeek={(time) => {
+                        setIsPlaying(false);
+                        setCurrentTime(time);
+                      }}
+                      title={title}
+                    />
+                  </ScrollArea>
+                </TabsContent>
+
+                {annotations && (
+                  <TabsContent value="notes" className="m-0 h-[700px]">
+                    <AnnotationList
+                      annotations={annotations.items}
+                      targetLabel={summary ? formatTime(currentTime) : null}
+                      targetHint="Waiting for the recording to load"
+                      canMirror={annotations.canMirror}
+                      canCreate={annotations.canCreate}
+                      isSaving={annotations.isSaving}
+                      onCreate={(body, mirrorToPR) =>
+                        annotations.onCreate(summary ? toRawTime(summary.idleGaps, currentTime) : currentTime, body, mirrorToPR)}
+                      onSelect={(annotation) => {
+                        setIsPlaying(false);
+                        setCurrentTime(summary ? toPlaybackTime(summary.idleGaps, annotation.castTime ?? 0) : annotation.castTime ?? 0);
+                      }}
+                      onDelete={annotations.onDelete}
+                    />
+                  </TabsContent>
+                )}
 
-                    {/* Commands */}
-                    {currentThinking.commands && currentThinking.commands.length > 0 && (
-                      <div>
-                        <h4 className="font-medium text-sm mb-2 text-warning">Planned Commands</h4>
-                        <div className="space-y-2">
-                          {currentThinking.commands.map((cmd, index) => {
-                            let commandText = '';
-                            let timeout = null;
-                            
-                            if (typeof cmd === 'string') {
-                              commandText = cmd;
-                            } else if (typeof cmd === 'object' && cmd !== null) {
-                              commandText = cmd.command || cmd.cmd || cmd.text || cmd.action || '';
-                              timeout = cmd.timeout || cmd.timeout_sec || cmd.max_timeout_sec;
-                              
-                              if (!commandText) {
-                                const stringValues = Object.values(cmd).filter(v => typeof v === 'string');
-                                if (stringValues.length > 0) {
-                                  commandText = stringValues[0];
-                                } else {
-                                  commandText = `Unknown command format: ${Object.keys(cmd).join(', ')}`;
-                                }
-                              }
-                            }
-                            
-                            return (
-                              <div key={index} className="bg-muted rounded p-2">
-                                <code className="text-xs font-mono text-foreground">
-                                  {commandText || 'Empty command'}
-                                </code>
-                                {timeout && (
-                                  <div className="flex items-center gap-1 mt-1">
-                                    <Clock className="h-3 w-3 text-muted-foreground" />
-                                    <span className="text-xs text-muted-foreground">
-                                      {timeout}s timeout
-                                    </span>
+                <TabsContent value="current" className="m-0">
+                  <ScrollArea className="h-[700px]">
+                    {currentThinking ? (
+                      <div className="space-y-4">
+                        {/* Episode Information (New Format) */}
+                        {currentThinking.type === 'episode' && (
+                          <div>
+                            <Badge variant="outline" className="mb-2">
+                              Episode {currentThinking.episodeNumber}
+                            </Badge>
+                            <p className="text-xs text-muted-foreground">
+                              {currentThinking.commandCount} command{currentThinking.commandCount !== 1 ? 's' : ''} executed
+                            </p>
+                          </div>
+                        )}
+
+                        {/* Task Completion Status */}
+                        {currentThinking.is_task_complete !== undefined && (
+                          <div>
+                            <Badge
+                              variant={currentThinking.is_task_complete ? "default" : "secondary"}
+                              className="mb-2"
+                            >
+                              {currentThinking.is_task_complete ? "Task Complete" : "In Progress"}
+                            </Badge>
+                          </div>
+                        )}
+
+                        {/* State Analysis */}
+                        {currentThinking.state_analysis && (
+                          <div>
+                            <h4 className="font-medium text-sm mb-2 text-accent">State Analysis</h4>
+                            <p className="text-xs text-muted-foreground leading-relaxed">
+                              {currentThinking.state_analysis}
+                            </p>
+                          </div>
+                        )}
+
+                        {/* Explanation */}
+                        {currentThinking.explanation && (
+                          <div>
+                            <h4 className="font-medium text-sm mb-2 text-primary">Next Actions</h4>
+                            <p className="text-xs text-muted-foreground leading-relaxed">
+                              {currentThinking.explanation}
+                            </p>
+                          </div>
+                        )}
+
+                        {/* Commands */}
+                        {currentThinking.commands && currentThinking.commands.length > 0 && (
+                          <div>
+                            <h4 className="font-medium text-sm mb-2 text-warning">Planned Commands</h4>
+                            <div className="space-y-2">
+                              {currentThinking.commands.map((cmd, index) => {
+                                const commandText = getCommandText(cmd);
+                                const timeout = typeof cmd === 'object' && cmd !== null
+                                  ? cmd.timeout || cmd.timeout_sec || cmd.max_timeout_sec
+                                  : null;
+
+                                return (
+                                  <div key={index} className="bg-muted rounded p-2">
+                                    <code className="text-xs font-mono text-foreground">
+                                      {commandText || 'Empty command'}
+                                    </code>
+                                    {timeout && (
+                                      <div className="flex items-center gap-1 mt-1">
+                                        <Clock className="h-3 w-3 text-muted-foreground" />
+                                        <span className="text-xs text-muted-foreground">
+                                          {timeout}s timeout
+                                        </span>
+                                      </div>
+                                    )}
                                   </div>
-                                )}
-                              </div>
-                            );
-                          })}
+                                );
+                              })}
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Show any other fields */}
+                        {Object.entries(currentThinking).map(([key, value]) => {
+                          if (['timestamp', 'state_analysis', 'explanation', 'commands', 'is_task_complete', 'raw_content'].includes(key)) {
+                            return null;
+                          }
+                          return (
+                            <div key={key}>
+                              <h4 className="font-medium text-sm mb-2 capitalize">{key.replace(/_/g, ' ')}</h4>
+                              <p className="text-xs text-muted-foreground leading-relaxed">
+                                {typeof value === 'string' ? value : JSON.stringify(value, null, 2)}
+                              </p>
+                            </div>
+                          );
+                        })}
+
+                        {/* Raw content fallback */}
+                        {currentThinking.raw_content && (
+                          <div>
+                            <h4 className="font-medium text-sm mb-2 text-muted-foreground">Raw Marker Data</h4>
+                            <pre className="text-xs bg-muted rounded p-2 overflow-x-auto">
+                              {currentThinking.raw_content}
+                            </pre>
+                          </div>
+                        )}
+
+                        {/* Timestamp */}
+                        <div className="pt-2 border-t border-border">
+                          <span className="text-xs text-muted-foreground">
+                            Thinking at {formatTime(currentThinking.timestamp)}
+                          </span>
                         </div>
                       </div>
-                    )}
-
-                    {/* Show any other fields */}
-                    {Object.entries(currentThinking).map(([key, value]) => {
-                      if (['timestamp', 'state_analysis', 'explanation', 'commands', 'is_task_complete', 'raw_content'].includes(key)) {
-                        return null;
-                      }
-                      return (
-                        <div key={key}>
-                          <h4 className="font-medium text-sm mb-2 capitalize">{key.replace(/_/g, ' ')}</h4>
-                          <p className="text-xs text-muted-foreground leading-relaxed">
-                            {typeof value === 'string' ? value : JSON.stringify(value, null, 2)}
-                          </p>
-                        </div>
-                      );
-                    })}
-
-                    {/* Raw content fallback */}
-                    {currentThinking.raw_content && (
-                      <div>
-                        <h4 className="font-medium text-sm mb-2 text-muted-foreground">Raw Marker Data</h4>
-                        <pre className="text-xs bg-muted rounded p-2 overflow-x-auto">
-                          {currentThinking.raw_content}
-                        </pre>
+                    ) : (
+                      <div className="text-center text-muted-foreground">
+                        <Brain className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                        <p className="text-sm">No agent thinking data yet</p>
+                        <p className="text-xs">Play the session to see the agent's reasoning</p>
                       </div>
                     )}
-
-                    {/* Timestamp */}
-                    <div className="pt-2 border-t border-border">
-                      <span className="text-xs text-muted-foreground">
-                        Thinking at {formatTime(currentThinking.timestamp)}
-                      </span>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="text-center text-muted-foreground">
-                    <Brain className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                    <p className="text-sm">No agent thinking data yet</p>
-                    <p className="text-xs">Play the session to see the agent's reasoning</p>
-                  </div>
-                )}
-              </ScrollArea>
-            </CardContent>
+                  </ScrollArea>
+                </TabsContent>
+              </CardContent>
+            </Tabs>
           </Card>
         </div>
       )}
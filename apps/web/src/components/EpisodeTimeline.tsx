@@ -0,0 +1,115 @@
+import { useEffect, useRef } from "react";
+import { CheckCircle, Download, FileJson, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { type Episode, episodesToJson, episodesToMarkdown, formatPlaybackTime } from "@/lib/cast";
+import { downloadTextFile } from "@/lib/utils";
+
+interface EpisodeTimelineProps {
+  episodes: Episode[];
+  currentTime: number;
+  maxTime: number;
+  onSeek: (time: number) => void;
+  /** Heading and file name for exports */
+  title: string;
+}
+
+/**
+ * Every episode of an agent session in order; clicking one seeks playback to it
+ */
+export default function EpisodeTimeline({ episodes, currentTime, maxTime, onSeek, title }: EpisodeTimelineProps) {
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  let activeIndex = -1;
+  episodes.forEach((episode, i) => {
+    if (episode.timestamp <= currentTime) activeIndex = i;
+  });
+
+  // Keep the playing episode in view
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const filename = `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'session'}-episodes`;
+
+  if (episodes.length === 0) {
+    return (
+      <div className="text-center text-muted-foreground">
+        <p className="text-sm">No episodes in this recording</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          {episodes.length} episode{episodes.length === 1 ? '' : 's'} • {formatPlaybackTime(maxTime)}
+        </span>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 px-2">
+              <Download className="h-3.5 w-3.5 mr-1" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem
+              onClick={() => downloadTextFile(episodesToJson(title, episodes, maxTime), `${filename}.json`, 'application/json')}
+            >
+              <FileJson className="h-4 w-4 mr-2" />
+              JSON
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => downloadTextFile(episodesToMarkdown(title, episodes, maxTime), `${filename}.md`, 'text/markdown')}
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              Markdown
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="space-y-2">
+        {episodes.map((episode, i) => (
+          <button
+            key={i}
+            ref={i === activeIndex ? activeRef : undefined}
+            type="button"
+            onClick={() => onSeek(episode.timestamp)}
+            className={`w-full text-left rounded-lg border p-3 transition-colors ${
+              i === activeIndex ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted/50'
+            }`}
+          >
+            <div className="flex items-center gap-2 mb-1">
+              <span className="text-sm font-medium">Episode {episode.number}</span>
+              {episode.isTaskComplete && <CheckCircle className="h-3.5 w-3.5 text-success" />}
+              <span className="ml-auto text-xs text-muted-foreground font-mono">
+                {formatPlaybackTime(episode.timestamp)} • {formatPlaybackTime(episode.durationSec)}
+              </span>
+            </div>
+            {(episode.explanation || episode.note) && (
+              <p className="text-xs text-muted-foreground leading-relaxed line-clamp-3 mb-2">
+                {episode.explanation || episode.note}
+              </p>
+            )}
+            {episode.commands.length > 0 && (
+              <div className="space-y-1">
+                {episode.commands.map((command, j) => (
+                  <code key={j} className="block text-xs font-mono bg-muted rounded px-2 py-1 truncate" title={command}>
+                    {command}
+                  </code>
+                ))}
+              </div>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
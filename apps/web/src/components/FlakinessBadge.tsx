@@ -0,0 +1,44 @@
+import { Shuffle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+interface FlakinessBadgeProps {
+  score: number;
+  commits: number;
+  flakyCommits: number;
+  details?: string[];
+}
+
+// Scores at or above this are shown as destructive rather than warning
+const HIGH_FLAKINESS = 0.25;
+
+/**
+ * Badge for results that flipped between attempts on the same commit
+ * Renders nothing when no flips were seen; must sit inside a TooltipProvider
+ */
+export default function FlakinessBadge({ score, commits, flakyCommits, details = [] }: FlakinessBadgeProps) {
+  if (flakyCommits === 0) return null;
+
+  const color = score >= HIGH_FLAKINESS
+    ? 'border-destructive/40 text-destructive'
+    : 'border-warning/40 text-warning';
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className={`text-xs gap-1 cursor-help ${color}`}>
+          <Shuffle className="h-3 w-3" />
+          Flaky {Math.round(score * 100)}%
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p className="text-xs font-medium">
+          Flipped on {flakyCommits} of {commits} re-run commit{commits === 1 ? '' : 's'}
+        </p>
+        {details.map(detail => (
+          <p key={detail} className="text-xs text-muted-foreground font-mono mt-1">{detail}</p>
+        ))}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
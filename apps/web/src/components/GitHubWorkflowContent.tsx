@@ -1,7 +1,17 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import CustomTerminalViewer from "./CustomTerminalViewer";
+import SplitCastViewer from "./SplitCastViewer";
 import AgentResultsTable from "./AgentResultsTable";
+import LiveJobLog from "./LiveJobLog";
+import VirtualLogView from "./VirtualLogView";
+import RunSearchPanel from "./RunSearchPanel";
+import FlakinessBadge from "./FlakinessBadge";
+import RunComparisonDialog from "./RunComparisonDialog";
+import CopyLinkButton from "./CopyLinkButton";
+import AnnotationList from "./AnnotationList";
+import TaskTriagePanel from "./TaskTriagePanel";
+import RerunButton from "./RerunButton";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
@@ -25,7 +35,10 @@ import {
   XCircle,
   Clock,
   CheckCircle,
-  GitCommit
+  GitCommit,
+  Search,
+  GitCompare,
+  Columns2
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -39,20 +52,32 @@ import {
   GitHubReviewComment,
   GitHubPRSelection,
   GitHubWorkflowLog,
-  GitHubWorkflowArtifact
+  GitHubWorkflowArtifact,
+  LiveUpdateEvent,
+  RunSearchMatch,
+  FlakinessResponse
 } from "@logflix/shared/schema";
+import { Permission } from "@logflix/shared/auth";
 import { createAPIParams, fetchAPI } from "@/lib/api";
 import { CACHE_TIME } from "@/lib/constants";
 import { formatDate, formatDateCompact, formatTime, formatDuration } from "@/lib/date";
-import { cleanAnsiCodes } from "@/lib/ansi";
 import { getWorkflowStatusColor, getWorkflowStatusIcon, getWorkflowStatusLabel } from "@/lib/statusHelpers";
 import { getLanguageFromFile } from "@/lib/languageUtils";
+import { useLiveUpdates } from "@/hooks/useLiveUpdates";
+import { useAnnotations } from "@/hooks/useAnnotations";
+import { useTaskTriage } from "@/hooks/useTaskTriage";
+import { usePermissions } from "@/hooks/usePermissions";
+import { runLinkPath, runLinkUrl, type LineRange, type RunLink, type RunTab } from "@/lib/runLink";
 
 interface GitHubWorkflowContentProps {
   selectedPR: GitHubPRSelection | null;
   organization: string;
   repoName: string;
   workflow: string;
+  /** What the URL asks to show; applied whenever it changes from outside this view */
+  link: RunLink | null;
+  /** Called as the selection changes so the URL can follow */
+  onLinkChange: (link: RunLink) => void;
 }
 
 interface WorkflowRunDetails {
@@ -80,31 +105,98 @@ interface AgentData {
   sortOrder: number;
 }
 
-export default function GitHubWorkflowContent({ selectedPR, organization, repoName, workflow }: GitHubWorkflowContentProps) {
+// Literal class names so Tailwind keeps them; the tab count depends on the user's permissions
+const TAB_GRID_COLUMNS: Record<number, string> = {
+  4: 'grid-cols-4',
+  5: 'grid-cols-5',
+  6: 'grid-cols-6',
+};
+
+export default function GitHubWorkflowContent({ selectedPR, organization, repoName, workflow, link, onLinkChange }: GitHubWorkflowContentProps) {
   const [activeTab, setActiveTab] = useState("overview");
   const [selectedCommitSha, setSelectedCommitSha] = useState<string | null>(null);
   const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+
+  // Tabs and actions the user's role doesn't grant are hidden; the API enforces the same permissions
+  const { hasPermission, isLoading: isPermissionsLoading } = usePermissions();
+  const canViewCasts = hasPermission(Permission.VIEW_CASTS);
+  const canViewLogs = hasPermission(Permission.VIEW_LOGS);
+  const canDownloadArtifacts = hasPermission(Permission.DOWNLOAD_ARTIFACTS);
+  const canAnnotate = hasPermission(Permission.ANNOTATE);
+  const canTriage = hasPermission(Permission.TRIAGE);
+  const canRerunWorkflows = hasPermission(Permission.RERUN_WORKFLOWS);
+
+  // A link into a tab the user can't see lands on the overview instead
+  useEffect(() => {
+    if (isPermissionsLoading) return;
+    if ((activeTab === 'terminal' && !canViewCasts) || (activeTab === 'logs' && !canViewLogs)) {
+      setActiveTab('overview');
+    }
+  }, [activeTab, isPermissionsLoading, canViewCasts, canViewLogs]);
   const [selectedFile, setSelectedFile] = useState<any | null>(null);
   const [fileContent, setFileContent] = useState<string | null>(null);
   const [selectedLogFile, setSelectedLogFile] = useState<string | null>(null);
   const [selectedAgent, setSelectedAgent] = useState<string | null>(null);
+  const [compareAgent, setCompareAgent] = useState<string | null>(null); // Second agent for the split terminal view
   const [selectedAgentForLogs, setSelectedAgentForLogs] = useState<string | null>(null);
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   const [fileSource, setFileSource] = useState<'agent' | 'tests'>('agent'); // Toggle between agent and tests files
   const [fileSourceForLogs, setFileSourceForLogs] = useState<'agent' | 'tests'>('agent'); // Toggle for logs tab
+  // Search result targets; nonces make repeat clicks on the same result jump again
+  const [logJumpTarget, setLogJumpTarget] = useState<{ artifactId: number; path: string; line: number; nonce: number } | null>(null);
+  const [castSeekTarget, setCastSeekTarget] = useState<{ artifactName: string; source: 'agent' | 'tests'; time: number; nonce: number } | null>(null);
+  // Log lines selected for sharing; only shown while `path` is the open log
+  const [logLineRange, setLogLineRange] = useState<(LineRange & { path: string }) | null>(null);
+  // Parts of an opened link that wait on data: the run needs the PR's runs, a log file needs its agent's artifact
+  const [pendingLink, setPendingLink] = useState<RunLink | null>(null);
+  // Last URL applied or reported, so our own URL updates aren't applied back
+  const syncedHrefRef = useRef<string | null>(null);
+  const skipLinkReportRef = useRef(false);
 
   // Reset all selections when PR changes
   useEffect(() => {
     setSelectedCommitSha(null);
     setSelectedRunId(null);
     setSelectedAgent(null);
+    setCompareAgent(null);
     setSelectedAgentForLogs(null);
     setSelectedLogFile(null);
     setSelectedTaskId(null);
     setSelectedFile(null);
     setFileContent(null);
+    setLogJumpTarget(null);
+    setCastSeekTarget(null);
+    setLogLineRange(null);
+    setPendingLink(null);
   }, [selectedPR?.prNumber]);
 
+  // Restore the view from a link - runs after the PR reset above when both change
+  const linkHref = link ? runLinkPath(repoName, link) : null;
+  useEffect(() => {
+    if (!link || linkHref === syncedHrefRef.current) return;
+    syncedHrefRef.current = linkHref;
+    skipLinkReportRef.current = true;
+
+    const source = link.source ?? 'agent';
+    if (link.tab) setActiveTab(link.tab);
+    if (link.task) setSelectedTaskId(link.task);
+
+    if (link.tab === 'terminal' && link.agent) {
+      setSelectedAgent(link.agent);
+      setCompareAgent(link.compare ?? null);
+      setFileSource(source);
+      if (link.time !== undefined) {
+        setCastSeekTarget({ artifactName: link.agent, source, time: link.time, nonce: Date.now() });
+      }
+    } else if (link.tab === 'logs' && link.agent) {
+      setSelectedAgentForLogs(link.agent);
+      setFileSourceForLogs(source);
+    }
+
+    setPendingLink(link);
+  }, [linkHref]);
+
   // Fetch PR details - only when PR is selected (lazy loading)
   const { data: prData, isLoading: isPRLoading } = useQuery<GitHubPullRequest>({
     queryKey: selectedPR ? ["/api/github/pull-request", selectedPR.prNumber] : [],
@@ -202,8 +294,20 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
     return allAttempts.sort((a, b) => b.run_attempt - a.run_attempt);
   }, [selectedRunId, runsByNumber, runsData]);
 
+  // Select a linked run (and its commit) once the PR's runs are known
+  useEffect(() => {
+    if (!pendingLink?.runId || !runsData) return;
+    const linkedRun = runsData.runs.find(run => run.id === pendingLink.runId);
+    if (linkedRun) {
+      setSelectedCommitSha(linkedRun.head_sha);
+      setSelectedRunId(linkedRun.id);
+    }
+    setPendingLink(prev => prev && { ...prev, runId: undefined });
+  }, [pendingLink, runsData]);
+
   // Auto-select the latest run for the selected commit, prioritizing highest attempt number
   useEffect(() => {
+    if (pendingLink?.runId) return; // A linked run is about to be selected
     if (filteredRuns.length > 0 && !selectedRunId) {
       // Find the run with the highest attempt number (latest)
       const latestRun = filteredRuns.reduce((latest, current) => {
@@ -224,7 +328,7 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
       });
       setSelectedRunId(latestRun.id);
     }
-  }, [selectedCommitSha, filteredRuns, selectedRunId]);
+  }, [selectedCommitSha, filteredRuns, selectedRunId, pendingLink]);
 
   // Fetch details for selected workflow run
   const { data: runDetails, isLoading: isRunDetailsLoading } = useQuery<WorkflowRunDetails>({
@@ -310,7 +414,7 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
   });
 
   // Fetch jobs for selected run to show agent results
-  const { data: jobsData } = useQuery<{ jobs: Array<{ name: string; conclusion: string | null; status: string }> }>({
+  const { data: jobsData } = useQuery<{ jobs: Array<{ id: number; name: string; conclusion: string | null; status: string }> }>({
     queryKey: selectedRunId ? ["/api/github/workflow-jobs", selectedRunId] : [],
     queryFn: async () => {
       if (!selectedRunId) throw new Error('No run selected');
@@ -344,6 +448,106 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
     staleTime: CACHE_TIME.STALE_SHORT, // Cache for 1 minute
   });
 
+  // Flakiness across re-runs; needs the server's database, so a failure just hides the badges
+  const { data: flakinessData } = useQuery<FlakinessResponse>({
+    queryKey: selectedPR ? ["/api/github/analytics/flakiness", selectedPR.prNumber] : [],
+    queryFn: async () => {
+      if (!selectedPR) throw new Error('No PR selected');
+
+      const params = createAPIParams({ owner: organization, repo: repoName, workflow }, { pr: String(selectedPR.prNumber) });
+      return fetchAPI(`/api/github/analytics/flakiness?${params}`);
+    },
+    enabled: !!selectedPR,
+    staleTime: CACHE_TIME.STALE_MEDIUM,
+    retry: false,
+  });
+
+  const currentTaskFlakiness = flakinessData?.tasks.find(t => t.taskId === selectedTaskId);
+
+  const queryClient = useQueryClient();
+
+  // Apply webhook-driven updates for this PR: patch run status in place, refetch what changed
+  const handleLiveUpdate = useCallback((event: LiveUpdateEvent) => {
+    if (!selectedPR) return;
+    const prNumber = selectedPR.prNumber;
+
+    switch (event.type) {
+      case 'workflow_run': {
+        if (!event.runId) break;
+        const runsKey = ["/api/github/pr-workflow-runs", prNumber];
+        const cached = queryClient.getQueryData<{ runs: GitHubWorkflowRun[]; total_count: number }>(runsKey);
+
+        if (cached?.runs.some(run => run.id === event.runId)) {
+          queryClient.setQueryData(runsKey, {
+            ...cached,
+            runs: cached.runs.map(run => run.id === event.runId
+              ? {
+                  ...run,
+                  status: event.status as GitHubWorkflowRun['status'],
+                  conclusion: (event.conclusion ?? null) as GitHubWorkflowRun['conclusion'],
+                  updated_at: event.receivedAt,
+                }
+              : run),
+          });
+        } else {
+          // New run or re-run attempt - the list needs a real refetch
+          queryClient.invalidateQueries({ queryKey: runsKey });
+        }
+
+        queryClient.invalidateQueries({ queryKey: ["/api/github/workflow-run", event.runId] });
+        if (event.status === 'completed') {
+          queryClient.invalidateQueries({ queryKey: ["/api/github/workflow-jobs", event.runId] });
+          queryClient.invalidateQueries({ queryKey: ["/api/github/agent-test-results", event.runId] });
+          queryClient.invalidateQueries({ queryKey: ["/api/github/cast-list", event.runId] });
+          queryClient.invalidateQueries({ queryKey: ["/api/github/analytics/flakiness", prNumber] });
+        }
+        break;
+      }
+
+      case 'workflow_job': {
+        if (!event.runId) break;
+        const jobsKey = ["/api/github/workflow-jobs", event.runId];
+        const cached = queryClient.getQueryData<{ jobs: Array<{ id: number; name: string; conclusion: string | null; status: string }> }>(jobsKey);
+
+        if (cached?.jobs.some(job => job.id === event.jobId)) {
+          queryClient.setQueryData(jobsKey, {
+            ...cached,
+            jobs: cached.jobs.map(job => job.id === event.jobId
+              ? { ...job, status: event.status ?? job.status, conclusion: event.conclusion ?? null }
+              : job),
+          });
+        } else {
+          queryClient.invalidateQueries({ queryKey: jobsKey });
+        }
+
+        if (event.status === 'completed') {
+          queryClient.invalidateQueries({ queryKey: ["/api/github/agent-test-results", event.runId] });
+        }
+        break;
+      }
+
+      case 'issue_comment':
+        queryClient.invalidateQueries({ queryKey: ["/api/github/pr-bot-comments", prNumber] });
+        break;
+
+      case 'pull_request':
+        queryClient.invalidateQueries({ queryKey: ["/api/github/pull-request", prNumber] });
+        if (event.action === 'synchronize') {
+          queryClient.invalidateQueries({ queryKey: ["/api/github/pr-commits", prNumber] });
+          queryClient.invalidateQueries({ queryKey: ["/api/github/pr-workflow-runs", prNumber] });
+        }
+        break;
+    }
+  }, [queryClient, selectedPR]);
+
+  useLiveUpdates({
+    organization,
+    repoName,
+    prNumber: selectedPR?.prNumber,
+    enabled: !!selectedPR,
+    onUpdate: handleLiveUpdate,
+  });
+
 
   const duration = selectedRun ? (() => {
     const startTime = new Date(selectedRun.created_at).getTime();
@@ -502,6 +706,36 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
     return selectedAgentData.files.find((f) => f.name === targetFileName);
   }, [selectedAgentData, fileSource]);
 
+  // Picking the compared agent as the main one leaves nothing to compare against
+  useEffect(() => {
+    if (compareAgent && compareAgent === selectedAgent) {
+      setCompareAgent(null);
+    }
+  }, [compareAgent, selectedAgent]);
+
+  const compareAgentData = useMemo<AgentData | undefined>(() => {
+    return availableAgents.find((a) => a.artifact_name === compareAgent);
+  }, [availableAgents, compareAgent]);
+
+  const compareCastFile = useMemo(() => {
+    if (!compareAgentData) return undefined;
+    const targetFileName = fileSource === 'agent' ? 'agent.cast' : 'tests.cast';
+    return compareAgentData.files.find((f) => f.name === targetFileName);
+  }, [compareAgentData, fileSource]);
+
+  const fetchCastFile = useCallback(async (artifactId: number, path: string) => {
+    const params = createAPIParams({ owner: organization, repo: repoName, workflow }, { path });
+
+    const response = await fetch(`/api/github/artifact/${artifactId}/content?${params}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: response.statusText }));
+      throw new Error(errorData.error || `Failed to fetch cast: ${response.statusText}`);
+    }
+
+    return response.json();
+  }, [organization, repoName, workflow]);
+
   // Use React Query for cast file caching with custom queryFn
   const castFileQuery = useQuery<{ content: string; metadata?: any }>({
     queryKey: selectedAgentData && selectedCastFile ? [
@@ -515,21 +749,31 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
       if (!selectedAgentData || !selectedCastFile) {
         throw new Error('No agent or cast file selected');
       }
+      return fetchCastFile(selectedAgentData.id, selectedCastFile.path);
+    },
+    enabled: !!(selectedAgentData && selectedCastFile) && canViewCasts,
+    staleTime: CACHE_TIME.NONE,
+    gcTime: CACHE_TIME.STALE_MEDIUM,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
 
-      const params = createAPIParams({ owner: organization, repo: repoName, workflow }, { path: selectedCastFile.path });
-
-      const response = await fetch(`/api/github/artifact/${selectedAgentData.id}/content?${params}`);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: response.statusText }));
-        throw new Error(errorData.error || `Failed to fetch cast: ${response.statusText}`);
+  // Same cache entries as castFileQuery, so switching which side an agent is on doesn't refetch
+  const compareCastFileQuery = useQuery<{ content: string; metadata?: any }>({
+    queryKey: compareAgentData && compareCastFile ? [
+      "cast-file",
+      selectedRunId,
+      compareAgentData.id,
+      compareCastFile.path,
+      fileSource
+    ] : [],
+    queryFn: async () => {
+      if (!compareAgentData || !compareCastFile) {
+        throw new Error('No agent or cast file selected');
       }
-
-      const data = await response.json();
-
-      return data;
+      return fetchCastFile(compareAgentData.id, compareCastFile.path);
     },
-    enabled: !!(selectedAgentData && selectedCastFile),
+    enabled: !!(compareAgentData && compareCastFile) && canViewCasts,
     staleTime: CACHE_TIME.NONE,
     gcTime: CACHE_TIME.STALE_MEDIUM,
     retry: 1,
@@ -550,6 +794,15 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
     return availableAgents.find((a) => a.artifact_name === selectedAgentForLogs);
   }, [availableAgents, selectedAgentForLogs]);
 
+  // Open a linked log file at its lines once the agent's artifact is known
+  useEffect(() => {
+    if (!pendingLink?.file || !selectedAgentDataForLogs || selectedAgentDataForLogs.artifact_name !== pendingLink.agent) return;
+    const { file, lines } = pendingLink;
+    setLogJumpTarget({ artifactId: selectedAgentDataForLogs.id, path: file, line: lines?.start ?? 1, nonce: Date.now() });
+    setLogLineRange(lines ? { path: file, ...lines } : null);
+    setPendingLink(prev => prev && { ...prev, file: undefined, lines: undefined });
+  }, [pendingLink, selectedAgentDataForLogs]);
+
   // Get log files for the selected agent
   const { data: logFilesDataForAgent } = useQuery<{ files: Array<{ name: string; path: string; size: number }> }>({
     queryKey: selectedAgentDataForLogs ? [
@@ -564,13 +817,19 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
 
       return fetchAPI(`/api/github/artifact/${selectedAgentDataForLogs.id}/files?${params}`);
     },
-    enabled: !!selectedAgentDataForLogs,
+    enabled: !!selectedAgentDataForLogs && canViewLogs,
     staleTime: 0, // Don't cache - always refetch when agent changes
     gcTime: CACHE_TIME.GC_MEDIUM,
   });
 
   // Auto-select log file when log files are loaded, agent changes, or fileSource changes
   useEffect(() => {
+    // A search result jump names its file explicitly
+    if (logJumpTarget && selectedAgentDataForLogs?.id === logJumpTarget.artifactId) {
+      setSelectedLogFile(logJumpTarget.path);
+      return;
+    }
+
     if (logFilesDataForAgent?.files && logFilesDataForAgent.files.length > 0) {
       // Look for agent.log or tests.log based on fileSourceForLogs toggle
       const targetFileName = fileSourceForLogs === 'agent' ? 'agent.log' : 'tests.log';
@@ -583,42 +842,93 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
         setSelectedLogFile(logFilesDataForAgent.files[0].path);
       }
     }
-  }, [logFilesDataForAgent, fileSourceForLogs, selectedAgentDataForLogs]);
-
-  // Use React Query for log content fetching
-  const logContentQuery = useQuery<{ content: string; metadata?: any }>({
-    queryKey: selectedAgentDataForLogs && selectedLogFile ? [
-      "log-content",
-      selectedAgentDataForLogs.id,
-      selectedLogFile,
-      fileSourceForLogs
-    ] : [],
-    queryFn: async () => {
-      if (!selectedAgentDataForLogs || !selectedLogFile) {
-        throw new Error('No agent or log file selected');
-      }
-
-      const params = createAPIParams({ owner: organization, repo: repoName, workflow }, { path: selectedLogFile });
-
-      const response = await fetch(`/api/github/artifact/${selectedAgentDataForLogs.id}/content?${params}`);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: response.statusText }));
-        throw new Error(errorData.error || `Failed to fetch log: ${response.statusText}`);
+  }, [logFilesDataForAgent, fileSourceForLogs, selectedAgentDataForLogs, logJumpTarget]);
+
+  // Open a search result: log matches in the Logs tab at their line, cast matches in the Terminal tab at their timestamp
+  const handleSearchMatch = useCallback((match: RunSearchMatch) => {
+    const source = match.fileName.startsWith('tests') ? 'tests' : 'agent';
+
+    if (match.fileType === 'cast') {
+      setSelectedAgent(match.artifactName);
+      setCompareAgent(null);
+      setFileSource(source);
+      setCastSeekTarget({ artifactName: match.artifactName, source, time: match.timestamp ?? 0, nonce: Date.now() });
+      setActiveTab('terminal');
+    } else {
+      setSelectedAgentForLogs(match.artifactName);
+      setFileSourceForLogs(source);
+      setLogJumpTarget({ artifactId: match.artifactId, path: match.filePath, line: match.lineNumber, nonce: Date.now() });
+      setLogLineRange({ path: match.filePath, start: match.lineNumber, end: match.lineNumber });
+      setActiveTab('logs');
+    }
+  }, []);
+
+  // Agent jobs still running on an in-progress run - their logs are tailed live instead of read from artifacts
+  const liveTestJobs = useMemo(() => {
+    if (!jobsData?.jobs || !selectedRun || selectedRun.status === 'completed') return [];
+    return jobsData.jobs.filter(job => job.name.startsWith('Test with ') && job.status !== 'completed');
+  }, [jobsData, selectedRun]);
+
+  // The view as a link; the cast position is only added when copying, it changes too often for the URL
+  const currentLink = useMemo<RunLink | null>(() => {
+    if (!selectedPR) return null;
+    const current: RunLink = { pr: selectedPR.prNumber, tab: activeTab as RunTab };
+    if (selectedRunId) current.runId = selectedRunId;
+    if (selectedTaskId) current.task = selectedTaskId;
+
+    if (activeTab === 'terminal' && selectedAgent) {
+      current.agent = selectedAgent;
+      if (compareAgent) current.compare = compareAgent;
+      if (fileSource === 'tests') current.source = 'tests';
+    } else if (activeTab === 'logs' && selectedAgentForLogs) {
+      current.agent = selectedAgentForLogs;
+      if (fileSourceForLogs === 'tests') current.source = 'tests';
+      if (selectedLogFile) current.file = selectedLogFile;
+      if (logLineRange && logLineRange.path === selectedLogFile) {
+        current.lines = { start: logLineRange.start, end: logLineRange.end };
       }
+    }
+    return current;
+  }, [selectedPR, activeTab, selectedRunId, selectedTaskId, selectedAgent, compareAgent, fileSource,
+      selectedAgentForLogs, fileSourceForLogs, selectedLogFile, logLineRange]);
 
-      return await response.json();
-    },
-    enabled: !!(selectedAgentDataForLogs && selectedLogFile),
-    staleTime: CACHE_TIME.STALE_LONG,
-    gcTime: CACHE_TIME.GC_MEDIUM,
-    retry: 1,
-    refetchOnWindowFocus: false,
-  });
-
-  // Update logContent state from React Query and clean ANSI codes
-  const logContent = logContentQuery.data?.content || null;
-  const processedLogContent = useMemo(() => cleanAnsiCodes(logContent || ''), [logContent]);
+  // Report selection changes to the URL; held back until a linked run has been restored
+  const currentHref = currentLink ? runLinkPath(repoName, currentLink) : null;
+  useEffect(() => {
+    if (skipLinkReportRef.current) {
+      // State from the link just applied hasn't rendered yet
+      skipLinkReportRef.current = false;
+      return;
+    }
+    if (!currentLink || pendingLink?.runId || currentHref === syncedHrefRef.current) return;
+    syncedHrefRef.current = currentHref;
+    onLinkChange(currentLink);
+  }, [currentHref, pendingLink]);
+
+  const {
+    triageByTask,
+    assignees: triageAssignees,
+    available: triageAvailable,
+    update: updateTriage,
+  } = useTaskTriage({ organization, repoName, prNumber: selectedPR?.prNumber ?? null, canTriage });
+
+  // Reviewer annotations for the selected run, split by the file each tab is showing
+  const {
+    annotations,
+    available: annotationsAvailable,
+    create: createAnnotation,
+    remove: removeAnnotation,
+  } = useAnnotations({ organization, repoName, workflow, runId: selectedRunId });
+
+  const castAnnotations = useMemo(() => annotations.filter(annotation =>
+    annotation.castTime !== null && annotation.artifactName === selectedAgent && annotation.path === selectedCastFile?.path
+  ), [annotations, selectedAgent, selectedCastFile]);
+
+  const logAnnotations = useMemo(() => annotations.filter(annotation =>
+    annotation.lineStart !== null && annotation.artifactName === selectedAgentForLogs && annotation.path === selectedLogFile
+  ), [annotations, selectedAgentForLogs, selectedLogFile]);
+
+  const selectedLogLines = logLineRange && logLineRange.path === selectedLogFile ? logLineRange : null;
 
   // Compute language for selected file
   const fileLanguage = useMemo(() => {
@@ -833,6 +1143,20 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
               </Select>
             )}
 
+            {/* Compare the selected run against another run of this PR; the comparison includes tests.log diffs */}
+            {canViewLogs && runsData && runsData.runs.length > 1 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 flex-shrink-0"
+                onClick={() => setIsCompareOpen(true)}
+                title="Compare with another run"
+              >
+                <GitCompare className="h-4 w-4 mr-1" />
+                Compare
+              </Button>
+            )}
+
             {/* Commit Selector - Sorted by date (latest first) */}
             {sortedCommits.length > 1 && (
               <Select
@@ -858,6 +1182,20 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
               </Select>
             )}
             
+            {canRerunWorkflows && selectedRun?.status === 'completed' && (
+              <RerunButton
+                organization={organization}
+                repoName={repoName}
+                workflow={workflow}
+                runId={selectedRun.id}
+                hasFailedJobs={!!jobsData?.jobs.some(job => job.conclusion === 'failure')}
+              />
+            )}
+
+            {currentLink && (
+              <CopyLinkButton className="h-8 flex-shrink-0" getUrl={() => runLinkUrl(repoName, currentLink)} />
+            )}
+
             <Button variant="secondary" size="sm" asChild className="flex-shrink-0">
               <a
                 href={prData.html_url}
@@ -873,11 +1211,21 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
         </div>
       </header>
 
+      <RunComparisonDialog
+        open={isCompareOpen}
+        onOpenChange={setIsCompareOpen}
+        organization={organization}
+        repoName={repoName}
+        workflow={workflow}
+        runs={runsData?.runs || []}
+        headRunId={selectedRunId}
+      />
+
       {/* Tab Content */}
       <div className="flex-1 overflow-y-auto scrollbar-thin">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="h-full">
           <div className="bg-card border-b border-border px-6">
-            <TabsList className="grid grid-cols-5 w-full max-w-2xl bg-transparent h-auto p-0">
+            <TabsList className={`grid ${TAB_GRID_COLUMNS[4 + (canViewCasts ? 1 : 0) + (canViewLogs ? 1 : 0)]} w-full max-w-3xl bg-transparent h-auto p-0`}>
               <TabsTrigger
                 value="overview"
                 className="flex items-center gap-2 px-1 py-4 border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
@@ -886,22 +1234,26 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
                 <BarChart3 className="h-4 w-4" />
                 Overview
               </TabsTrigger>
-              <TabsTrigger
-                value="terminal"
-                className="flex items-center gap-2 px-1 py-4 border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
-                data-testid="tab-terminal"
-              >
-                <Terminal className="h-4 w-4" />
-                Terminal
-              </TabsTrigger>
-              <TabsTrigger
-                value="logs"
-                className="flex items-center gap-2 px-1 py-4 border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
-                data-testid="tab-logs"
-              >
-                <Bug className="h-4 w-4" />
-                Logs
-              </TabsTrigger>
+              {canViewCasts && (
+                <TabsTrigger
+                  value="terminal"
+                  className="flex items-center gap-2 px-1 py-4 border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
+                  data-testid="tab-terminal"
+                >
+                  <Terminal className="h-4 w-4" />
+                  Terminal
+                </TabsTrigger>
+              )}
+              {canViewLogs && (
+                <TabsTrigger
+                  value="logs"
+                  className="flex items-center gap-2 px-1 py-4 border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
+                  data-testid="tab-logs"
+                >
+                  <Bug className="h-4 w-4" />
+                  Logs
+                </TabsTrigger>
+              )}
               <TabsTrigger
                 value="files"
                 className="flex items-center gap-2 px-1 py-4 border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
@@ -918,6 +1270,14 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
                 <MessageSquare className="h-4 w-4" />
                 Comments
               </TabsTrigger>
+              <TabsTrigger
+                value="search"
+                className="flex items-center gap-2 px-1 py-4 border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent"
+                data-testid="tab-search"
+              >
+                <Search className="h-4 w-4" />
+                Search
+              </TabsTrigger>
             </TabsList>
           </div>
 
@@ -964,6 +1324,16 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
                           <p className="text-base font-medium flex items-center gap-2">
                             <Tag className="h-5 w-5 text-info" />
                             {taskData?.taskId || 'N/A'}
+                            {currentTaskFlakiness && (
+                              <TooltipProvider>
+                                <FlakinessBadge
+                                  score={currentTaskFlakiness.score}
+                                  commits={currentTaskFlakiness.commits}
+                                  flakyCommits={currentTaskFlakiness.flakyCommits}
+                                  details={currentTaskFlakiness.flakyAgents}
+                                />
+                              </TooltipProvider>
+                            )}
                           </p>
                           {tasksData && tasksData.tasks.length > 1 && (
                             <p className="text-xs text-warning mt-1">
@@ -1024,6 +1394,19 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
                             </div>
                           </div>
                         )}
+                        {triageAvailable && selectedTaskId && (
+                          <div>
+                            <label className="text-sm text-muted-foreground block mb-1">Review</label>
+                            <TaskTriagePanel
+                              taskId={selectedTaskId}
+                              triage={triageByTask[selectedTaskId]}
+                              assignees={triageAssignees}
+                              canEdit={canTriage}
+                              isSaving={updateTriage.isPending}
+                              onSave={(changes) => updateTriage.mutate({ taskId: selectedTaskId, changes })}
+                            />
+                          </div>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -1036,6 +1419,7 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
                       <AgentResultsTable
                         agentTestResultsData={agentTestResultsData}
                         isLoading={isAgentResultsLoading}
+                        flakiness={flakinessData?.agents}
                       />
                     </CardContent>
                   </Card>
@@ -1197,7 +1581,37 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
                       </Button>
                     </div>
 
-                    {selectedAgentData && (
+                    {/* Split view: play a second agent's session alongside */}
+                    {availableAgents.length > 1 && (
+                      <Button
+                        variant={compareAgent ? 'default' : 'ghost'}
+                        size="sm"
+                        onClick={() => setCompareAgent(compareAgent
+                          ? null
+                          : (availableAgents.find((a) => a.artifact_name !== selectedAgent)?.artifact_name || null))}
+                        title="Compare with another agent side by side"
+                      >
+                        <Columns2 className="h-4 w-4 mr-1" />
+                        Compare
+                      </Button>
+                    )}
+
+                    {compareAgent && (
+                      <Select value={compareAgent} onValueChange={setCompareAgent}>
+                        <SelectTrigger className="w-64">
+                          <SelectValue placeholder="Compare with" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {availableAgents.filter((agent) => agent.artifact_name !== selectedAgent).map((agent) => (
+                            <SelectItem key={agent.artifact_name} value={agent.artifact_name}>
+                              {agent.displayName}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+
+                    {selectedAgentData && canDownloadArtifacts && (
                       <Button
                         variant="secondary"
                         size="sm"
@@ -1256,11 +1670,57 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
                       <p className="text-muted-foreground">Loading terminal session...</p>
                     </div>
                   </div>
+                ) : compareAgentData && (compareCastFileQuery.isLoading || compareCastFileQuery.error || !compareCastFile) && castFileQuery.data?.content ? (
+                  <div className="h-full flex items-center justify-center p-8">
+                    <div className="text-center">
+                      {compareCastFileQuery.isLoading ? (
+                        <>
+                          <div className="animate-spin rounded-full h-8 w-8 border-2 border-primary border-t-transparent mx-auto mb-4"></div>
+                          <p className="text-muted-foreground">Loading {compareAgentData.displayName} session...</p>
+                        </>
+                      ) : (
+                        <>
+                          <XCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+                          <p className="text-muted-foreground">
+                            {compareCastFileQuery.error
+                              ? (compareCastFileQuery.error as Error)?.message || 'Failed to load cast file'
+                              : `No ${fileSource} recording found for ${compareAgentData.displayName}`}
+                          </p>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ) : compareAgentData && castFileQuery.data?.content && compareCastFileQuery.data?.content ? (
+                  <div className="h-full">
+                    <SplitCastViewer
+                      left={{ label: selectedAgentData?.displayName || 'Agent', castContent: castFileQuery.data.content }}
+                      right={{ label: compareAgentData.displayName, castContent: compareCastFileQuery.data.content }}
+                    />
+                  </div>
                 ) : castFileQuery.data?.content ? (
                   <div className="h-full">
                     <CustomTerminalViewer
                       castContent={castFileQuery.data.content}
                       showAgentThinking={true}
+                      title={[selectedAgentData?.displayName, selectedTaskId, fileSource === 'tests' ? 'tests' : null].filter(Boolean).join(' - ')}
+                      seekTo={castSeekTarget && castSeekTarget.artifactName === selectedAgent && castSeekTarget.source === fileSource ? castSeekTarget : null}
+                      shareLink={currentLink ? (time) => runLinkUrl(repoName, { ...currentLink, time }) : undefined}
+                      annotations={annotationsAvailable && selectedAgent && selectedCastFile ? {
+                        items: castAnnotations,
+                        canMirror: true,
+                        canCreate: canAnnotate,
+                        isSaving: createAnnotation.isPending,
+                        onCreate: (time, body, mirrorToPR) => createAnnotation.mutateAsync({
+                          prNumber: selectedPR.prNumber,
+                          artifactName: selectedAgent,
+                          path: selectedCastFile.path,
+                          castTime: time,
+                          body,
+                          mirrorToPR,
+                          link: currentLink ? runLinkUrl(repoName, { ...currentLink, time }) : undefined,
+                        }),
+                        onDelete: (annotation) => removeAnnotation.mutate(annotation),
+                      } : undefined}
                     />
                   </div>
                 ) : (
@@ -1340,7 +1800,14 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
           </TabsContent>
 
           <TabsContent value="logs" className="p-0 m-0 h-full">
-            {availableAgents.length > 0 ? (
+            {liveTestJobs.length > 0 ? (
+              <LiveJobLog
+                organization={organization}
+                repoName={repoName}
+                workflow={workflow}
+                jobs={liveTestJobs}
+              />
+            ) : availableAgents.length > 0 ? (
               <div className="flex flex-col h-full">
                 <div className="bg-card border-b border-border p-4 flex-shrink-0">
                   <div className="flex items-center gap-3">
@@ -1348,6 +1815,7 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
                       value={selectedAgentForLogs || ""}
                       onValueChange={(value) => {
                         setSelectedAgentForLogs(value);
+                        setLogJumpTarget(null);
                       }}
                     >
                       <SelectTrigger className="w-64">
@@ -1367,7 +1835,10 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
                       <Button
                         variant={fileSourceForLogs === 'agent' ? 'default' : 'ghost'}
                         size="sm"
-                        onClick={() => setFileSourceForLogs('agent')}
+                        onClick={() => {
+                          setFileSourceForLogs('agent');
+                          setLogJumpTarget(null);
+                        }}
                         className="h-7 px-3"
                       >
                         Agent
@@ -1375,14 +1846,17 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
                       <Button
                         variant={fileSourceForLogs === 'tests' ? 'default' : 'ghost'}
                         size="sm"
-                        onClick={() => setFileSourceForLogs('tests')}
+                        onClick={() => {
+                          setFileSourceForLogs('tests');
+                          setLogJumpTarget(null);
+                        }}
                         className="h-7 px-3"
                       >
                         Tests
                       </Button>
                     </div>
 
-                    {selectedAgentDataForLogs && (
+                    {selectedAgentDataForLogs && canDownloadArtifacts && (
                       <Button
                         variant="secondary"
                         size="sm"
@@ -1394,34 +1868,64 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
                     )}
                   </div>
                 </div>
-                <div className="flex-1 overflow-auto bg-[#282c34] p-4">
-                  {logContentQuery.error ? (
-                    <div className="text-center text-destructive p-8">
-                      <p>Error loading log file</p>
-                      <p className="text-sm mt-2">
-                        {(logContentQuery.error as Error)?.message || 'Failed to load log file'}
-                      </p>
-                    </div>
-                  ) : processedLogContent ? (
-                    <SyntaxHighlighter
-                      language="bash"
-                      style={oneDark}
-                      customStyle={{
-                        margin: 0,
-                        padding: 0,
-                        background: 'transparent',
-                        fontSize: '0.875rem',
-                        lineHeight: '1.6'
-                      }}
-                      wrapLines={true}
-                      wrapLongLines={true}
-                    >
-                      {processedLogContent}
-                    </SyntaxHighlighter>
-                  ) : (
-                    <div className="flex items-center justify-center h-full">
-                      <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
-                      <span className="ml-3 text-gray-400">Loading log file...</span>
+                <div className="flex-1 min-h-0 flex">
+                  <div className="flex-1 min-w-0">
+                    {selectedAgentDataForLogs && selectedLogFile ? (
+                      <VirtualLogView
+                        organization={organization}
+                        repoName={repoName}
+                        workflow={workflow}
+                        artifactId={selectedAgentDataForLogs.id}
+                        path={selectedLogFile}
+                        scrollToLine={logJumpTarget && logJumpTarget.artifactId === selectedAgentDataForLogs.id && logJumpTarget.path === selectedLogFile ? logJumpTarget : null}
+                        selectedLines={selectedLogLines}
+                        onSelectLines={(range) => setLogLineRange(range && { path: selectedLogFile, ...range })}
+                        annotatedLines={logAnnotations.map(annotation => ({
+                          start: annotation.lineStart!,
+                          end: annotation.lineEnd ?? annotation.lineStart!,
+                        }))}
+                      />
+                    ) : (
+                      <div className="flex items-center justify-center h-full bg-[#282c34]">
+                        <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
+                        <span className="ml-3 text-gray-400">Loading log file...</span>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Annotations on the open log; click line numbers to pick the lines */}
+                  {annotationsAvailable && selectedAgentForLogs && selectedLogFile && (
+                    <div className="w-80 flex-shrink-0 border-l border-border bg-card">
+                      <AnnotationList
+                        annotations={logAnnotations}
+                        targetLabel={selectedLogLines
+                          ? (selectedLogLines.start === selectedLogLines.end
+                            ? `line ${selectedLogLines.start}`
+                            : `lines ${selectedLogLines.start}-${selectedLogLines.end}`)
+                          : null}
+                        targetHint="Click a line number (shift-click for a range) to annotate it"
+                        canMirror={true}
+                        canCreate={canAnnotate}
+                        isSaving={createAnnotation.isPending}
+                        onCreate={(body, mirrorToPR) => selectedLogLines ? createAnnotation.mutateAsync({
+                          prNumber: selectedPR.prNumber,
+                          artifactName: selectedAgentForLogs,
+                          path: selectedLogFile,
+                          lineStart: selectedLogLines.start,
+                          lineEnd: selectedLogLines.end,
+                          body,
+                          mirrorToPR,
+                          link: currentLink ? runLinkUrl(repoName, currentLink) : undefined,
+                        }) : Promise.resolve()}
+                        onSelect={(annotation) => {
+                          const start = annotation.lineStart ?? 1;
+                          setLogLineRange({ path: annotation.path, start, end: annotation.lineEnd ?? start });
+                          if (selectedAgentDataForLogs) {
+                            setLogJumpTarget({ artifactId: selectedAgentDataForLogs.id, path: annotation.path, line: start, nonce: Date.now() });
+                          }
+                        }}
+                        onDelete={(annotation) => removeAnnotation.mutate(annotation)}
+                      />
                     </div>
                   )}
                 </div>
@@ -1441,6 +1945,25 @@ export default function GitHubWorkflowContent({ selectedPR, organization, repoNa
             )}
           </TabsContent>
 
+          <TabsContent value="search" className="p-0 m-0 h-full">
+            {selectedRunId ? (
+              <RunSearchPanel
+                organization={organization}
+                repoName={repoName}
+                workflow={workflow}
+                runId={selectedRunId}
+                onSelectMatch={handleSearchMatch}
+              />
+            ) : (
+              <div className="flex items-center justify-center h-full p-8">
+                <div className="text-center">
+                  <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4 opacity-50" />
+                  <p className="text-muted-foreground">Select a workflow run to search its logs and recordings</p>
+                </div>
+              </div>
+            )}
+          </TabsContent>
+
           <TabsContent value="comments" className="p-6 space-y-4 m-0">
             {botCommentsData && botCommentsData.comments && botCommentsData.comments.length > 0 ? (
               <div className="space-y-4">
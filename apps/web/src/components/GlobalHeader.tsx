@@ -1,6 +1,9 @@
 import { UserButton, OrganizationSwitcher } from "@clerk/clerk-react";
-import { Activity, GitBranch, GitPullRequest, CheckCircle, XCircle, Clock, GitCommit, Tag, Loader2, WifiOff } from "lucide-react";
+import { Activity, GitBranch, GitPullRequest, CheckCircle, XCircle, Clock, GitCommit, Tag, Loader2, WifiOff, Shield, KeyRound } from "lucide-react";
+import { useLocation } from "wouter";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { usePermissions } from "@/hooks/usePermissions";
 import { useIsFetching } from "@tanstack/react-query";
 import { useState, useEffect } from "react";
 
@@ -29,6 +32,8 @@ export default function GlobalHeader({
 }: GlobalHeaderProps) {
   // Track background fetching state
   const isFetching = useIsFetching();
+  const [, setLocation] = useLocation();
+  const { isAdmin } = usePermissions();
 
   // Track network status
   const [isOnline, setIsOnline] = useState(true);
@@ -130,6 +135,16 @@ export default function GlobalHeader({
             {statusDisplay.icon}
             <span className={`text-sm font-medium ${statusDisplay.color}`}>{statusDisplay.text}</span>
           </div>
+          <Button variant="ghost" size="sm" className="gap-2" onClick={() => setLocation('/settings/tokens')} data-testid="button-api-tokens">
+            <KeyRound className="h-4 w-4" />
+            API tokens
+          </Button>
+          {isAdmin && (
+            <Button variant="ghost" size="sm" className="gap-2" onClick={() => setLocation('/admin')} data-testid="button-admin">
+              <Shield className="h-4 w-4" />
+              Admin
+            </Button>
+          )}
           <OrganizationSwitcher
             hidePersonal
             afterSelectOrganizationUrl="/"
@@ -0,0 +1,131 @@
+import { useState, useEffect, useRef, useMemo } from "react";
+import { ArrowDownToLine, Radio } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useJobLogStream } from "@/hooks/useJobLogStream";
+import { cleanAnsiCodes } from "@/lib/ansi";
+
+interface LiveJob {
+  id: number;
+  name: string;
+  status: string;
+}
+
+interface LiveJobLogProps {
+  organization: string;
+  repoName: string;
+  workflow: string;
+  jobs: LiveJob[];
+}
+
+// Distance from the bottom (px) within which the view still counts as "at the end"
+const FOLLOW_THRESHOLD_PX = 40;
+
+/**
+ * Live tail of in-progress "Test with …" job logs
+ * Follows new output until the user scrolls up; the Follow button resumes it
+ */
+export default function LiveJobLog({ organization, repoName, workflow, jobs }: LiveJobLogProps) {
+  const [selectedJobId, setSelectedJobId] = useState<number | null>(jobs[0]?.id ?? null);
+  const [follow, setFollow] = useState(true);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep a valid selection as jobs start and finish
+  useEffect(() => {
+    if (jobs.length > 0 && !jobs.some(job => job.id === selectedJobId)) {
+      setSelectedJobId(jobs[0].id);
+    }
+  }, [jobs, selectedJobId]);
+
+  const { content, isStreaming, isComplete, conclusion } = useJobLogStream({
+    organization,
+    repoName,
+    workflow,
+    jobId: selectedJobId,
+  });
+
+  const processedContent = useMemo(() => cleanAnsiCodes(content), [content]);
+
+  // Auto-scroll while following
+  useEffect(() => {
+    if (follow && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [processedContent, follow]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const atBottom = el.scrollHeight - el.scrollTop - el.clientHeight <= FOLLOW_THRESHOLD_PX;
+    if (!atBottom && follow) {
+      setFollow(false);
+    } else if (atBottom && !follow) {
+      setFollow(true);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="bg-card border-b border-border p-4 flex-shrink-0">
+        <div className="flex items-center gap-3">
+          <Select
+            value={selectedJobId ? String(selectedJobId) : ""}
+            onValueChange={(value) => {
+              setSelectedJobId(parseInt(value, 10));
+              setFollow(true);
+            }}
+          >
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Select Job" />
+            </SelectTrigger>
+            <SelectContent>
+              {jobs.map((job) => (
+                <SelectItem key={job.id} value={String(job.id)}>
+                  {job.name.replace(/^Test with /, '')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {isComplete ? (
+            <Badge variant="outline" className="text-xs">
+              Finished{conclusion ? `: ${conclusion}` : ''}
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="text-xs gap-1">
+              <Radio className={`h-3 w-3 ${isStreaming ? 'text-success animate-pulse' : 'text-muted-foreground'}`} />
+              {isStreaming ? 'Live' : 'Connecting...'}
+            </Badge>
+          )}
+
+          <Button
+            variant={follow ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => setFollow(true)}
+            className="h-7 px-3 ml-auto"
+          >
+            <ArrowDownToLine className="h-4 w-4 mr-1" />
+            Follow
+          </Button>
+        </div>
+      </div>
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-auto bg-[#282c34] p-4"
+      >
+        {processedContent ? (
+          <pre className="text-sm leading-relaxed text-gray-200 whitespace-pre-wrap break-words font-mono">
+            {processedContent}
+          </pre>
+        ) : (
+          <div className="flex items-center justify-center h-full">
+            <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
+            <span className="ml-3 text-gray-400">Waiting for job output...</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
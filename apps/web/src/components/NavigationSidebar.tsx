@@ -1,6 +1,6 @@
-import { useState, useEffect, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { Search, User, Calendar, TrendingUp, Filter, ChevronDown, ArrowLeft, GitPullRequest, CheckCircle, XCircle, GitCommit, Tag } from "lucide-react";
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Search, User, Calendar, TrendingUp, Filter, ChevronDown, ArrowLeft, GitPullRequest, CheckCircle, XCircle, GitCommit, Tag, FileSearch, BarChart3, ClipboardCheck } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import {
@@ -11,12 +11,13 @@ import {
   DropdownMenuSeparator,
   DropdownMenuCheckboxItem,
 } from "@/components/ui/dropdown-menu";
-import { GitHubPullRequest, GitHubPRSelection } from "@logflix/shared/schema";
+import { GitHubPullRequest, GitHubPRSelection, LiveUpdateEvent } from "@logflix/shared/schema";
 import { logger } from "@/lib/logger";
 import { createAPIParams, fetchAPI } from "@/lib/api";
 import { CACHE_TIME, API_LIMITS } from "@/lib/constants";
 import { formatDateShort } from "@/lib/date";
 import { getPRStatusIcon } from "@/lib/statusHelpers";
+import { useLiveUpdates } from "@/hooks/useLiveUpdates";
 
 interface NavigationSidebarProps {
   onSelectPR: (selection: GitHubPRSelection) => void;
@@ -25,14 +26,30 @@ interface NavigationSidebarProps {
   organization: string;
   workflow: string;
   onBack: () => void;
+  onOpenSearch?: () => void;
+  onOpenAnalytics?: () => void;
+  onOpenTriage?: () => void;
 }
 
-export default function NavigationSidebar({ onSelectPR, selectedPR, repoName, organization, workflow, onBack }: NavigationSidebarProps) {
+export default function NavigationSidebar({ onSelectPR, selectedPR, repoName, organization, workflow, onBack, onOpenSearch, onOpenAnalytics, onOpenTriage }: NavigationSidebarProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [sortBy, setSortBy] = useState<'created' | 'updated'>('created');
   const [authorFilter, setAuthorFilter] = useState("");
   const [selectedStates, setSelectedStates] = useState<string[]>(['all']);
   const [timeRange, setTimeRange] = useState<'all' | 'week' | 'month'>('all');
+  const queryClient = useQueryClient();
+
+  // PR list changes arrive over the live update stream; polling is only a fallback
+  const handleLiveUpdate = useCallback((event: LiveUpdateEvent) => {
+    if (event.type !== 'pull_request') return;
+
+    queryClient.invalidateQueries({ queryKey: ["/api/github/pull-requests", organization, repoName] });
+    if (['opened', 'closed', 'reopened', 'ready_for_review', 'converted_to_draft'].includes(event.action)) {
+      queryClient.invalidateQueries({ queryKey: ["/api/github/repo-stats", organization, repoName] });
+    }
+  }, [queryClient, organization, repoName]);
+
+  const { isConnected: isLive } = useLiveUpdates({ organization, repoName, onUpdate: handleLiveUpdate });
 
   // Fetch repository stats for counts and display
   const { data: statsData } = useQuery<{ open: number; closed: number; merged: number; draft: number }>({
@@ -93,7 +110,8 @@ export default function NavigationSidebar({ onSelectPR, selectedPR, repoName, or
 
       return result;
     },
-    refetchInterval: CACHE_TIME.REFETCH_INTERVAL,
+    // Live updates only reach clients of the instance that received the webhook, so keep a slow poll as a backstop
+    refetchInterval: isLive ? CACHE_TIME.LIVE_REFETCH_INTERVAL : CACHE_TIME.REFETCH_INTERVAL,
     refetchOnWindowFocus: true,
     refetchIntervalInBackground: true,
     staleTime: CACHE_TIME.NONE,
@@ -185,16 +203,49 @@ export default function NavigationSidebar({ onSelectPR, selectedPR, repoName, or
   return (
     <div className="w-80 bg-card border-r border-border flex flex-col" data-testid="navigation-sidebar">
       {/* Back Button */}
-      <div className="p-3 border-b border-border">
+      <div className="p-3 border-b border-border flex items-center gap-1">
         <Button
           variant="ghost"
           size="sm"
-          className="w-full justify-start gap-2"
+          className="flex-1 justify-start gap-2"
           onClick={onBack}
         >
           <ArrowLeft className="h-4 w-4" />
           <span>Back to Repositories</span>
         </Button>
+        {onOpenSearch && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onOpenSearch}
+            title="Search tasks and failures across all PRs"
+            data-testid="button-repo-search"
+          >
+            <FileSearch className="h-4 w-4" />
+          </Button>
+        )}
+        {onOpenAnalytics && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onOpenAnalytics}
+            title="Agent pass-rate analytics"
+            data-testid="button-repo-analytics"
+          >
+            <BarChart3 className="h-4 w-4" />
+          </Button>
+        )}
+        {onOpenTriage && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onOpenTriage}
+            title="Tasks awaiting review"
+            data-testid="button-repo-triage"
+          >
+            <ClipboardCheck className="h-4 w-4" />
+          </Button>
+        )}
       </div>
 
       {/* Search and Advanced Controls */}
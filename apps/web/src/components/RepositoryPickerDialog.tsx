@@ -0,0 +1,101 @@
+import { useEffect, useMemo, useState } from "react";
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+
+interface RepositoryPickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  /** "owner/repo" names that can be picked */
+  repositories: string[];
+  /** Checked when the dialog opens; entries outside `repositories` are listed too so they can be unchecked */
+  initialSelection: string[];
+  confirmLabel: string;
+  isSaving: boolean;
+  onConfirm: (selection: string[]) => void;
+}
+
+/**
+ * Searchable checklist of repositories for assigning access
+ */
+export default function RepositoryPickerDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  repositories,
+  initialSelection,
+  confirmLabel,
+  isSaving,
+  onConfirm,
+}: RepositoryPickerDialogProps) {
+  const [filter, setFilter] = useState('');
+  const [selection, setSelection] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setSelection(initialSelection);
+      setFilter('');
+    }
+  }, [open, initialSelection]);
+
+  const options = useMemo(() => {
+    const all = repositories.concat(initialSelection.filter(repo => !repositories.includes(repo)));
+    const query = filter.trim().toLowerCase();
+    return all
+      .filter(repo => !query || repo.toLowerCase().includes(query))
+      .sort((a, b) => a.localeCompare(b));
+  }, [repositories, initialSelection, filter]);
+
+  const toggle = (repo: string, checked: boolean) => {
+    setSelection(current => checked ? current.concat(repo) : current.filter(r => r !== repo));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter repositories"
+            className="pl-9"
+          />
+        </div>
+
+        <div className="max-h-80 overflow-y-auto scrollbar-thin border border-border rounded-lg divide-y divide-border">
+          {options.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">No repositories match</p>
+          ) : options.map(repo => (
+            <label key={repo} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-accent/50">
+              <Checkbox
+                checked={selection.includes(repo)}
+                onCheckedChange={(checked) => toggle(repo, checked === true)}
+              />
+              <span className="font-mono truncate">{repo}</span>
+              {!repositories.includes(repo) && (
+                <span className="ml-auto text-xs text-muted-foreground flex-shrink-0">not in your list</span>
+              )}
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter className="items-center">
+          <span className="text-xs text-muted-foreground mr-auto">{selection.length} selected</span>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onConfirm(selection)} disabled={isSaving}>{confirmLabel}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
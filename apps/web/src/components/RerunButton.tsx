@@ -0,0 +1,60 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { createAPIParams, sendJSON } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface RerunButtonProps {
+  organization: string;
+  repoName: string;
+  workflow: string;
+  runId: number;
+  /** Offers re-running only the failed jobs */
+  hasFailedJobs: boolean;
+}
+
+/**
+ * Re-runs a workflow run on GitHub; the new attempt shows up through live updates
+ */
+export default function RerunButton({ organization, repoName, workflow, runId, hasFailedJobs }: RerunButtonProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const rerun = useMutation({
+    mutationFn: (failedOnly: boolean) => {
+      const params = createAPIParams({ owner: organization, repo: repoName, workflow });
+      return sendJSON("POST", `/api/github/workflow-run/${runId}/rerun?${params}`, { failedOnly });
+    },
+    onSuccess: (_, failedOnly) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/github/workflow-run", runId] });
+      toast({ title: failedOnly ? "Re-running failed jobs" : "Re-running workflow", description: `Run ${runId}` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Couldn't re-run workflow", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 flex-shrink-0" disabled={rerun.isPending} title="Re-run this workflow run">
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Re-run
+          <ChevronDown className="h-3 w-3 ml-1" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => rerun.mutate(false)}>Re-run all jobs</DropdownMenuItem>
+        {hasFailedJobs && (
+          <DropdownMenuItem onClick={() => rerun.mutate(true)}>Re-run failed jobs</DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
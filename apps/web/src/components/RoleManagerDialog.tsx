@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { Permission, type RoleDefinition, type RoleSummary } from "@logflix/shared/auth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+
+interface RoleManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  roles: RoleSummary[];
+  /** Permissions a custom role may grant */
+  assignablePermissions: Permission[];
+  isSaving: boolean;
+  onSave: (role: RoleDefinition) => Promise<unknown>;
+  onDelete: (roleId: string) => void;
+}
+
+export const PERMISSION_LABELS: Partial<Record<Permission, string>> = {
+  [Permission.VIEW_CASTS]: 'View casts',
+  [Permission.VIEW_LOGS]: 'View logs',
+  [Permission.DOWNLOAD_ARTIFACTS]: 'Download artifacts',
+  [Permission.ANNOTATE]: 'Annotate',
+  [Permission.TRIAGE]: 'Triage tasks',
+  [Permission.RERUN_WORKFLOWS]: 'Re-run workflows',
+};
+
+const ROLE_ID_PATTERN = /^[a-z][a-z0-9-]{1,31}$/;
+
+const toRoleId = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^[^a-z]+|-+$/g, '').slice(0, 32);
+
+/**
+ * Lists built-in and custom roles; custom roles can be created, edited and deleted
+ */
+export default function RoleManagerDialog({
+  open,
+  onOpenChange,
+  roles,
+  assignablePermissions,
+  isSaving,
+  onSave,
+  onDelete,
+}: RoleManagerDialogProps) {
+  // The role being edited; `isNew` lets the id be chosen, existing ids are fixed
+  const [draft, setDraft] = useState<(RoleDefinition & { isNew: boolean }) | null>(null);
+
+  useEffect(() => {
+    if (!open) setDraft(null);
+  }, [open]);
+
+  const idTaken = !!draft?.isNew && roles.some(role => role.id === draft.id);
+  const canSave = !!draft && !!draft.name.trim() && ROLE_ID_PATTERN.test(draft.id) && !idTaken;
+
+  const save = async () => {
+    if (!draft || !canSave) return;
+    const { isNew, ...role } = draft;
+    try {
+      await onSave(role);
+      setDraft(null);
+    } catch {
+      // The mutation reports the error; keep the draft so it can be retried
+    }
+  };
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setDraft(current => current && {
+      ...current,
+      permissions: checked
+        ? current.permissions.concat(permission)
+        : current.permissions.filter(p => p !== permission),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Roles</DialogTitle>
+          <DialogDescription>
+            Custom roles see their assigned repositories plus the permissions checked here. They apply to this organization.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm text-muted-foreground block mb-1">Name</label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => {
+                    const name = e.target.value;
+                    setDraft(current => current && { ...current, name, ...(current.isNew && { id: toRoleId(name) }) });
+                  }}
+                  placeholder="e.g. Reviewer"
+                />
+              </div>
+              <div>
+                <label className="text-sm text-muted-foreground block mb-1">ID</label>
+                <Input
+                  value={draft.id}
+                  disabled={!draft.isNew}
+                  onChange={(e) => setDraft(current => current && { ...current, id: e.target.value })}
+                  className="font-mono"
+                />
+                {idTaken && <p className="text-xs text-destructive mt-1">A role with this ID already exists</p>}
+              </div>
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground block mb-1">Description</label>
+              <Input
+                value={draft.description ?? ''}
+                onChange={(e) => setDraft(current => current && { ...current, description: e.target.value })}
+                placeholder="Optional"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {assignablePermissions.map(permission => (
+                <label key={permission} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={draft.permissions.includes(permission)}
+                    onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                  />
+                  {PERMISSION_LABELS[permission] ?? permission}
+                  <code className="text-xs text-muted-foreground">{permission}</code>
+                </label>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button onClick={save} disabled={!canSave || isSaving}>Save role</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <>
+            <div className="max-h-96 overflow-y-auto scrollbar-thin border border-border rounded-lg divide-y divide-border">
+              {roles.map(role => (
+                <div key={role.id} className="flex items-start gap-3 p-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium">
+                      {role.name}
+                      <code className="ml-2 text-xs text-muted-foreground">{role.id}</code>
+                      {role.builtIn && <Badge variant="outline" className="ml-2 text-xs">Built-in</Badge>}
+                    </p>
+                    {role.description && <p className="text-xs text-muted-foreground">{role.description}</p>}
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {role.permissions.filter(p => assignablePermissions.includes(p)).map(permission => (
+                        <Badge key={permission} variant="secondary" className="text-xs">
+                          {PERMISSION_LABELS[permission] ?? permission}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  {!role.builtIn && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={() => setDraft({ id: role.id, name: role.name, description: role.description, permissions: role.permissions, isNew: false })}
+                        title="Edit role"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-muted-foreground hover:text-destructive"
+                        onClick={() => onDelete(role.id)}
+                        title="Delete role; its users keep repository visibility only"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button onClick={() => setDraft({ id: '', name: '', description: '', permissions: [], isNew: true })}>
+                <Plus className="h-4 w-4 mr-1" />
+                New role
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState, useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowRight, ChevronRight, GitCompare, Minus, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GitHubWorkflowRun, RunComparison, RunComparisonLogDiff } from "@logflix/shared/schema";
+import { createAPIParams, fetchAPI } from "@/lib/api";
+import { CACHE_TIME } from "@/lib/constants";
+import { formatDateCompact, formatTime, formatDuration } from "@/lib/date";
+
+interface RunComparisonDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organization: string;
+  repoName: string;
+  workflow: string;
+  runs: GitHubWorkflowRun[];
+  headRunId: number | null;
+}
+
+function runLabel(run: GitHubWorkflowRun): string {
+  return `#${run.run_number}.${run.run_attempt} • ${run.head_sha.substring(0, 7)} • ${formatDateCompact(run.created_at)} ${formatTime(run.created_at)}`;
+}
+
+function formatDelta(seconds: number): string {
+  if (seconds === 0) return '±0s';
+  return `${seconds > 0 ? '+' : '-'}${formatDuration(Math.abs(seconds))}`;
+}
+
+function statusColor(status: string | null): string {
+  return status === 'PASS' ? 'text-success' : status === 'FAIL' ? 'text-destructive' : 'text-muted-foreground';
+}
+
+/**
+ * One agent's tests.log diff, collapsed until opened
+ */
+function LogDiffSection({ diff }: { diff: RunComparisonLogDiff }) {
+  const [expanded, setExpanded] = useState(false);
+  const canExpand = diff.status === 'changed';
+
+  const statusBadge = diff.status === 'changed' ? (
+    <span className="text-xs font-mono">
+      <span className="text-success">+{diff.added}</span> <span className="text-destructive">-{diff.removed}</span>
+    </span>
+  ) : (
+    <Badge variant="secondary" className="text-xs capitalize">{diff.status}</Badge>
+  );
+
+  return (
+    <div className="border border-border rounded-lg overflow-hidden">
+      <button
+        type="button"
+        onClick={() => canExpand && setExpanded(!expanded)}
+        className={`w-full bg-muted px-4 py-2 flex items-center gap-2 text-sm text-left ${canExpand ? 'hover:bg-muted/70' : 'cursor-default'}`}
+      >
+        <ChevronRight className={`h-4 w-4 transition-transform ${expanded ? 'rotate-90' : ''} ${canExpand ? '' : 'opacity-30'}`} />
+        <span className="font-medium">{diff.agent}</span>
+        {diff.taskId && <code className="text-xs text-muted-foreground font-mono truncate">{diff.taskId}</code>}
+        <span className="ml-auto">{statusBadge}</span>
+      </button>
+      {expanded && (
+        <div className="font-mono text-xs overflow-x-auto scrollbar-thin max-h-[28rem] overflow-y-auto">
+          {diff.hunks.map(hunk => (
+            <div key={`${hunk.baseStart}:${hunk.headStart}`}>
+              <div className="px-4 py-1 bg-info/10 text-info">@@ -{hunk.baseStart} +{hunk.headStart} @@</div>
+              {hunk.lines.map((line, i) => (
+                <div
+                  key={i}
+                  className={`flex whitespace-pre ${
+                    line.type === 'added' ? 'bg-success/10' : line.type === 'removed' ? 'bg-destructive/10' : ''
+                  }`}
+                >
+                  <span className="w-12 flex-shrink-0 text-right pr-2 text-muted-foreground select-none">{line.baseLine ?? ''}</span>
+                  <span className="w-12 flex-shrink-0 text-right pr-2 text-muted-foreground select-none">{line.headLine ?? ''}</span>
+                  <span className="w-4 flex-shrink-0 select-none">
+                    {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                  </span>
+                  <span>{line.text}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+          {diff.truncated && (
+            <div className="px-4 py-2 text-muted-foreground">Diff truncated - open the logs for the full output</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Side-by-side comparison of two runs of the PR's workflow
+ * Shows agent result flips, tasks added or removed, duration deltas and tests.log diffs
+ */
+export default function RunComparisonDialog({
+  open,
+  onOpenChange,
+  organization,
+  repoName,
+  workflow,
+  runs,
+  headRunId,
+}: RunComparisonDialogProps) {
+  const sortedRuns = useMemo(
+    () => [...runs].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()),
+    [runs]
+  );
+
+  const [baseId, setBaseId] = useState<number | null>(null);
+  const [headId, setHeadId] = useState<number | null>(null);
+
+  // Default to the selected run against the run just before it
+  useEffect(() => {
+    if (!open) return;
+    const headIndex = sortedRuns.findIndex(run => run.id === headRunId);
+    const head = sortedRuns[headIndex === -1 ? 0 : headIndex];
+    const base = sortedRuns[(headIndex === -1 ? 0 : headIndex) + 1];
+    setHeadId(head?.id ?? null);
+    setBaseId(base?.id ?? null);
+  }, [open, headRunId, sortedRuns]);
+
+  const comparisonQuery = useQuery<RunComparison>({
+    queryKey: ["/api/github/compare-runs", baseId, headId],
+    queryFn: () => {
+      const params = createAPIParams({ owner: organization, repo: repoName, workflow });
+      return fetchAPI<RunComparison>(`/api/github/compare-runs/${baseId}/${headId}?${params}`);
+    },
+    enabled: open && baseId !== null && headId !== null && baseId !== headId,
+    staleTime: CACHE_TIME.STALE_LONG,
+    gcTime: CACHE_TIME.GC_MEDIUM,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const comparison = comparisonQuery.data;
+  const changedAgents = comparison?.agents.filter(agent => agent.changed) || [];
+  const unchangedAgents = comparison?.agents.filter(agent => !agent.changed) || [];
+
+  const runSelect = (value: number | null, onChange: (id: number) => void, label: string) => (
+    <div className="flex-1 min-w-0">
+      <label className="text-xs text-muted-foreground block mb-1">{label}</label>
+      <Select value={value?.toString() || ""} onValueChange={(v) => onChange(Number(v))}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue placeholder="Select run" />
+        </SelectTrigger>
+        <SelectContent>
+          {sortedRuns.map(run => (
+            <SelectItem key={run.id} value={run.id.toString()}>
+              <span className="text-xs font-mono">{runLabel(run)}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            Compare Runs
+          </DialogTitle>
+          <DialogDescription>What changed between two runs of this pull request's workflow</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-3">
+          {runSelect(baseId, setBaseId, "Base")}
+          <ArrowRight className="h-4 w-4 text-muted-foreground mb-2 flex-shrink-0" />
+          {runSelect(headId, setHeadId, "Compare")}
+        </div>
+
+        <div className="flex-1 overflow-y-auto scrollbar-thin space-y-6 pr-1">
+          {baseId === headId ? (
+            <p className="text-center text-muted-foreground p-8">Choose two different runs to compare</p>
+          ) : comparisonQuery.isLoading ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
+              <span className="ml-3 text-muted-foreground">Comparing runs and diffing logs...</span>
+            </div>
+          ) : comparisonQuery.error ? (
+            <div className="text-center text-destructive p-8">
+              <p>Comparison failed</p>
+              <p className="text-sm mt-2">{(comparisonQuery.error as Error)?.message || 'Failed to compare runs'}</p>
+            </div>
+          ) : comparison ? (
+            <>
+              <section>
+                <h3 className="text-sm font-semibold mb-2">Agent Results</h3>
+                {comparison.agents.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No agent results in either run</p>
+                ) : (
+                  <div className="border border-border rounded-lg divide-y divide-border">
+                    {changedAgents.concat(unchangedAgents).map(agent => (
+                      <div
+                        key={agent.agentKey}
+                        className={`grid grid-cols-[2fr_1fr_auto_1fr] gap-4 px-4 py-2 text-sm items-center ${agent.changed ? 'bg-warning/10' : ''}`}
+                      >
+                        <span className="truncate">{agent.agentKey}</span>
+                        <span className={`font-semibold text-center ${statusColor(agent.base)}`}>{agent.base ?? '—'}</span>
+                        <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+                        <span className={`font-semibold text-center ${statusColor(agent.head)}`}>{agent.head ?? '—'}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+
+              <section>
+                <h3 className="text-sm font-semibold mb-2">Tasks</h3>
+                <div className="flex flex-wrap gap-2 items-center text-sm">
+                  {comparison.tasks.added.map(taskId => (
+                    <Badge key={`added-${taskId}`} variant="outline" className="gap-1 border-success/40 text-success">
+                      <Plus className="h-3 w-3" />{taskId}
+                    </Badge>
+                  ))}
+                  {comparison.tasks.removed.map(taskId => (
+                    <Badge key={`removed-${taskId}`} variant="outline" className="gap-1 border-destructive/40 text-destructive">
+                      <Minus className="h-3 w-3" />{taskId}
+                    </Badge>
+                  ))}
+                  <span className="text-muted-foreground">
+                    {comparison.tasks.unchanged.length} task{comparison.tasks.unchanged.length === 1 ? '' : 's'} in both runs
+                  </span>
+                </div>
+              </section>
+
+              <section>
+                <h3 className="text-sm font-semibold mb-2">
+                  Durations
+                  <span className="ml-2 font-normal text-muted-foreground">
+                    Run {formatDelta(comparison.durationDeltaSec)}
+                  </span>
+                </h3>
+                <div className="border border-border rounded-lg divide-y divide-border">
+                  {comparison.jobs.map(job => (
+                    <div key={job.name} className="grid grid-cols-[2fr_1fr_1fr_1fr] gap-4 px-4 py-2 text-sm">
+                      <span className="truncate" title={job.name}>{job.name}</span>
+                      <span className="text-muted-foreground text-right">
+                        {job.baseDurationSec !== null ? formatDuration(job.baseDurationSec) : '—'}
+                      </span>
+                      <span className="text-muted-foreground text-right">
+                        {job.headDurationSec !== null ? formatDuration(job.headDurationSec) : '—'}
+                      </span>
+                      <span className={`text-right font-mono ${
+                        job.deltaSec === null ? 'text-muted-foreground' : job.deltaSec > 0 ? 'text-destructive' : 'text-success'
+                      }`}>
+                        {job.deltaSec !== null ? formatDelta(job.deltaSec) : '—'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              <section>
+                <h3 className="text-sm font-semibold mb-2">tests.log</h3>
+                {comparison.logDiffs.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No test logs found in either run's recordings</p>
+                ) : (
+                  <div className="space-y-2">
+                    {comparison.logDiffs.map(diff => (
+                      <LogDiffSection key={`${diff.agent}:${diff.taskId}`} diff={diff} />
+                    ))}
+                  </div>
+                )}
+              </section>
+            </>
+          ) : null}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
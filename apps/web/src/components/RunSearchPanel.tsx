@@ -0,0 +1,194 @@
+import { useState, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Search, Terminal, Bug, CaseSensitive } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { RunSearchMatch, RunSearchResponse } from "@logflix/shared/schema";
+import { createAPIParams, fetchAPI } from "@/lib/api";
+import { CACHE_TIME } from "@/lib/constants";
+
+interface RunSearchPanelProps {
+  organization: string;
+  repoName: string;
+  workflow: string;
+  runId: number;
+  onSelectMatch: (match: RunSearchMatch) => void;
+}
+
+const MIN_QUERY_LENGTH = 2;
+
+function formatCastTime(seconds: number): string {
+  const totalSeconds = Math.floor(seconds);
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Highlights every occurrence of the query in a result line
+ */
+function HighlightedLine({ line, query, caseSensitive }: { line: string; query: string; caseSensitive: boolean }) {
+  const parts: JSX.Element[] = [];
+  const haystack = caseSensitive ? line : line.toLowerCase();
+  const needle = caseSensitive ? query : query.toLowerCase();
+  let position = 0;
+  let index = haystack.indexOf(needle);
+
+  while (index !== -1 && needle.length > 0) {
+    if (index > position) parts.push(<span key={position}>{line.slice(position, index)}</span>);
+    parts.push(
+      <mark key={`m${index}`} className="bg-yellow-500/40 text-foreground rounded-sm">
+        {line.slice(index, index + needle.length)}
+      </mark>
+    );
+    position = index + needle.length;
+    index = haystack.indexOf(needle, position);
+  }
+  if (position < line.length) parts.push(<span key={position}>{line.slice(position)}</span>);
+
+  return <>{parts}</>;
+}
+
+/**
+ * Full-text search across every agent's logs and terminal recordings in a run
+ * Log matches jump to the line in the Logs tab, cast matches to the timestamp in the Terminal tab
+ */
+export default function RunSearchPanel({ organization, repoName, workflow, runId, onSelectMatch }: RunSearchPanelProps) {
+  const [input, setInput] = useState("");
+  const [submittedQuery, setSubmittedQuery] = useState("");
+  const [caseSensitive, setCaseSensitive] = useState(false);
+
+  const searchQuery = useQuery<RunSearchResponse>({
+    queryKey: ["/api/github/search/run", runId, submittedQuery, caseSensitive],
+    queryFn: () => {
+      const params = createAPIParams(
+        { owner: organization, repo: repoName, workflow },
+        { q: submittedQuery, caseSensitive: String(caseSensitive) }
+      );
+      return fetchAPI<RunSearchResponse>(`/api/github/search/run/${runId}?${params}`);
+    },
+    enabled: submittedQuery.length >= MIN_QUERY_LENGTH,
+    staleTime: CACHE_TIME.STALE_LONG,
+    gcTime: CACHE_TIME.GC_MEDIUM,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  // Group matches by agent and file, keeping server order
+  const groupedMatches = useMemo(() => {
+    const groups: Array<{ key: string; agent: string; filePath: string; matches: RunSearchMatch[] }> = [];
+    for (const match of searchQuery.data?.matches || []) {
+      const key = `${match.artifactId}:${match.filePath}`;
+      let group = groups.find(g => g.key === key);
+      if (!group) {
+        group = { key, agent: match.agent, filePath: match.filePath, matches: [] };
+        groups.push(group);
+      }
+      group.matches.push(match);
+    }
+    return groups;
+  }, [searchQuery.data]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmittedQuery(input.trim());
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="bg-card border-b border-border p-4 flex-shrink-0">
+        <form onSubmit={handleSubmit} className="flex items-center gap-3">
+          <div className="relative flex-1 max-w-xl">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Search agent and test logs and recordings..."
+              className="pl-9"
+              data-testid="input-run-search"
+            />
+          </div>
+          <Button
+            type="button"
+            variant={caseSensitive ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => setCaseSensitive(!caseSensitive)}
+            title="Match case"
+          >
+            <CaseSensitive className="h-4 w-4" />
+          </Button>
+          <Button type="submit" size="sm" disabled={input.trim().length < MIN_QUERY_LENGTH}>
+            Search
+          </Button>
+        </form>
+        {searchQuery.data && (
+          <p className="text-xs text-muted-foreground mt-2">
+            {searchQuery.data.matches.length} match{searchQuery.data.matches.length === 1 ? '' : 'es'} in {searchQuery.data.filesSearched} file{searchQuery.data.filesSearched === 1 ? '' : 's'}
+            {searchQuery.data.truncated && ' (showing first results only - refine your query)'}
+          </p>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin p-4 space-y-4">
+        {!submittedQuery ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="text-center">
+              <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4 opacity-50" />
+              <p className="text-muted-foreground">Search across every agent's logs and terminal recordings in this run</p>
+            </div>
+          </div>
+        ) : searchQuery.isLoading ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
+            <span className="ml-3 text-muted-foreground">Searching artifacts...</span>
+          </div>
+        ) : searchQuery.error ? (
+          <div className="text-center text-destructive p-8">
+            <p>Search failed</p>
+            <p className="text-sm mt-2">{(searchQuery.error as Error)?.message || 'Failed to search run artifacts'}</p>
+          </div>
+        ) : groupedMatches.length === 0 ? (
+          <div className="text-center text-muted-foreground p-8">
+            No matches for "{submittedQuery}"
+          </div>
+        ) : (
+          groupedMatches.map(group => (
+            <div key={group.key} className="border border-border rounded-lg overflow-hidden">
+              <div className="bg-muted px-4 py-2 flex items-center gap-2 text-sm">
+                {group.filePath.endsWith('.cast') ? <Terminal className="h-4 w-4" /> : <Bug className="h-4 w-4" />}
+                <span className="font-medium">{group.agent}</span>
+                <span className="text-muted-foreground font-mono truncate">{group.filePath}</span>
+                <Badge variant="secondary" className="ml-auto text-xs">{group.matches.length}</Badge>
+              </div>
+              <div className="divide-y divide-border">
+                {group.matches.map(match => (
+                  <button
+                    key={`${match.lineNumber}`}
+                    type="button"
+                    onClick={() => onSelectMatch(match)}
+                    className="w-full text-left px-4 py-2 hover:bg-accent/50 font-mono text-xs"
+                  >
+                    {match.before.map((line, i) => (
+                      <div key={`b${i}`} className="text-muted-foreground whitespace-pre truncate">{line}</div>
+                    ))}
+                    <div className="flex gap-3 whitespace-pre">
+                      <span className="text-muted-foreground flex-shrink-0">
+                        {match.timestamp !== null ? formatCastTime(match.timestamp) : `L${match.lineNumber}`}
+                      </span>
+                      <span className="truncate">
+                        <HighlightedLine line={match.line} query={searchQuery.data!.query} caseSensitive={caseSensitive} />
+                      </span>
+                    </div>
+                    {match.after.map((line, i) => (
+                      <div key={`a${i}`} className="text-muted-foreground whitespace-pre truncate">{line}</div>
+                    ))}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
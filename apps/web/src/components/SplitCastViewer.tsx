@@ -0,0 +1,383 @@
+import { useState, useEffect, useMemo, useRef, type Dispatch, type SetStateAction } from "react";
+import { Play, Pause, RotateCcw, Terminal, Columns2, ListOrdered } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import TerminalScreenView from "./TerminalScreenView";
+import { useCastPlayback, type CastFrame } from "@/hooks/useCastPlayback";
+import { diffSequences, type CastSummary } from "@/lib/cast";
+
+interface SplitCastSide {
+  label: string;
+  castContent: string;
+}
+
+interface SplitCastViewerProps {
+  left: SplitCastSide;
+  right: SplitCastSide;
+}
+
+type AlignMode = 'episodes' | 'time';
+
+interface PaneTimeline {
+  summary: CastSummary;
+  markers: number[];
+  /** 0, every marker, then the end - consecutive pairs bound one episode */
+  boundaries: number[];
+}
+
+const TICK_MS = 33;
+const SPEEDS = [0.5, 1, 2, 4, 8, 16];
+
+function buildTimeline(summary: CastSummary): PaneTimeline {
+  const { markers } = summary;
+  return { summary, markers, boundaries: [0, ...markers, summary.maxTime] };
+}
+
+/**
+ * Fractional episode index at `time`, e.g. 2.5 is halfway through the third episode
+ */
+function episodePosition(timeline: PaneTimeline, time: number): number {
+  const { boundaries } = timeline;
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    if (time < boundaries[i + 1]) {
+      const span = boundaries[i + 1] - boundaries[i];
+      return i + (span > 0 ? (time - boundaries[i]) / span : 0);
+    }
+  }
+  return boundaries.length - 1;
+}
+
+function timeAtEpisodePosition(timeline: PaneTimeline, position: number): number {
+  const { boundaries } = timeline;
+  const segment = Math.floor(position);
+  if (segment >= boundaries.length - 1) return timeline.summary.maxTime;
+  return boundaries[segment] + (position - segment) * (boundaries[segment + 1] - boundaries[segment]);
+}
+
+function formatTime(seconds: number): string {
+  const totalSeconds = Math.floor(seconds);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * One side of the split view: its own terminal, clock readout and speed
+ */
+function CastPane({
+  label,
+  timeline,
+  frame,
+  time,
+  speed,
+  onSpeedChange,
+  isPlaying,
+}: {
+  label: string;
+  timeline: PaneTimeline;
+  frame: CastFrame | null;
+  time: number;
+  speed: number;
+  onSpeedChange: (speed: number) => void;
+  isPlaying: boolean;
+}) {
+  const terminalRef = useRef<HTMLDivElement>(null);
+  const episode = timeline.markers.filter(marker => marker <= time).length;
+
+  const currentThought = useMemo(() => {
+    const thoughts = timeline.summary.agentThoughts.filter(thought => thought.timestamp <= time);
+    return thoughts[thoughts.length - 1];
+  }, [timeline, time]);
+
+  useEffect(() => {
+    if (isPlaying && terminalRef.current) {
+      terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
+    }
+  }, [frame, isPlaying]);
+
+  return (
+    <Card className="min-w-0">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-sm min-w-0">
+            <Terminal className="h-4 w-4 flex-shrink-0" />
+            <span className="truncate">{label}</span>
+          </CardTitle>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {timeline.markers.length > 0 && (
+              <Badge variant="outline" className="text-xs">
+                Episode {Math.max(episode, 1)} of {timeline.markers.length}
+              </Badge>
+            )}
+            <span className="text-xs text-muted-foreground font-mono">
+              {formatTime(time)} / {formatTime(timeline.summary.maxTime)}
+            </span>
+            <select
+              value={speed}
+              onChange={(e) => onSpeedChange(Number(e.target.value))}
+              className="text-xs bg-muted rounded px-2 py-1"
+            >
+              {SPEEDS.map(option => (
+                <option key={option} value={option}>{option}x</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="w-full bg-gray-300 dark:bg-gray-600 rounded-full h-1">
+          <div
+            className="bg-blue-500 h-1 rounded-full"
+            style={{ width: `${timeline.summary.maxTime > 0 ? (time / timeline.summary.maxTime) * 100 : 0}%` }}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div
+          ref={terminalRef}
+          className="h-[500px] p-4 overflow-y-auto scrollbar-thin bg-[#282c34] text-gray-100"
+        >
+          <TerminalScreenView frame={frame} fontSize={12} placeholder="No terminal output yet... Press play to start" />
+        </div>
+        {currentThought && (currentThought.explanation || currentThought.raw_content) && (
+          <div className="px-4 py-2 border-t border-border text-xs text-muted-foreground line-clamp-2">
+            {currentThought.explanation || currentThought.raw_content}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Plays two terminal sessions side by side on a shared timeline
+ * Episode alignment holds whichever agent is ahead at each episode marker until the other
+ * catches up; time alignment runs both from the same start. Each side keeps its own speed.
+ */
+export default function SplitCastViewer({ left, right }: SplitCastViewerProps) {
+  const [times, setTimes] = useState<[number, number]>([0, 0]);
+  const leftPlayback = useCastPlayback(left.castContent, times[0]);
+  const rightPlayback = useCastPlayback(right.castContent, times[1]);
+
+  useEffect(() => {
+    setTimes([0, 0]);
+  }, [left.castContent, right.castContent]);
+
+  const timelines = useMemo(
+    () => leftPlayback.summary && rightPlayback.summary
+      ? [buildTimeline(leftPlayback.summary), buildTimeline(rightPlayback.summary)]
+      : null,
+    [leftPlayback.summary, rightPlayback.summary]
+  );
+
+  if (!timelines) {
+    return (
+      <div className="h-full flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
+        <span className="ml-3 text-muted-foreground">Parsing recordings...</span>
+      </div>
+    );
+  }
+
+  return (
+    <SplitCastPlayer
+      left={left}
+      right={right}
+      timelines={timelines}
+      frames={[leftPlayback.frame, rightPlayback.frame]}
+      times={times}
+      setTimes={setTimes}
+    />
+  );
+}
+
+function SplitCastPlayer({
+  left,
+  right,
+  timelines,
+  frames,
+  times,
+  setTimes,
+}: SplitCastViewerProps & {
+  timelines: PaneTimeline[];
+  frames: Array<CastFrame | null>;
+  times: [number, number];
+  setTimes: Dispatch<SetStateAction<[number, number]>>;
+}) {
+  const canAlignEpisodes = timelines.every(timeline => timeline.markers.length > 0);
+
+  const [mode, setMode] = useState<AlignMode>(canAlignEpisodes ? 'episodes' : 'time');
+  const [speeds, setSpeeds] = useState<[number, number]>([1, 1]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [showCommands, setShowCommands] = useState(false);
+
+  // Shared clock: each side advances at its own speed, held at episode barriers when aligning by episode
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let last = performance.now();
+    const interval = setInterval(() => {
+      const now = performance.now();
+      const elapsed = (now - last) / 1000;
+      last = now;
+
+      setTimes(current => {
+        const finished = timelines.map((timeline, i) => current[i] >= timeline.summary.maxTime);
+        if (finished[0] && finished[1]) {
+          setIsPlaying(false);
+          return current;
+        }
+
+        // A finished side no longer holds the other back
+        const passed = timelines.map((timeline, i) =>
+          finished[i] ? Infinity : timeline.markers.filter(marker => marker <= current[i]).length
+        );
+        const slowest = Math.min(passed[0], passed[1]);
+
+        const next = timelines.map((timeline, i) => {
+          const advanced = Math.min(timeline.summary.maxTime, current[i] + elapsed * speeds[i]);
+          if (mode !== 'episodes') return advanced;
+          const barrier = slowest < timeline.markers.length ? timeline.markers[slowest] : timeline.summary.maxTime;
+          return current[i] >= barrier ? current[i] : Math.min(advanced, barrier);
+        });
+        return [next[0], next[1]];
+      });
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, timelines, speeds, mode]);
+
+  // Shared scrubber position, in episodes or seconds
+  const episodeSpan = Math.max(...timelines.map(timeline => timeline.boundaries.length - 1), 1);
+  const timeSpan = Math.max(...timelines.map(timeline => timeline.summary.maxTime), 0);
+  const sharedFraction = mode === 'episodes'
+    ? Math.max(...timelines.map((timeline, i) => episodePosition(timeline, times[i]))) / episodeSpan
+    : timeSpan > 0 ? Math.max(times[0], times[1]) / timeSpan : 0;
+
+  const seekFraction = (fraction: number) => {
+    const next = timelines.map(timeline => mode === 'episodes'
+      ? timeAtEpisodePosition(timeline, fraction * episodeSpan)
+      : Math.min(timeline.summary.maxTime, fraction * timeSpan));
+    setTimes([next[0], next[1]]);
+  };
+
+  const commandDiff = useMemo(() => {
+    if (!showCommands) return [];
+    const [leftCommands, rightCommands] = timelines.map(timeline => timeline.summary.commands.map(entry => entry.command));
+    return diffSequences(leftCommands, rightCommands);
+  }, [timelines, showCommands]);
+
+  const sharedCount = commandDiff.filter(entry => entry.type === 'both').length;
+
+  return (
+    <div className="space-y-4 p-4">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="sm" onClick={() => setTimes([0, 0])} title="Restart both">
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setIsPlaying(!isPlaying)} title={isPlaying ? 'Pause' : 'Play both'}>
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+
+        <div className="flex items-center gap-1 border border-border rounded-lg p-1">
+          <Button
+            variant={mode === 'episodes' ? 'default' : 'ghost'}
+            size="sm"
+            className="h-7 px-3"
+            onClick={() => setMode('episodes')}
+            disabled={!canAlignEpisodes}
+            title={canAlignEpisodes ? 'Align by episode markers' : 'Both recordings need episode markers'}
+          >
+            Episodes
+          </Button>
+          <Button
+            variant={mode === 'time' ? 'default' : 'ghost'}
+            size="sm"
+            className="h-7 px-3"
+            onClick={() => setMode('time')}
+            title="Align by time since start"
+          >
+            Time
+          </Button>
+        </div>
+
+        {/* Shared timeline */}
+        <div
+          className="relative flex-1 bg-gray-300 dark:bg-gray-600 rounded-full h-2 cursor-pointer"
+          onClick={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            seekFraction(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)));
+          }}
+        >
+          <div className="bg-gradient-to-r from-blue-500 to-blue-400 h-2 rounded-full" style={{ width: `${sharedFraction * 100}%` }} />
+          {mode === 'episodes' && Array.from({ length: episodeSpan - 1 }, (_, i) => (
+            <button
+              key={i}
+              onClick={(e) => {
+                e.stopPropagation();
+                seekFraction((i + 1) / episodeSpan);
+              }}
+              className="absolute top-1/2 w-2.5 h-2.5 rounded-full border-2 border-white bg-amber-400 hover:scale-125 transition-transform"
+              style={{ left: `${((i + 1) / episodeSpan) * 100}%`, transform: 'translateX(-50%) translateY(-50%)' }}
+              title={`Episode ${i + 2}`}
+            />
+          ))}
+        </div>
+
+        <Button
+          variant={showCommands ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => setShowCommands(!showCommands)}
+          title="Compare the commands each agent ran"
+        >
+          <ListOrdered className="h-4 w-4 mr-1" />
+          Commands
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {[left, right].map((side, i) => (
+          <CastPane
+            key={i}
+            label={side.label}
+            timeline={timelines[i]}
+            frame={frames[i]}
+            time={times[i]}
+            speed={speeds[i]}
+            onSpeedChange={(speed) => setSpeeds(current => i === 0 ? [speed, current[1]] : [current[0], speed])}
+            isPlaying={isPlaying}
+          />
+        ))}
+      </div>
+
+      {showCommands && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-sm">
+              <Columns2 className="h-4 w-4" />
+              Command Sequences
+              <span className="font-normal text-muted-foreground">
+                {sharedCount} shared • {commandDiff.filter(entry => entry.type === 'left').length} only in {left.label} • {commandDiff.filter(entry => entry.type === 'right').length} only in {right.label}
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {commandDiff.length === 0 ? (
+              <p className="text-sm text-muted-foreground px-4 pb-4">No commands found in either recording</p>
+            ) : (
+              <div className="max-h-[400px] overflow-y-auto scrollbar-thin font-mono text-xs divide-y divide-border">
+                {commandDiff.map((entry, i) => (
+                  <div key={i} className="grid grid-cols-2">
+                    <div className={`px-4 py-1 whitespace-pre-wrap break-all ${entry.type === 'left' ? 'bg-destructive/10' : ''}`}>
+                      {entry.type !== 'right' ? entry.value : ''}
+                    </div>
+                    <div className={`px-4 py-1 whitespace-pre-wrap break-all border-l border-border ${entry.type === 'right' ? 'bg-success/10' : ''}`}>
+                      {entry.type !== 'left' ? entry.value : ''}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { ClipboardCheck } from "lucide-react";
+import { TRIAGE_STATES, type TaskTriage, type TriageAssignee, type TriageState, type UpdateTaskTriageRequest } from "@logflix/shared/schema";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import TriageStateBadge, { TRIAGE_STATE_LABELS } from "@/components/TriageStateBadge";
+import { formatDateTime } from "@/lib/date";
+
+interface TaskTriagePanelProps {
+  taskId: string;
+  /** Undefined while the task has never been triaged */
+  triage: TaskTriage | undefined;
+  assignees: TriageAssignee[];
+  /** Without triage permission the panel only shows the current review */
+  canEdit: boolean;
+  isSaving: boolean;
+  onSave: (changes: UpdateTaskTriageRequest) => void;
+}
+
+// Radix selects can't hold an empty value
+const UNASSIGNED = '__unassigned';
+
+function needsReason(state: TriageState): boolean {
+  return state === 'changes-requested' || state === 'rejected';
+}
+
+/**
+ * Review state, assignee and reason of one task, edited in place and saved together
+ */
+export default function TaskTriagePanel({ taskId, triage, assignees, canEdit, isSaving, onSave }: TaskTriagePanelProps) {
+  const [state, setState] = useState<TriageState>('needs-review');
+  const [assigneeId, setAssigneeId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+
+  // Reset the draft when switching tasks or after a save comes back
+  useEffect(() => {
+    setState(triage?.state ?? 'needs-review');
+    setAssigneeId(triage?.assigneeId ?? null);
+    setReason(triage?.reason ?? '');
+  }, [taskId, triage]);
+
+  const isDirty = state !== (triage?.state ?? 'needs-review')
+    || assigneeId !== (triage?.assigneeId ?? null)
+    || reason.trim() !== (triage?.reason ?? '');
+  const missingReason = needsReason(state) && !reason.trim();
+
+  // Keep a stored assignee selectable even if they've since lost access to the repo
+  const assigneeOptions = triage?.assigneeId && !assignees.some(a => a.id === triage.assigneeId)
+    ? [...assignees, { id: triage.assigneeId, name: triage.assigneeName || triage.assigneeId }]
+    : assignees;
+
+  const header = (
+    <div className="flex items-center gap-2">
+      <ClipboardCheck className="h-5 w-5 text-info" />
+      <TriageStateBadge state={triage?.state ?? 'needs-review'} />
+      {triage?.updatedAt && (
+        <span className="text-xs text-muted-foreground truncate">
+          {triage.updatedByName ? `${triage.updatedByName}, ` : ''}{formatDateTime(triage.updatedAt)}
+        </span>
+      )}
+    </div>
+  );
+
+  if (!canEdit) {
+    return (
+      <div className="space-y-2">
+        {header}
+        {triage?.assigneeName && (
+          <p className="text-xs text-muted-foreground">Assigned to {triage.assigneeName}</p>
+        )}
+        {triage?.reason && <p className="text-sm whitespace-pre-wrap">{triage.reason}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {header}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={state} onValueChange={(value) => setState(value as TriageState)}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TRIAGE_STATES.map(option => (
+              <SelectItem key={option} value={option} className="text-xs">
+                {TRIAGE_STATE_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={assigneeId ?? UNASSIGNED}
+          onValueChange={(value) => setAssigneeId(value === UNASSIGNED ? null : value)}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder="Assignee" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED} className="text-xs">Unassigned</SelectItem>
+            {assigneeOptions.map(assignee => (
+              <SelectItem key={assignee.id} value={assignee.id} className="text-xs">
+                {assignee.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder={needsReason(state) ? 'Reason (required)' : 'Reason (optional)'}
+        className="min-h-[56px] text-sm"
+      />
+
+      <div className="flex items-center gap-2">
+        {missingReason && (
+          <p className="text-xs text-warning">Add a reason for {TRIAGE_STATE_LABELS[state].toLowerCase()}</p>
+        )}
+        <Button
+          size="sm"
+          className="ml-auto"
+          disabled={!isDirty || missingReason || isSaving}
+          onClick={() => onSave({ state, assigneeId, reason: reason.trim() || null })}
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import type { CastFrame } from "@/hooks/useCastPlayback";
+
+interface TerminalScreenViewProps {
+  frame: CastFrame | null;
+  fontSize: number;
+  /** Shown until the recording has produced visible output */
+  placeholder: string;
+}
+
+function hasVisibleText(html: string): boolean {
+  return html.replace(/<[^>]+>/g, '').trim().length > 0;
+}
+
+/**
+ * Emulated terminal output: the scrollback and the live screen are separate blocks so that
+ * frames which only change the screen don't re-render a long scrollback
+ */
+export default function TerminalScreenView({ frame, fontSize, placeholder }: TerminalScreenViewProps) {
+  if (!frame || (!frame.scrollback && !hasVisibleText(frame.screen))) {
+    return <div className="text-gray-500 font-mono text-sm">{placeholder}</div>;
+  }
+
+  const style = {
+    fontFamily: 'Monaco, Menlo, "Ubuntu Mono", monospace',
+    fontSize: `${fontSize}px`,
+    lineHeight: '1.4'
+  };
+
+  return (
+    <>
+      {frame.scrollback && (
+        <pre className="whitespace-pre font-mono" style={style} dangerouslySetInnerHTML={{ __html: frame.scrollback }} />
+      )}
+      <pre className="whitespace-pre font-mono" style={style} dangerouslySetInnerHTML={{ __html: frame.screen }} />
+    </>
+  );
+}
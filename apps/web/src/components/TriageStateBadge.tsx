@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge";
+import type { TriageState } from "@logflix/shared/schema";
+
+export const TRIAGE_STATE_LABELS: Record<TriageState, string> = {
+  'needs-review': 'Needs review',
+  'changes-requested': 'Changes requested',
+  'approved': 'Approved',
+  'rejected': 'Rejected',
+};
+
+const TRIAGE_STATE_COLORS: Record<TriageState, string> = {
+  'needs-review': 'border-info/40 text-info',
+  'changes-requested': 'border-warning/40 text-warning',
+  'approved': 'border-success/40 text-success',
+  'rejected': 'border-destructive/40 text-destructive',
+};
+
+export default function TriageStateBadge({ state }: { state: TriageState }) {
+  return (
+    <Badge variant="outline" className={`text-xs ${TRIAGE_STATE_COLORS[state]}`}>
+      {TRIAGE_STATE_LABELS[state]}
+    </Badge>
+  );
+}
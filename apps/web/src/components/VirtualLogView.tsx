@@ -0,0 +1,193 @@
+import { useState, useEffect, useRef, useMemo } from "react";
+import { useQuery, useQueries } from "@tanstack/react-query";
+import { createAPIParams, fetchAPI } from "@/lib/api";
+import { CACHE_TIME } from "@/lib/constants";
+import { cleanAnsiCodes } from "@/lib/ansi";
+import type { LineRange } from "@/lib/runLink";
+
+interface VirtualLogViewProps {
+  organization: string;
+  repoName: string;
+  workflow: string;
+  artifactId: number;
+  path: string;
+  /** Scrolls to and highlights a 1-based line; `nonce` lets the same line be requested twice */
+  scrollToLine?: { line: number; nonce: number } | null;
+  /** Line range selected for sharing; line numbers are clickable when `onSelectLines` is given */
+  selectedLines?: LineRange | null;
+  /** Click selects a line, shift-click extends the selection, clicking a lone selected line clears it */
+  onSelectLines?: (range: LineRange | null) => void;
+  /** Annotated line ranges, marked in the gutter */
+  annotatedLines?: LineRange[];
+}
+
+interface LogPage {
+  content: string;
+  metadata: { totalLines: number; totalBytes: number };
+  range: { unit: 'lines'; start: number; end: number };
+}
+
+/** Fixed row height (px) - rows don't wrap so scroll offsets map directly to line numbers */
+const LINE_HEIGHT = 22;
+/** Lines fetched per content request */
+const PAGE_LINES = 2000;
+/** Rows rendered above and below the viewport */
+const OVERSCAN_LINES = 40;
+
+/**
+ * Stable selector so each fetched page is ANSI-cleaned and split once, not on every render
+ */
+function toLogLines(page: LogPage): { totalLines: number; lines: string[] } {
+  return {
+    totalLines: page.metadata.totalLines,
+    lines: cleanAnsiCodes(page.content).split('\n'),
+  };
+}
+
+/**
+ * Virtualized, paged log viewer
+ * Only the pages under the viewport are fetched and only visible rows are rendered,
+ * so 100k-line logs scroll without loading the whole file into React state
+ */
+export default function VirtualLogView({ organization, repoName, workflow, artifactId, path, scrollToLine, selectedLines, onSelectLines, annotatedLines = [] }: VirtualLogViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const [highlightedLine, setHighlightedLine] = useState<number | null>(null);
+
+  const pageQuery = (page: number) => ({
+    queryKey: ["log-page", artifactId, path, page],
+    queryFn: () => {
+      const params = createAPIParams(
+        { owner: organization, repo: repoName, workflow },
+        { path, startLine: String(page * PAGE_LINES), lineCount: String(PAGE_LINES) }
+      );
+      return fetchAPI<LogPage>(`/api/github/artifact/${artifactId}/content?${params}`);
+    },
+    select: toLogLines,
+    staleTime: CACHE_TIME.STALE_LONG,
+    gcTime: CACHE_TIME.GC_MEDIUM,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  // First page also carries the line count that sizes the scroll area
+  const firstPage = useQuery(pageQuery(0));
+  const totalLines = firstPage.data?.totalLines ?? 0;
+
+  // Reset scroll position when switching files
+  useEffect(() => {
+    setScrollTop(0);
+    setHighlightedLine(null);
+    if (containerRef.current) containerRef.current.scrollTop = 0;
+  }, [artifactId, path]);
+
+  // Center the requested line once the scroll area is sized
+  useEffect(() => {
+    if (!scrollToLine || totalLines === 0 || !containerRef.current) return;
+    const line = Math.min(Math.max(scrollToLine.line - 1, 0), totalLines - 1);
+    const target = Math.max(0, line * LINE_HEIGHT - containerRef.current.clientHeight / 2);
+    containerRef.current.scrollTop = target;
+    setScrollTop(target);
+    setHighlightedLine(line);
+  }, [scrollToLine, totalLines]);
+
+  // Track viewport size
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    setViewportHeight(el.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  const firstVisible = Math.max(0, Math.floor(scrollTop / LINE_HEIGHT) - OVERSCAN_LINES);
+  const lastVisible = Math.min(totalLines, Math.ceil((scrollTop + viewportHeight) / LINE_HEIGHT) + OVERSCAN_LINES);
+
+  const visiblePages = useMemo(() => {
+    if (totalLines === 0) return [];
+    const pages: number[] = [];
+    for (let page = Math.floor(firstVisible / PAGE_LINES); page <= Math.floor(Math.max(lastVisible - 1, 0) / PAGE_LINES); page++) {
+      pages.push(page);
+    }
+    return pages;
+  }, [firstVisible, lastVisible, totalLines]);
+
+  const pageResults = useQueries({ queries: visiblePages.map(pageQuery) });
+
+  // Loaded lines keyed by page number
+  const linesByPage = new Map<number, string[]>();
+  visiblePages.forEach((page, index) => {
+    const data = pageResults[index]?.data;
+    if (data) linesByPage.set(page, data.lines);
+  });
+
+  const pageError = firstPage.error || pageResults.find(result => result.error)?.error;
+
+  if (pageError) {
+    return (
+      <div className="text-center text-destructive p-8">
+        <p>Error loading log file</p>
+        <p className="text-sm mt-2">{(pageError as Error)?.message || 'Failed to load log file'}</p>
+      </div>
+    );
+  }
+
+  const gutterWidth = `${Math.max(String(totalLines).length, 3) + 1}ch`;
+
+  const selectLine = (line: number, extend: boolean) => {
+    if (!onSelectLines) return;
+    if (extend && selectedLines) {
+      onSelectLines({ start: Math.min(selectedLines.start, line), end: Math.max(selectedLines.start, line) });
+    } else if (selectedLines && selectedLines.start === line && selectedLines.end === line) {
+      onSelectLines(null);
+    } else {
+      onSelectLines({ start: line, end: line });
+    }
+  };
+
+  const rows: JSX.Element[] = [];
+  for (let line = firstVisible; line < lastVisible; line++) {
+    const text = linesByPage.get(Math.floor(line / PAGE_LINES))?.[line % PAGE_LINES];
+    const isSelected = !!selectedLines && line + 1 >= selectedLines.start && line + 1 <= selectedLines.end;
+    const isAnnotated = annotatedLines.some(range => line + 1 >= range.start && line + 1 <= range.end);
+    rows.push(
+      <div
+        key={line}
+        className={`flex absolute left-0 right-0 whitespace-pre border-l-2 ${isAnnotated ? 'border-info' : 'border-transparent'} ${line === highlightedLine || isSelected ? 'bg-yellow-500/20' : ''}`}
+        style={{ top: line * LINE_HEIGHT, height: LINE_HEIGHT, lineHeight: `${LINE_HEIGHT}px` }}
+      >
+        <span
+          className={`select-none text-right pr-4 flex-shrink-0 ${isSelected ? 'text-yellow-400' : 'text-gray-500'} ${onSelectLines ? 'cursor-pointer hover:text-gray-300' : ''}`}
+          style={{ width: gutterWidth }}
+          onClick={(e) => selectLine(line + 1, e.shiftKey)}
+        >
+          {line + 1}
+        </span>
+        <span className={text === undefined ? 'text-gray-600' : 'text-gray-200'}>
+          {text === undefined ? '…' : text}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="h-full overflow-auto bg-[#282c34] p-4 font-mono text-sm"
+    >
+      {firstPage.isLoading ? (
+        <div className="flex items-center justify-center h-full">
+          <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
+          <span className="ml-3 text-gray-400">Loading log file...</span>
+        </div>
+      ) : (
+        <div className="relative min-w-max" style={{ height: totalLines * LINE_HEIGHT }}>
+          {rows}
+        </div>
+      )}
+    </div>
+  );
+}
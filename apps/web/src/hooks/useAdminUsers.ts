@@ -0,0 +1,99 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { AdminUser, BulkUserUpdate, BulkUserUpdateResult, Permission, RoleDefinition, RoleSummary, UserRole } from "@logflix/shared/auth";
+import { fetchAPI, sendJSON } from "@/lib/api";
+import { CACHE_TIME } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+
+const USERS_QUERY_KEY = ["/api/admin/users"];
+const ROLES_QUERY_KEY = ["/api/admin/roles"];
+
+/**
+ * Users with their roles and repository assignments, the organization's roles, and the admin edits on them
+ * Only admins get a response; `enabled` keeps members from requesting it.
+ */
+export function useAdminUsers(enabled: boolean) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const usersQuery = useQuery<{ users: AdminUser[]; totalCount: number }>({
+    queryKey: USERS_QUERY_KEY,
+    queryFn: () => fetchAPI("/api/admin/users"),
+    enabled,
+    staleTime: CACHE_TIME.STALE_SHORT,
+  });
+
+  const rolesQuery = useQuery<{ roles: RoleSummary[]; assignablePermissions: Permission[] }>({
+    queryKey: ROLES_QUERY_KEY,
+    queryFn: () => fetchAPI("/api/admin/roles"),
+    enabled,
+    staleTime: CACHE_TIME.STALE_MEDIUM,
+  });
+
+  // Role changes also change what the current user's own permissions resolve to
+  const invalidateRoles = () => {
+    queryClient.invalidateQueries({ queryKey: ROLES_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ["userPermissions"] });
+  };
+
+  const onError = (title: string) => (err: Error) => {
+    toast({ title, description: err.message, variant: "destructive" });
+  };
+
+  const setRole = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: UserRole | string }) =>
+      sendJSON("PATCH", `/api/admin/users/${userId}/role`, { role }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: USERS_QUERY_KEY }),
+    onError: onError("Couldn't change role"),
+  });
+
+  const setRepositories = useMutation({
+    mutationFn: ({ userId, repositories }: { userId: string; repositories: string[] }) =>
+      sendJSON("PATCH", `/api/admin/users/${userId}/repositories`, { repositories }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: USERS_QUERY_KEY }),
+    onError: onError("Couldn't update repositories"),
+  });
+
+  const bulkUpdate = useMutation({
+    mutationFn: (update: BulkUserUpdate) => sendJSON<BulkUserUpdateResult>("PATCH", "/api/admin/users", update),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: USERS_QUERY_KEY });
+      if (result.failed.length > 0) {
+        toast({
+          title: `Updated ${result.updated.length} of ${result.updated.length + result.failed.length} users`,
+          description: result.failed[0].error,
+          variant: "destructive",
+        });
+      } else {
+        toast({ title: `Updated ${result.updated.length} user${result.updated.length === 1 ? '' : 's'}` });
+      }
+    },
+    onError: onError("Couldn't update users"),
+  });
+
+  const saveRole = useMutation({
+    mutationFn: ({ id, ...role }: RoleDefinition) =>
+      sendJSON("PUT", `/api/admin/roles/${encodeURIComponent(id)}`, role),
+    onSuccess: invalidateRoles,
+    onError: onError("Couldn't save role"),
+  });
+
+  const deleteRole = useMutation({
+    mutationFn: (roleId: string) => sendJSON("DELETE", `/api/admin/roles/${encodeURIComponent(roleId)}`),
+    onSuccess: invalidateRoles,
+    onError: onError("Couldn't delete role"),
+  });
+
+  return {
+    users: usersQuery.data?.users ?? [],
+    roles: rolesQuery.data?.roles ?? [],
+    assignablePermissions: rolesQuery.data?.assignablePermissions ?? [],
+    totalCount: usersQuery.data?.totalCount ?? 0,
+    isLoading: usersQuery.isLoading,
+    error: usersQuery.error as Error | null,
+    setRole,
+    setRepositories,
+    bulkUpdate,
+    saveRole,
+    deleteRole,
+  };
+}
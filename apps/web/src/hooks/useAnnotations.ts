@@ -0,0 +1,63 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Annotation, CreateAnnotationRequest } from "@logflix/shared/schema";
+import { createAPIParams, fetchAPI, sendJSON } from "@/lib/api";
+import { CACHE_TIME } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+
+interface UseAnnotationsOptions {
+  organization: string;
+  repoName: string;
+  workflow: string;
+  runId: number | null;
+}
+
+/**
+ * Annotations on a run's artifacts, with create and delete
+ * Without a database the server answers 503; `available` is then false and the UI hides annotations.
+ */
+export function useAnnotations({ organization, repoName, workflow, runId }: UseAnnotationsOptions) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const queryKey = ["/api/github/annotations", runId];
+  const params = createAPIParams({ owner: organization, repo: repoName, workflow });
+
+  const { data, error } = useQuery<{ annotations: Annotation[] }>({
+    queryKey,
+    queryFn: () => fetchAPI(`/api/github/annotations/${runId}?${params}`),
+    enabled: !!runId,
+    staleTime: CACHE_TIME.STALE_SHORT,
+    retry: false,
+  });
+
+  const create = useMutation({
+    mutationFn: (annotation: CreateAnnotationRequest) =>
+      sendJSON<{ annotation: Annotation; mirrorError?: string }>("POST", `/api/github/annotations/${runId}?${params}`, annotation),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey });
+      if (result.mirrorError) {
+        toast({ title: "PR comment not posted", description: result.mirrorError, variant: "destructive" });
+      } else if (result.annotation.githubCommentUrl) {
+        toast({ title: "Annotation added and posted to the PR" });
+      }
+    },
+    onError: (err: Error) => {
+      toast({ title: "Couldn't add annotation", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: (annotation: Annotation) =>
+      sendJSON<void>("DELETE", `/api/github/annotations/${runId}/${annotation.id}?${params}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (err: Error) => {
+      toast({ title: "Couldn't delete annotation", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    annotations: data?.annotations ?? [],
+    available: !!runId && !error,
+    create,
+    remove,
+  };
+}
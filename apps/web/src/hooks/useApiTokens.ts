@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { ApiToken, CreateApiTokenRequest, CreatedApiToken, Permission } from "@logflix/shared/auth";
+import { fetchAPI, sendJSON } from "@/lib/api";
+import { CACHE_TIME } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+
+const TOKENS_QUERY_KEY = ["/api/user/tokens"];
+
+/**
+ * The signed-in user's personal API tokens, with creating and revoking them
+ */
+export function useApiTokens() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const tokensQuery = useQuery<{ tokens: ApiToken[]; scopes: Permission[] }>({
+    queryKey: TOKENS_QUERY_KEY,
+    queryFn: () => fetchAPI("/api/user/tokens"),
+    staleTime: CACHE_TIME.STALE_SHORT,
+  });
+
+  const create = useMutation({
+    mutationFn: (request: CreateApiTokenRequest) => sendJSON<CreatedApiToken>("POST", "/api/user/tokens", request),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: TOKENS_QUERY_KEY }),
+    onError: (err: Error) => {
+      toast({ title: "Couldn't create token", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const revoke = useMutation({
+    mutationFn: (tokenId: number) => sendJSON("DELETE", `/api/user/tokens/${tokenId}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: TOKENS_QUERY_KEY }),
+    onError: (err: Error) => {
+      toast({ title: "Couldn't revoke token", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    tokens: tokensQuery.data?.tokens ?? [],
+    scopes: tokensQuery.data?.scopes ?? [],
+    isLoading: tokensQuery.isLoading,
+    error: tokensQuery.error as Error | null,
+    create,
+    revoke,
+  };
+}
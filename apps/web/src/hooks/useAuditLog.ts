@@ -0,0 +1,45 @@
+import { useQuery } from "@tanstack/react-query";
+import type { AuditLogEntry } from "@logflix/shared/schema";
+import { fetchAPI } from "@/lib/api";
+import { CACHE_TIME } from "@/lib/constants";
+
+/**
+ * Audit log filters as picked in the view; dates are "YYYY-MM-DD" in local time, `until` inclusive
+ */
+export interface AuditLogFilterValues {
+  actor?: string;
+  action?: string;
+  repository?: string;
+  since?: string;
+  until?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Query string shared by the audit log view and its export link
+ */
+export function auditLogParams(filters: AuditLogFilterValues, extra?: Record<string, string>): URLSearchParams {
+  const params = new URLSearchParams(extra);
+  if (filters.actor) params.set('actor', filters.actor);
+  if (filters.action) params.set('action', filters.action);
+  if (filters.repository?.trim()) params.set('repository', filters.repository.trim());
+  if (filters.since) params.set('since', new Date(`${filters.since}T00:00`).toISOString());
+  if (filters.until) params.set('until', new Date(new Date(`${filters.until}T00:00`).getTime() + DAY_MS).toISOString());
+  return params;
+}
+
+/**
+ * One page of audit entries, newest first; `before` is the cursor from the previous page's `nextBefore`
+ */
+export function useAuditLog(filters: AuditLogFilterValues, before: number | undefined, enabled: boolean) {
+  return useQuery<{ entries: AuditLogEntry[]; nextBefore: number | null }>({
+    queryKey: ["/api/admin/audit", filters, before],
+    queryFn: () => {
+      const params = auditLogParams(filters, before !== undefined ? { before: String(before) } : undefined);
+      return fetchAPI(`/api/admin/audit?${params}`);
+    },
+    enabled,
+    staleTime: CACHE_TIME.STALE_SHORT,
+  });
+}
@@ -0,0 +1,81 @@
+import { useEffect, useRef, useState } from "react";
+import type { CastSummary, ParseCastOptions } from "@/lib/cast";
+import type { CastWorkerRequest, CastWorkerResponse } from "@/lib/cast.worker";
+
+export interface CastFrame {
+  scrollback: string;
+  screen: string;
+}
+
+interface CastPlaybackState {
+  summary: CastSummary | null;
+  frame: CastFrame | null;
+}
+
+/**
+ * Parses a cast and renders the terminal at `time` in a Web Worker
+ * Changing the parse options re-parses in a fresh worker.
+ * Renders are coalesced: while one is in flight only the latest requested time is queued,
+ * so fast playback drops intermediate frames instead of falling behind.
+ */
+export function useCastPlayback(castContent: string, time: number, options: ParseCastOptions = {}): CastPlaybackState {
+  const [state, setState] = useState<CastPlaybackState>({ summary: null, frame: null });
+  const workerRef = useRef<Worker | null>(null);
+  const renderRef = useRef<{ inFlight: boolean; pending: number | null }>({ inFlight: false, pending: null });
+  const timeRef = useRef(time);
+  timeRef.current = time;
+  const { idleTimeLimit } = options;
+
+  useEffect(() => {
+    const worker = new Worker(new URL("../lib/cast.worker.ts", import.meta.url), { type: "module" });
+    const post = (request: CastWorkerRequest) => worker.postMessage(request);
+    let scrollback = '';
+
+    workerRef.current = worker;
+    renderRef.current = { inFlight: true, pending: null };
+    setState({ summary: null, frame: null });
+
+    worker.onmessage = (event: MessageEvent<CastWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'summary') {
+        setState(prev => ({ ...prev, summary: message.summary }));
+        return;
+      }
+
+      if (message.scrollback !== null) scrollback = message.scrollback;
+      setState(prev => ({ ...prev, frame: { scrollback, screen: message.screen } }));
+
+      const render = renderRef.current;
+      if (render.pending !== null && render.pending !== message.time) {
+        post({ type: 'render', time: render.pending });
+      } else {
+        render.inFlight = false;
+      }
+      render.pending = null;
+    };
+
+    post({ type: 'load', castContent, options: { idleTimeLimit } });
+    post({ type: 'render', time: timeRef.current });
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [castContent, idleTimeLimit]);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker) return;
+
+    const render = renderRef.current;
+    if (render.inFlight) {
+      render.pending = time;
+    } else {
+      render.inFlight = true;
+      const request: CastWorkerRequest = { type: 'render', time };
+      worker.postMessage(request);
+    }
+  }, [time]);
+
+  return state;
+}
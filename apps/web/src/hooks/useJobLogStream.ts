@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { createAPIParams } from "@/lib/api";
+import { logger } from "@/lib/logger";
+
+interface UseJobLogStreamOptions {
+  organization: string;
+  repoName: string;
+  workflow: string;
+  jobId: number | null;
+}
+
+interface JobLogStreamState {
+  content: string;
+  isStreaming: boolean;
+  isComplete: boolean;
+  conclusion: string | null;
+}
+
+const INITIAL_STATE: JobLogStreamState = {
+  content: '',
+  isStreaming: false,
+  isComplete: false,
+  conclusion: null,
+};
+
+/**
+ * Tails the logs of a workflow job via the job log stream endpoint
+ * Chunks are appended as they arrive; EventSource resumes from the last offset on reconnect
+ */
+export function useJobLogStream({ organization, repoName, workflow, jobId }: UseJobLogStreamOptions): JobLogStreamState {
+  const [state, setState] = useState<JobLogStreamState>(INITIAL_STATE);
+
+  useEffect(() => {
+    setState(INITIAL_STATE);
+    if (!jobId || typeof EventSource === 'undefined') return;
+
+    const params = createAPIParams({ owner: organization, repo: repoName, workflow });
+    const source = new EventSource(`/api/github/job-logs/${jobId}/stream?${params}`, { withCredentials: true });
+
+    source.onopen = () => {
+      setState(prev => ({ ...prev, isStreaming: true }));
+    };
+
+    source.addEventListener('chunk', (message) => {
+      try {
+        const chunk: { content: string; reset: boolean } = JSON.parse((message as MessageEvent).data);
+        setState(prev => ({
+          ...prev,
+          content: chunk.reset ? chunk.content : prev.content + chunk.content,
+        }));
+      } catch (error) {
+        logger.error('Failed to parse job log chunk', error, { jobId });
+      }
+    });
+
+    source.addEventListener('complete', (message) => {
+      let conclusion: string | null = null;
+      try {
+        ({ conclusion } = JSON.parse((message as MessageEvent).data));
+      } catch (error) {
+        logger.error('Failed to parse job log completion', error, { jobId });
+      }
+      // Close before the browser treats the server hang-up as a reason to reconnect
+      source.close();
+      setState(prev => ({ ...prev, isStreaming: false, isComplete: true, conclusion }));
+    });
+
+    source.onerror = () => {
+      setState(prev => ({ ...prev, isStreaming: false }));
+    };
+
+    return () => {
+      source.close();
+    };
+  }, [organization, repoName, workflow, jobId]);
+
+  return state;
+}
@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from "react";
+import { LiveUpdateEvent } from "@logflix/shared/schema";
+import { createAPIParams } from "@/lib/api";
+import { logger } from "@/lib/logger";
+
+interface UseLiveUpdatesOptions {
+  organization: string;
+  repoName: string;
+  /** Limit updates to a single PR; omit for repository-wide updates */
+  prNumber?: number;
+  enabled?: boolean;
+  onUpdate: (event: LiveUpdateEvent) => void;
+}
+
+/**
+ * Subscribes to webhook-driven live updates for a repository (and optionally a PR)
+ * Returns whether the stream is connected to a server that receives webhooks and delivers them
+ * across all its instances, so callers can poll less often; otherwise they keep polling as usual
+ */
+export function useLiveUpdates({ organization, repoName, prNumber, enabled = true, onUpdate }: UseLiveUpdatesOptions) {
+  const [isConnected, setIsConnected] = useState(false);
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  useEffect(() => {
+    if (!enabled || !organization || !repoName || typeof EventSource === 'undefined') {
+      setIsConnected(false);
+      return;
+    }
+
+    const params = createAPIParams(
+      { owner: organization, repo: repoName },
+      prNumber !== undefined ? { pr: String(prNumber) } : undefined
+    );
+    const source = new EventSource(`/api/live/updates?${params}`, { withCredentials: true });
+
+    source.addEventListener('ready', (message) => {
+      let webhooksEnabled = false;
+      let crossInstance = false;
+      try {
+        ({ webhooksEnabled = false, crossInstance = false } = JSON.parse((message as MessageEvent).data));
+      } catch (error) {
+        logger.error('Failed to parse live update handshake', error);
+      }
+      setIsConnected(webhooksEnabled === true && crossInstance === true);
+      logger.debug('Live updates connected', { organization, repoName, prNumber, webhooksEnabled, crossInstance });
+    });
+
+    source.addEventListener('update', (message) => {
+      try {
+        onUpdateRef.current(JSON.parse((message as MessageEvent).data));
+      } catch (error) {
+        logger.error('Failed to parse live update', error);
+      }
+    });
+
+    // EventSource reconnects on its own; just reflect the state so polling can resume meanwhile
+    source.onerror = () => {
+      setIsConnected(false);
+    };
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [organization, repoName, prNumber, enabled]);
+
+  return { isConnected };
+}
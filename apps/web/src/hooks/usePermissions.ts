@@ -1,11 +1,13 @@
 import { useQuery } from "@tanstack/react-query";
 import { useUser } from "@clerk/clerk-react";
-import { UserRole, Permission, AuthContext, hasPermission } from "@logflix/shared/auth";
+import { UserRole, Permission, AuthContext, RoleSummary } from "@logflix/shared/auth";
 
 interface UserPermissions {
   userId: string | null;
-  role: UserRole;
+  role: UserRole | string;
   permissions: Permission[];
+  /** Built-in and organization-defined roles, for labelling and picking roles */
+  roles: RoleSummary[];
   assignedRepositories: string[];
   organizationId?: string;
   isAdmin: boolean;
@@ -21,7 +23,7 @@ interface UserPermissions {
 export function usePermissions(): UserPermissions & { isLoading: boolean; error: Error | null } {
   const { isSignedIn, user } = useUser();
 
-  const { data, isLoading, error } = useQuery<AuthContext>({
+  const { data, isLoading, error } = useQuery<AuthContext & { roles: RoleSummary[] }>({
     queryKey: ["userPermissions", user?.id],
     queryFn: async () => {
       const response = await fetch("/api/user/permissions", {
@@ -44,6 +46,7 @@ export function usePermissions(): UserPermissions & { isLoading: boolean; error:
     userId: null,
     role: UserRole.MEMBER,
     permissions: [],
+    roles: [],
     assignedRepositories: [],
     isAdmin: false,
     isMember: true,
@@ -67,6 +70,7 @@ export function usePermissions(): UserPermissions & { isLoading: boolean; error:
     userId: data.userId,
     role: data.role,
     permissions: data.permissions,
+    roles: data.roles || [],
     assignedRepositories: data.assignedRepositories,
     organizationId: data.organizationId,
     isAdmin,
@@ -76,8 +80,9 @@ export function usePermissions(): UserPermissions & { isLoading: boolean; error:
       if (isAdmin) return true;
       return data.assignedRepositories.includes(repo);
     },
+    // The server resolves custom roles, so the permission list is authoritative
     hasPermission: (permission: Permission) => {
-      return hasPermission(data.role, permission);
+      return data.permissions.includes(permission);
     },
     isLoading,
     error: error as Error | null,
@@ -90,7 +95,7 @@ export function usePermissions(): UserPermissions & { isLoading: boolean; error:
 export function useAccessibleRepositories() {
   const { isSignedIn } = useUser();
 
-  return useQuery<{ hasAllAccess: boolean; repositories: string[] }>({
+  return useQuery<{ hasAllAccess: boolean; organization: string; repositories: Array<{ name: string; full_name: string }> }>({
     queryKey: ["accessibleRepositories"],
     queryFn: async () => {
       const response = await fetch("/api/user/repositories", {
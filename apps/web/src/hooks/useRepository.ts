@@ -0,0 +1,47 @@
+import { useQuery } from "@tanstack/react-query";
+import { useOrganization } from "@clerk/clerk-react";
+import { CACHE_TIME } from "@/lib/constants";
+
+export interface Repository {
+  name: string;
+  workflow: string;
+  description?: string;
+}
+
+interface UserRepositoriesResponse {
+  hasAllAccess: boolean;
+  organization: string;
+  repositories: Repository[];
+}
+
+/**
+ * Resolves a repository route parameter against the user's accessible repositories
+ * `repo` is undefined while loading or when the user has no access
+ */
+export function useRepository(repoName: string) {
+  // Get current active organization from Clerk - this triggers refetch when org changes
+  const { organization: clerkOrg } = useOrganization();
+
+  // Query key includes organization ID to refetch when switching organizations
+  const { data: repoData, isLoading, error } = useQuery<UserRepositoriesResponse>({
+    queryKey: ['/api/user/repositories', clerkOrg?.id],
+    queryFn: async () => {
+      const response = await fetch('/api/user/repositories');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch repositories: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    enabled: !!clerkOrg,
+    staleTime: CACHE_TIME.STALE_MEDIUM,
+    gcTime: CACHE_TIME.STALE_LONG,
+  });
+
+  return {
+    repoData,
+    repo: repoData?.repositories.find(r => r.name === repoName),
+    organization: repoData?.organization || '',
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,70 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { TaskTriage, TriageAssignee, UpdateTaskTriageRequest } from "@logflix/shared/schema";
+import { createAPIParams, fetchAPI, sendJSON } from "@/lib/api";
+import { CACHE_TIME } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+
+interface UseTaskTriageOptions {
+  organization: string;
+  repoName: string;
+  prNumber: number | null;
+  /** Whether the user may change triage; the assignee list is only loaded for them */
+  canTriage: boolean;
+}
+
+/**
+ * Triage of a PR's tasks keyed by task id, plus the users tasks can be assigned to
+ * Tasks missing from `triageByTask` haven't been triaged yet. Without a database the
+ * server answers 503; `available` is then false and the UI hides triage.
+ */
+export function useTaskTriage({ organization, repoName, prNumber, canTriage }: UseTaskTriageOptions) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const queryKey = ["/api/github/triage/pr", organization, repoName, prNumber];
+  const params = createAPIParams({ owner: organization, repo: repoName });
+
+  const { data, error } = useQuery<{ triage: TaskTriage[] }>({
+    queryKey,
+    queryFn: () => fetchAPI(`/api/github/triage/pr/${prNumber}?${params}`),
+    enabled: !!prNumber,
+    staleTime: CACHE_TIME.STALE_SHORT,
+    retry: false,
+  });
+
+  const { data: assigneesData } = useQuery<{ assignees: TriageAssignee[] }>({
+    queryKey: ["/api/github/triage/assignees", organization, repoName],
+    queryFn: () => fetchAPI(`/api/github/triage/assignees?${params}`),
+    enabled: !!prNumber && !error && canTriage,
+    staleTime: CACHE_TIME.STALE_LONG,
+    retry: false,
+  });
+
+  const update = useMutation({
+    mutationFn: ({ taskId, changes }: { taskId: string; changes: UpdateTaskTriageRequest }) =>
+      sendJSON<{ triage: TaskTriage }>("PUT", `/api/github/triage/pr/${prNumber}/${encodeURIComponent(taskId)}?${params}`, changes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/github/triage/queue", organization, repoName] });
+      toast({ title: "Triage saved" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Couldn't save triage", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const triageByTask = useMemo(() => {
+    const byTask: Record<string, TaskTriage> = {};
+    for (const triage of data?.triage ?? []) {
+      byTask[triage.taskId] = triage;
+    }
+    return byTask;
+  }, [data]);
+
+  return {
+    triageByTask,
+    assignees: assigneesData?.assignees ?? [],
+    available: !!prNumber && !error,
+    update,
+  };
+}
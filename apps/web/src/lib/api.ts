@@ -37,6 +37,25 @@ export async function fetchAPI<T>(url: string): Promise<T> {
   return response.json();
 }
 
+/**
+ * Sends a JSON body (or none) with the given method; 204 responses resolve to undefined
+ */
+export async function sendJSON<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(errorData.error || `Request failed: ${response.statusText}`);
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
 /**
  * Fetch helper with query parameters
  */
@@ -0,0 +1,597 @@
+/**
+ * Asciicast parsing and rendering shared by the terminal viewers
+ */
+
+import { cleanAnsiCodes } from "@/lib/ansi";
+import { TerminalScreen, type TerminalSnapshot, type TerminalFrame } from "@/lib/terminal";
+
+export interface CastEvent {
+  timestamp: number;
+  /** Output, input, marker/thinking, resize ("COLSxROWS") or exit status */
+  type: "i" | "o" | "m" | "r" | "x";
+  content: string;
+}
+
+export interface AgentThinking {
+  timestamp: number;
+  state_analysis?: string;
+  explanation?: string;
+  commands?: Array<string | { [key: string]: any }>;
+  is_task_complete?: boolean;
+  raw_content?: string;
+  [key: string]: any;
+}
+
+/**
+ * Header fields shared by asciicast v2 and v3 (where the size lives under `term`)
+ */
+export interface CastHeader {
+  version: number;
+  width: number;
+  height: number;
+  title?: string;
+  command?: string;
+  /** Unix time the recording started */
+  timestamp?: number;
+  idleTimeLimit?: number;
+  env?: { [name: string]: string };
+}
+
+/**
+ * A pause shortened by idle-time compression
+ */
+export interface IdleGap {
+  /** Uncompressed time of the event that ended the pause */
+  rawTime: number;
+  /** Seconds cut from the pause */
+  removed: number;
+}
+
+export interface ParsedCast {
+  header: CastHeader;
+  events: CastEvent[];
+  agentThoughts: AgentThinking[];
+  maxTime: number;
+  /** Terminal size from the header */
+  width: number;
+  height: number;
+  idleGaps: IdleGap[];
+}
+
+export interface ParseCastOptions {
+  /** Longest pause kept between events; undefined uses the header's idle_time_limit, null keeps every pause */
+  idleTimeLimit?: number | null;
+}
+
+const DEFAULT_WIDTH = 80;
+const DEFAULT_HEIGHT = 24;
+
+function parseHeader(parsed: any): CastHeader {
+  const term = parsed.term || {};
+  const width = parsed.version >= 3 ? term.cols : parsed.width;
+  const height = parsed.version >= 3 ? term.rows : parsed.height;
+
+  return {
+    version: parsed.version,
+    width: width > 0 ? width : DEFAULT_WIDTH,
+    height: height > 0 ? height : DEFAULT_HEIGHT,
+    title: typeof parsed.title === 'string' ? parsed.title : undefined,
+    command: typeof parsed.command === 'string' ? parsed.command : undefined,
+    timestamp: typeof parsed.timestamp === 'number' ? parsed.timestamp : undefined,
+    idleTimeLimit: parsed.idle_time_limit > 0 ? parsed.idle_time_limit : undefined,
+    env: parsed.env && typeof parsed.env === 'object' ? parsed.env : undefined,
+  };
+}
+
+function parseThinking(timestamp: number, content: unknown): AgentThinking {
+  // New format: "Episode N: X commands" (string)
+  // Old format: JSON object with thinking data
+  if (typeof content !== 'string') {
+    // Object format
+    return { timestamp, ...(content as object) };
+  }
+
+  // Check if it's an episode marker
+  const episodeMatch = content.match(/^Episode (\d+): (\d+) commands?$/);
+  if (episodeMatch) {
+    const [, episodeNum, commandCount] = episodeMatch;
+    return {
+      timestamp,
+      type: 'episode',
+      episodeNumber: parseInt(episodeNum),
+      commandCount: parseInt(commandCount),
+      raw_content: content
+    };
+  }
+
+  // Try to parse as JSON
+  try {
+    const thinking = JSON.parse(content);
+    if (thinking && typeof thinking === 'object') return { timestamp, ...thinking };
+  } catch {
+    // Not JSON
+  }
+  // Plain text metadata, e.g. asciinema marker labels
+  return { timestamp, raw_content: content };
+}
+
+/**
+ * Parses asciicast v2 or v3 into events relative to the first event, plus agent thinking from 'm' events
+ * v3 event times are intervals since the previous event; v2 times are since the start. Pauses longer
+ * than the idle time limit are shortened to it, and the cuts recorded in `idleGaps`.
+ */
+export function parseCast(castContent: string, options: ParseCastOptions = {}): ParsedCast {
+  const events: CastEvent[] = [];
+  const agentThoughts: AgentThinking[] = [];
+  const idleGaps: IdleGap[] = [];
+  let header: CastHeader = { version: 2, width: DEFAULT_WIDTH, height: DEFAULT_HEIGHT };
+  let idleTimeLimit: number | null = options.idleTimeLimit ?? null;
+
+  if (!castContent) {
+    return { header, events, agentThoughts, maxTime: 0, width: header.width, height: header.height, idleGaps };
+  }
+
+  let startTime: number | null = null;
+  let previousRaw = 0;
+  let previousTime = 0;
+  let absolute = 0;
+
+  const lines = castContent.split('\n');
+
+  for (const line of lines) {
+    // v3 allows comment lines
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    try {
+      const parsed = JSON.parse(line);
+
+      // Header line carries the terminal size and playback settings
+      if (parsed.version !== undefined && !Array.isArray(parsed)) {
+        header = parseHeader(parsed);
+        if (options.idleTimeLimit === undefined) idleTimeLimit = header.idleTimeLimit ?? null;
+        continue;
+      }
+
+      // Parse event lines
+      if (Array.isArray(parsed) && parsed.length >= 3) {
+        const [time, type, content] = parsed;
+        if (typeof time !== 'number') continue;
+
+        absolute = header.version >= 3 ? absolute + time : time;
+        if (startTime === null) startTime = absolute;
+        const raw = absolute - startTime;
+
+        // Compress pauses past the idle limit, keeping everything after them in step
+        let gap = raw - previousRaw;
+        if (idleTimeLimit !== null && gap > idleTimeLimit) {
+          idleGaps.push({ rawTime: raw, removed: gap - idleTimeLimit });
+          gap = idleTimeLimit;
+        }
+        const timestamp = previousTime + Math.max(0, gap);
+        previousRaw = raw;
+        previousTime = timestamp;
+
+        events.push({
+          timestamp,
+          type,
+          content: typeof content === 'string' ? content : JSON.stringify(content)
+        });
+
+        // Parse agent thinking from 'm' events
+        if (type === 'm') {
+          agentThoughts.push(parseThinking(timestamp, content));
+        }
+      }
+    } catch (error) {
+      // Skip malformed lines
+    }
+  }
+
+  const maxTime = events.reduce((max, event) => Math.max(max, event.timestamp), 0);
+
+  return { header, events, agentThoughts, maxTime, width: header.width, height: header.height, idleGaps };
+}
+
+/**
+ * Playback time for a time in the uncompressed recording (e.g. from search results)
+ */
+export function toPlaybackTime(idleGaps: IdleGap[], rawTime: number): number {
+  const removed = idleGaps.reduce((total, gap) => gap.rawTime <= rawTime ? total + gap.removed : total, 0);
+  return Math.max(0, rawTime - removed);
+}
+
+/**
+ * Inverse of toPlaybackTime, for links that should open at the same moment whatever the idle setting
+ */
+export function toRawTime(idleGaps: IdleGap[], playbackTime: number): number {
+  let removed = 0;
+  for (const gap of idleGaps) {
+    if (gap.rawTime - removed - gap.removed > playbackTime) break;
+    removed += gap.removed;
+  }
+  return playbackTime + removed;
+}
+
+// Output replayed between keyframes; seeking replays at most this much
+const KEYFRAME_BYTES = 128 * 1024;
+
+interface Keyframe {
+  /** Events before this index are already applied to the snapshot */
+  eventIndex: number;
+  snapshot: TerminalSnapshot;
+}
+
+function applyEvent(screen: TerminalScreen, event: CastEvent): void {
+  if (event.type === 'o') {
+    screen.write(event.content);
+  } else if (event.type === 'r') {
+    const [cols, rows] = event.content.split('x').map(Number);
+    if (cols > 0 && rows > 0) screen.resize(cols, rows);
+  }
+}
+
+/**
+ * Replays a cast through a terminal emulator to render the screen at any time
+ * Seeking restores the nearest keyframe at or before the target and replays only the events since,
+ * or carries on from the current state when that is closer. Keyframes are built by indexKeyframes.
+ */
+export class CastPlayback {
+  private screen: TerminalScreen;
+  private nextEvent = 0;
+  private keyframes: Keyframe[];
+  private indexer: { screen: TerminalScreen; nextEvent: number; bytes: number } | null;
+
+  constructor(private readonly cast: ParsedCast) {
+    this.screen = new TerminalScreen(cast.width, cast.height);
+    this.keyframes = [{ eventIndex: 0, snapshot: this.screen.snapshot() }];
+    this.indexer = { screen: new TerminalScreen(cast.width, cast.height), nextEvent: 0, bytes: 0 };
+  }
+
+  /**
+   * Terminal frame with every event up to `time` applied
+   */
+  render(time: number): TerminalFrame {
+    const { events } = this.cast;
+    const target = this.eventCountAt(time);
+    const keyframe = this.keyframeAtOrBefore(target);
+
+    if (target < this.nextEvent || keyframe.eventIndex > this.nextEvent) {
+      this.screen.restore(keyframe.snapshot);
+      this.nextEvent = keyframe.eventIndex;
+    }
+    while (this.nextEvent < target) {
+      applyEvent(this.screen, events[this.nextEvent++]);
+    }
+
+    return this.screen.frame();
+  }
+
+  /**
+   * Replays ahead on a separate screen for up to `budgetMs`, taking a keyframe every KEYFRAME_BYTES of output
+   * Returns true while there is more of the cast left to index.
+   */
+  indexKeyframes(budgetMs: number): boolean {
+    const indexer = this.indexer;
+    if (!indexer) return false;
+
+    const { events } = this.cast;
+    const deadline = Date.now() + budgetMs;
+    while (indexer.nextEvent < events.length) {
+      const event = events[indexer.nextEvent++];
+      applyEvent(indexer.screen, event);
+      if (event.type === 'o') indexer.bytes += event.content.length;
+
+      if (indexer.bytes >= KEYFRAME_BYTES) {
+        this.keyframes.push({ eventIndex: indexer.nextEvent, snapshot: indexer.screen.snapshot() });
+        indexer.bytes = 0;
+      }
+      if (indexer.nextEvent % 1000 === 0 && Date.now() >= deadline) return true;
+    }
+
+    this.indexer = null;
+    return false;
+  }
+
+  /** Number of events at or before `time` - events are in timestamp order */
+  private eventCountAt(time: number): number {
+    const { events } = this.cast;
+    let low = 0;
+    let high = events.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (events[mid].timestamp <= time) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  private keyframeAtOrBefore(eventIndex: number): Keyframe {
+    let low = 0;
+    let high = this.keyframes.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.keyframes[mid].eventIndex <= eventIndex) low = mid;
+      else high = mid - 1;
+    }
+    return this.keyframes[low];
+  }
+}
+
+/**
+ * Text of one planned command, whatever shape the agent emitted it in
+ */
+export function getCommandText(cmd: string | { [key: string]: any }): string {
+  if (typeof cmd === 'string') return cmd;
+  if (typeof cmd !== 'object' || cmd === null) return '';
+
+  const commandText = cmd.command || cmd.cmd || cmd.text || cmd.action || '';
+  if (commandText) return commandText;
+
+  const stringValues = Object.values(cmd).filter(v => typeof v === 'string');
+  return stringValues.length > 0 ? stringValues[0] : `Unknown command format: ${Object.keys(cmd).join(', ')}`;
+}
+
+/**
+ * Episode boundaries used to align two sessions: every 'm' event, in order
+ */
+export function getEpisodeMarkers(cast: ParsedCast): number[] {
+  return cast.events.filter(event => event.type === 'm').map(event => event.timestamp);
+}
+
+// Shell prompts in harness containers, e.g. "root@4f2a1c:/app# ls -la"
+const PROMPT_PATTERN = /^[\w.-]+@[\w.-]+:[^#$\n]*[#$] (.+)$/;
+
+/**
+ * Commands the agent ran, in order
+ * Taken from planned commands in thinking events when present, otherwise from typed
+ * input, otherwise from shell prompt lines in the output
+ */
+export function extractCommands(cast: ParsedCast): Array<{ timestamp: number; command: string }> {
+  const planned = cast.agentThoughts.flatMap(thought =>
+    (thought.commands || []).map(cmd => ({ timestamp: thought.timestamp, command: getCommandText(cmd).trim() }))
+  ).filter(entry => entry.command);
+  if (planned.length > 0) return planned;
+
+  const typed: Array<{ timestamp: number; command: string }> = [];
+  let pending = '';
+  cast.events.filter(event => event.type === 'i').forEach(event => {
+    const parts = (pending + event.content).split(/\r\n|\r|\n/);
+    pending = parts.pop() || '';
+    parts.forEach(part => {
+      const command = cleanAnsiCodes(part).trim();
+      if (command) typed.push({ timestamp: event.timestamp, command });
+    });
+  });
+  if (typed.length > 0) return typed;
+
+  const prompted: Array<{ timestamp: number; command: string }> = [];
+  let partial = '';
+  cast.events.filter(event => event.type === 'o').forEach(event => {
+    const lines = (partial + event.content).split(/\r\n|\n/);
+    partial = lines.pop() || '';
+    lines.forEach(line => {
+      const match = cleanAnsiCodes(line).replace(/\n/g, '').match(PROMPT_PATTERN);
+      if (match && match[1].trim()) prompted.push({ timestamp: event.timestamp, command: match[1].trim() });
+    });
+  });
+  return prompted;
+}
+
+// Keys that arrive as escape sequences or control characters, shown the way they were pressed
+const KEY_NAMES: Array<[string, string]> = [
+  ['\x1b[A', '↑'], ['\x1b[B', '↓'], ['\x1b[C', '→'], ['\x1b[D', '←'],
+  ['\x1bOA', '↑'], ['\x1bOB', '↓'], ['\x1bOC', '→'], ['\x1bOD', '←'],
+  ['\x1b[H', '⇱'], ['\x1b[F', '⇲'], ['\x1b[3~', '⌦'], ['\x1b[5~', '⇞'], ['\x1b[6~', '⇟'],
+  ['\t', '⇥'], ['\x7f', '⌫'], ['\b', '⌫'],
+];
+
+function describeInput(data: string): string {
+  let text = '';
+  let i = 0;
+  while (i < data.length) {
+    const key = KEY_NAMES.find(([sequence]) => data.startsWith(sequence, i));
+    if (key) {
+      text += key[1];
+      i += key[0].length;
+      continue;
+    }
+
+    const code = data.charCodeAt(i);
+    if (code === 0x1b) {
+      text += '⎋';
+    } else if (code < 0x20) {
+      // Ctrl+letter
+      text += `^${String.fromCharCode(code + 64)}`;
+    } else {
+      text += data[i];
+    }
+    i++;
+  }
+  return text;
+}
+
+/**
+ * Typed input ('i' events) grouped into lines, each stamped with its first keystroke
+ */
+export function getInputLines(cast: ParsedCast): Array<{ timestamp: number; text: string }> {
+  const lines: Array<{ timestamp: number; text: string }> = [];
+  let current: { timestamp: number; text: string } | null = null;
+
+  for (const event of cast.events) {
+    if (event.type !== 'i') continue;
+    for (const part of event.content.split(/(\r\n|\r|\n)/)) {
+      if (!part) continue;
+      if (!current) current = { timestamp: event.timestamp, text: '' };
+      if (/^(\r\n|\r|\n)$/.test(part)) {
+        lines.push({ timestamp: current.timestamp, text: `${current.text}⏎` });
+        current = null;
+      } else {
+        current.text += describeInput(part);
+      }
+    }
+  }
+
+  if (current) lines.push(current);
+  return lines;
+}
+
+export interface Episode {
+  /** Episode number from the marker, or its position when the marker has none */
+  number: number;
+  timestamp: number;
+  /** Time until the next episode, or the end of the recording for the last one */
+  durationSec: number;
+  stateAnalysis?: string;
+  explanation?: string;
+  commands: string[];
+  isTaskComplete?: boolean;
+  /** Plain-text marker content that isn't structured thinking */
+  note?: string;
+}
+
+/**
+ * One entry per agent thinking event, with the commands it planned
+ * Markers without planned commands (the "Episode N: X commands" format) get the commands
+ * seen in the terminal until the next episode.
+ */
+export function buildEpisodes(cast: ParsedCast): Episode[] {
+  const { agentThoughts, maxTime } = cast;
+  const ranCommands = agentThoughts.some(thought => thought.commands && thought.commands.length > 0)
+    ? []
+    : extractCommands(cast);
+
+  return agentThoughts.map((thought, i) => {
+    const end = i + 1 < agentThoughts.length ? agentThoughts[i + 1].timestamp : maxTime;
+    const planned = (thought.commands || []).map(cmd => getCommandText(cmd).trim()).filter(Boolean);
+    const commands = planned.length > 0
+      ? planned
+      : ranCommands
+        .filter(entry => entry.timestamp >= thought.timestamp && (entry.timestamp < end || i === agentThoughts.length - 1))
+        .map(entry => entry.command);
+
+    return {
+      number: thought.type === 'episode' && thought.episodeNumber !== undefined ? thought.episodeNumber : i + 1,
+      timestamp: thought.timestamp,
+      durationSec: Math.max(0, end - thought.timestamp),
+      stateAnalysis: thought.state_analysis,
+      explanation: thought.explanation,
+      commands,
+      isTaskComplete: thought.is_task_complete,
+      note: thought.type !== 'episode' && !thought.state_analysis && !thought.explanation ? thought.raw_content : undefined,
+    };
+  });
+}
+
+/**
+ * What the viewers need from a cast besides the rendered screen - small enough to pass
+ * back from the parsing worker without copying every output event
+ */
+export interface CastSummary {
+  header: CastHeader;
+  maxTime: number;
+  width: number;
+  height: number;
+  idleGaps: IdleGap[];
+  agentThoughts: AgentThinking[];
+  markers: number[];
+  episodes: Episode[];
+  commands: Array<{ timestamp: number; command: string }>;
+  inputLines: Array<{ timestamp: number; text: string }>;
+}
+
+export function summarizeCast(cast: ParsedCast): CastSummary {
+  return {
+    header: cast.header,
+    maxTime: cast.maxTime,
+    width: cast.width,
+    height: cast.height,
+    idleGaps: cast.idleGaps,
+    agentThoughts: cast.agentThoughts,
+    markers: getEpisodeMarkers(cast),
+    episodes: buildEpisodes(cast),
+    commands: extractCommands(cast),
+    inputLines: getInputLines(cast),
+  };
+}
+
+export function formatPlaybackTime(seconds: number): string {
+  const totalSeconds = Math.floor(seconds);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+}
+
+export function episodesToJson(title: string, episodes: Episode[], maxTime: number): string {
+  return JSON.stringify({ title, durationSec: maxTime, episodes }, null, 2);
+}
+
+/**
+ * Markdown write-up of the episodes, for pasting into issues and failure reports
+ */
+export function episodesToMarkdown(title: string, episodes: Episode[], maxTime: number): string {
+  const lines: string[] = [
+    `# ${title}`,
+    '',
+    `${episodes.length} episode${episodes.length === 1 ? '' : 's'} • ${formatPlaybackTime(maxTime)} total`,
+  ];
+
+  episodes.forEach(episode => {
+    lines.push('', `## Episode ${episode.number} — ${formatPlaybackTime(episode.timestamp)} (${formatPlaybackTime(episode.durationSec)})`);
+    if (episode.isTaskComplete) lines.push('', '_Agent marked the task complete_');
+    if (episode.stateAnalysis) lines.push('', `**State analysis:** ${episode.stateAnalysis}`);
+    if (episode.explanation) lines.push('', `**Next actions:** ${episode.explanation}`);
+    if (episode.note) lines.push('', episode.note);
+    if (episode.commands.length > 0) {
+      // Widen the fence past any backtick run inside the commands
+      const longestRun = Math.max(0, ...episode.commands.map(cmd => (cmd.match(/`+/g) || []).reduce((max, run) => Math.max(max, run.length), 0)));
+      const fence = '`'.repeat(Math.max(3, longestRun + 1));
+      lines.push('', `${fence}bash`, ...episode.commands, fence);
+    }
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+export interface SequenceDiffEntry {
+  type: 'both' | 'left' | 'right';
+  value: string;
+}
+
+/**
+ * Longest-common-subsequence diff of two short sequences (e.g. command lists)
+ * Sequences past `maxCells` comparisons are reported as entirely different
+ */
+export function diffSequences(left: string[], right: string[], maxCells: number = 4000000): SequenceDiffEntry[] {
+  if (left.length * right.length > maxCells) {
+    return left.map((value): SequenceDiffEntry => ({ type: 'left', value }))
+      .concat(right.map((value): SequenceDiffEntry => ({ type: 'right', value })));
+  }
+
+  // lengths[i][j] = LCS length of left[i..] and right[j..]
+  const lengths: Uint32Array[] = [];
+  for (let i = 0; i <= left.length; i++) lengths.push(new Uint32Array(right.length + 1));
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lengths[i][j] = left[i] === right[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const entries: SequenceDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      entries.push({ type: 'both', value: left[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      entries.push({ type: 'left', value: left[i++] });
+    } else {
+      entries.push({ type: 'right', value: right[j++] });
+    }
+  }
+  while (i < left.length) entries.push({ type: 'left', value: left[i++] });
+  while (j < right.length) entries.push({ type: 'right', value: right[j++] });
+
+  return entries;
+}
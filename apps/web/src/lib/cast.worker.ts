@@ -0,0 +1,54 @@
+/**
+ * Parses casts and renders terminal frames off the main thread
+ * After parsing, keyframes are indexed in short slices so render requests are answered in between.
+ */
+
+import { parseCast, summarizeCast, CastPlayback, type CastSummary, type ParseCastOptions } from "@/lib/cast";
+
+export type CastWorkerRequest =
+  | { type: 'load'; castContent: string; options: ParseCastOptions }
+  | { type: 'render'; time: number };
+
+export type CastWorkerResponse =
+  | { type: 'summary'; summary: CastSummary }
+  | { type: 'frame'; time: number; screen: string; scrollback: string | null };
+
+// Long enough to make progress, short enough that a seek waits at most this long
+const INDEX_SLICE_MS = 30;
+
+// The web lib types `self` as a Window; this file only ever runs as a dedicated worker
+const scope = self as unknown as {
+  postMessage(message: CastWorkerResponse): void;
+  onmessage: ((event: MessageEvent<CastWorkerRequest>) => void) | null;
+};
+
+let playback: CastPlayback | null = null;
+let indexTimer: ReturnType<typeof setTimeout> | null = null;
+let sentScrollbackVersion = -1;
+
+function indexInBackground() {
+  indexTimer = playback && playback.indexKeyframes(INDEX_SLICE_MS)
+    ? setTimeout(indexInBackground, 0)
+    : null;
+}
+
+scope.onmessage = (event) => {
+  const request = event.data;
+
+  if (request.type === 'load') {
+    if (indexTimer) clearTimeout(indexTimer);
+    const cast = parseCast(request.castContent, request.options);
+    playback = new CastPlayback(cast);
+    sentScrollbackVersion = -1;
+    scope.postMessage({ type: 'summary', summary: summarizeCast(cast) });
+    indexTimer = setTimeout(indexInBackground, 0);
+    return;
+  }
+
+  if (!playback) return;
+  const frame = playback.render(request.time);
+  // The scrollback can be megabytes; only send it when it changed
+  const scrollback = frame.scrollbackVersion === sentScrollbackVersion ? null : frame.scrollback;
+  sentScrollbackVersion = frame.scrollbackVersion;
+  scope.postMessage({ type: 'frame', time: request.time, screen: frame.screen, scrollback });
+};
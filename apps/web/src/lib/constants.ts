@@ -20,6 +20,8 @@ export const CACHE_TIME = {
   GC_LONG: 30 * 60 * 1000,
   /** 1 minute - for background refetch intervals */
   REFETCH_INTERVAL: 45 * 1000,
+  /** 5 minutes - for background refetch while live updates reach every server instance */
+  LIVE_REFETCH_INTERVAL: 5 * 60 * 1000,
 } as const;
 
 /**
@@ -0,0 +1,122 @@
+/**
+ * Shareable links into a PR's workflow view
+ * The path names the PR, run and tab; the query names what is selected inside the tab:
+ *   /repo/:repo/pr/:pr/run/:runId/:tab?task=&agent=&compare=&source=&file=&lines=&t=
+ */
+
+export const RUN_TABS = ['overview', 'terminal', 'logs', 'files', 'comments', 'search'] as const;
+export type RunTab = typeof RUN_TABS[number];
+
+/** 1-based, inclusive */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export interface RunLink {
+  pr: number;
+  runId?: number;
+  tab?: RunTab;
+  task?: string;
+  /** Artifact name of the agent shown in the terminal or logs tab */
+  agent?: string;
+  /** Second agent in the split terminal view */
+  compare?: string;
+  source?: 'agent' | 'tests';
+  /** Log file path inside the agent's artifact */
+  file?: string;
+  lines?: LineRange;
+  /** Cast position in seconds */
+  time?: number;
+}
+
+/** Route params as wouter hands them over; missing segments are undefined */
+export interface RunLinkParams {
+  pr?: string;
+  runId?: string;
+  tab?: string;
+}
+
+function positiveInt(value: string | null | undefined): number | undefined {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  const number = Number(value);
+  return number > 0 ? number : undefined;
+}
+
+/**
+ * Parses "12" or "12-20" (a GitHub-style "L12-L20" works too)
+ */
+export function parseLineRange(value: string | null): LineRange | undefined {
+  const match = value?.match(/^L?(\d+)(?:-L?(\d+))?$/i);
+  if (!match) return undefined;
+  const start = positiveInt(match[1]);
+  const end = positiveInt(match[2] ?? match[1]);
+  if (!start || !end) return undefined;
+  return start <= end ? { start, end } : { start: end, end: start };
+}
+
+export function formatLineRange(range: LineRange): string {
+  return range.start === range.end ? String(range.start) : `${range.start}-${range.end}`;
+}
+
+/**
+ * Reads a link from route params and the query string
+ * Returns null without a valid PR number; anything else that doesn't parse is dropped.
+ */
+export function parseRunLink(params: RunLinkParams, search: string): RunLink | null {
+  const query = new URLSearchParams(search);
+  const pr = positiveInt(params.pr ?? query.get('pr'));
+  if (!pr) return null;
+
+  const link: RunLink = { pr };
+  const runId = positiveInt(params.runId);
+  if (runId) link.runId = runId;
+  if (params.tab && (RUN_TABS as readonly string[]).includes(params.tab)) link.tab = params.tab as RunTab;
+
+  const task = query.get('task');
+  const agent = query.get('agent');
+  const compare = query.get('compare');
+  const source = query.get('source');
+  const file = query.get('file');
+  const lines = parseLineRange(query.get('lines'));
+  const time = Number(query.get('t'));
+
+  if (task) link.task = task;
+  if (agent) link.agent = agent;
+  if (compare) link.compare = compare;
+  if (source === 'agent' || source === 'tests') link.source = source;
+  if (file) link.file = file;
+  if (lines) link.lines = lines;
+  if (query.get('t') && isFinite(time) && time >= 0) link.time = time;
+
+  return link;
+}
+
+/**
+ * Path and query for a link, relative to the app root
+ * The tab is a path segment after the run, so a link without a run only keeps its query.
+ */
+export function runLinkPath(repoName: string, link: RunLink): string {
+  let path = `/repo/${repoName}/pr/${link.pr}`;
+  if (link.runId) {
+    path += `/run/${link.runId}`;
+    if (link.tab) path += `/${link.tab}`;
+  }
+
+  const query = new URLSearchParams();
+  if (link.task) query.set('task', link.task);
+  if (link.agent) query.set('agent', link.agent);
+  if (link.compare) query.set('compare', link.compare);
+  if (link.source) query.set('source', link.source);
+  if (link.file) query.set('file', link.file);
+  if (link.lines) query.set('lines', formatLineRange(link.lines));
+  if (link.time !== undefined) query.set('t', link.time.toFixed(1));
+
+  const queryString = query.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
+
+/** Absolute URL for pasting into chat or a PR comment */
+export function runLinkUrl(repoName: string, link: RunLink): string {
+  return `${window.location.origin}${runLinkPath(repoName, link)}`;
+}
@@ -0,0 +1,868 @@
+/**
+ * VT100/xterm screen emulation for replaying terminal recordings
+ * Keeps a character grid with per-cell attributes and a scrollback, and understands the cursor
+ * movement, erase, scroll region and alternate screen sequences full-screen programs rely on.
+ */
+
+/** Palette index (0-255), '#rrggbb', or null for the default color */
+type Color = number | string | null;
+
+interface CellStyle {
+  fg: Color;
+  bg: Color;
+  bold: boolean;
+  dim: boolean;
+  italic: boolean;
+  underline: boolean;
+  inverse: boolean;
+  strike: boolean;
+}
+
+interface Cell {
+  ch: string;
+  style: CellStyle;
+}
+
+interface Cursor {
+  x: number;
+  y: number;
+  style: CellStyle;
+  originMode: boolean;
+}
+
+type ParserState = 'ground' | 'escape' | 'charset' | 'designate' | 'csi' | 'osc' | 'string';
+
+/**
+ * Everything needed to resume emulation from a point in the output
+ */
+export interface TerminalSnapshot {
+  width: number;
+  height: number;
+  primary: Cell[][];
+  alternate: Cell[][] | null;
+  scrollback: string[];
+  cursor: Cursor;
+  savedCursor: Cursor | null;
+  wrapPending: boolean;
+  scrollTop: number;
+  scrollBottom: number;
+  autowrap: boolean;
+  insertMode: boolean;
+  cursorVisible: boolean;
+  lineDrawing: boolean;
+  lastPrinted: string;
+  state: ParserState;
+  params: string;
+  prefix: string;
+}
+
+export interface TerminalFrame {
+  /** Changes whenever `scrollback` does, so an unchanged scrollback needn't be sent or re-rendered */
+  scrollbackVersion: number;
+  /** Rows scrolled off the primary screen; empty while the alternate screen is shown */
+  scrollback: string;
+  screen: string;
+}
+
+const DEFAULT_STYLE: CellStyle = {
+  fg: null,
+  bg: null,
+  bold: false,
+  dim: false,
+  italic: false,
+  underline: false,
+  inverse: false,
+  strike: false,
+};
+
+const DEFAULT_FG = '#d0d0d0';
+const DEFAULT_BG = '#282c34';
+
+const BASE_COLORS = [
+  '#2e3436', // Black
+  '#ff6b6b', // Red
+  '#5af78e', // Green
+  '#f3f99d', // Yellow
+  '#57c7ff', // Blue
+  '#ff79c6', // Magenta
+  '#9aedfe', // Cyan
+  '#d0d0d0', // White
+  '#808080', // Bright Black (Gray)
+  '#ff8787', // Bright Red
+  '#90ee90', // Bright Green
+  '#ffff87', // Bright Yellow
+  '#87ceeb', // Bright Blue
+  '#ffb3ff', // Bright Magenta
+  '#b0e0e6', // Bright Cyan
+  '#ffffff', // Bright White
+];
+
+// DEC special graphics, selected with ESC ( 0 - used for box drawing by ncurses programs
+const LINE_DRAWING: { [ch: string]: string } = {
+  '`': '◆', a: '▒', f: '°', g: '±', j: '┘', k: '┐', l: '┌', m: '└', n: '┼',
+  o: '⎺', p: '⎻', q: '─', r: '⎼', s: '⎽', t: '├', u: '┤', v: '┴', w: '┬',
+  x: '│', y: '≤', z: '≥', '{': 'π', '|': '≠', '}': '£', '~': '·',
+};
+
+const TAB_WIDTH = 8;
+const SCROLLBACK_TRIM_BATCH = 500;
+
+// Shared across screens so a restored snapshot never reuses the version of a different scrollback
+let nextScrollbackVersion = 1;
+
+// East Asian wide characters and emoji take two columns
+const WIDE_RANGES: Array<[number, number]> = [
+  [0x1100, 0x115f], [0x2e80, 0x303e], [0x3041, 0x33ff], [0x3400, 0x4dbf], [0x4e00, 0x9fff],
+  [0xa000, 0xa4cf], [0xac00, 0xd7a3], [0xf900, 0xfaff], [0xfe30, 0xfe4f], [0xff00, 0xff60],
+  [0xffe0, 0xffe6], [0x1f300, 0x1f64f], [0x1f900, 0x1f9ff], [0x20000, 0x3fffd],
+];
+
+// Combining marks, zero-width spaces and variation selectors attach to the previous cell
+const ZERO_WIDTH_RANGES: Array<[number, number]> = [
+  [0x0300, 0x036f], [0x200b, 0x200f], [0x20d0, 0x20ff], [0xfe00, 0xfe0f],
+];
+
+function inRanges(code: number, ranges: Array<[number, number]>): boolean {
+  return ranges.some(([start, end]) => code >= start && code <= end);
+}
+
+function paletteColor(index: number): string {
+  if (index < 16) return BASE_COLORS[index];
+  if (index < 232) {
+    const levels = [0, 95, 135, 175, 215, 255];
+    const n = index - 16;
+    const hex = (v: number) => v.toString(16).padStart(2, '0');
+    return `#${hex(levels[Math.floor(n / 36)])}${hex(levels[Math.floor(n / 6) % 6])}${hex(levels[n % 6])}`;
+  }
+  const gray = (8 + (index - 232) * 10).toString(16).padStart(2, '0');
+  return `#${gray}${gray}${gray}`;
+}
+
+function cssColor(color: Color, fallback: string): string {
+  if (color === null) return fallback;
+  return typeof color === 'number' ? paletteColor(color) : color;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function styleKey(style: CellStyle): string {
+  return `${style.fg}|${style.bg}|${+style.bold}${+style.dim}${+style.italic}${+style.underline}${+style.inverse}${+style.strike}`;
+}
+
+function styleCss(style: CellStyle, isCursor: boolean): string {
+  let fg = cssColor(style.fg, DEFAULT_FG);
+  let bg = style.bg === null ? null : cssColor(style.bg, DEFAULT_BG);
+  if (style.inverse !== isCursor) {
+    const swapped = fg;
+    fg = bg || DEFAULT_BG;
+    bg = swapped;
+  }
+
+  const rules: string[] = [];
+  if (fg !== DEFAULT_FG) rules.push(`color:${fg}`);
+  if (bg) rules.push(`background-color:${bg}`);
+  if (style.bold) rules.push('font-weight:bold');
+  if (style.dim) rules.push('opacity:0.7');
+  if (style.italic) rules.push('font-style:italic');
+  const decorations = [style.underline ? 'underline' : '', style.strike ? 'line-through' : ''].filter(Boolean);
+  if (decorations.length > 0) rules.push(`text-decoration:${decorations.join(' ')}`);
+  return rules.join(';');
+}
+
+function isBlank(cell: Cell): boolean {
+  return cell.ch === ' ' && cell.style.bg === null && !cell.style.inverse && !cell.style.underline;
+}
+
+/**
+ * Renders one row as HTML, dropping trailing blank cells
+ */
+function renderRow(row: Cell[], cursorX: number | null): string {
+  let end = row.length;
+  while (end > 0 && isBlank(row[end - 1]) && end - 1 !== cursorX) end--;
+
+  let html = '';
+  let runText = '';
+  let runKey = '';
+  let runCss = '';
+  const flush = () => {
+    if (!runText) return;
+    html += runCss ? `<span style="${runCss}">${escapeHtml(runText)}</span>` : escapeHtml(runText);
+    runText = '';
+  };
+
+  let runStyle: CellStyle | null = null;
+  for (let x = 0; x < end; x++) {
+    const cell = row[x];
+    const isCursor = x === cursorX;
+    // Cells printed under the same attributes share a style object, so most runs skip the key
+    if (cell.style !== runStyle || isCursor || runKey === 'cursor') {
+      const key = isCursor ? 'cursor' : styleKey(cell.style);
+      if (key !== runKey) {
+        flush();
+        runKey = key;
+        runCss = styleCss(cell.style, isCursor);
+      }
+      runStyle = cell.style;
+    }
+    runText += cell.ch;
+  }
+  flush();
+  return html;
+}
+
+export class TerminalScreen {
+  private width: number;
+  private height: number;
+  private scrollbackLimit: number;
+
+  private primary: Cell[][] = [];
+  private alternate: Cell[][] | null = null;
+  /** Rows scrolled off the top of the primary screen, already rendered */
+  private scrollback: string[] = [];
+  private scrollbackVersion = 0;
+  private scrollbackHtml: string | null = null;
+
+  private cursor: Cursor = { x: 0, y: 0, style: DEFAULT_STYLE, originMode: false };
+  private savedCursor: Cursor | null = null;
+  private wrapPending = false;
+  private scrollTop = 0;
+  private scrollBottom = 0;
+  private autowrap = true;
+  private insertMode = false;
+  private cursorVisible = true;
+  private lineDrawing = false;
+  private lastPrinted = '';
+
+  private state: ParserState = 'ground';
+  private params = '';
+  private prefix = '';
+
+  constructor(width: number = 80, height: number = 24, scrollbackLimit: number = 5000) {
+    this.width = Math.max(1, width);
+    this.height = Math.max(1, height);
+    this.scrollbackLimit = scrollbackLimit;
+    this.reset();
+  }
+
+  reset(): void {
+    this.primary = this.blankRows(this.height);
+    this.alternate = null;
+    this.scrollback = [];
+    this.scrollbackChanged();
+    this.cursor = { x: 0, y: 0, style: DEFAULT_STYLE, originMode: false };
+    this.savedCursor = null;
+    this.wrapPending = false;
+    this.scrollTop = 0;
+    this.scrollBottom = this.height - 1;
+    this.autowrap = true;
+    this.insertMode = false;
+    this.cursorVisible = true;
+    this.lineDrawing = false;
+    this.lastPrinted = '';
+    this.state = 'ground';
+    this.params = '';
+    this.prefix = '';
+  }
+
+  /**
+   * Feeds terminal output; escape sequences may be split across calls
+   */
+  write(data: string): void {
+    for (let i = 0; i < data.length; i++) {
+      let ch = data[i];
+      const code = data.charCodeAt(i);
+      if (code >= 0xd800 && code <= 0xdbff && i + 1 < data.length) {
+        ch += data[++i];
+      }
+
+      switch (this.state) {
+        case 'ground':
+          if (code < 0x20) this.control(ch);
+          else if (code !== 0x7f) this.print(ch);
+          break;
+        case 'escape':
+          this.escape(ch);
+          break;
+        case 'charset':
+          this.lineDrawing = ch === '0';
+          this.state = 'ground';
+          break;
+        case 'designate':
+          this.state = 'ground';
+          break;
+        case 'csi':
+          if (code >= 0x40 && code <= 0x7e) {
+            this.state = 'ground';
+            this.csi(ch);
+          } else if (code === 0x1b) {
+            this.state = 'escape';
+          } else if (code < 0x20) {
+            this.control(ch);
+          } else if (/[<=>?]/.test(ch) && this.params === '') {
+            this.prefix += ch;
+          } else if (/[0-9;:]/.test(ch)) {
+            this.params += ch;
+          }
+          // Intermediate bytes (space, !, ", $, ') only occur in sequences we ignore
+          break;
+        case 'osc':
+        case 'string':
+          // Titles, hyperlinks and device control strings have no effect on the grid
+          if (ch === '\x07') this.state = 'ground';
+          else if (ch === '\x1b') this.state = 'escape';
+          break;
+      }
+    }
+  }
+
+  resize(width: number, height: number): void {
+    width = Math.max(1, width);
+    height = Math.max(1, height);
+
+    const fit = (rows: Cell[][]) => rows.map(row => row.length >= width
+      ? row.slice(0, width)
+      : row.concat(this.blankCells(width - row.length)));
+    this.primary = fit(this.primary);
+    if (this.alternate) this.alternate = fit(this.alternate);
+    this.width = width;
+
+    // Shrinking pushes rows above the cursor into scrollback so the cursor stays on screen
+    while (this.primary.length > height && this.cursor.y > 0 && this.cursor.y >= height) {
+      this.pushScrollback(this.primary.shift()!);
+      this.cursor.y--;
+    }
+    this.primary = this.primary.slice(0, height).concat(this.blankRows(Math.max(0, height - this.primary.length)));
+    if (this.alternate) {
+      this.alternate = this.alternate.slice(0, height).concat(this.blankRows(Math.max(0, height - this.alternate.length)));
+    }
+    this.height = height;
+
+    this.scrollTop = 0;
+    this.scrollBottom = height - 1;
+    this.cursor.x = Math.min(this.cursor.x, width - 1);
+    this.cursor.y = Math.min(this.cursor.y, height - 1);
+    this.wrapPending = false;
+  }
+
+  /**
+   * Scrollback and visible screen as HTML lines
+   * Blank rows below the cursor are left out so short sessions don't trail empty space.
+   */
+  frame(options: { showCursor?: boolean } = {}): TerminalFrame {
+    const { showCursor = true } = options;
+    const rows = this.rowsOf();
+    let last = rows.length - 1;
+    if (!this.alternate) {
+      while (last > this.cursor.y && rows[last].every(isBlank)) last--;
+    }
+
+    const lines: string[] = [];
+    for (let y = 0; y <= last; y++) {
+      const cursorX = showCursor && this.cursorVisible && y === this.cursor.y ? this.cursor.x : null;
+      lines.push(renderRow(rows[y], cursorX));
+    }
+
+    if (this.alternate) {
+      return { scrollbackVersion: 0, scrollback: '', screen: lines.join('\n') };
+    }
+    if (this.scrollbackHtml === null) this.scrollbackHtml = this.scrollback.join('\n');
+    return { scrollbackVersion: this.scrollbackVersion, scrollback: this.scrollbackHtml, screen: lines.join('\n') };
+  }
+
+  snapshot(): TerminalSnapshot {
+    return {
+      width: this.width,
+      height: this.height,
+      primary: this.primary.map(row => row.slice()),
+      alternate: this.alternate ? this.alternate.map(row => row.slice()) : null,
+      scrollback: this.scrollback.slice(),
+      cursor: { ...this.cursor },
+      savedCursor: this.savedCursor ? { ...this.savedCursor } : null,
+      wrapPending: this.wrapPending,
+      scrollTop: this.scrollTop,
+      scrollBottom: this.scrollBottom,
+      autowrap: this.autowrap,
+      insertMode: this.insertMode,
+      cursorVisible: this.cursorVisible,
+      lineDrawing: this.lineDrawing,
+      lastPrinted: this.lastPrinted,
+      state: this.state,
+      params: this.params,
+      prefix: this.prefix,
+    };
+  }
+
+  /**
+   * Replaces the whole emulator state; the snapshot itself is left untouched for reuse
+   */
+  restore(snapshot: TerminalSnapshot): void {
+    this.width = snapshot.width;
+    this.height = snapshot.height;
+    this.primary = snapshot.primary.map(row => row.slice());
+    this.alternate = snapshot.alternate ? snapshot.alternate.map(row => row.slice()) : null;
+    this.scrollback = snapshot.scrollback.slice();
+    this.scrollbackChanged();
+    this.cursor = { ...snapshot.cursor };
+    this.savedCursor = snapshot.savedCursor ? { ...snapshot.savedCursor } : null;
+    this.wrapPending = snapshot.wrapPending;
+    this.scrollTop = snapshot.scrollTop;
+    this.scrollBottom = snapshot.scrollBottom;
+    this.autowrap = snapshot.autowrap;
+    this.insertMode = snapshot.insertMode;
+    this.cursorVisible = snapshot.cursorVisible;
+    this.lineDrawing = snapshot.lineDrawing;
+    this.lastPrinted = snapshot.lastPrinted;
+    this.state = snapshot.state;
+    this.params = snapshot.params;
+    this.prefix = snapshot.prefix;
+  }
+
+  private rowsOf(): Cell[][] {
+    return this.alternate || this.primary;
+  }
+
+  private blankCells(count: number, style: CellStyle = DEFAULT_STYLE): Cell[] {
+    // Erased cells keep the current background, as in xterm
+    const blank: Cell = { ch: ' ', style: style.bg === null ? DEFAULT_STYLE : { ...DEFAULT_STYLE, bg: style.bg } };
+    const cells: Cell[] = [];
+    for (let i = 0; i < count; i++) cells.push(blank);
+    return cells;
+  }
+
+  private blankRows(count: number): Cell[][] {
+    const rows: Cell[][] = [];
+    for (let i = 0; i < count; i++) rows.push(this.blankCells(this.width));
+    return rows;
+  }
+
+  private pushScrollback(row: Cell[]): void {
+    this.scrollback.push(renderRow(row, null));
+    // Trim in batches - dropping one row at a time from the front is quadratic over a long session
+    if (this.scrollback.length > this.scrollbackLimit + SCROLLBACK_TRIM_BATCH) {
+      this.scrollback.splice(0, this.scrollback.length - this.scrollbackLimit);
+    }
+    this.scrollbackChanged();
+  }
+
+  private scrollbackChanged(): void {
+    this.scrollbackVersion = nextScrollbackVersion++;
+    this.scrollbackHtml = null;
+  }
+
+  private control(ch: string): void {
+    switch (ch) {
+      case '\x1b':
+        this.state = 'escape';
+        break;
+      case '\r':
+        this.cursor.x = 0;
+        this.wrapPending = false;
+        break;
+      case '\n':
+      case '\v':
+      case '\f':
+        this.lineFeed();
+        break;
+      case '\b':
+        this.cursor.x = Math.max(0, this.cursor.x - 1);
+        this.wrapPending = false;
+        break;
+      case '\t':
+        this.cursor.x = Math.min(this.width - 1, (Math.floor(this.cursor.x / TAB_WIDTH) + 1) * TAB_WIDTH);
+        break;
+      // Bell, shift in/out and the rest of C0 don't touch the screen
+    }
+  }
+
+  private escape(ch: string): void {
+    this.state = 'ground';
+    switch (ch) {
+      case '[':
+        this.state = 'csi';
+        this.params = '';
+        this.prefix = '';
+        break;
+      case ']':
+        this.state = 'osc';
+        break;
+      case 'P':
+      case 'X':
+      case '^':
+      case '_':
+        this.state = 'string';
+        break;
+      case '(':
+        this.state = 'charset';
+        break;
+      case ')':
+      case '*':
+      case '+':
+      case '#':
+      case '%':
+        // G1-G3 designations and the like: consume the next byte without acting on it
+        this.state = 'designate';
+        break;
+      case '7':
+        this.saveCursor();
+        break;
+      case '8':
+        this.restoreCursor();
+        break;
+      case 'D':
+        this.lineFeed();
+        break;
+      case 'E':
+        this.cursor.x = 0;
+        this.lineFeed();
+        break;
+      case 'M':
+        this.reverseIndex();
+        break;
+      case 'c':
+        this.reset();
+        break;
+      // '\\' (string terminator), '=' and '>' (keypad modes) need nothing
+    }
+  }
+
+  private print(ch: string): void {
+    if (this.lineDrawing && LINE_DRAWING[ch]) ch = LINE_DRAWING[ch];
+
+    // Everything below U+0300 is a plain single-width character
+    const codePoint = ch.length === 1 && ch.charCodeAt(0) < 0x300 ? 0 : ch.codePointAt(0) || 0;
+    if (codePoint && inRanges(codePoint, ZERO_WIDTH_RANGES)) {
+      const x = this.wrapPending ? this.cursor.x : this.cursor.x - 1;
+      const row = this.rowsOf()[this.cursor.y];
+      if (x >= 0) row[x] = { ch: row[x].ch + ch, style: row[x].style };
+      return;
+    }
+    const wide = codePoint !== 0 && this.width > 1 && inRanges(codePoint, WIDE_RANGES);
+
+    if (this.wrapPending && this.autowrap || (wide && this.cursor.x === this.width - 1 && this.autowrap)) {
+      this.cursor.x = 0;
+      this.lineFeed();
+    }
+    this.wrapPending = false;
+
+    const row = this.rowsOf()[this.cursor.y];
+    const cells: Cell[] = [{ ch, style: this.cursor.style }];
+    // The second column of a wide character renders as nothing
+    if (wide && this.cursor.x < this.width - 1) cells.push({ ch: '', style: this.cursor.style });
+
+    if (this.insertMode) {
+      row.splice(this.cursor.x, 0, ...cells);
+      row.length = this.width;
+    } else {
+      cells.forEach((cell, i) => { row[this.cursor.x + i] = cell; });
+    }
+    this.lastPrinted = ch;
+
+    const next = this.cursor.x + cells.length;
+    if (next >= this.width) {
+      this.cursor.x = this.width - 1;
+      this.wrapPending = this.autowrap;
+    } else {
+      this.cursor.x = next;
+    }
+  }
+
+  private lineFeed(): void {
+    this.wrapPending = false;
+    if (this.cursor.y === this.scrollBottom) {
+      this.scrollUp(1);
+    } else if (this.cursor.y < this.height - 1) {
+      this.cursor.y++;
+    }
+  }
+
+  private reverseIndex(): void {
+    this.wrapPending = false;
+    if (this.cursor.y === this.scrollTop) {
+      this.scrollDown(1);
+    } else if (this.cursor.y > 0) {
+      this.cursor.y--;
+    }
+  }
+
+  private scrollUp(count: number): void {
+    const rows = this.rowsOf();
+    for (let i = 0; i < count; i++) {
+      const [removed] = rows.splice(this.scrollTop, 1);
+      if (this.scrollTop === 0 && !this.alternate) this.pushScrollback(removed);
+      rows.splice(this.scrollBottom, 0, this.blankCells(this.width, this.cursor.style));
+    }
+  }
+
+  private scrollDown(count: number): void {
+    const rows = this.rowsOf();
+    for (let i = 0; i < count; i++) {
+      rows.splice(this.scrollBottom, 1);
+      rows.splice(this.scrollTop, 0, this.blankCells(this.width, this.cursor.style));
+    }
+  }
+
+  private saveCursor(): void {
+    this.savedCursor = { ...this.cursor };
+  }
+
+  private restoreCursor(): void {
+    if (this.savedCursor) this.cursor = { ...this.savedCursor };
+    this.cursor.x = Math.min(this.cursor.x, this.width - 1);
+    this.cursor.y = Math.min(this.cursor.y, this.height - 1);
+    this.wrapPending = false;
+  }
+
+  private moveTo(x: number, y: number): void {
+    const top = this.cursor.originMode ? this.scrollTop : 0;
+    const bottom = this.cursor.originMode ? this.scrollBottom : this.height - 1;
+    this.cursor.x = Math.max(0, Math.min(this.width - 1, x));
+    this.cursor.y = Math.max(top, Math.min(bottom, y));
+    this.wrapPending = false;
+  }
+
+  private eraseCells(y: number, from: number, to: number): void {
+    const row = this.rowsOf()[y];
+    const blank = this.blankCells(1, this.cursor.style)[0];
+    for (let x = Math.max(0, from); x < Math.min(this.width, to); x++) row[x] = blank;
+  }
+
+  private eraseRows(from: number, to: number): void {
+    const rows = this.rowsOf();
+    for (let y = Math.max(0, from); y < Math.min(this.height, to); y++) {
+      rows[y] = this.blankCells(this.width, this.cursor.style);
+    }
+  }
+
+  private setAlternateScreen(enabled: boolean, saveCursor: boolean): void {
+    if (enabled && !this.alternate) {
+      if (saveCursor) this.saveCursor();
+      this.alternate = this.blankRows(this.height);
+    } else if (!enabled && this.alternate) {
+      this.alternate = null;
+      if (saveCursor) this.restoreCursor();
+    }
+    this.wrapPending = false;
+  }
+
+  private setMode(mode: number, enabled: boolean): void {
+    if (this.prefix === '?') {
+      switch (mode) {
+        case 6:
+          this.cursor.originMode = enabled;
+          this.moveTo(0, enabled ? this.scrollTop : 0);
+          break;
+        case 7:
+          this.autowrap = enabled;
+          break;
+        case 25:
+          this.cursorVisible = enabled;
+          break;
+        case 47:
+        case 1047:
+          this.setAlternateScreen(enabled, false);
+          break;
+        case 1049:
+          this.setAlternateScreen(enabled, true);
+          break;
+        // Mouse tracking, bracketed paste, focus events etc. only affect input
+      }
+    } else if (this.prefix === '' && mode === 4) {
+      this.insertMode = enabled;
+    }
+  }
+
+  private csi(final: string): void {
+    const raw = this.params.split(';');
+    const param = (index: number, fallback: number) => {
+      const value = parseInt(raw[index], 10);
+      return isNaN(value) || value === 0 ? fallback : value;
+    };
+    const n = param(0, 1);
+    const { x, y } = this.cursor;
+
+    if (this.prefix !== '' && this.prefix !== '?') return;
+    if (this.prefix === '?' && final !== 'h' && final !== 'l') return;
+
+    switch (final) {
+      case 'A':
+        this.moveTo(x, y - n);
+        break;
+      case 'B':
+      case 'e':
+        this.moveTo(x, y + n);
+        break;
+      case 'C':
+      case 'a':
+        this.moveTo(x + n, y);
+        break;
+      case 'D':
+        this.moveTo(x - n, y);
+        break;
+      case 'E':
+        this.moveTo(0, y + n);
+        break;
+      case 'F':
+        this.moveTo(0, y - n);
+        break;
+      case 'G':
+      case '`':
+        this.moveTo(n - 1, y);
+        break;
+      case 'd':
+        this.moveTo(x, n - 1 + (this.cursor.originMode ? this.scrollTop : 0));
+        break;
+      case 'H':
+      case 'f':
+        this.moveTo(param(1, 1) - 1, n - 1 + (this.cursor.originMode ? this.scrollTop : 0));
+        break;
+      case 'J': {
+        const mode = param(0, 0);
+        if (mode === 0) {
+          this.eraseCells(y, x, this.width);
+          this.eraseRows(y + 1, this.height);
+        } else if (mode === 1) {
+          this.eraseRows(0, y);
+          this.eraseCells(y, 0, x + 1);
+        } else {
+          this.eraseRows(0, this.height);
+          if (mode === 3) {
+            this.scrollback = [];
+            this.scrollbackChanged();
+          }
+        }
+        break;
+      }
+      case 'K': {
+        const mode = param(0, 0);
+        if (mode === 0) this.eraseCells(y, x, this.width);
+        else if (mode === 1) this.eraseCells(y, 0, x + 1);
+        else this.eraseCells(y, 0, this.width);
+        break;
+      }
+      case 'L':
+      case 'M': {
+        if (y < this.scrollTop || y > this.scrollBottom) break;
+        const rows = this.rowsOf();
+        const count = Math.min(n, this.scrollBottom - y + 1);
+        for (let i = 0; i < count; i++) {
+          if (final === 'L') {
+            rows.splice(this.scrollBottom, 1);
+            rows.splice(y, 0, this.blankCells(this.width, this.cursor.style));
+          } else {
+            rows.splice(y, 1);
+            rows.splice(this.scrollBottom, 0, this.blankCells(this.width, this.cursor.style));
+          }
+        }
+        this.cursor.x = 0;
+        this.wrapPending = false;
+        break;
+      }
+      case 'P': {
+        const row = this.rowsOf()[y];
+        row.splice(x, Math.min(n, this.width - x));
+        this.rowsOf()[y] = row.concat(this.blankCells(this.width - row.length, this.cursor.style));
+        break;
+      }
+      case '@': {
+        const row = this.rowsOf()[y];
+        row.splice(x, 0, ...this.blankCells(Math.min(n, this.width - x), this.cursor.style));
+        row.length = this.width;
+        break;
+      }
+      case 'X':
+        this.eraseCells(y, x, x + n);
+        break;
+      case 'S':
+        this.scrollUp(n);
+        break;
+      case 'T':
+        this.scrollDown(n);
+        break;
+      case 'b':
+        for (let i = 0; i < n && this.lastPrinted; i++) this.print(this.lastPrinted);
+        break;
+      case 'r': {
+        const top = param(0, 1) - 1;
+        const bottom = Math.min(this.height, param(1, this.height)) - 1;
+        if (top < bottom) {
+          this.scrollTop = top;
+          this.scrollBottom = bottom;
+          this.moveTo(0, this.cursor.originMode ? top : 0);
+        }
+        break;
+      }
+      case 's':
+        this.saveCursor();
+        break;
+      case 'u':
+        this.restoreCursor();
+        break;
+      case 'h':
+      case 'l':
+        raw.forEach(value => this.setMode(parseInt(value, 10), final === 'h'));
+        break;
+      case 'm':
+        this.cursor.style = this.applySgr(this.cursor.style, raw);
+        break;
+      // Device status reports, tab stops and the like are replies or no-ops when replaying
+    }
+  }
+
+  private applySgr(current: CellStyle, parts: string[]): CellStyle {
+    const style = { ...current };
+
+    for (let i = 0; i < parts.length; i++) {
+      const sub = parts[i].split(':').map(value => parseInt(value, 10));
+      const code = isNaN(sub[0]) ? 0 : sub[0];
+
+      if (code === 38 || code === 48) {
+        let color: Color = null;
+        if (sub.length > 1) {
+          // Colon form: 38:5:n or 38:2:[colorspace:]r:g:b
+          if (sub[1] === 5) color = sub[2];
+          else if (sub[1] === 2) color = this.rgb(sub[sub.length - 3], sub[sub.length - 2], sub[sub.length - 1]);
+        } else if (parts[i + 1] === '5') {
+          color = parseInt(parts[i + 2], 10);
+          i += 2;
+        } else if (parts[i + 1] === '2') {
+          color = this.rgb(parseInt(parts[i + 2], 10), parseInt(parts[i + 3], 10), parseInt(parts[i + 4], 10));
+          i += 4;
+        }
+        if (typeof color === 'number' && (isNaN(color) || color < 0 || color > 255)) color = null;
+        if (code === 38) style.fg = color;
+        else style.bg = color;
+        continue;
+      }
+
+      if (code === 0) Object.assign(style, DEFAULT_STYLE);
+      else if (code === 1) style.bold = true;
+      else if (code === 2) style.dim = true;
+      else if (code === 3) style.italic = true;
+      else if (code === 4) style.underline = sub[1] !== 0;
+      else if (code === 7) style.inverse = true;
+      else if (code === 9) style.strike = true;
+      else if (code === 21) style.underline = true;
+      else if (code === 22) style.bold = style.dim = false;
+      else if (code === 23) style.italic = false;
+      else if (code === 24) style.underline = false;
+      else if (code === 27) style.inverse = false;
+      else if (code === 29) style.strike = false;
+      else if (code >= 30 && code <= 37) style.fg = code - 30;
+      else if (code === 39) style.fg = null;
+      else if (code >= 40 && code <= 47) style.bg = code - 40;
+      else if (code === 49) style.bg = null;
+      else if (code >= 90 && code <= 97) style.fg = code - 90 + 8;
+      else if (code >= 100 && code <= 107) style.bg = code - 100 + 8;
+    }
+
+    return style;
+  }
+
+  private rgb(r: number, g: number, b: number): string | null {
+    if ([r, g, b].some(value => isNaN(value))) return null;
+    const hex = (v: number) => Math.max(0, Math.min(255, v)).toString(16).padStart(2, '0');
+    return `#${hex(r)}${hex(g)}${hex(b)}`;
+  }
+}
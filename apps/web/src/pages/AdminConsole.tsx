@@ -0,0 +1,363 @@
+import { useMemo, useState } from "react";
+import { useLocation } from "wouter";
+import { ArrowLeft, FolderGit2, History, KeyRound, Loader2, Search, ShieldAlert, Users, XCircle } from "lucide-react";
+import { UserRole, type AdminUser } from "@logflix/shared/auth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import GlobalHeader from "@/components/GlobalHeader";
+import RepositoryPickerDialog from "@/components/RepositoryPickerDialog";
+import RoleManagerDialog from "@/components/RoleManagerDialog";
+import { formatDateShort } from "@/lib/date";
+import { useAccessibleRepositories, usePermissions } from "@/hooks/usePermissions";
+import { useAdminUsers } from "@/hooks/useAdminUsers";
+
+// Repository badges shown per row before collapsing into a count
+const MAX_REPO_BADGES = 3;
+
+type PickerState =
+  | { mode: 'user'; user: AdminUser }
+  | { mode: 'add' }
+  | { mode: 'remove' };
+
+const displayName = (user: AdminUser) =>
+  [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || user.id;
+
+/**
+ * Admin console: user roles and repository assignments, one at a time or in bulk
+ */
+export default function AdminConsole() {
+  const [, setLocation] = useLocation();
+  const permissions = usePermissions();
+  const {
+    users,
+    totalCount,
+    roles,
+    assignablePermissions,
+    isLoading,
+    error,
+    setRole,
+    setRepositories,
+    bulkUpdate,
+    saveRole,
+    deleteRole,
+  } = useAdminUsers(permissions.isAdmin);
+  const { data: repoData } = useAccessibleRepositories();
+
+  const [filter, setFilter] = useState('');
+  const [roleFilter, setRoleFilter] = useState<string>('all');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [picker, setPicker] = useState<PickerState | null>(null);
+  const [isRolesOpen, setIsRolesOpen] = useState(false);
+
+  // Users can hold a role that has since been deleted; it's listed under its id so it stays visible
+  const roleOptions = useMemo(() => {
+    const known = roles.map(role => ({ id: role.id, name: role.name }));
+    users.forEach(user => {
+      if (!known.some(role => role.id === user.role)) known.push({ id: user.role, name: `${user.role} (deleted)` });
+    });
+    return known;
+  }, [roles, users]);
+
+  const availableRepositories = useMemo(
+    () => (repoData?.repositories || []).map(repo => repo.full_name),
+    [repoData]
+  );
+
+  const visibleUsers = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return users.filter(user =>
+      (roleFilter === 'all' || user.role === roleFilter) &&
+      (!query
+        || displayName(user).toLowerCase().includes(query)
+        || user.email?.toLowerCase().includes(query)
+        || user.assignedRepositories.some(repo => repo.toLowerCase().includes(query)))
+    );
+  }, [users, filter, roleFilter]);
+
+  const selectedUsers = users.filter(user => selectedIds.includes(user.id));
+  const allVisibleSelected = visibleUsers.length > 0 && visibleUsers.every(user => selectedIds.includes(user.id));
+
+  // Bulk removal offers whatever the selected users have between them
+  const pickerRepositories = picker?.mode === 'remove'
+    ? Array.from(new Set(selectedUsers.flatMap(user => user.assignedRepositories)))
+    : availableRepositories;
+  const pickerInitialSelection = useMemo(
+    () => picker?.mode === 'user' ? picker.user.assignedRepositories : [],
+    [picker]
+  );
+
+  const toggleUser = (userId: string, checked: boolean) => {
+    setSelectedIds(current => checked ? current.concat(userId) : current.filter(id => id !== userId));
+  };
+
+  const toggleAllVisible = (checked: boolean) => {
+    const visibleIds = visibleUsers.map(user => user.id);
+    setSelectedIds(current => checked
+      ? current.concat(visibleIds.filter(id => !current.includes(id)))
+      : current.filter(id => !visibleIds.includes(id)));
+  };
+
+  const confirmPicker = async (selection: string[]) => {
+    if (!picker) return;
+    try {
+      if (picker.mode === 'user') {
+        await setRepositories.mutateAsync({ userId: picker.user.id, repositories: selection });
+      } else if (selection.length > 0) {
+        await bulkUpdate.mutateAsync({
+          userIds: selectedIds,
+          ...(picker.mode === 'add' ? { addRepositories: selection } : { removeRepositories: selection }),
+        });
+      }
+      setPicker(null);
+    } catch {
+      // The mutation reports the error; keep the dialog open so it can be retried
+    }
+  };
+
+  if (permissions.isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!permissions.isAdmin) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-center">
+          <ShieldAlert className="h-12 w-12 text-destructive mx-auto mb-4" />
+          <h2 className="text-lg font-semibold mb-2">Access Denied</h2>
+          <p className="text-muted-foreground max-w-md mb-4">
+            The admin console is only available to admins.
+          </p>
+          <Button onClick={() => setLocation('/')}>
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-screen bg-background text-foreground">
+      <GlobalHeader />
+
+      <div className="bg-card border-b border-border px-6 py-4 flex items-center gap-3">
+        <Button variant="ghost" size="sm" className="gap-2" onClick={() => setLocation('/')}>
+          <ArrowLeft className="h-4 w-4" />
+          Repositories
+        </Button>
+        <h1 className="text-lg font-semibold mr-auto">Admin</h1>
+        <div className="relative w-72">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Search name, email or repository"
+            className="pl-9"
+          />
+        </div>
+        <Select value={roleFilter} onValueChange={setRoleFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All roles</SelectItem>
+            {roleOptions.map(role => (
+              <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsRolesOpen(true)}>
+          <KeyRound className="h-4 w-4" />
+          Roles
+        </Button>
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => setLocation('/admin/audit')}>
+          <History className="h-4 w-4" />
+          Audit log
+        </Button>
+      </div>
+
+      {selectedIds.length > 0 && (
+        <div className="bg-accent/30 border-b border-border px-6 py-2 flex items-center gap-3 text-sm">
+          <span className="font-medium">{selectedIds.length} selected</span>
+          <Select
+            value=""
+            onValueChange={(role) => bulkUpdate.mutate({ userIds: selectedIds, role })}
+            disabled={bulkUpdate.isPending}
+          >
+            <SelectTrigger className="w-36 h-8">
+              <SelectValue placeholder="Set role" />
+            </SelectTrigger>
+            <SelectContent>
+              {roles.map(role => (
+                <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => setPicker({ mode: 'add' })} disabled={bulkUpdate.isPending}>
+            Add repositories
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setPicker({ mode: 'remove' })} disabled={bulkUpdate.isPending}>
+            Remove repositories
+          </Button>
+          {bulkUpdate.isPending && <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setSelectedIds([])}>
+            Clear selection
+          </Button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin p-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-full">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            <span className="ml-3 text-muted-foreground">Loading users...</span>
+          </div>
+        ) : error ? (
+          <div className="text-center text-destructive p-8">
+            <XCircle className="h-12 w-12 mx-auto mb-4" />
+            <p>{error.message}</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-2 mb-3 text-sm text-muted-foreground">
+              <Users className="h-4 w-4" />
+              {visibleUsers.length} of {users.length} users
+              {totalCount > users.length && ` (first ${users.length} of ${totalCount} loaded)`}
+              <span className="ml-auto text-xs">
+                Repository access is also synced from GitHub on sign-in, which can replace manual assignments.
+              </span>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allVisibleSelected}
+                      onCheckedChange={(checked) => toggleAllVisible(checked === true)}
+                      aria-label="Select all"
+                    />
+                  </TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead className="w-40">Role</TableHead>
+                  <TableHead>Repositories</TableHead>
+                  <TableHead className="w-32">Last sign-in</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleUsers.map(user => {
+                  const isSelf = user.id === permissions.userId;
+                  return (
+                    <TableRow key={user.id} data-state={selectedIds.includes(user.id) ? 'selected' : undefined}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.includes(user.id)}
+                          onCheckedChange={(checked) => toggleUser(user.id, checked === true)}
+                          aria-label={`Select ${displayName(user)}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          {user.imageUrl && <img src={user.imageUrl} alt="" className="h-7 w-7 rounded-full" />}
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">
+                              {displayName(user)}
+                              {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                            </p>
+                            {user.email && <p className="text-xs text-muted-foreground truncate">{user.email}</p>}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={user.role}
+                          onValueChange={(role) => setRole.mutate({ userId: user.id, role })}
+                          disabled={isSelf || setRole.isPending}
+                        >
+                          <SelectTrigger className="h-8 w-36" title={isSelf ? "You can't change your own role" : undefined}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {roleOptions.map(role => (
+                              <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap items-center gap-1">
+                          {user.role === UserRole.ADMIN && (
+                            <Badge variant="outline" className="text-xs">All repositories</Badge>
+                          )}
+                          {user.assignedRepositories.slice(0, MAX_REPO_BADGES).map(repo => (
+                            <Badge key={repo} variant="secondary" className="text-xs font-mono">{repo}</Badge>
+                          ))}
+                          {user.assignedRepositories.length > MAX_REPO_BADGES && (
+                            <Badge variant="secondary" className="text-xs">
+                              +{user.assignedRepositories.length - MAX_REPO_BADGES}
+                            </Badge>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => setPicker({ mode: 'user', user })}
+                          >
+                            <FolderGit2 className="h-3 w-3 mr-1" />
+                            Edit
+                          </Button>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {user.lastSignInAt ? formatDateShort(new Date(user.lastSignInAt)) : 'Never'}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {visibleUsers.length === 0 && (
+              <p className="text-center text-sm text-muted-foreground p-8">No users match these filters</p>
+            )}
+          </>
+        )}
+      </div>
+
+      <RepositoryPickerDialog
+        open={!!picker}
+        onOpenChange={(open) => !open && setPicker(null)}
+        title={
+          picker?.mode === 'user' ? `Repositories for ${displayName(picker.user)}`
+            : picker?.mode === 'remove' ? `Remove repositories from ${selectedIds.length} users`
+            : `Add repositories to ${selectedIds.length} users`
+        }
+        description={
+          picker?.mode === 'user'
+            ? 'Members can only see the repositories checked here.'
+            : 'Other assignments of the selected users are kept.'
+        }
+        repositories={pickerRepositories}
+        initialSelection={pickerInitialSelection}
+        confirmLabel={picker?.mode === 'remove' ? 'Remove' : picker?.mode === 'add' ? 'Add' : 'Save'}
+        isSaving={setRepositories.isPending || bulkUpdate.isPending}
+        onConfirm={confirmPicker}
+      />
+
+      <RoleManagerDialog
+        open={isRolesOpen}
+        onOpenChange={setIsRolesOpen}
+        roles={roles}
+        assignablePermissions={assignablePermissions}
+        isSaving={saveRole.isPending}
+        onSave={(role) => saveRole.mutateAsync(role)}
+        onDelete={(roleId) => deleteRole.mutate(roleId)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { useMemo, useState } from "react";
+import { useLocation } from "wouter";
+import { ArrowLeft, Copy, FolderGit2, KeyRound, Loader2, Trash2, XCircle } from "lucide-react";
+import type { Permission } from "@logflix/shared/auth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import GlobalHeader from "@/components/GlobalHeader";
+import RepositoryPickerDialog from "@/components/RepositoryPickerDialog";
+import { PERMISSION_LABELS } from "@/components/RoleManagerDialog";
+import { formatDateShort, formatDateTime } from "@/lib/date";
+import { useAccessibleRepositories, usePermissions } from "@/hooks/usePermissions";
+import { useApiTokens } from "@/hooks/useApiTokens";
+import { useToast } from "@/hooks/use-toast";
+
+// Select values for the token lifetime; "never" maps to no expiry
+const EXPIRY_OPTIONS: Record<string, string> = {
+  '30': '30 days',
+  '90': '90 days',
+  '365': '1 year',
+  never: 'No expiry',
+};
+
+/**
+ * Personal API tokens: create scoped tokens for scripts, see when they were last used, revoke them
+ */
+export default function ApiTokens() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const permissions = usePermissions();
+  const { tokens, scopes, isLoading, error, create, revoke } = useApiTokens();
+  const { data: repoData } = useAccessibleRepositories();
+
+  const [name, setName] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<Permission[]>([]);
+  const [repositories, setRepositories] = useState<string[]>([]);
+  const [expiry, setExpiry] = useState('90');
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  // Shown once after creation; the server never returns the secret again
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const availableRepositories = useMemo(
+    () => (repoData?.repositories || []).map(repo => repo.full_name),
+    [repoData]
+  );
+
+  // Tokens can't carry a permission the user's role doesn't have
+  const grantableScopes = scopes.filter(scope => permissions.hasPermission(scope));
+
+  const toggleScope = (scope: Permission, checked: boolean) => {
+    setSelectedScopes(current => checked ? current.concat(scope) : current.filter(s => s !== scope));
+  };
+
+  const submit = async () => {
+    try {
+      const result = await create.mutateAsync({
+        name: name.trim(),
+        scopes: selectedScopes,
+        repositories,
+        expiresInDays: expiry === 'never' ? null : parseInt(expiry, 10),
+      });
+      setCreatedToken(result.token);
+      setName('');
+      setSelectedScopes([]);
+      setRepositories([]);
+    } catch {
+      // The mutation reports the error; keep the form so it can be retried
+    }
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      toast({ title: "Token copied" });
+    } catch {
+      toast({ title: "Couldn't copy token", description: "Select the token and copy it by hand", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-background text-foreground">
+      <GlobalHeader />
+
+      <div className="bg-card border-b border-border px-6 py-4 flex items-center gap-3">
+        <Button variant="ghost" size="sm" className="gap-2" onClick={() => setLocation('/')}>
+          <ArrowLeft className="h-4 w-4" />
+          Repositories
+        </Button>
+        <h1 className="text-lg font-semibold mr-auto">API Tokens</h1>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin p-6 space-y-6">
+        {createdToken && (
+          <Card className="border-primary">
+            <CardHeader>
+              <CardTitle className="text-base">Copy your new token now</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                It won't be shown again. Send it as a bearer token:
+              </p>
+              <div className="flex items-center gap-2">
+                <Input readOnly value={createdToken} className="font-mono" onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="sm" onClick={copyToken}>
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy
+                </Button>
+              </div>
+              <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto">
+                {`curl -H "Authorization: Bearer ${createdToken.slice(0, 10)}..." \\\n  "${window.location.origin}/api/github/agent-test-results/<runId>?owner=<owner>&repo=<repo>"`}
+              </pre>
+              <Button variant="ghost" size="sm" onClick={() => setCreatedToken(null)}>Done</Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              New token
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="flex-1 min-w-64">
+                <label className="text-sm text-muted-foreground block mb-1">Name</label>
+                <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Nightly results notebook" />
+              </div>
+              <div>
+                <label className="text-sm text-muted-foreground block mb-1">Expires</label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(EXPIRY_OPTIONS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button variant="outline" onClick={() => setIsPickerOpen(true)}>
+                <FolderGit2 className="h-4 w-4 mr-1" />
+                {repositories.length > 0 ? `${repositories.length} repositories` : 'All my repositories'}
+              </Button>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground mb-2">
+                Every token can read runs, results and pull requests in its repositories. It can also:
+              </p>
+              <div className="grid grid-cols-2 gap-2 max-w-xl">
+                {grantableScopes.map(scope => (
+                  <label key={scope} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selectedScopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    />
+                    {PERMISSION_LABELS[scope] ?? scope}
+                    <code className="text-xs text-muted-foreground">{scope}</code>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <Button onClick={submit} disabled={!name.trim() || create.isPending}>
+              {create.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Create token
+            </Button>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            <span className="ml-3 text-muted-foreground">Loading tokens...</span>
+          </div>
+        ) : error ? (
+          <div className="text-center text-destructive p-8">
+            <XCircle className="h-12 w-12 mx-auto mb-4" />
+            <p>{error.message}</p>
+          </div>
+        ) : tokens.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground p-8">You don't have any API tokens yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Scopes</TableHead>
+                <TableHead>Repositories</TableHead>
+                <TableHead className="w-32">Created</TableHead>
+                <TableHead className="w-44">Last used</TableHead>
+                <TableHead className="w-32">Expires</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tokens.map(token => {
+                const isExpired = !!token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now();
+                return (
+                  <TableRow key={token.id}>
+                    <TableCell>
+                      <p className="font-medium">{token.name}</p>
+                      <code className="text-xs text-muted-foreground">{token.prefix}…</code>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {token.scopes.length === 0 && <span className="text-xs text-muted-foreground">Read only</span>}
+                        {token.scopes.map(scope => (
+                          <Badge key={scope} variant="secondary" className="text-xs">{PERMISSION_LABELS[scope] ?? scope}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs font-mono">
+                      {token.repositories.length === 0
+                        ? <span className="font-sans text-muted-foreground">All</span>
+                        : token.repositories.join(', ')}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{formatDateShort(token.createdAt)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {token.lastUsedAt ? formatDateTime(token.lastUsedAt) : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {isExpired
+                        ? <Badge variant="destructive" className="text-xs">Expired</Badge>
+                        : <span className="text-muted-foreground">{token.expiresAt ? formatDateShort(token.expiresAt) : 'Never'}</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-muted-foreground hover:text-destructive"
+                        onClick={() => revoke.mutate(token.id)}
+                        disabled={revoke.isPending}
+                        title="Revoke token"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <RepositoryPickerDialog
+        open={isPickerOpen}
+        onOpenChange={setIsPickerOpen}
+        title="Limit token to repositories"
+        description="Leave everything unchecked to allow every repository you can access."
+        repositories={availableRepositories}
+        initialSelection={repositories}
+        confirmLabel="Done"
+        isSaving={false}
+        onConfirm={(selection) => {
+          setRepositories(selection);
+          setIsPickerOpen(false);
+        }}
+      />
+    </div>
+  );
+}
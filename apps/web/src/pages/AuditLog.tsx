@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { ArrowLeft, ChevronLeft, ChevronRight, Download, Loader2, ShieldAlert, XCircle } from "lucide-react";
+import { AUDIT_ACTIONS, type AuditAction } from "@logflix/shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import GlobalHeader from "@/components/GlobalHeader";
+import { formatDateTime } from "@/lib/date";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useAdminUsers } from "@/hooks/useAdminUsers";
+import { auditLogParams, useAuditLog, type AuditLogFilterValues } from "@/hooks/useAuditLog";
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'user.role.update': 'Role changed',
+  'user.repositories.update': 'Repositories changed',
+  'user.bulk-update': 'Bulk user edit',
+  'role.save': 'Role saved',
+  'role.delete': 'Role deleted',
+  'artifact.download': 'Artifact downloaded',
+  'logs.view': 'Logs viewed',
+  'cast.view': 'Session viewed',
+  'workflow.rerun': 'Workflow re-run',
+  'audit.export': 'Audit log exported',
+  'token.create': 'API token created',
+  'token.revoke': 'API token revoked',
+};
+
+const ANY = 'any';
+
+/**
+ * Admin view of the audit log: who changed access and who read logs, recordings and artifacts
+ */
+export default function AuditLog() {
+  const [, setLocation] = useLocation();
+  const permissions = usePermissions();
+  const { users } = useAdminUsers(permissions.isAdmin);
+
+  const [filters, setFilters] = useState<AuditLogFilterValues>({});
+  // Cursors of the pages before the current one, for going back to newer entries
+  const [cursors, setCursors] = useState<Array<number | undefined>>([]);
+  const [before, setBefore] = useState<number | undefined>(undefined);
+
+  const auditQuery = useAuditLog(filters, before, permissions.isAdmin);
+  const entries = auditQuery.data?.entries || [];
+  const nextBefore = auditQuery.data?.nextBefore ?? null;
+
+  const updateFilters = (update: Partial<AuditLogFilterValues>) => {
+    setFilters(current => ({ ...current, ...update }));
+    setCursors([]);
+    setBefore(undefined);
+  };
+
+  const showOlder = () => {
+    if (nextBefore === null) return;
+    setCursors(current => current.concat([before]));
+    setBefore(nextBefore);
+  };
+
+  const showNewer = () => {
+    setBefore(cursors[cursors.length - 1]);
+    setCursors(current => current.slice(0, -1));
+  };
+
+  const exportUrl = (format: 'csv' | 'json') => `/api/admin/audit/export?${auditLogParams(filters, { format })}`;
+
+  if (permissions.isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!permissions.isAdmin) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-center">
+          <ShieldAlert className="h-12 w-12 text-destructive mx-auto mb-4" />
+          <h2 className="text-lg font-semibold mb-2">Access Denied</h2>
+          <p className="text-muted-foreground max-w-md mb-4">
+            The audit log is only available to admins.
+          </p>
+          <Button onClick={() => setLocation('/')}>
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-screen bg-background text-foreground">
+      <GlobalHeader />
+
+      <div className="bg-card border-b border-border px-6 py-4 flex flex-wrap items-center gap-3">
+        <Button variant="ghost" size="sm" className="gap-2" onClick={() => setLocation('/admin')}>
+          <ArrowLeft className="h-4 w-4" />
+          Admin
+        </Button>
+        <h1 className="text-lg font-semibold mr-auto">Audit Log</h1>
+        <Select value={filters.actor || ANY} onValueChange={(actor) => updateFilters({ actor: actor === ANY ? undefined : actor })}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Anyone</SelectItem>
+            {users.map(user => (
+              <SelectItem key={user.id} value={user.id}>
+                {[user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || user.id}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.action || ANY} onValueChange={(action) => updateFilters({ action: action === ANY ? undefined : action })}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All actions</SelectItem>
+            {AUDIT_ACTIONS.map(action => (
+              <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={filters.repository ?? ''}
+          onChange={(e) => updateFilters({ repository: e.target.value })}
+          placeholder="owner/repo"
+          className="w-44 font-mono"
+        />
+        <Input
+          type="date"
+          value={filters.since ?? ''}
+          onChange={(e) => updateFilters({ since: e.target.value || undefined })}
+          className="w-40"
+          aria-label="From date"
+        />
+        <Input
+          type="date"
+          value={filters.until ?? ''}
+          onChange={(e) => updateFilters({ until: e.target.value || undefined })}
+          className="w-40"
+          aria-label="To date"
+        />
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-2">
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem asChild>
+              <a href={exportUrl('csv')} download>CSV</a>
+            </DropdownMenuItem>
+            <DropdownMenuItem asChild>
+              <a href={exportUrl('json')} download>JSON</a>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin p-6">
+        {auditQuery.isLoading ? (
+          <div className="flex items-center justify-center h-full">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            <span className="ml-3 text-muted-foreground">Loading audit log...</span>
+          </div>
+        ) : auditQuery.error ? (
+          <div className="text-center text-destructive p-8">
+            <XCircle className="h-12 w-12 mx-auto mb-4" />
+            <p>{(auditQuery.error as Error).message}</p>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center text-muted-foreground p-8">
+            No audit entries match these filters.
+          </div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-48">Time</TableHead>
+                  <TableHead className="w-48">Actor</TableHead>
+                  <TableHead className="w-44">Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead className="w-32">Request</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                      {formatDateTime(entry.createdAt)}
+                    </TableCell>
+                    <TableCell className="text-sm" title={entry.actorId ?? undefined}>{entry.actorName}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="text-xs">{AUDIT_ACTION_LABELS[entry.action] ?? entry.action}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {entry.repository && <span className="text-muted-foreground font-mono mr-2">{entry.repository}</span>}
+                      <span className="font-mono break-all">{entry.target}</span>
+                      {entry.details && (
+                        <p className="text-xs text-muted-foreground font-mono break-all mt-1">{JSON.stringify(entry.details)}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground font-mono">{entry.requestId}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex items-center justify-end gap-2 mt-3">
+              <Button variant="outline" size="sm" onClick={showNewer} disabled={cursors.length === 0}>
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Newer
+              </Button>
+              <Button variant="outline" size="sm" onClick={showOlder} disabled={nextBefore === null}>
+                Older
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
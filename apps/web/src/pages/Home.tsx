@@ -1,7 +1,6 @@
-import { useState, useEffect } from "react";
+import { useEffect, useMemo, useCallback } from "react";
 import { useSearch, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { useOrganization } from "@clerk/clerk-react";
 import { ArrowLeft, Loader2, ShieldAlert } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import NavigationSidebar from "@/components/NavigationSidebar";
@@ -9,52 +8,33 @@ import GitHubWorkflowContent from "@/components/GitHubWorkflowContent";
 import GlobalHeader from "@/components/GlobalHeader";
 import { GitHubPRSelection } from "@logflix/shared/schema";
 import { CACHE_TIME } from "@/lib/constants";
-import { fetchAPI } from "@/lib/api";
+import { useRepository } from "@/hooks/useRepository";
+import { parseRunLink, runLinkPath, type RunLink, type RunLinkParams } from "@/lib/runLink";
 
 interface HomeProps {
   repoName: string;
+  /** Route segments of /repo/:repo/pr/:pr/run/:runId/:tab */
+  linkParams?: RunLinkParams;
 }
 
-interface Repository {
-  name: string;
-  workflow: string;
-  description?: string;
-}
-
-interface UserRepositoriesResponse {
-  hasAllAccess: boolean;
-  organization: string;
-  repositories: Repository[];
-}
-
-export default function Home({ repoName }: HomeProps) {
+export default function Home({ repoName, linkParams = {} }: HomeProps) {
   const [, setLocation] = useLocation();
   const searchString = useSearch();
 
-  const [selectedPR, setSelectedPR] = useState<GitHubPRSelection | null>(null);
-
-  // Get current active organization from Clerk - this triggers refetch when org changes
-  const { organization: clerkOrg } = useOrganization();
+  // The URL is the source of truth for what's open, so links can be shared and restored
+  const link = useMemo(
+    () => parseRunLink(linkParams, searchString),
+    [linkParams.pr, linkParams.runId, linkParams.tab, searchString]
+  );
 
-  // Fetch accessible repositories to validate and get organization
-  // Query key includes organization ID to refetch when switching organizations
-  const { data: repoData, isLoading, error } = useQuery<UserRepositoriesResponse>({
-    queryKey: ['/api/user/repositories', clerkOrg?.id],
-    queryFn: async () => {
-      const response = await fetch('/api/user/repositories');
-      if (!response.ok) {
-        throw new Error(`Failed to fetch repositories: ${response.statusText}`);
-      }
-      return response.json();
-    },
-    enabled: !!clerkOrg,
-    staleTime: CACHE_TIME.STALE_MEDIUM,
-    gcTime: CACHE_TIME.STALE_LONG,
-  });
+  // Derived in render (not an effect) so the PR and the rest of the link change together
+  const selectedPR = useMemo<GitHubPRSelection | null>(
+    () => link ? { type: 'pr', prNumber: link.pr, prTitle: '' } : null,
+    [link?.pr]
+  );
 
-  // Validate repository access
-  const repo = repoData?.repositories.find(r => r.name === repoName);
-  const organization = repoData?.organization || '';
+  // Fetch accessible repositories to validate access and get the organization
+  const { repoData, repo, organization, isLoading, error } = useRepository(repoName);
 
   // Fetch PR stats for the header
   const { data: prStats } = useQuery<{ open: number; closed: number; merged: number; draft: number }>({
@@ -69,23 +49,12 @@ export default function Home({ repoName }: HomeProps) {
     gcTime: CACHE_TIME.GC_LONG,
   });
 
-  // Initialize from URL parameters - MUST be before any conditional returns
+  // Older links carried the PR as ?pr= - move them onto the PR route - MUST be before any conditional returns
   useEffect(() => {
-    const params = new URLSearchParams(searchString);
-    const prNumber = params.get('pr');
-    const prTitle = params.get('title');
-
-    if (prNumber) {
-      const parsedPRNumber = Number(prNumber);
-      if (!isNaN(parsedPRNumber) && parsedPRNumber > 0) {
-        setSelectedPR({
-          type: 'pr',
-          prNumber: parsedPRNumber,
-          prTitle: prTitle || ''
-        });
-      }
+    if (link && !linkParams.pr) {
+      setLocation(runLinkPath(repoName, { pr: link.pr }), { replace: true });
     }
-  }, [searchString]);
+  }, [link, linkParams.pr, repoName, setLocation]);
 
   // Redirect if repository not found or no access - MUST be before any conditional returns
   useEffect(() => {
@@ -94,20 +63,16 @@ export default function Home({ repoName }: HomeProps) {
     }
   }, [repo, repoData, setLocation]);
 
-  // Handle PR selection and update URL
+  // Handle PR selection by navigating to its route
   const handleSelectPR = (selection: GitHubPRSelection) => {
-    setSelectedPR(selection);
-    
-    // Update URL with query parameters
-    const params = new URLSearchParams();
-    params.set('pr', selection.prNumber.toString());
-    if (selection.prTitle) {
-      params.set('title', selection.prTitle);
-    }
-    
-    setLocation(`/repo/${repoName}?${params.toString()}`);
+    setLocation(runLinkPath(repoName, { pr: selection.prNumber }));
   };
 
+  // Selection changes inside the PR view replace the URL rather than adding history entries
+  const handleLinkChange = useCallback((next: RunLink) => {
+    setLocation(runLinkPath(repoName, next), { replace: true });
+  }, [repoName, setLocation]);
+
   // Compute page content conditionally to avoid early returns
   let pageContent;
 
@@ -170,12 +135,17 @@ export default function Home({ repoName }: HomeProps) {
             organization={organization}
             workflow={repo.workflow}
             onBack={() => setLocation('/')}
+            onOpenSearch={() => setLocation(`/repo/${repoName}/search`)}
+            onOpenAnalytics={() => setLocation(`/repo/${repoName}/analytics`)}
+            onOpenTriage={() => setLocation(`/repo/${repoName}/triage`)}
           />
           <GitHubWorkflowContent
             selectedPR={selectedPR}
             organization={organization}
             repoName={repoName}
             workflow={repo.workflow}
+            link={link}
+            onLinkChange={handleLinkChange}
           />
         </div>
       </div>
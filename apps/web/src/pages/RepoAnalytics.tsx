@@ -0,0 +1,338 @@
+import { useState, useEffect, useMemo } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, ShieldAlert, Trophy, XCircle } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import GlobalHeader from "@/components/GlobalHeader";
+import { AgentAnalyticsResponse } from "@logflix/shared/schema";
+import { CACHE_TIME } from "@/lib/constants";
+import { createAPIParams, fetchAPI } from "@/lib/api";
+import { formatDateShort } from "@/lib/date";
+import { useRepository } from "@/hooks/useRepository";
+
+interface RepoAnalyticsProps {
+  repoName: string;
+}
+
+// Agents beyond this many (by pass rate) are left out of the comparison charts to keep them legible
+const MAX_CHART_SERIES = 8;
+
+const TIME_RANGES: Record<string, { label: string; days: number | null }> = {
+  "30d": { label: "Last 30 days", days: 30 },
+  "90d": { label: "Last 90 days", days: 90 },
+  "180d": { label: "Last 180 days", days: 180 },
+  all: { label: "All time", days: null },
+};
+
+const DIFFICULTY_ORDER = ['easy', 'medium', 'hard', 'unspecified'];
+
+const toPercent = (passed: number, total: number) => total > 0 ? Math.round((passed / total) * 1000) / 10 : null;
+
+/**
+ * Repository analytics: agent pass-rate leaderboard, trend over time and task breakdowns
+ */
+export default function RepoAnalytics({ repoName }: RepoAnalyticsProps) {
+  const [, setLocation] = useLocation();
+  const [range, setRange] = useState("90d");
+  const [bucket, setBucket] = useState<'day' | 'week' | 'month'>("week");
+
+  const { repoData, repo, organization, isLoading, error } = useRepository(repoName);
+
+  const analyticsQuery = useQuery<AgentAnalyticsResponse>({
+    queryKey: ["/api/github/analytics/agents", organization, repoName, range, bucket],
+    queryFn: () => {
+      const days = TIME_RANGES[range].days;
+      const params = createAPIParams({ owner: organization, repo: repoName }, {
+        bucket,
+        ...(days !== null && { since: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() }),
+      });
+      return fetchAPI(`/api/github/analytics/agents?${params}`);
+    },
+    enabled: !!repo,
+    staleTime: CACHE_TIME.STALE_MEDIUM,
+    gcTime: CACHE_TIME.GC_MEDIUM,
+  });
+
+  useEffect(() => {
+    if (!repo && repoData) {
+      setLocation('/');
+    }
+  }, [repo, repoData, setLocation]);
+
+  const analytics = analyticsQuery.data;
+
+  // Chart series ids must be CSS-safe, so agents are keyed s0..sN and labelled via the config
+  const { chartConfig, seriesIds } = useMemo(() => {
+    const config: ChartConfig = {};
+    const ids = new Map<string, string>();
+    (analytics?.leaderboard || []).slice(0, MAX_CHART_SERIES).forEach((entry, index) => {
+      const id = `s${index}`;
+      ids.set(entry.agentKey, id);
+      config[id] = { label: entry.agentKey, color: `var(--chart-${index + 1})` };
+    });
+    return { chartConfig: config, seriesIds: ids };
+  }, [analytics]);
+
+  const timelineData = useMemo(() => {
+    const rows = new Map<string, Record<string, string | number | null>>();
+    analytics?.timeline.forEach(point => {
+      const id = seriesIds.get(point.agentKey);
+      if (!id) return;
+      const row = rows.get(point.period) || { period: point.period };
+      row[id] = toPercent(point.passed, point.total);
+      rows.set(point.period, row);
+    });
+    return Array.from(rows.values()).sort((a, b) => String(a.period).localeCompare(String(b.period)));
+  }, [analytics, seriesIds]);
+
+  const difficultyData = useMemo(() => {
+    const rows = new Map<string, Record<string, string | number | null>>();
+    analytics?.byDifficulty.forEach(point => {
+      const id = seriesIds.get(point.agentKey);
+      if (!id) return;
+      const row = rows.get(point.difficulty) || { difficulty: point.difficulty };
+      row[id] = toPercent(point.passed, point.total);
+      rows.set(point.difficulty, row);
+    });
+    const rank = (difficulty: string) => {
+      const index = DIFFICULTY_ORDER.indexOf(difficulty);
+      return index === -1 ? DIFFICULTY_ORDER.length : index;
+    };
+    return Array.from(rows.values()).sort((a, b) => rank(String(a.difficulty)) - rank(String(b.difficulty)));
+  }, [analytics, seriesIds]);
+
+  // Category x agent grid of pass counts, categories with the most results first
+  const categoryGrid = useMemo(() => {
+    const categories = new Map<string, { total: number; cells: Map<string, { passed: number; total: number }> }>();
+    analytics?.byCategory.forEach(point => {
+      if (!seriesIds.has(point.agentKey)) return;
+      const category = categories.get(point.category) || { total: 0, cells: new Map() };
+      category.total += point.total;
+      category.cells.set(point.agentKey, { passed: point.passed, total: point.total });
+      categories.set(point.category, category);
+    });
+    return Array.from(categories.entries()).sort((a, b) => b[1].total - a[1].total);
+  }, [analytics, seriesIds]);
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading repository...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !repoData || !repo) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-center">
+          <ShieldAlert className="h-12 w-12 text-destructive mx-auto mb-4" />
+          <h2 className="text-lg font-semibold mb-2">Access Denied</h2>
+          <p className="text-muted-foreground max-w-md mb-4">
+            You don't have access to the repository '{repoName}'.
+          </p>
+          <Button onClick={() => setLocation('/')}>
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const chartedAgents = analytics?.leaderboard.slice(0, MAX_CHART_SERIES) || [];
+
+  return (
+    <div className="flex flex-col h-screen bg-background text-foreground">
+      <GlobalHeader organization={organization} repository={repoName} workflow={repo.workflow} />
+
+      <div className="bg-card border-b border-border px-6 py-4 flex items-center gap-3">
+        <Button variant="ghost" size="sm" className="gap-2" onClick={() => setLocation(`/repo/${repoName}`)}>
+          <ArrowLeft className="h-4 w-4" />
+          Pull Requests
+        </Button>
+        <h1 className="text-lg font-semibold mr-auto">Agent Analytics</h1>
+        <Select value={range} onValueChange={setRange}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(TIME_RANGES).map(([value, option]) => (
+              <SelectItem key={value} value={value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={bucket} onValueChange={(value) => setBucket(value as typeof bucket)}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="day">Daily</SelectItem>
+            <SelectItem value="week">Weekly</SelectItem>
+            <SelectItem value="month">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin p-6">
+        {analyticsQuery.isLoading ? (
+          <div className="flex items-center justify-center h-full">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            <span className="ml-3 text-muted-foreground">Aggregating results...</span>
+          </div>
+        ) : analyticsQuery.error ? (
+          <div className="text-center text-destructive p-8">
+            <XCircle className="h-12 w-12 mx-auto mb-4" />
+            <p>{(analyticsQuery.error as Error).message}</p>
+          </div>
+        ) : !analytics || analytics.leaderboard.length === 0 ? (
+          <div className="text-center text-muted-foreground p-8">
+            No agent results recorded for this period. Results are collected as runs are viewed or indexed from the search page.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Trophy className="h-4 w-4" />
+                  Leaderboard
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-muted-foreground text-left">
+                      <th className="py-2 w-8">#</th>
+                      <th className="py-2">Agent</th>
+                      <th className="py-2 w-1/3">Pass rate</th>
+                      <th className="py-2 text-right">Passed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analytics.leaderboard.map((entry, index) => (
+                      <tr key={entry.agentKey} className="border-t border-border">
+                        <td className="py-2 text-muted-foreground">{index + 1}</td>
+                        <td className="py-2 font-medium">{entry.agentKey}</td>
+                        <td className="py-2">
+                          <div className="flex items-center gap-2">
+                            <div className="flex-1 h-2 rounded bg-muted overflow-hidden">
+                              <div className="h-full bg-success" style={{ width: `${entry.passRate * 100}%` }} />
+                            </div>
+                            <span className="w-12 text-right">{(entry.passRate * 100).toFixed(0)}%</span>
+                          </div>
+                        </td>
+                        <td className="py-2 text-right text-muted-foreground">{entry.passed}/{entry.total}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Pass rate over time</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-[320px] w-full aspect-auto">
+                  <LineChart data={timelineData} margin={{ left: 0, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="period" tickLine={false} axisLine={false} tickFormatter={(value) => formatDateShort(value)} />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} unit="%" width={44} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDateShort(String(value))} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {chartedAgents.map(entry => {
+                      const id = seriesIds.get(entry.agentKey)!;
+                      return <Line key={id} dataKey={id} type="monotone" stroke={`var(--color-${id})`} strokeWidth={2} dot={false} connectNulls />;
+                    })}
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Pass rate by task difficulty</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {difficultyData.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No task definitions indexed for these runs yet</p>
+                ) : (
+                  <ChartContainer config={chartConfig} className="h-[320px] w-full aspect-auto">
+                    <BarChart data={difficultyData} margin={{ left: 0, right: 12 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="difficulty" tickLine={false} axisLine={false} />
+                      <YAxis domain={[0, 100]} tickLine={false} axisLine={false} unit="%" width={44} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      {chartedAgents.map(entry => {
+                        const id = seriesIds.get(entry.agentKey)!;
+                        return <Bar key={id} dataKey={id} fill={`var(--color-${id})`} radius={2} />;
+                      })}
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Pass rate by task category</CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                {categoryGrid.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No task definitions indexed for these runs yet</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-muted-foreground text-left">
+                        <th className="py-2 pr-4">Category</th>
+                        {chartedAgents.map(entry => (
+                          <th key={entry.agentKey} className="py-2 px-2 text-center font-normal whitespace-nowrap">{entry.agentKey}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {categoryGrid.map(([category, { cells }]) => (
+                        <tr key={category} className="border-t border-border">
+                          <td className="py-2 pr-4 font-medium whitespace-nowrap">{category}</td>
+                          {chartedAgents.map(entry => {
+                            const cell = cells.get(entry.agentKey);
+                            const percent = cell ? toPercent(cell.passed, cell.total) : null;
+                            return (
+                              <td
+                                key={entry.agentKey}
+                                className="py-2 px-2 text-center"
+                                title={cell ? `${cell.passed}/${cell.total} passed` : 'No results'}
+                                style={percent !== null ? { backgroundColor: `hsl(${percent * 1.2}, 60%, 30%)` } : undefined}
+                              >
+                                {percent !== null ? `${percent.toFixed(0)}%` : '—'}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+import { useState, useEffect } from "react";
+import { useSearch, useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, ShieldAlert, Search, RefreshCw, FileText, XCircle, ExternalLink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import GlobalHeader from "@/components/GlobalHeader";
+import { RepoSearchResponse } from "@logflix/shared/schema";
+import { CACHE_TIME } from "@/lib/constants";
+import { createAPIParams, fetchAPI } from "@/lib/api";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/date";
+import { useToast } from "@/hooks/use-toast";
+import { useRepository } from "@/hooks/useRepository";
+import { usePermissions } from "@/hooks/usePermissions";
+import { runLinkPath, type RunLink } from "@/lib/runLink";
+
+interface RepoSearchProps {
+  repoName: string;
+}
+
+interface SearchFacets {
+  tags: Array<{ value: string; count: number }>;
+  categories: Array<{ value: string; count: number }>;
+}
+
+// "any" is the Select placeholder value for an unset filter
+const ANY = "any";
+
+const TIME_RANGES: Record<string, { label: string; days: number | null }> = {
+  any: { label: "Any time", days: null },
+  "7d": { label: "Last 7 days", days: 7 },
+  "30d": { label: "Last 30 days", days: 30 },
+  "90d": { label: "Last 90 days", days: 90 },
+};
+
+/**
+ * Renders a server snippet, highlighting the <<< >>> match markers
+ */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<<<|>>>/);
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-500/40 text-foreground rounded-sm">{part}</mark>
+          : <span key={index}>{part}</span>
+      )}
+    </>
+  );
+}
+
+/**
+ * Repo-wide search over indexed task definitions and failure logs
+ * Filters live in the URL so searches can be shared
+ */
+export default function RepoSearch({ repoName }: RepoSearchProps) {
+  const [, setLocation] = useLocation();
+  const searchString = useSearch();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const urlParams = new URLSearchParams(searchString);
+  const submitted = {
+    q: urlParams.get("q") || "",
+    tag: urlParams.get("tag") || "",
+    category: urlParams.get("category") || "",
+    range: urlParams.get("range") && TIME_RANGES[urlParams.get("range")!] ? urlParams.get("range")! : ANY,
+  };
+  const [input, setInput] = useState(submitted.q);
+
+  // Keep the input in sync when navigating between searches
+  useEffect(() => {
+    setInput(submitted.q);
+  }, [submitted.q]);
+
+  const { repoData, repo, organization, isLoading, error } = useRepository(repoName);
+  const permissions = usePermissions();
+
+  const { data: facets } = useQuery<SearchFacets>({
+    queryKey: ["/api/github/search/repo/facets", organization, repoName],
+    queryFn: () => fetchAPI(`/api/github/search/repo/facets?${createAPIParams({ owner: organization, repo: repoName })}`),
+    enabled: !!repo,
+    staleTime: CACHE_TIME.STALE_LONG,
+    gcTime: CACHE_TIME.GC_LONG,
+  });
+
+  const hasCriteria = !!(submitted.q || submitted.tag || submitted.category);
+
+  const searchQuery = useQuery<RepoSearchResponse>({
+    queryKey: ["/api/github/search/repo", organization, repoName, submitted.q, submitted.tag, submitted.category, submitted.range],
+    queryFn: () => {
+      const days = TIME_RANGES[submitted.range].days;
+      const params = createAPIParams({ owner: organization, repo: repoName }, {
+        ...(submitted.q && { q: submitted.q }),
+        ...(submitted.tag && { tag: submitted.tag }),
+        ...(submitted.category && { category: submitted.category }),
+        ...(days !== null && { since: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() }),
+      });
+      return fetchAPI(`/api/github/search/repo?${params}`);
+    },
+    enabled: !!repo && hasCriteria,
+    staleTime: CACHE_TIME.STALE_MEDIUM,
+    gcTime: CACHE_TIME.GC_MEDIUM,
+  });
+
+  const reindex = useMutation({
+    // The server indexes a page of PRs per request and hands back a cursor for the next one
+    mutationFn: async () => {
+      const totals = { pullRequests: 0, tasks: 0, runs: 0 };
+      let cursor: string | null = null;
+      do {
+        const params = createAPIParams(
+          { owner: organization, repo: repoName, workflow: repo?.workflow },
+          cursor ? { cursor } : undefined
+        );
+        const response = await apiRequest("POST", `/api/github/search/repo/reindex?${params}`);
+        const page = await response.json() as { pullRequests: number; tasks: number; runs: number; nextCursor: string | null };
+        totals.pullRequests += page.pullRequests;
+        totals.tasks += page.tasks;
+        totals.runs += page.runs;
+        cursor = page.nextCursor;
+      } while (cursor);
+      return totals;
+    },
+    onSuccess: (result) => {
+      toast({ title: "Search index updated", description: `Indexed ${result.tasks} tasks and ${result.runs} runs from ${result.pullRequests} PRs` });
+      queryClient.invalidateQueries({ queryKey: ["/api/github/search/repo"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/github/search/repo/facets"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Indexing failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  useEffect(() => {
+    if (!repo && repoData) {
+      setLocation('/');
+    }
+  }, [repo, repoData, setLocation]);
+
+  const updateSearch = (changes: Partial<typeof submitted>) => {
+    const next = { ...submitted, ...changes };
+    const params = new URLSearchParams();
+    if (next.q) params.set("q", next.q);
+    if (next.tag) params.set("tag", next.tag);
+    if (next.category) params.set("category", next.category);
+    if (next.range !== ANY) params.set("range", next.range);
+    setLocation(`/repo/${repoName}/search${params.toString() ? `?${params}` : ''}`);
+  };
+
+  const openPR = (prNumber: number, link: Omit<RunLink, 'pr'> = {}) =>
+    setLocation(runLinkPath(repoName, { ...link, pr: prNumber }));
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading repository...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !repoData || !repo) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-center">
+          <ShieldAlert className="h-12 w-12 text-destructive mx-auto mb-4" />
+          <h2 className="text-lg font-semibold mb-2">Access Denied</h2>
+          <p className="text-muted-foreground max-w-md mb-4">
+            You don't have access to the repository '{repoName}'.
+          </p>
+          <Button onClick={() => setLocation('/')}>
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const results = searchQuery.data;
+
+  return (
+    <div className="flex flex-col h-screen bg-background text-foreground">
+      <GlobalHeader organization={organization} repository={repoName} workflow={repo.workflow} />
+
+      <div className="bg-card border-b border-border px-6 py-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" className="gap-2" onClick={() => setLocation(`/repo/${repoName}`)}>
+            <ArrowLeft className="h-4 w-4" />
+            Pull Requests
+          </Button>
+          <form
+            className="flex flex-1 items-center gap-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              updateSearch({ q: input.trim() });
+            }}
+          >
+            <div className="relative flex-1 max-w-2xl">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder='Search task instructions and failure logs, e.g. ModuleNotFoundError or "connection refused"'
+                className="pl-9"
+                data-testid="input-repo-search"
+              />
+            </div>
+            <Button type="submit" size="sm">Search</Button>
+          </form>
+          {permissions.isAdmin && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => reindex.mutate()}
+              disabled={reindex.isPending}
+              title="Index task definitions and failure logs from recently updated PRs"
+            >
+              <RefreshCw className={`h-4 w-4 mr-1 ${reindex.isPending ? 'animate-spin' : ''}`} />
+              {reindex.isPending ? 'Indexing...' : 'Index recent PRs'}
+            </Button>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Select value={submitted.tag || ANY} onValueChange={(value) => updateSearch({ tag: value === ANY ? '' : value })}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Tag" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any tag</SelectItem>
+              {facets?.tags.map(tag => (
+                <SelectItem key={tag.value} value={tag.value}>{tag.value} ({tag.count})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={submitted.category || ANY} onValueChange={(value) => updateSearch({ category: value === ANY ? '' : value })}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any category</SelectItem>
+              {facets?.categories.map(category => (
+                <SelectItem key={category.value} value={category.value}>{category.value} ({category.count})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={submitted.range} onValueChange={(value) => updateSearch({ range: value })}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TIME_RANGES).map(([value, range]) => (
+                <SelectItem key={value} value={value}>{range.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {submitted.range !== ANY && (
+            <span className="text-xs text-muted-foreground">Time range applies to failures</span>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin p-6">
+        {!hasCriteria ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="text-center max-w-md">
+              <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4 opacity-50" />
+              <p className="text-muted-foreground">
+                Search task instructions, tags and categories across every indexed PR, and the output of failed agent runs.
+              </p>
+            </div>
+          </div>
+        ) : searchQuery.isLoading ? (
+          <div className="flex items-center justify-center h-full">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            <span className="ml-3 text-muted-foreground">Searching...</span>
+          </div>
+        ) : searchQuery.error ? (
+          <div className="text-center text-destructive p-8">
+            <XCircle className="h-12 w-12 mx-auto mb-4" />
+            <p>{(searchQuery.error as Error).message}</p>
+          </div>
+        ) : results ? (
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="h-4 w-4" />
+                  Tasks
+                  <Badge variant="secondary">{results.tasks.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {results.tasks.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No matching tasks</p>
+                ) : results.tasks.map(task => (
+                  <button
+                    key={`${task.prNumber}:${task.taskId}`}
+                    type="button"
+                    onClick={() => openPR(task.prNumber)}
+                    className="w-full text-left border border-border rounded-lg p-3 hover:bg-accent/50"
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-medium">{task.taskId}</span>
+                      <span className="text-sm text-muted-foreground">#{task.prNumber}</span>
+                      {task.category && <Badge variant="outline" className="text-xs">{task.category}</Badge>}
+                      {task.difficulty && <Badge variant="outline" className="text-xs">{task.difficulty}</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground line-clamp-3"><Snippet text={task.snippet} /></p>
+                    {task.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {task.tags.map(tag => (
+                          <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <XCircle className="h-4 w-4" />
+                  Failures
+                  <Badge variant="secondary">{results.failures.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {!submitted.q ? (
+                  <p className="text-sm text-muted-foreground">Enter search text to search failure logs</p>
+                ) : results.failures.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No matching failure logs</p>
+                ) : results.failures.map(failure => (
+                  <div key={failure.jobId} className="border border-border rounded-lg p-3">
+                    <div className="flex items-center gap-2 mb-1 flex-wrap">
+                      <span className="font-medium">{failure.model ? `${failure.agentName} (${failure.model})` : failure.agentName}</span>
+                      {failure.taskIds.map(taskId => (
+                        <Badge key={taskId} variant="outline" className="text-xs">{taskId}</Badge>
+                      ))}
+                      {failure.prNumber !== null && (
+                        <Button variant="link" size="sm" className="h-auto p-0" onClick={() => openPR(failure.prNumber!, { runId: failure.runId, task: failure.taskIds[0] })}>
+                          #{failure.prNumber}
+                        </Button>
+                      )}
+                      {failure.runCreatedAt && (
+                        <span className="text-xs text-muted-foreground ml-auto">{formatDate(failure.runCreatedAt)}</span>
+                      )}
+                      {failure.htmlUrl && (
+                        <a href={failure.htmlUrl} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground">
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
+                    </div>
+                    <pre className="text-xs font-mono whitespace-pre-wrap break-all bg-muted rounded p-2 text-muted-foreground">
+                      <Snippet text={failure.snippet} />
+                    </pre>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
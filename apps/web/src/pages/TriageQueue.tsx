@@ -0,0 +1,181 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, ShieldAlert, User, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import GlobalHeader from "@/components/GlobalHeader";
+import TriageStateBadge, { TRIAGE_STATE_LABELS } from "@/components/TriageStateBadge";
+import { TRIAGE_STATES, type TriageQueueItem } from "@logflix/shared/schema";
+import { CACHE_TIME } from "@/lib/constants";
+import { createAPIParams, fetchAPI } from "@/lib/api";
+import { formatDateTime } from "@/lib/date";
+import { runLinkPath } from "@/lib/runLink";
+import { useRepository } from "@/hooks/useRepository";
+
+interface TriageQueueProps {
+  repoName: string;
+}
+
+const ASSIGNEE_FILTERS: Record<string, string> = {
+  any: "Anyone",
+  me: "Assigned to me",
+  unassigned: "Unassigned",
+};
+
+/**
+ * Tasks across the repository by review state, awaiting review by default
+ */
+export default function TriageQueue({ repoName }: TriageQueueProps) {
+  const [, setLocation] = useLocation();
+  const [state, setState] = useState("needs-review");
+  const [assignee, setAssignee] = useState("any");
+
+  const { repoData, repo, organization, isLoading, error } = useRepository(repoName);
+
+  const queueQuery = useQuery<{ tasks: TriageQueueItem[] }>({
+    queryKey: ["/api/github/triage/queue", organization, repoName, state, assignee],
+    queryFn: () => {
+      const params = createAPIParams({ owner: organization, repo: repoName }, {
+        state,
+        ...(assignee !== 'any' && { assignee }),
+      });
+      return fetchAPI(`/api/github/triage/queue?${params}`);
+    },
+    enabled: !!repo,
+    staleTime: CACHE_TIME.STALE_SHORT,
+  });
+
+  useEffect(() => {
+    if (!repo && repoData) {
+      setLocation('/');
+    }
+  }, [repo, repoData, setLocation]);
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading repository...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !repoData || !repo) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-center">
+          <ShieldAlert className="h-12 w-12 text-destructive mx-auto mb-4" />
+          <h2 className="text-lg font-semibold mb-2">Access Denied</h2>
+          <p className="text-muted-foreground max-w-md mb-4">
+            You don't have access to the repository '{repoName}'.
+          </p>
+          <Button onClick={() => setLocation('/')}>
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const tasks = queueQuery.data?.tasks || [];
+
+  return (
+    <div className="flex flex-col h-screen bg-background text-foreground">
+      <GlobalHeader organization={organization} repository={repoName} workflow={repo.workflow} />
+
+      <div className="bg-card border-b border-border px-6 py-4 flex items-center gap-3">
+        <Button variant="ghost" size="sm" className="gap-2" onClick={() => setLocation(`/repo/${repoName}`)}>
+          <ArrowLeft className="h-4 w-4" />
+          Pull Requests
+        </Button>
+        <h1 className="text-lg font-semibold mr-auto">Review Queue</h1>
+        <Select value={state} onValueChange={setState}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TRIAGE_STATES.map(option => (
+              <SelectItem key={option} value={option}>{TRIAGE_STATE_LABELS[option]}</SelectItem>
+            ))}
+            <SelectItem value="all">All states</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={assignee} onValueChange={setAssignee}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(ASSIGNEE_FILTERS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin p-6">
+        {queueQuery.isLoading ? (
+          <div className="flex items-center justify-center h-full">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            <span className="ml-3 text-muted-foreground">Loading queue...</span>
+          </div>
+        ) : queueQuery.error ? (
+          <div className="text-center text-destructive p-8">
+            <XCircle className="h-12 w-12 mx-auto mb-4" />
+            <p>{(queueQuery.error as Error).message}</p>
+          </div>
+        ) : tasks.length === 0 ? (
+          <div className="text-center text-muted-foreground p-8">
+            No tasks match these filters. Tasks are listed once their PR has been viewed or indexed from the search page.
+          </div>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                Tasks
+                <Badge variant="secondary">{tasks.length}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {tasks.map(task => (
+                <button
+                  key={`${task.prNumber}:${task.taskId}`}
+                  type="button"
+                  onClick={() => setLocation(runLinkPath(repoName, { pr: task.prNumber, task: task.taskId }))}
+                  className="w-full text-left border border-border rounded-lg p-3 hover:bg-accent/50"
+                >
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="font-medium">{task.taskId}</span>
+                    <span className="text-sm text-muted-foreground">#{task.prNumber}</span>
+                    <TriageStateBadge state={task.state} />
+                    {task.category && <Badge variant="outline" className="text-xs">{task.category}</Badge>}
+                    {task.difficulty && <Badge variant="outline" className="text-xs">{task.difficulty}</Badge>}
+                    {task.assigneeName && (
+                      <span className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
+                        <User className="h-3 w-3" />
+                        {task.assigneeName}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground line-clamp-2">{task.instruction}</p>
+                  {task.reason && (
+                    <p className="text-xs mt-2 whitespace-pre-wrap">
+                      <span className="text-muted-foreground">
+                        {task.updatedByName || 'Reviewer'}{task.updatedAt ? `, ${formatDateTime(task.updatedAt)}` : ''}:
+                      </span>{' '}
+                      {task.reason}
+                    </p>
+                  )}
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { createWriteStream, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import type { Logger } from 'pino';
+
+export interface ArtifactCacheOptions {
+  /** Directory holding cached artifact zips */
+  directory: string;
+  /** Total size budget; least recently used zips are evicted beyond this */
+  maxBytes: number;
+  /** Zips larger than this are streamed through a temp file and never cached */
+  maxEntryBytes: number;
+}
+
+/**
+ * Identifies an artifact zip; the digest guards against serving stale content
+ */
+export interface ArtifactCacheKey {
+  artifactId: number;
+  digest: string;
+}
+
+interface CacheEntry {
+  path: string;
+  size: number;
+  lastAccess: number;
+  readers: number;
+}
+
+const MB = 1024 * 1024;
+
+function parseMegabytes(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return (isNaN(parsed) || parsed <= 0 ? fallback : parsed) * MB;
+}
+
+/**
+ * Disk-backed, content-addressed cache of artifact zips
+ * Shared by every GitHubOctokitService instance so listing files, reading a cast and
+ * reading a log from the same artifact download the zip once.
+ * Eviction is LRU by last access; zips being read are pinned until released.
+ */
+export class ArtifactCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<CacheEntry>>();
+  private totalBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private ready: Promise<void> | null = null;
+
+  constructor(private readonly options: ArtifactCacheOptions) {}
+
+  /**
+   * Returns cache hit/miss counters and current usage
+   */
+  getStats(): { hits: number; misses: number; entries: number; totalBytes: number; maxBytes: number } {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.entries.size,
+      totalBytes: this.totalBytes,
+      maxBytes: this.options.maxBytes,
+    };
+  }
+
+  /**
+   * Runs `read` against the local path of the artifact zip, downloading it on a miss
+   * `download` is only invoked on a miss and must resolve to the zip HTTP response
+   */
+  async withZip<T>(
+    key: ArtifactCacheKey,
+    download: () => Promise<Response>,
+    read: (zipPath: string) => Promise<T>,
+    logger: Logger
+  ): Promise<T> {
+    await this.init(logger);
+
+    const cacheKey = this.toCacheKey(key);
+    let entry = this.entries.get(cacheKey);
+
+    if (entry) {
+      this.hits++;
+      logger.debug({ artifactId: key.artifactId, ...this.getStats() }, 'Artifact cache hit');
+    } else {
+      this.misses++;
+      logger.info({ artifactId: key.artifactId, ...this.getStats() }, 'Artifact cache miss');
+
+      let pending = this.inFlight.get(cacheKey);
+      if (!pending) {
+        pending = this.fetchEntry(cacheKey, key, download, logger)
+          .finally(() => this.inFlight.delete(cacheKey));
+        this.inFlight.set(cacheKey, pending);
+      }
+      entry = await pending;
+    }
+
+    entry.readers++;
+    entry.lastAccess = Date.now();
+
+    try {
+      return await read(entry.path);
+    } finally {
+      entry.readers--;
+      if (!this.entries.has(cacheKey) && entry.readers === 0) {
+        // Oversized or evicted while pinned - nothing else references the file
+        await fs.rm(entry.path, { force: true }).catch(() => undefined);
+      } else {
+        fs.utimes(entry.path, new Date(), new Date()).catch(() => undefined);
+      }
+    }
+  }
+
+  private toCacheKey(key: ArtifactCacheKey): string {
+    return `${key.artifactId}-${key.digest.replace(/[^a-zA-Z0-9]/g, '')}`;
+  }
+
+  /**
+   * Indexes zips left on disk by previous processes, oldest access first
+   */
+  private init(logger: Logger): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await fs.mkdir(this.options.directory, { recursive: true });
+        const files = await fs.readdir(this.options.directory);
+
+        for (const file of files) {
+          const filePath = join(this.options.directory, file);
+          if (!file.endsWith('.zip')) {
+            // Partial downloads from an interrupted process
+            await fs.rm(filePath, { force: true }).catch(() => undefined);
+            continue;
+          }
+
+          const stat = await fs.stat(filePath);
+          this.entries.set(file.slice(0, -'.zip'.length), {
+            path: filePath,
+            size: stat.size,
+            lastAccess: stat.mtimeMs,
+            readers: 0,
+          });
+          this.totalBytes += stat.size;
+        }
+
+        logger.info({ directory: this.options.directory, ...this.getStats() }, 'Artifact cache initialized');
+        await this.evict(logger);
+      })().catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  private async fetchEntry(
+    cacheKey: string,
+    key: ArtifactCacheKey,
+    download: () => Promise<Response>,
+    logger: Logger
+  ): Promise<CacheEntry> {
+    const response = await download();
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to download artifact ${key.artifactId}: ${response.status} ${response.statusText}`);
+    }
+
+    const finalPath = join(this.options.directory, `${cacheKey}.zip`);
+    const tempPath = `${finalPath}.${process.pid}.${Date.now()}.part`;
+
+    try {
+      await pipeline(
+        Readable.fromWeb(response.body as unknown as WebReadableStream<Uint8Array>),
+        createWriteStream(tempPath)
+      );
+    } catch (error) {
+      await fs.rm(tempPath, { force: true }).catch(() => undefined);
+      throw error;
+    }
+
+    const { size } = await fs.stat(tempPath);
+    const entry: CacheEntry = { path: tempPath, size, lastAccess: Date.now(), readers: 0 };
+
+    if (size > this.options.maxEntryBytes) {
+      // Served once from the temp file, deleted when the reader releases it
+      logger.info({ artifactId: key.artifactId, size, maxEntryBytes: this.options.maxEntryBytes }, 'Artifact too large to cache');
+      return entry;
+    }
+
+    await fs.rename(tempPath, finalPath);
+    entry.path = finalPath;
+    this.entries.set(cacheKey, entry);
+    this.totalBytes += size;
+
+    await this.evict(logger);
+    return entry;
+  }
+
+  /**
+   * Drops least recently used, unpinned zips until the cache fits its budget
+   */
+  private async evict(logger: Logger): Promise<void> {
+    if (this.totalBytes <= this.options.maxBytes) return;
+
+    const candidates = Array.from(this.entries.entries())
+      .sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+
+    for (const [cacheKey, entry] of candidates) {
+      if (this.totalBytes <= this.options.maxBytes) break;
+
+      this.entries.delete(cacheKey);
+      this.totalBytes -= entry.size;
+
+      if (entry.readers === 0) {
+        await fs.rm(entry.path, { force: true }).catch(() => undefined);
+      }
+      logger.debug({ cacheKey, size: entry.size, pinned: entry.readers > 0 }, 'Evicted artifact from cache');
+    }
+  }
+}
+
+/**
+ * Process-wide artifact cache, configured from the environment
+ */
+export const artifactCache = new ArtifactCache({
+  directory: process.env.ARTIFACT_CACHE_DIR || join(tmpdir(), 'logflix-artifact-cache'),
+  maxBytes: parseMegabytes(process.env.ARTIFACT_CACHE_MAX_MB, 2048),
+  maxEntryBytes: parseMegabytes(process.env.ARTIFACT_CACHE_MAX_ENTRY_MB, 512),
+});
@@ -0,0 +1,183 @@
+import { scanZipEntries, readLines } from './zipReader.js';
+
+/**
+ * Streaming full-text search over the .log, .txt and .cast files of one artifact zip
+ * Casts are searched on their reconstructed terminal output, so matches carry the
+ * playback timestamp of the line instead of the raw JSON event line.
+ */
+
+export interface ArtifactSearchOptions {
+  caseSensitive: boolean;
+  contextLines: number;
+  /** Stop once this many matches have been collected */
+  maxMatches: number;
+}
+
+export interface ArtifactSearchMatch {
+  filePath: string;
+  fileName: string;
+  fileType: 'log' | 'txt' | 'cast';
+  lineNumber: number;
+  timestamp: number | null;
+  line: string;
+  before: string[];
+  after: string[];
+}
+
+interface SearchLine {
+  text: string;
+  timestamp: number | null;
+}
+
+const SEARCHABLE_EXTENSIONS = ['log', 'txt', 'cast'] as const;
+
+// Escape sequences (CSI, OSC, charset selection) would split words in terminal output
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[ -\/]*[@-~]|\x1b\][^\x07\x1b]*(\x07|\x1b\\)|\x1b[()][0-9A-Za-z]|\x1b[=>78]/g;
+
+function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '').replace(/\r/g, '');
+}
+
+function fileTypeOf(path: string): 'log' | 'txt' | 'cast' | null {
+  const extension = (path.split('.').pop() || '').toLowerCase();
+  return (SEARCHABLE_EXTENSIONS as readonly string[]).includes(extension)
+    ? extension as 'log' | 'txt' | 'cast'
+    : null;
+}
+
+/**
+ * Turns asciicast output events into terminal lines
+ * Each line is stamped with the time it was last written to, so seeking there shows the whole line
+ * v3 events carry the interval since the previous event rather than an absolute time.
+ */
+async function* castOutputLines(lines: AsyncIterable<string>): AsyncGenerator<SearchLine> {
+  let intervalTimes = false;
+  let elapsed = 0;
+  let firstEventTime: number | null = null;
+  let current = '';
+  let lastWritten: number | null = null;
+  const completed: SearchLine[] = [];
+
+  for await (const raw of lines) {
+    if (!raw.trim()) continue;
+
+    let event: unknown;
+    try {
+      event = JSON.parse(raw);
+    } catch {
+      continue; // Malformed line
+    }
+
+    if (!Array.isArray(event)) {
+      if (event && typeof event === 'object' && (event as { version?: unknown }).version === 3) {
+        intervalTimes = true;
+      }
+      continue;
+    }
+
+    // Non-output events carry no terminal text
+    if (event.length < 3 || typeof event[0] !== 'number') continue;
+    const [rawTime, type, data] = event as [number, string, unknown];
+    elapsed += rawTime;
+    const time = intervalTimes ? elapsed : rawTime;
+    if (firstEventTime === null) firstEventTime = time;
+    if (type !== 'o' || typeof data !== 'string') continue;
+
+    const relativeTime = time - firstEventTime;
+    const parts = data.split('\n');
+
+    parts.forEach((part, index) => {
+      if (part) {
+        current += part;
+        lastWritten = relativeTime;
+      }
+
+      if (index < parts.length - 1) {
+        completed.push({ text: current, timestamp: lastWritten ?? relativeTime });
+        current = '';
+        lastWritten = null;
+      }
+    });
+
+    while (completed.length > 0) {
+      yield completed.shift()!;
+    }
+  }
+
+  if (current) {
+    yield { text: current, timestamp: lastWritten };
+  }
+}
+
+async function* plainLines(lines: AsyncIterable<string>): AsyncGenerator<SearchLine> {
+  for await (const text of lines) {
+    yield { text, timestamp: null };
+  }
+}
+
+/**
+ * Searches every supported file in an artifact zip for `query`
+ */
+export async function searchArtifactZip(
+  zipPath: string,
+  query: string,
+  options: ArtifactSearchOptions
+): Promise<{ matches: ArtifactSearchMatch[]; filesSearched: number; truncated: boolean }> {
+  const needle = options.caseSensitive ? query : query.toLowerCase();
+  const matches: ArtifactSearchMatch[] = [];
+  let filesSearched = 0;
+  let truncated = false;
+
+  await scanZipEntries(zipPath, path => fileTypeOf(path) !== null, async (entry, stream) => {
+    const fileType = fileTypeOf(entry.path)!;
+    const rawLines = readLines(stream);
+    const source = fileType === 'cast' ? castOutputLines(rawLines) : plainLines(rawLines);
+
+    filesSearched++;
+
+    // Previous lines for "before" context, and matches still collecting "after" context
+    const previous: string[] = [];
+    const awaitingContext: ArtifactSearchMatch[] = [];
+    let lineNumber = 0;
+
+    for await (const { text, timestamp } of source) {
+      lineNumber++;
+      const line = stripAnsi(text);
+
+      for (const match of awaitingContext) {
+        match.after.push(line);
+      }
+      while (awaitingContext.length > 0 && awaitingContext[0].after.length >= options.contextLines) {
+        awaitingContext.shift();
+      }
+
+      const haystack = options.caseSensitive ? line : line.toLowerCase();
+      if (haystack.includes(needle)) {
+        if (matches.length >= options.maxMatches) {
+          truncated = true;
+          break;
+        }
+
+        const match: ArtifactSearchMatch = {
+          filePath: entry.path,
+          fileName: entry.name,
+          fileType,
+          lineNumber,
+          timestamp,
+          line,
+          before: previous.slice(),
+          after: [],
+        };
+        matches.push(match);
+        if (options.contextLines > 0) awaitingContext.push(match);
+      }
+
+      previous.push(line);
+      if (previous.length > options.contextLines) previous.shift();
+    }
+
+    return !truncated;
+  });
+
+  return { matches, filesSearched, truncated };
+}
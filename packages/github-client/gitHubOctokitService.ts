@@ -4,17 +4,67 @@ import { throttling } from '@octokit/plugin-throttling';
 import * as yaml from 'js-yaml';
 import AdmZip from 'adm-zip';
 import type { Logger } from 'pino';
+import { getGitHubApiUrl } from '@logflix/shared/githubSync';
 import {
   GitHubWorkflowRun,
   GitHubWorkflowLog,
   GitHubWorkflowArtifact,
   GitHubWorkflowHierarchy,
   GitHubReviewComment,
-  GitHubPullRequest
+  GitHubPullRequest,
+  RunSearchMatch,
+  RunSearchResponse,
+  RunComparison,
+  RunComparisonAgent,
+  RunComparisonJob,
+  RunComparisonLogDiff,
+  TaskYaml
 } from '@logflix/shared/schema';
+import type {
+  WorkflowRunStore,
+  StoredAgentTestResult,
+  StoredArtifactFile,
+  StoredTaskDefinition,
+  StoredFailureLog
+} from './runStore.js';
+import { artifactCache } from './artifactCache.js';
+import { listZipEntries, readZipEntryText, readZipEntryRange, ArtifactEntryTooLargeError } from './zipReader.js';
+import type { ZipEntryRange, ZipEntryRangeRequest } from './zipReader.js';
+import { searchArtifactZip } from './artifactSearch.js';
+import { diffLogs } from './logDiff.js';
+import { parseAttemptRunId, toAttemptRunId } from './runAttempts.js';
 
 const OctokitWithPlugins = Octokit.plugin(paginateRest, throttling);
 
+// Failure output sits at the end of a job log; only this much of the tail is indexed
+const FAILURE_LOG_TAIL_CHARS = 256 * 1024;
+
+// tests.log files above this are reported as unavailable in run comparisons rather than diffed
+const MAX_COMPARE_LOG_BYTES = 4 * 1024 * 1024;
+
+/**
+ * One agent's tests.log for one task, as read for a run comparison; content is null when unreadable
+ */
+interface RunTestLog {
+  agent: string;
+  taskId: string | null;
+  content: string | null;
+}
+
+/**
+ * A job's status and full log as downloaded once for every stream tailing it
+ */
+interface JobLogSnapshot {
+  status: string;
+  conclusion: string | null;
+  logs: Buffer;
+}
+
+// Viewers tailing the same job share one download per window instead of each fetching the whole log;
+// kept just under the stream's poll interval so every poll still sees new output
+const JOB_LOG_SNAPSHOT_TTL_MS = 4 * 1000;
+const jobLogSnapshots = new Map<string, { fetchedAt: number; snapshot: Promise<JobLogSnapshot> }>();
+
 
 /**
  * Creates configured Octokit client with rate limiting and pagination support
@@ -22,6 +72,7 @@ const OctokitWithPlugins = Octokit.plugin(paginateRest, throttling);
 function createOctokitClient(githubToken: string, logger?: Logger) {
   return new OctokitWithPlugins({
     auth: githubToken,
+    baseUrl: getGitHubApiUrl(),
     userAgent: 'LogFlix-App/1.0.0',
     throttle: {
       onRateLimit: (retryAfter: number, options: any, octokit: any, retryCount: number) => {
@@ -77,8 +128,9 @@ export class GitHubOctokitService {
   private workflowName: string | null = null;
   private logger: Logger;
   private octokit: InstanceType<typeof OctokitWithPlugins>;
+  private store?: WorkflowRunStore;
 
-  constructor(owner?: string, repo?: string, workflow?: string, logger?: Logger, githubToken?: string) {
+  constructor(owner?: string, repo?: string, workflow?: string, logger?: Logger, githubToken?: string, store?: WorkflowRunStore) {
     this.repositoryOwner = owner || 'abundant-ai';
     this.repositoryName = repo || 'tbench-hammer';
     this.workflowFileName = workflow || 'test-tasks.yaml';
@@ -100,6 +152,27 @@ export class GitHubOctokitService {
     }
 
     this.octokit = createOctokitClient(githubToken, this.logger);
+    this.store = store;
+  }
+
+  /**
+   * Repository identifier in "owner/repo" format used as the store partition key
+   */
+  private get repositoryId(): string {
+    return `${this.repositoryOwner}/${this.repositoryName}`;
+  }
+
+  /**
+   * Writes through to the persistent store without failing the GitHub request
+   */
+  private async persist(operation: string, write: (store: WorkflowRunStore) => Promise<void>): Promise<void> {
+    if (!this.store) return;
+
+    try {
+      await write(this.store);
+    } catch (error: any) {
+      this.logger.warn({ operation, error: error.message || error }, 'Failed to persist to run store');
+    }
   }
 
   /**
@@ -127,8 +200,9 @@ export class GitHubOctokitService {
 
   /**
    * Retrieves workflow hierarchy including runs, logs, and artifacts
+   * Logs are left out when includeLogs is false, for callers without log access.
    */
-  async getHierarchy(limit: number = 30): Promise<GitHubWorkflowHierarchy> {
+  async getHierarchy(limit: number = 30, includeLogs: boolean = true): Promise<GitHubWorkflowHierarchy> {
     try {
       this.logger.debug({ limit, workflow: this.workflowFileName }, 'Retrieving workflow hierarchy');
       
@@ -143,7 +217,7 @@ export class GitHubOctokitService {
         runsResponse.workflow_runs.slice(0, limit).map(async (run: any) => {
           try {
             const [logs, artifacts] = await Promise.allSettled([
-              this.getWorkflowRunLogs(run.id),
+              includeLogs ? this.getWorkflowRunLogs(run.id) : Promise.resolve([]),
               this.getWorkflowRunArtifacts(run.id),
             ]);
 
@@ -375,9 +449,20 @@ export class GitHubOctokitService {
       }));
 
       this.logger.debug({ runId, artifactCount: mappedArtifacts.length }, 'Retrieved workflow artifacts');
+      await this.persist('saveWorkflowArtifacts', store => store.saveWorkflowArtifacts(this.repositoryId, runId, mappedArtifacts));
       return mappedArtifacts;
     } catch (error) {
       this.logger.error({ runId, error }, 'Error fetching workflow run artifacts');
+
+      if (this.store) {
+        try {
+          const storedArtifacts = await this.store.getWorkflowArtifacts(this.repositoryId, runId);
+          this.logger.info({ runId, artifactCount: storedArtifacts.length }, 'Serving workflow artifacts from run store');
+          return storedArtifacts;
+        } catch (storeError: any) {
+          this.logger.warn({ runId, error: storeError.message || storeError }, 'Failed to read artifacts from run store');
+        }
+      }
       return [];
     }
   }
@@ -419,32 +504,44 @@ export class GitHubOctokitService {
 
   /**
    * Fetches detailed information for a specific workflow run
+   * Synthetic attempt ids load that earlier attempt and keep the synthetic id
    */
   async getWorkflowRun(runId: number): Promise<GitHubWorkflowRun | null> {
     try {
       this.logger.debug({ runId }, 'Fetching workflow run details');
+
+      const attemptRun = parseAttemptRunId(runId);
+      const { data: run } = attemptRun
+        ? await this.octokit.actions.getWorkflowRunAttempt({
+          owner: this.repositoryOwner,
+          repo: this.repositoryName,
+          run_id: attemptRun.runId,
+          attempt_number: attemptRun.attempt,
+        })
+        : await this.octokit.actions.getWorkflowRun({
+          owner: this.repositoryOwner,
+          repo: this.repositoryName,
+          run_id: runId,
+        });
       
-      const { data: run } = await this.octokit.actions.getWorkflowRun({
-        owner: this.repositoryOwner,
-        repo: this.repositoryName,
-        run_id: runId,
-      });
-      
-      return {
-        id: run.id,
+      const workflowRun: GitHubWorkflowRun = {
+        id: attemptRun ? runId : run.id,
         name: run.display_title || run.name || null,
         status: run.status as 'queued' | 'in_progress' | 'completed',
         conclusion: run.conclusion as 'success' | 'failure' | 'neutral' | 'cancelled' | 'skipped' | 'timed_out' | 'action_required' | null,
         created_at: run.created_at,
         updated_at: run.updated_at,
-        html_url: run.html_url,
+        html_url: attemptRun ? `${run.html_url}/attempts/${attemptRun.attempt}` : run.html_url,
         workflow_id: run.workflow_id,
         workflow_name: await this.getWorkflowName(),
         head_sha: run.head_sha,
         head_branch: run.head_branch,
         run_number: run.run_number,
-        run_attempt: run.run_attempt || 1,
+        run_attempt: run.run_attempt || attemptRun?.attempt || 1,
       };
+
+      await this.persist('saveWorkflowRuns', store => store.saveWorkflowRuns(this.repositoryId, [workflowRun]));
+      return workflowRun;
     } catch (error) {
       this.logger.error({ runId, error }, 'Error fetching workflow run');
       return null;
@@ -670,7 +767,7 @@ export class GitHubOctokitService {
                     });
                     
                     const prevRun: GitHubWorkflowRun = {
-                      id: parseInt(`${run.id}${attemptNum.toString().padStart(3, '0')}`), // Unique ID for each attempt
+                      id: toAttemptRunId(run.id, attemptNum), // Unique ID for each attempt
                       name: prevAttempt.display_title || prevAttempt.name || null,
                       status: prevAttempt.status as 'queued' | 'in_progress' | 'completed',
                       conclusion: prevAttempt.conclusion as 'success' | 'failure' | 'neutral' | 'cancelled' | 'skipped' | 'timed_out' | 'action_required' | null,
@@ -745,6 +842,8 @@ export class GitHubOctokitService {
         multiAttemptRuns: multiAttemptRuns.map(([runNum, count]) => `#${runNum}:${count}`),
         hasMultipleAttempts: multiAttemptRuns.length > 0
       }, 'PR workflow runs analysis complete');
+
+      await this.persist('saveWorkflowRuns', store => store.saveWorkflowRuns(this.repositoryId, allRuns, prNumber));
       
       return allRuns.slice(0, limit);
     } catch (error) {
@@ -807,6 +906,46 @@ export class GitHubOctokitService {
     }
   }
 
+  /**
+   * Posts a comment on a pull request's conversation as the authenticated user
+   */
+  async createPullRequestComment(prNumber: number, body: string): Promise<{ id: number; html_url: string } | null> {
+    try {
+      const { data: comment } = await this.octokit.issues.createComment({
+        owner: this.repositoryOwner,
+        repo: this.repositoryName,
+        issue_number: prNumber, // PR comments use issue_number
+        body,
+      });
+
+      this.logger.info({ prNumber, commentId: comment.id }, 'Posted PR comment');
+      return { id: comment.id, html_url: comment.html_url };
+    } catch (error) {
+      this.logger.error({ prNumber, error }, 'Error posting PR comment');
+      return null;
+    }
+  }
+
+  /**
+   * Asks GitHub to re-run a workflow run, or only its failed jobs; the new attempt reuses the run ID
+   */
+  async rerunWorkflowRun(runId: number, failedOnly = false): Promise<boolean> {
+    try {
+      const params = { owner: this.repositoryOwner, repo: this.repositoryName, run_id: runId };
+      if (failedOnly) {
+        await this.octokit.actions.reRunWorkflowFailedJobs(params);
+      } else {
+        await this.octokit.actions.reRunWorkflow(params);
+      }
+
+      this.logger.info({ runId, failedOnly }, 'Requested workflow re-run');
+      return true;
+    } catch (error) {
+      this.logger.error({ runId, failedOnly, error }, 'Error requesting workflow re-run');
+      return false;
+    }
+  }
+
   /**
    * Retrieves detailed information for a specific pull request
    */
@@ -982,6 +1121,23 @@ export class GitHubOctokitService {
         tasksWithDefinitions: tasks.filter(t => t.taskYaml).length
       }, 'Task discovery completed');
 
+      // Index the searchable task.yaml fields; definitions without an instruction are skipped
+      const definitions: StoredTaskDefinition[] = [];
+      tasks.forEach(({ taskId, taskYaml }) => {
+        const definition = taskYaml as Partial<TaskYaml> | null;
+        if (typeof definition?.instruction !== 'string') return;
+        definitions.push({
+          taskId,
+          instruction: definition.instruction,
+          category: typeof definition.category === 'string' ? definition.category : null,
+          difficulty: typeof definition.difficulty === 'string' ? definition.difficulty : null,
+          tags: Array.isArray(definition.tags) ? definition.tags.map(String) : [],
+        });
+      });
+      if (definitions.length > 0) {
+        await this.persist('saveTaskDefinitions', store => store.saveTaskDefinitions(this.repositoryId, prNumber, definitions));
+      }
+
       return tasks;
     } catch (error) {
       this.logger.error({ prNumber, error }, 'Error listing tasks for PR');
@@ -1045,25 +1201,48 @@ export class GitHubOctokitService {
   /**
    * Retrieves individual job results for a workflow run
    */
-  async getWorkflowJobs(runId: number): Promise<Array<{ id: number; name: string; conclusion: string | null; status: string }>> {
+  async getWorkflowJobs(runId: number): Promise<Array<{
+    id: number;
+    name: string;
+    conclusion: string | null;
+    status: string;
+    started_at: string | null;
+    completed_at: string | null;
+    run_attempt: number;
+  }>> {
     try {
       this.logger.debug({ runId }, 'Fetching workflow job results');
 
-      const jobs = await this.octokit.paginate(this.octokit.actions.listJobsForWorkflowRun, {
-        owner: this.repositoryOwner,
-        repo: this.repositoryName,
-        run_id: runId,
-        per_page: 100,
-      });
+      // Earlier attempts are addressed by synthetic ids and listed through the attempt endpoint
+      const attemptRun = parseAttemptRunId(runId);
+      const githubRunId = attemptRun?.runId ?? runId;
+      const jobs: any[] = attemptRun
+        ? await this.octokit.paginate(this.octokit.actions.listJobsForWorkflowRunAttempt, {
+          owner: this.repositoryOwner,
+          repo: this.repositoryName,
+          run_id: attemptRun.runId,
+          attempt_number: attemptRun.attempt,
+          per_page: 100,
+        })
+        : await this.octokit.paginate(this.octokit.actions.listJobsForWorkflowRun, {
+          owner: this.repositoryOwner,
+          repo: this.repositoryName,
+          run_id: runId,
+          per_page: 100,
+        });
 
       const mappedJobs = jobs.map((job: any) => ({
         id: job.id,
         name: job.name,
         conclusion: job.conclusion,
         status: job.status,
+        started_at: job.started_at || null,
+        completed_at: job.completed_at || null,
+        run_attempt: job.run_attempt || attemptRun?.attempt || 1,
       }));
 
       this.logger.debug({ runId, jobCount: mappedJobs.length }, 'Workflow jobs retrieved');
+      await this.persist('saveWorkflowJobs', store => store.saveWorkflowJobs(this.repositoryId, githubRunId, mappedJobs));
       return mappedJobs;
     } catch (error) {
       this.logger.error({ runId, error }, 'Error fetching jobs for run');
@@ -1076,19 +1255,7 @@ export class GitHubOctokitService {
    */
   async getJobLogs(jobId: number): Promise<string | null> {
     try {
-      this.logger.debug({ jobId }, 'Downloading job logs');
-
-      const response = await this.octokit.actions.downloadJobLogsForWorkflowRun({
-        owner: this.repositoryOwner,
-        repo: this.repositoryName,
-        job_id: jobId,
-      });
-
-      // The response contains a redirect URL to the actual log file (plain text)
-      this.logger.debug({ jobId, responseUrl: response.url }, 'Got job logs redirect URL');
-
-      const logResponse = await fetch(response.url);
-      const logContent = await logResponse.text();
+      const logContent = await this.downloadJobLogs(jobId);
 
       if (logContent) {
         this.logger.debug({ jobId, contentLength: logContent.length }, 'Job logs downloaded successfully');
@@ -1103,6 +1270,108 @@ export class GitHubOctokitService {
     }
   }
 
+  /**
+   * Downloads a job's full log, throwing when the download fails rather than returning an empty log
+   */
+  private async downloadJobLogs(jobId: number): Promise<string> {
+    this.logger.debug({ jobId }, 'Downloading job logs');
+
+    const response = await this.octokit.actions.downloadJobLogsForWorkflowRun({
+      owner: this.repositoryOwner,
+      repo: this.repositoryName,
+      job_id: jobId,
+    });
+
+    // The response contains a redirect URL to the actual log file (plain text)
+    this.logger.debug({ jobId, responseUrl: response.url }, 'Got job logs redirect URL');
+
+    const logResponse = await fetch(response.url);
+    if (!logResponse.ok) {
+      throw new Error(`Job log download failed with status ${logResponse.status}`);
+    }
+    return logResponse.text();
+  }
+
+  /**
+   * Reads job logs from a byte offset so in-progress jobs can be tailed incrementally
+   * GitHub only serves whole log files, so the log is downloaded and sliced; streams of the
+   * same job share each download. `reset` is set when the log shrank (e.g. re-run) and the
+   * caller must start over
+   */
+  async getJobLogsFromOffset(jobId: number, offset: number): Promise<{
+    content: string;
+    offset: number;
+    nextOffset: number;
+    reset: boolean;
+    status: string;
+    conclusion: string | null;
+  } | null> {
+    try {
+      const { status, conclusion, logs: logBuffer } = await this.getJobLogSnapshot(jobId);
+      const reset = offset > logBuffer.length;
+      const startOffset = reset ? 0 : offset;
+
+      this.logger.debug({
+        jobId,
+        offset,
+        startOffset,
+        totalBytes: logBuffer.length,
+        status,
+      }, 'Read job logs from offset');
+
+      return {
+        content: logBuffer.subarray(startOffset).toString('utf8'),
+        offset: startOffset,
+        nextOffset: logBuffer.length,
+        reset,
+        status,
+        conclusion,
+      };
+    } catch (error: any) {
+      this.logger.error({ jobId, offset, error: error.message || error }, 'Error reading job logs from offset');
+      return null;
+    }
+  }
+
+  /**
+   * Job status and full log, shared with other streams of the same job fetched within JOB_LOG_SNAPSHOT_TTL_MS
+   */
+  private getJobLogSnapshot(jobId: number): Promise<JobLogSnapshot> {
+    const key = `${this.repositoryId}:${jobId}`;
+    const now = Date.now();
+
+    jobLogSnapshots.forEach((entry, entryKey) => {
+      if (now - entry.fetchedAt >= JOB_LOG_SNAPSHOT_TTL_MS) {
+        jobLogSnapshots.delete(entryKey);
+      }
+    });
+
+    const cached = jobLogSnapshots.get(key);
+    if (cached) {
+      return cached.snapshot;
+    }
+
+    const snapshot = (async () => {
+      const { data: job } = await this.octokit.actions.getJobForWorkflowRun({
+        owner: this.repositoryOwner,
+        repo: this.repositoryName,
+        job_id: jobId,
+      });
+      // A failed download rejects so the poll is skipped; an empty log would look like a truncation and reset the stream
+      const logs = await this.downloadJobLogs(jobId);
+      return { status: job.status, conclusion: job.conclusion ?? null, logs: Buffer.from(logs, 'utf8') };
+    })();
+
+    jobLogSnapshots.set(key, { fetchedAt: now, snapshot });
+    // A failed download isn't shared; the next poll tries again
+    snapshot.catch(() => {
+      if (jobLogSnapshots.get(key)?.snapshot === snapshot) {
+        jobLogSnapshots.delete(key);
+      }
+    });
+    return snapshot;
+  }
+
   /**
    * Parses job logs to extract test result from SUMMARY line
    */
@@ -1143,6 +1412,47 @@ export class GitHubOctokitService {
     }
   }
 
+  /**
+   * Stores the log tail of failed agent jobs for repo-wide failure search
+   * Jobs already indexed are skipped; logs fetched earlier in the request are reused
+   */
+  private async indexFailureLogs(
+    runId: number,
+    failedRecords: StoredAgentTestResult[],
+    fetchedLogs: Map<number, string>
+  ): Promise<void> {
+    if (!this.store) return;
+
+    let indexedJobIds: number[];
+    try {
+      indexedJobIds = await this.store.getFailureLogJobIds(this.repositoryId, runId);
+    } catch (error: any) {
+      this.logger.warn({ runId, error: error.message || error }, 'Failed to read failure log index');
+      return;
+    }
+
+    const pending = failedRecords.filter(r => !indexedJobIds.includes(r.jobId));
+    const logs: StoredFailureLog[] = [];
+
+    for (const record of pending) {
+      const raw = fetchedLogs.get(record.jobId) ?? await this.getJobLogs(record.jobId);
+      if (!raw) continue;
+
+      // Drop GitHub's per-line timestamps and ANSI colors so they don't pollute the index
+      const content = raw
+        .slice(-FAILURE_LOG_TAIL_CHARS)
+        .replace(/\x1b\[[0-9;]*[A-Za-z]/g, '')
+        .replace(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z /gm, '');
+
+      logs.push({ jobId: record.jobId, agentName: record.agentName, model: record.model, content });
+    }
+
+    if (logs.length > 0) {
+      this.logger.info({ runId, jobIds: logs.map(l => l.jobId) }, 'Indexing failure logs');
+      await this.persist('saveFailureLogs', store => store.saveFailureLogs(this.repositoryId, runId, logs));
+    }
+  }
+
   /**
    * Gets test result from artifact (primary logic)
    */
@@ -1215,31 +1525,18 @@ export class GitHubOctokitService {
         return { status: 'UNKNOWN', source: 'unknown', expired: true };
       }
 
-      // Download and extract artifact
-      const response = await this.octokit.actions.downloadArtifact({
-        owner: this.repositoryOwner,
-        repo: this.repositoryName,
-        artifact_id: artifact.id,
-        archive_format: 'zip',
-      });
-
-      const zipResponse = await fetch(response.url);
-      const zipBuffer = Buffer.from(await zipResponse.arrayBuffer());
-
-      const zip = new AdmZip(zipBuffer);
-      const entries = zip.getEntries();
-
+      // Read the result from the (cached) artifact zip
       // Find the .txt file (e.g., nop.txt, oracle.txt, terminus.txt)
-      const txtEntry = entries.find(entry =>
-        !entry.isDirectory && entry.entryName.endsWith('.txt')
+      const rawContent = await this.withArtifactZip(artifact.id, zipPath =>
+        readZipEntryText(zipPath, path => path.endsWith('.txt'))
       );
 
-      if (!txtEntry) {
+      if (rawContent === null) {
         this.logger.error({ runId, agentName, modelName, artifactId: artifact.id }, 'No .txt file found in test result artifact');
         return { status: 'UNKNOWN', source: 'unknown', expired: false };
       }
 
-      const content = zip.readAsText(txtEntry).trim().toLowerCase();
+      const content = rawContent.trim().toLowerCase();
 
       this.logger.debug({ runId, agentName, modelName, artifactId: artifact.id, content }, 'Read test result content from artifact');
 
@@ -1300,8 +1597,44 @@ export class GitHubOctokitService {
     return { agentName, modelName };
   }
 
+  /**
+   * Narrows a run's stored results to one attempt, or to each agent/model pair's latest attempt
+   */
+  private selectAttemptResults(results: StoredAgentTestResult[], attempt?: number): StoredAgentTestResult[] {
+    if (attempt !== undefined) {
+      return results.filter(result => result.runAttempt === attempt);
+    }
+
+    const latest = new Map<string, StoredAgentTestResult>();
+    results.forEach(result => {
+      const key = `${result.agentName}\u0000${result.model ?? ''}`;
+      const current = latest.get(key);
+      if (!current || result.runAttempt > current.runAttempt) {
+        latest.set(key, result);
+      }
+    });
+    return Array.from(latest.values());
+  }
+
+  /**
+   * Loads persisted agent test results for a run, returning an empty list without a store
+   */
+  private async getStoredAgentTestResults(runId: number): Promise<StoredAgentTestResult[]> {
+    if (!this.store) return [];
+
+    try {
+      return await this.store.getAgentTestResults(this.repositoryId, runId);
+    } catch (error: any) {
+      this.logger.warn({ runId, error: error.message || error }, 'Failed to read agent test results from run store');
+      return [];
+    }
+  }
+
   /**
    * Orchestrates fetching agent test results using primary (artifact) and fallback (logs) logic
+   * A synthetic attempt id resolves that earlier attempt's jobs; results are stored under the
+   * GitHub run id with each job's attempt number. Failure logs are indexed before returning, since
+   * serverless instances may be frozen once the response is sent.
    */
   async getAgentTestResults(runId: number): Promise<{
     [agentName: string]: Array<{
@@ -1315,6 +1648,9 @@ export class GitHubOctokitService {
     try {
       this.logger.info({ runId }, 'Starting agent test results orchestration');
 
+      const attemptRun = parseAttemptRunId(runId);
+      const githubRunId = attemptRun?.runId ?? runId;
+
       // Fetch all jobs for the workflow run
       const jobs = await this.getWorkflowJobs(runId);
 
@@ -1325,6 +1661,12 @@ export class GitHubOctokitService {
 
       this.logger.info({ runId, testJobs: testJobs.length, totalJobs: jobs.length }, 'Filtered to test jobs');
 
+      // Previously persisted results survive artifact/log expiry on GitHub
+      const storedResults = this.selectAttemptResults(await this.getStoredAgentTestResults(githubRunId), attemptRun?.attempt);
+      const storedByJobId = new Map(storedResults.map(r => [r.jobId, r]));
+      const records: StoredAgentTestResult[] = [];
+      const fetchedLogs = new Map<number, string>();
+
       const results: {
         [agentName: string]: Array<{
           model: string | null;
@@ -1352,7 +1694,10 @@ export class GitHubOctokitService {
         let source: 'artifact' | 'fallback' | 'unknown' = 'unknown';
 
         // PRIMARY LOGIC: Try to fetch from artifact
-        const artifactResult = await this.getTestResultFromArtifact(runId, agentName, modelName);
+        // Artifacts belong to the run as a whole and hold its latest attempt, so earlier attempts go to their job logs
+        const artifactResult = attemptRun
+          ? { status: 'UNKNOWN' as const, source: 'unknown' as const, expired: false }
+          : await this.getTestResultFromArtifact(runId, agentName, modelName);
 
         if (artifactResult.status !== 'UNKNOWN' && !artifactResult.expired) {
           // Successfully got result from artifact
@@ -1366,6 +1711,7 @@ export class GitHubOctokitService {
           const logs = await this.getJobLogs(job.id);
 
           if (logs) {
+            fetchedLogs.set(job.id, logs);
             const logResult = this.parseJobLogsForSummary(logs);
             status = logResult.status;
             source = logResult.status !== 'UNKNOWN' ? 'fallback' : 'unknown';
@@ -1375,6 +1721,24 @@ export class GitHubOctokitService {
           }
         }
 
+        const storedResult = storedByJobId.get(job.id);
+        if (status === 'UNKNOWN' && storedResult && storedResult.status !== 'UNKNOWN') {
+          status = storedResult.status;
+          source = storedResult.source;
+          this.logger.info({ runId, jobId: job.id, agentName, modelName, status, source }, 'Got test result from run store');
+        }
+
+        records.push({
+          jobId: job.id,
+          runAttempt: job.run_attempt,
+          agentName,
+          model: modelName,
+          status,
+          source,
+          conclusion: job.conclusion,
+          jobStatus: job.status,
+        });
+
         // Add to results grouped by agent
         if (!results[agentName]) {
           results[agentName] = [];
@@ -1391,6 +1755,37 @@ export class GitHubOctokitService {
         this.logger.debug({ runId, agentName, modelName, status, source }, 'Added test result to grouped results');
       }
 
+      // Jobs are gone from GitHub (or the API failed) - answer entirely from the store
+      if (testJobs.length === 0 && storedResults.length > 0) {
+        this.logger.info({ runId, storedResults: storedResults.length }, 'Serving agent test results from run store');
+        for (const stored of storedResults) {
+          if (!results[stored.agentName]) {
+            results[stored.agentName] = [];
+          }
+          results[stored.agentName].push({
+            model: stored.model,
+            status: stored.status,
+            source: stored.source,
+            conclusion: stored.conclusion,
+            jobStatus: stored.jobStatus,
+          });
+        }
+      }
+
+      // Only persist resolved results so an expired artifact never overwrites a known PASS/FAIL
+      const resolvedRecords = records.filter(r => r.status !== 'UNKNOWN');
+      if (resolvedRecords.length > 0) {
+        await this.persist('saveAgentTestResults', store => store.saveAgentTestResults(this.repositoryId, githubRunId, resolvedRecords));
+      }
+
+      const failedRecords = records.filter(r => r.status === 'FAIL');
+      if (failedRecords.length > 0) {
+        // An indexing failure shouldn't cost the caller its results; unindexed jobs are retried on the next view
+        await this.indexFailureLogs(githubRunId, failedRecords, fetchedLogs).catch((error: any) => {
+          this.logger.warn({ runId: githubRunId, error: error.message || error }, 'Failed to index failure logs');
+        });
+      }
+
       this.logger.info({
         runId,
         agentCount: Object.keys(results).length,
@@ -1404,6 +1799,42 @@ export class GitHubOctokitService {
     }
   }
 
+  /**
+   * Runs `read` against the artifact zip on local disk, via the shared artifact cache
+   * Cache entries are keyed by artifact id and digest, so every reader downloads a zip at most once
+   */
+  private async withArtifactZip<T>(artifactId: number, read: (zipPath: string) => Promise<T>): Promise<T> {
+    const { data: artifact } = await this.octokit.actions.getArtifact({
+      owner: this.repositoryOwner,
+      repo: this.repositoryName,
+      artifact_id: artifactId,
+    });
+
+    // Older artifacts have no digest; updated_at still changes whenever the content could
+    const digest = (artifact as { digest?: string | null }).digest || artifact.updated_at || 'unknown';
+
+    return artifactCache.withZip(
+      { artifactId, digest },
+      async () => {
+        if (artifact.expired) {
+          throw Object.assign(new Error('Artifact has expired'), { status: 410 });
+        }
+
+        const response = await this.octokit.actions.downloadArtifact({
+          owner: this.repositoryOwner,
+          repo: this.repositoryName,
+          artifact_id: artifactId,
+          archive_format: 'zip',
+        });
+
+        this.logger.debug({ artifactId, sizeInBytes: artifact.size_in_bytes }, 'Downloading artifact zip into cache');
+        return fetch(response.url);
+      },
+      read,
+      this.logger
+    );
+  }
+
   /**
    * Unified method to get all files from an artifact, optionally filtered by type
    * @param artifactId - The artifact ID
@@ -1420,63 +1851,32 @@ export class GitHubOctokitService {
         requestedArtifactId: artifactId
       }, '🔍 Requesting files from artifact');
 
-      const response = await this.octokit.actions.downloadArtifact({
-        owner: this.repositoryOwner,
-        repo: this.repositoryName,
-        artifact_id: artifactId,
-        archive_format: 'zip',
-      });
-
-      this.logger.info({
-        artifactId,
-        responseUrl: response.url,
-        urlContainsArtifactId: response.url.includes(artifactId.toString())
-      }, '📥 Download artifact response received');
-
-      const zipResponse = await fetch(response.url);
-      const zipBuffer = Buffer.from(await zipResponse.arrayBuffer());
-
-      const zip = new AdmZip(zipBuffer);
-      const zipEntries = zip.getEntries();
+      // Listing only touches the zip's central directory - no entry is decompressed
+      const zipEntries = await this.withArtifactZip(artifactId, listZipEntries);
 
       // Log first entry to see the timestamp in paths
-      const firstEntry = zipEntries.find(e => !e.isDirectory);
+      const firstEntry = zipEntries[0];
       if (firstEntry) {
         // Extract timestamp from path (e.g., "04-57-10" from "github-action-2025-10-26__04-57-10-...")
-        const timestampMatch = firstEntry.entryName.match(/__(\d{2}-\d{2}-\d{2})/);
+        const timestampMatch = firstEntry.path.match(/__(\d{2}-\d{2}-\d{2})/);
         this.logger.info({
           artifactId,
-          firstFilePath: firstEntry.entryName.substring(0, 100),
+          firstFilePath: firstEntry.path.substring(0, 100),
           extractedTimestamp: timestampMatch ? timestampMatch[1] : 'unknown'
         }, '⏱️  Artifact path timestamp detected');
       }
 
-      const files: Array<{ name: string; path: string; size: number }> = [];
-
-      zipEntries.forEach((entry) => {
-        if (entry.isDirectory) return;
-
-        // Filter by file type if specified
-        let include = false;
-        if (!fileType) {
-          include = true; // Include all files
-        } else if (fileType === 'cast') {
-          include = entry.entryName.endsWith('.cast');
-        } else if (fileType === 'log') {
-          include = entry.entryName.endsWith('.log');
-        } else if (fileType === 'txt') {
-          include = entry.entryName.endsWith('.txt');
-        }
+      const allFiles: StoredArtifactFile[] = zipEntries.map(entry => ({
+        name: entry.name,
+        path: entry.path,
+        size: entry.size
+      }));
 
-        if (include) {
-          const fileName = entry.entryName.split('/').pop() || entry.entryName;
-          files.push({
-            name: fileName,
-            path: entry.entryName,
-            size: entry.header.size
-          });
-        }
-      });
+      // Index the full listing so it stays browsable after the artifact expires
+      await this.persist('saveArtifactFiles', store => store.saveArtifactFiles(artifactId, allFiles));
+
+      // Filter by file type if specified
+      const files = allFiles.filter(file => this.matchesArtifactFileType(file.path, fileType));
 
       // Extract timestamp from paths for validation
       const pathTimestamps = files.map(f => {
@@ -1499,75 +1899,109 @@ export class GitHubOctokitService {
     } catch (error: any) {
       if (error.status === 410 || error.message?.includes('Artifact has expired')) {
         this.logger.warn({ artifactId, fileType }, 'Artifact expired, files unavailable');
-        return [];
+        return this.getStoredArtifactFiles(artifactId, fileType);
       }
       this.logger.error({ artifactId, fileType, error }, 'Failed to extract files from artifact');
       return [];
     }
   }
 
+  /**
+   * Checks whether an artifact entry path matches the optional file type filter
+   */
+  private matchesArtifactFileType(path: string, fileType?: 'cast' | 'log' | 'txt'): boolean {
+    if (!fileType) {
+      return true; // Include all files
+    }
+    return path.endsWith(`.${fileType}`);
+  }
+
+  /**
+   * Returns the persisted file index for an artifact, filtered by type
+   */
+  private async getStoredArtifactFiles(
+    artifactId: number,
+    fileType?: 'cast' | 'log' | 'txt'
+  ): Promise<Array<{ name: string; path: string; size: number }>> {
+    if (!this.store) return [];
+
+    try {
+      const storedFiles = await this.store.getArtifactFiles(this.repositoryId, artifactId);
+      this.logger.info({ artifactId, fileType, fileCount: storedFiles.length }, 'Serving artifact file index from run store');
+      return storedFiles.filter(file => this.matchesArtifactFileType(file.path, fileType));
+    } catch (error: any) {
+      this.logger.warn({ artifactId, error: error.message || error }, 'Failed to read artifact file index from run store');
+      return [];
+    }
+  }
+
+  /**
+   * Decodes and normalizes an artifact entry path, rejecting directory traversal
+   */
+  private normalizeArtifactPath(filePath: string): string | null {
+    // Decode path (handle URL encoding)
+    let decodedPath = filePath;
+    try {
+      let previousPath = '';
+      while (previousPath !== decodedPath) {
+        previousPath = decodedPath;
+        decodedPath = decodeURIComponent(decodedPath);
+      }
+    } catch (decodeError) {
+      this.logger.warn({ filePath, error: decodeError }, 'Path decode failed, using original');
+      decodedPath = filePath;
+    }
+
+    // Normalize path (convert backslashes, remove duplicate slashes)
+    const normalizedPath = decodedPath.replace(/\\/g, '/').replace(/\/+/g, '/');
+
+    // Security: prevent directory traversal
+    if (normalizedPath.includes('../') || normalizedPath.includes('..\\') || normalizedPath.startsWith('/')) {
+      this.logger.error({ filePath, normalizedPath }, 'Invalid file path (directory traversal detected)');
+      return null;
+    }
+
+    return normalizedPath;
+  }
+
   /**
    * Unified method to read any file from an artifact by path
    * @param artifactId - The artifact ID
    * @param filePath - The full path to the file within the artifact
+   * @throws ArtifactEntryTooLargeError if the file exceeds the inline read limit
    */
   async readArtifactFile(artifactId: number, filePath: string): Promise<string | null> {
     try {
       this.logger.debug({ artifactId, filePath }, 'Reading file from artifact');
 
-      // Decode path (handle URL encoding)
-      let decodedPath = filePath;
-      try {
-        let previousPath = '';
-        while (previousPath !== decodedPath) {
-          previousPath = decodedPath;
-          decodedPath = decodeURIComponent(decodedPath);
-        }
-      } catch (decodeError) {
-        this.logger.warn({ filePath, error: decodeError }, 'Path decode failed, using original');
-        decodedPath = filePath;
-      }
-
-      // Normalize path (convert backslashes, remove duplicate slashes)
-      const normalizedPath = decodedPath.replace(/\\/g, '/').replace(/\/+/g, '/');
-
-      // Security: prevent directory traversal
-      if (normalizedPath.includes('../') || normalizedPath.includes('..\\') || normalizedPath.startsWith('/')) {
-        this.logger.error({ filePath, normalizedPath }, 'Invalid file path (directory traversal detected)');
+      const normalizedPath = this.normalizeArtifactPath(filePath);
+      if (!normalizedPath) {
         return null;
       }
 
-      // Download artifact
-      const response = await this.octokit.actions.downloadArtifact({
-        owner: this.repositoryOwner,
-        repo: this.repositoryName,
-        artifact_id: artifactId,
-        archive_format: 'zip',
-      });
+      const content = await this.withArtifactZip(artifactId, async (zipPath) => {
+        const entryContent = await readZipEntryText(zipPath, path => path === normalizedPath);
 
-      const zipResponse = await fetch(response.url);
-      const zipBuffer = Buffer.from(await zipResponse.arrayBuffer());
+        if (entryContent === null) {
+          // Log all available files to help diagnose path issues
+          const availableFiles = (await listZipEntries(zipPath)).map(e => e.path);
 
-      const zip = new AdmZip(zipBuffer);
-      const entry = zip.getEntry(normalizedPath);
+          this.logger.error({
+            artifactId,
+            requestedPath: normalizedPath,
+            originalPath: filePath,
+            availableFiles: availableFiles.slice(0, 10) // Log first 10 files
+          }, 'File not found in artifact');
+          return null;
+        }
 
-      if (!entry) {
-        // Log all available files to help diagnose path issues
-        const availableFiles = zip.getEntries()
-          .filter(e => !e.isDirectory)
-          .map(e => e.entryName);
+        return entryContent;
+      });
 
-        this.logger.error({
-          artifactId,
-          requestedPath: normalizedPath,
-          originalPath: filePath,
-          availableFiles: availableFiles.slice(0, 10) // Log first 10 files
-        }, 'File not found in artifact');
+      if (content === null) {
         return null;
       }
 
-      const content = zip.readAsText(entry);
-
       // Detect content type for logging
       const contentType = content.trim().startsWith('{') ? 'JSON' :
                          content.trim().startsWith('[') ? 'Array/ANSI' : 'Text';
@@ -1586,11 +2020,358 @@ export class GitHubOctokitService {
         this.logger.warn({ artifactId, filePath }, 'Artifact expired, file unavailable');
         return null;
       }
+      if (error instanceof ArtifactEntryTooLargeError) {
+        // Callers surface this to the user instead of a generic "not found"
+        this.logger.warn({ artifactId, filePath, size: error.size, limit: error.limit }, 'Artifact file too large to read inline');
+        throw error;
+      }
       this.logger.error({ artifactId, filePath, error }, 'Failed to read file from artifact');
       return null;
     }
   }
 
+  /**
+   * Reads a line or byte window of an artifact file, with total size and line count
+   * Only the window is held in memory, so files above the inline limit can still be paged
+   * @throws ArtifactEntryTooLargeError if the requested window itself exceeds the inline read limit
+   */
+  async readArtifactFileRange(
+    artifactId: number,
+    filePath: string,
+    range: ZipEntryRangeRequest
+  ): Promise<ZipEntryRange | null> {
+    try {
+      this.logger.debug({ artifactId, filePath, range }, 'Reading file range from artifact');
+
+      const normalizedPath = this.normalizeArtifactPath(filePath);
+      if (!normalizedPath) {
+        return null;
+      }
+
+      const result = await this.withArtifactZip(artifactId, zipPath =>
+        readZipEntryRange(zipPath, path => path === normalizedPath, range)
+      );
+
+      if (!result) {
+        this.logger.error({ artifactId, requestedPath: normalizedPath }, 'File not found in artifact');
+        return null;
+      }
+
+      this.logger.debug({
+        artifactId,
+        filePath: normalizedPath,
+        unit: result.unit,
+        start: result.start,
+        end: result.end,
+        totalBytes: result.totalBytes,
+        totalLines: result.totalLines
+      }, 'File range read successfully');
+
+      return result;
+    } catch (error: any) {
+      if (error.status === 410 || error.message?.includes('Artifact has expired')) {
+        this.logger.warn({ artifactId, filePath }, 'Artifact expired, file unavailable');
+        return null;
+      }
+      if (error instanceof ArtifactEntryTooLargeError) {
+        this.logger.warn({ artifactId, filePath, size: error.size, limit: error.limit }, 'Requested artifact range too large');
+        throw error;
+      }
+      this.logger.error({ artifactId, filePath, range, error }, 'Failed to read file range from artifact');
+      return null;
+    }
+  }
+
+  /**
+   * Artifacts holding agent session recordings and logs, one per agent
+   */
+  private async getRecordingArtifacts(runId: number): Promise<GitHubWorkflowArtifact[]> {
+    const artifacts = await this.getWorkflowRunArtifacts(runId);
+    return artifacts.filter(artifact => {
+      const name = artifact.name.toLowerCase();
+      return name.includes('cast') || name.includes('asciinema') || name.includes('recording');
+    });
+  }
+
+  /**
+   * Full-text search over the logs and terminal recordings of every agent in a run
+   * Artifacts are scanned one at a time through the artifact cache; expired ones are skipped
+   */
+  async searchRunArtifacts(
+    runId: number,
+    query: string,
+    options: { caseSensitive?: boolean; contextLines?: number; maxMatches?: number } = {}
+  ): Promise<RunSearchResponse> {
+    const maxMatches = options.maxMatches ?? 200;
+    const matches: RunSearchMatch[] = [];
+    let filesSearched = 0;
+    let truncated = false;
+
+    const recordingArtifacts = (await this.getRecordingArtifacts(runId)).filter(artifact => !artifact.expired);
+
+    this.logger.info({ runId, query, artifactCount: recordingArtifacts.length }, 'Searching run artifacts');
+
+    for (const artifact of recordingArtifacts) {
+      if (truncated) break;
+
+      try {
+        const result = await this.withArtifactZip(artifact.id, zipPath =>
+          searchArtifactZip(zipPath, query, {
+            caseSensitive: options.caseSensitive ?? false,
+            contextLines: options.contextLines ?? 2,
+            maxMatches: maxMatches - matches.length,
+          })
+        );
+
+        filesSearched += result.filesSearched;
+        truncated = result.truncated;
+        result.matches.forEach(match => matches.push({
+          ...match,
+          artifactId: artifact.id,
+          artifactName: artifact.name,
+          agent: artifact.name.replace(/^recordings-/i, ''),
+        }));
+      } catch (error) {
+        // One unreadable artifact shouldn't fail the whole search
+        this.logger.warn({ runId, artifactId: artifact.id, error }, 'Failed to search artifact');
+      }
+    }
+
+    this.logger.info({ runId, query, matchCount: matches.length, filesSearched, truncated }, 'Run artifact search completed');
+
+    return { query, matches, filesSearched, truncated };
+  }
+
+  /**
+   * Compares two workflow runs: agent result flips, tasks present in only one run,
+   * run and job duration deltas, and a line diff of each agent's tests.log per task
+   * Returns null when either run cannot be fetched
+   */
+  async compareWorkflowRuns(baseRunId: number, headRunId: number): Promise<RunComparison | null> {
+    try {
+      this.logger.info({ baseRunId, headRunId }, 'Comparing workflow runs');
+
+      const [base, head] = await Promise.all([this.getWorkflowRun(baseRunId), this.getWorkflowRun(headRunId)]);
+      if (!base || !head) {
+        this.logger.warn({ baseRunId, headRunId, foundBase: !!base, foundHead: !!head }, 'Workflow run missing for comparison');
+        return null;
+      }
+
+      // Sides are loaded one after the other so artifact downloads don't pile up
+      const baseSide = await this.loadComparisonSide(baseRunId);
+      const headSide = await this.loadComparisonSide(headRunId);
+
+      const agentKeys = Array.from(new Set(Array.from(baseSide.agents.keys()).concat(Array.from(headSide.agents.keys()))));
+      const agents: RunComparisonAgent[] = agentKeys.map(agentKey => {
+        const before = baseSide.agents.get(agentKey);
+        const after = headSide.agents.get(agentKey);
+        const names = (after || before)!;
+        return {
+          agentKey,
+          agentName: names.agentName,
+          model: names.model,
+          base: before ? before.status : null,
+          head: after ? after.status : null,
+          changed: (before ? before.status : null) !== (after ? after.status : null),
+        };
+      });
+
+      const jobNames = Array.from(new Set(headSide.jobs.map(job => job.name).concat(baseSide.jobs.map(job => job.name))));
+      const jobs: RunComparisonJob[] = jobNames.map(name => {
+        const before = baseSide.jobs.find(job => job.name === name);
+        const after = headSide.jobs.find(job => job.name === name);
+        const baseDurationSec = before ? this.durationSeconds(before.started_at, before.completed_at) : null;
+        const headDurationSec = after ? this.durationSeconds(after.started_at, after.completed_at) : null;
+        return {
+          name,
+          baseConclusion: before ? before.conclusion : null,
+          headConclusion: after ? after.conclusion : null,
+          baseDurationSec,
+          headDurationSec,
+          deltaSec: baseDurationSec !== null && headDurationSec !== null ? headDurationSec - baseDurationSec : null,
+        };
+      });
+
+      const logKeys = Array.from(new Set(Array.from(baseSide.logs.keys()).concat(Array.from(headSide.logs.keys())))).sort();
+      const logDiffs = logKeys.map((key): RunComparisonLogDiff => {
+        const before = baseSide.logs.get(key);
+        const after = headSide.logs.get(key);
+        const { agent, taskId } = (after || before)!;
+        const empty = { agent, taskId, added: 0, removed: 0, hunks: [], truncated: false };
+
+        // A side missing because its artifact expired is unknown, not absent
+        if (!before) {
+          return { ...empty, status: baseSide.expiredAgents.has(agent) ? 'unavailable' : 'added' };
+        }
+        if (!after) {
+          return { ...empty, status: headSide.expiredAgents.has(agent) ? 'unavailable' : 'removed' };
+        }
+        if (before.content === null || after.content === null) {
+          return { ...empty, status: 'unavailable' };
+        }
+
+        const diff = diffLogs(before.content, after.content);
+        return {
+          agent,
+          taskId,
+          status: diff.added + diff.removed > 0 ? 'changed' : 'unchanged',
+          ...diff,
+        };
+      });
+
+      const comparison: RunComparison = {
+        base,
+        head,
+        durationDeltaSec: this.runDurationSeconds(head) - this.runDurationSeconds(base),
+        agents,
+        jobs,
+        tasks: {
+          added: Array.from(headSide.taskIds).filter(taskId => !baseSide.taskIds.has(taskId)).sort(),
+          removed: Array.from(baseSide.taskIds).filter(taskId => !headSide.taskIds.has(taskId)).sort(),
+          unchanged: Array.from(headSide.taskIds).filter(taskId => baseSide.taskIds.has(taskId)).sort(),
+        },
+        logDiffs,
+      };
+
+      this.logger.info({
+        baseRunId,
+        headRunId,
+        changedAgents: agents.filter(agent => agent.changed).length,
+        changedLogs: logDiffs.filter(diff => diff.status === 'changed').length,
+      }, 'Workflow run comparison complete');
+
+      return comparison;
+    } catch (error: any) {
+      this.logger.error({ baseRunId, headRunId, error: error.message || error }, 'Error comparing workflow runs');
+      return null;
+    }
+  }
+
+  /**
+   * Gathers one run's jobs, agent results and tests.log files for a comparison
+   */
+  private async loadComparisonSide(runId: number): Promise<{
+    jobs: Awaited<ReturnType<GitHubOctokitService['getWorkflowJobs']>>;
+    agents: Map<string, { agentName: string; model: string | null; status: 'PASS' | 'FAIL' | 'UNKNOWN' }>;
+    logs: Map<string, RunTestLog>;
+    taskIds: Set<string>;
+    expiredAgents: Set<string>;
+  }> {
+    const jobs = await this.getWorkflowJobs(runId);
+    const agentResults = await this.getAgentTestResults(runId);
+
+    const agents = new Map<string, { agentName: string; model: string | null; status: 'PASS' | 'FAIL' | 'UNKNOWN' }>();
+    Object.keys(agentResults).forEach(agentName => {
+      agentResults[agentName].forEach(result => {
+        const agentKey = result.model ? `${agentName} (${result.model})` : agentName;
+        agents.set(agentKey, { agentName, model: result.model, status: result.status });
+      });
+    });
+
+    const logs = new Map<string, RunTestLog>();
+    const taskIds = new Set<string>();
+    const expiredAgents = new Set<string>();
+
+    // Artifacts belong to the run as a whole and hold its latest attempt: an earlier attempt
+    // still gets the run's task ids, but its tests.log files are reported as unavailable
+    const attemptRun = parseAttemptRunId(runId);
+
+    for (const artifact of await this.getRecordingArtifacts(attemptRun?.runId ?? runId)) {
+      const agent = artifact.name.replace(/^recordings-/i, '');
+      if (artifact.expired) {
+        expiredAgents.add(agent);
+        continue;
+      }
+
+      try {
+        await this.withArtifactZip(artifact.id, async (zipPath) => {
+          for (const entry of await listZipEntries(zipPath)) {
+            const taskId = this.taskIdFromArtifactPath(entry.path);
+            if (taskId) taskIds.add(taskId);
+            if (entry.name !== 'tests.log') continue;
+            if (attemptRun) {
+              expiredAgents.add(agent);
+              continue;
+            }
+
+            let content: string | null = null;
+            try {
+              content = await readZipEntryText(zipPath, path => path === entry.path, MAX_COMPARE_LOG_BYTES);
+            } catch (error) {
+              if (!(error instanceof ArtifactEntryTooLargeError)) throw error;
+              this.logger.warn({ runId, artifactId: artifact.id, path: entry.path, size: error.size }, 'tests.log too large to compare');
+            }
+            logs.set(`${agent}\u0000${taskId ?? ''}`, { agent, taskId, content });
+          }
+        });
+      } catch (error: any) {
+        if (error.status === 410 || error.message?.includes('Artifact has expired')) {
+          expiredAgents.add(agent);
+        } else {
+          this.logger.warn({ runId, artifactId: artifact.id, error: error.message || error }, 'Failed to read artifact for comparison');
+        }
+      }
+    }
+
+    return { jobs, agents, logs, taskIds, expiredAgents };
+  }
+
+  /**
+   * Task id of an entry in a recordings artifact
+   * Harness output is laid out as <run>/<task-id>/<trial>/sessions/<file>; PR checkouts as tasks/<task-id>/...
+   */
+  private taskIdFromArtifactPath(path: string): string | null {
+    const segments = path.split('/');
+    if (segments[0] === 'tasks' && segments.length > 2) {
+      return segments[1];
+    }
+    const sessionsIndex = segments.lastIndexOf('sessions');
+    return sessionsIndex >= 2 ? segments[sessionsIndex - 2] : null;
+  }
+
+  private durationSeconds(startedAt: string | null, completedAt: string | null): number | null {
+    if (!startedAt || !completedAt) return null;
+    return Math.round((new Date(completedAt).getTime() - new Date(startedAt).getTime()) / 1000);
+  }
+
+  private runDurationSeconds(run: GitHubWorkflowRun): number {
+    return this.durationSeconds(run.created_at, run.updated_at) ?? 0;
+  }
+
+  /**
+   * Backfills the search index from one page of the most recently updated PRs
+   * Indexing is a side effect of listing tasks and resolving agent results, which write through to the store.
+   * Callers walk the pages one request at a time so each stays within serverless time limits.
+   */
+  async indexRepository(page: number, pageSize: number): Promise<{ pullRequests: number; tasks: number; runs: number; hasMore: boolean }> {
+    const { data: pullRequests } = await this.octokit.pulls.list({
+      owner: this.repositoryOwner,
+      repo: this.repositoryName,
+      state: 'all',
+      sort: 'updated',
+      direction: 'desc',
+      per_page: pageSize,
+      page,
+    });
+    let tasks = 0;
+    let runs = 0;
+
+    for (const pr of pullRequests) {
+      tasks += (await this.listPRTasks(pr.number)).filter(t => t.taskYaml).length;
+
+      // Only the latest run of each PR; earlier attempts are indexed when viewed
+      const [latestRun] = await this.getWorkflowRunsForPR(pr.number, 1);
+      if (latestRun?.status === 'completed') {
+        await this.getAgentTestResults(latestRun.id);
+        runs++;
+      }
+    }
+
+    this.logger.info({ page, pullRequests: pullRequests.length, tasks, runs }, 'Repository search index backfill page completed');
+
+    return { pullRequests: pullRequests.length, tasks, runs, hasMore: pullRequests.length === pageSize };
+  }
+
   /**
    * Calculates repository PR statistics using efficient GraphQL queries
    */
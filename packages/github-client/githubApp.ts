@@ -0,0 +1,222 @@
+import { createSign } from 'crypto';
+import pino, { type Logger } from 'pino';
+import { getGitHubApiUrl } from '@logflix/shared/githubSync';
+
+/**
+ * GitHub App authentication
+ * Signs app JWTs, finds the installation for a repository or organization and
+ * mints installation tokens, caching both. Requests go to getGitHubApiUrl(), so
+ * a local fake of the installation and token endpoints can stand in for GitHub.
+ */
+
+export interface GitHubAppConfig {
+  appId: string;
+  privateKey: string; // PEM; "\n" escapes from single-line env values are accepted
+  baseUrl: string;
+}
+
+type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+interface CachedInstallation {
+  id: number | null; // null while the app isn't installed
+  expiresAt: number;
+}
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+// App JWTs may live 10 minutes; iat is backdated for clock drift as GitHub recommends
+const JWT_LIFETIME_SECONDS = 9 * 60;
+const JWT_CLOCK_DRIFT_SECONDS = 60;
+const INSTALLATION_CACHE_TTL_MS = 60 * 60 * 1000;
+const MISSING_INSTALLATION_CACHE_TTL_MS = 5 * 60 * 1000;
+// Installation tokens last an hour; they're replaced this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const MAX_INSTALLATION_REPOSITORY_PAGES = 10;
+
+/**
+ * GitHub App settings from GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY, or undefined when either is missing
+ */
+export function getGitHubAppConfig(): GitHubAppConfig | undefined {
+  const appId = process.env.GITHUB_APP_ID;
+  const privateKey = process.env.GITHUB_APP_PRIVATE_KEY;
+  if (!appId || !privateKey) {
+    return undefined;
+  }
+  return { appId, privateKey: privateKey.replace(/\\n/g, '\n'), baseUrl: getGitHubApiUrl() };
+}
+
+const base64url = (value: string | Buffer) => Buffer.from(value).toString('base64url');
+
+/**
+ * RS256 JWT identifying the app itself, for the installation endpoints
+ */
+export function createGitHubAppJwt(appId: string, privateKey: string, nowSeconds = Math.floor(Date.now() / 1000)): string {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({
+    iat: nowSeconds - JWT_CLOCK_DRIFT_SECONDS,
+    exp: nowSeconds + JWT_LIFETIME_SECONDS,
+    iss: appId,
+  }));
+  const signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+export class GitHubAppAuth {
+  private config: GitHubAppConfig;
+  private logger?: Logger;
+  private fetchImpl: FetchLike;
+  private installations = new Map<string, CachedInstallation>();
+  private tokens = new Map<number, CachedToken>();
+  // Concurrent requests for the same installation share one token request
+  private pendingTokens = new Map<number, Promise<string | null>>();
+
+  constructor(config: GitHubAppConfig, logger?: Logger, fetchImpl: FetchLike = fetch) {
+    this.config = config;
+    this.logger = logger?.child({ component: 'GitHubAppAuth', appId: config.appId });
+    this.fetchImpl = fetchImpl;
+  }
+
+  /**
+   * Installation token for a repository, or null when the app isn't installed on it
+   */
+  async getRepositoryToken(owner: string, repo: string): Promise<string | null> {
+    const installationId = await this.getInstallationId(`repo:${owner}/${repo}`, `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/installation`);
+    return installationId === null ? null : this.getInstallationToken(installationId);
+  }
+
+  /**
+   * Installation token for an organization-wide installation, or null when there is none
+   */
+  async getOrganizationToken(organization: string): Promise<string | null> {
+    const installationId = await this.getInstallationId(`org:${organization}`, `/orgs/${encodeURIComponent(organization)}/installation`);
+    return installationId === null ? null : this.getInstallationToken(installationId);
+  }
+
+  /**
+   * "owner/repo" names the organization's installation can access; empty without one
+   */
+  async listInstallationRepositories(organization: string): Promise<string[]> {
+    const token = await this.getOrganizationToken(organization);
+    if (!token) {
+      return [];
+    }
+
+    const repositories: string[] = [];
+    try {
+      for (let page = 1; page <= MAX_INSTALLATION_REPOSITORY_PAGES; page++) {
+        const response = await this.request(`/installation/repositories?per_page=100&page=${page}`, 'GET', `token ${token}`);
+        if (!response.ok) {
+          this.logger?.warn({ organization, status: response.status }, 'Failed to list installation repositories');
+          break;
+        }
+        const data = await response.json() as { total_count: number; repositories: Array<{ full_name: string }> };
+        repositories.push(...data.repositories.map(repo => repo.full_name));
+        if (data.repositories.length < 100 || repositories.length >= data.total_count) {
+          break;
+        }
+      }
+    } catch (error) {
+      this.logger?.error({ organization, error }, 'Error listing installation repositories');
+    }
+    return repositories;
+  }
+
+  private async getInstallationId(cacheKey: string, path: string): Promise<number | null> {
+    const cached = this.installations.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.id;
+    }
+
+    try {
+      const response = await this.request(path, 'GET', `Bearer ${this.createJwt()}`);
+      if (response.status === 404) {
+        this.installations.set(cacheKey, { id: null, expiresAt: Date.now() + MISSING_INSTALLATION_CACHE_TTL_MS });
+        return null;
+      }
+      if (!response.ok) {
+        this.logger?.warn({ cacheKey, status: response.status }, 'GitHub App installation lookup failed');
+        return null;
+      }
+
+      const { id } = await response.json() as { id: number };
+      this.installations.set(cacheKey, { id, expiresAt: Date.now() + INSTALLATION_CACHE_TTL_MS });
+      return id;
+    } catch (error) {
+      this.logger?.error({ cacheKey, error }, 'Error looking up GitHub App installation');
+      return null;
+    }
+  }
+
+  private async getInstallationToken(installationId: number): Promise<string | null> {
+    const cached = this.tokens.get(installationId);
+    if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return cached.token;
+    }
+
+    const pending = this.pendingTokens.get(installationId);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.mintInstallationToken(installationId).finally(() => {
+      this.pendingTokens.delete(installationId);
+    });
+    this.pendingTokens.set(installationId, request);
+    return request;
+  }
+
+  private async mintInstallationToken(installationId: number): Promise<string | null> {
+    try {
+      const response = await this.request(`/app/installations/${installationId}/access_tokens`, 'POST', `Bearer ${this.createJwt()}`);
+      if (!response.ok) {
+        this.logger?.warn({ installationId, status: response.status }, 'Failed to create installation token');
+        // The installation may have been removed; look it up again next time
+        if (response.status === 404) {
+          this.clearInstallation(installationId);
+        }
+        return null;
+      }
+
+      const { token, expires_at } = await response.json() as { token: string; expires_at: string };
+      this.tokens.set(installationId, { token, expiresAt: new Date(expires_at).getTime() });
+      this.logger?.debug({ installationId, expiresAt: expires_at }, 'Created installation token');
+      return token;
+    } catch (error) {
+      this.logger?.error({ installationId, error }, 'Error creating installation token');
+      return null;
+    }
+  }
+
+  private clearInstallation(installationId: number): void {
+    this.tokens.delete(installationId);
+    Array.from(this.installations.entries())
+      .filter(([, installation]) => installation.id === installationId)
+      .forEach(([key]) => this.installations.delete(key));
+  }
+
+  private createJwt(): string {
+    return createGitHubAppJwt(this.config.appId, this.config.privateKey);
+  }
+
+  private request(path: string, method: 'GET' | 'POST', authorization: string): Promise<Response> {
+    return this.fetchImpl(`${this.config.baseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: authorization,
+        Accept: 'application/vnd.github+json',
+        'User-Agent': 'LogFlix-App/1.0.0',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    });
+  }
+}
+
+const appConfig = getGitHubAppConfig();
+
+// Shared so installation lookups and tokens are cached across requests; undefined without app credentials
+export const githubAppAuth = appConfig
+  ? new GitHubAppAuth(appConfig, pino({ level: process.env.LOG_LEVEL || 'info' }))
+  : undefined;
@@ -1 +1,18 @@
 export { GitHubOctokitService } from './gitHubOctokitService.js';
+export { GitHubAppAuth, githubAppAuth, getGitHubAppConfig, createGitHubAppJwt } from './githubApp.js';
+export type { GitHubAppConfig } from './githubApp.js';
+export { ArtifactCache, artifactCache } from './artifactCache.js';
+export type { ArtifactCacheOptions, ArtifactCacheKey } from './artifactCache.js';
+export { ArtifactEntryTooLargeError, MAX_INLINE_ENTRY_BYTES } from './zipReader.js';
+export type { ZipEntryRange, ZipEntryRangeRequest } from './zipReader.js';
+export { searchArtifactZip } from './artifactSearch.js';
+export { toAttemptRunId, parseAttemptRunId } from './runAttempts.js';
+export type { ArtifactSearchOptions, ArtifactSearchMatch } from './artifactSearch.js';
+export type {
+  WorkflowRunStore,
+  StoredAgentTestResult,
+  StoredWorkflowJob,
+  StoredArtifactFile,
+  StoredTaskDefinition,
+  StoredFailureLog,
+} from './runStore.js';
@@ -0,0 +1,224 @@
+/**
+ * Line diff for comparing the same log across two workflow runs
+ * Uses Myers' algorithm on the lines left after trimming the common prefix and suffix,
+ * and groups changes into unified-diff style hunks with surrounding context.
+ */
+
+export interface LogDiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+  /** 1-based line in the base log, null for added lines */
+  baseLine: number | null;
+  /** 1-based line in the head log, null for removed lines */
+  headLine: number | null;
+}
+
+export interface LogDiffHunk {
+  baseStart: number;
+  headStart: number;
+  lines: LogDiffLine[];
+}
+
+export interface LogDiff {
+  added: number;
+  removed: number;
+  hunks: LogDiffHunk[];
+  /** Hunks stopped at maxHunkLines; the added/removed counts still cover the whole log */
+  truncated: boolean;
+}
+
+export interface LogDiffOptions {
+  contextLines: number;
+  /** Past this many edits the changed region is reported as one replacement instead of a minimal diff */
+  maxEditDistance: number;
+  maxHunkLines: number;
+}
+
+interface Edit {
+  type: 'equal' | 'added' | 'removed';
+  baseIndex: number;
+  headIndex: number;
+}
+
+const DEFAULT_OPTIONS: LogDiffOptions = {
+  contextLines: 3,
+  maxEditDistance: 1000,
+  maxHunkLines: 2000,
+};
+
+function splitLines(text: string): string[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Minimal edit script between a and b, or null when it needs more than maxEdits edits
+ * Indexes are relative to the arrays passed in
+ */
+function myersEdits(a: string[], b: string[], maxEdits: number): Edit[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+
+    for (let k = -d; k <= d; k += 2) {
+      // Step down (insert from b) or right (delete from a), whichever reaches further
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, offset, n, m);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], offset: number, n: number, m: number): Edit[] {
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      edits.push({ type: 'equal', baseIndex: x, headIndex: y });
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ type: 'added', baseIndex: x, headIndex: prevY });
+      } else {
+        edits.push({ type: 'removed', baseIndex: prevX, headIndex: y });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Full edit script over both logs, with the common prefix and suffix as equal runs
+ */
+function editScript(base: string[], head: string[], maxEdits: number): Edit[] {
+  let prefix = 0;
+  while (prefix < base.length && prefix < head.length && base[prefix] === head[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < head.length - prefix &&
+    base[base.length - 1 - suffix] === head[head.length - 1 - suffix]
+  ) suffix++;
+
+  const baseMiddle = base.slice(prefix, base.length - suffix);
+  const headMiddle = head.slice(prefix, head.length - suffix);
+  const edits: Edit[] = [];
+
+  for (let i = 0; i < prefix; i++) {
+    edits.push({ type: 'equal', baseIndex: i, headIndex: i });
+  }
+
+  const middle = myersEdits(baseMiddle, headMiddle, maxEdits);
+  if (middle) {
+    middle.forEach(edit => edits.push({ ...edit, baseIndex: edit.baseIndex + prefix, headIndex: edit.headIndex + prefix }));
+  } else {
+    baseMiddle.forEach((_, i) => edits.push({ type: 'removed', baseIndex: prefix + i, headIndex: prefix }));
+    headMiddle.forEach((_, i) => edits.push({ type: 'added', baseIndex: prefix + baseMiddle.length, headIndex: prefix + i }));
+  }
+
+  for (let i = suffix; i > 0; i--) {
+    edits.push({ type: 'equal', baseIndex: base.length - i, headIndex: head.length - i });
+  }
+
+  return edits;
+}
+
+/**
+ * Diffs two versions of a log line by line
+ */
+export function diffLogs(baseText: string, headText: string, options: Partial<LogDiffOptions> = {}): LogDiff {
+  const { contextLines, maxEditDistance, maxHunkLines } = { ...DEFAULT_OPTIONS, ...options };
+  const base = splitLines(baseText);
+  const head = splitLines(headText);
+  const edits = editScript(base, head, maxEditDistance);
+
+  let added = 0;
+  let removed = 0;
+  const changed: number[] = [];
+  edits.forEach((edit, i) => {
+    if (edit.type === 'added') added++;
+    if (edit.type === 'removed') removed++;
+    if (edit.type !== 'equal') changed.push(i);
+  });
+
+  // Merge the context windows around changes into hunk ranges over the edit script
+  const ranges: Array<[number, number]> = [];
+  changed.forEach(i => {
+    const start = Math.max(0, i - contextLines);
+    const end = Math.min(edits.length, i + contextLines + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  const hunks: LogDiffHunk[] = [];
+  let emitted = 0;
+  let truncated = false;
+
+  for (const [start, end] of ranges) {
+    if (emitted >= maxHunkLines) {
+      truncated = true;
+      break;
+    }
+
+    const first = edits[start];
+    const hunk: LogDiffHunk = { baseStart: first.baseIndex + 1, headStart: first.headIndex + 1, lines: [] };
+
+    for (let i = start; i < end; i++) {
+      if (emitted >= maxHunkLines) {
+        truncated = true;
+        break;
+      }
+      const edit = edits[i];
+      hunk.lines.push({
+        type: edit.type === 'equal' ? 'context' : edit.type,
+        text: edit.type === 'added' ? head[edit.headIndex] : base[edit.baseIndex],
+        baseLine: edit.type === 'added' ? null : edit.baseIndex + 1,
+        headLine: edit.type === 'removed' ? null : edit.headIndex + 1,
+      });
+      emitted++;
+    }
+
+    hunks.push(hunk);
+  }
+
+  return { added, removed, hunks, truncated };
+}
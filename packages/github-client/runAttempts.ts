@@ -0,0 +1,30 @@
+/**
+ * Run attempt ids
+ * GitHub gives every attempt of a re-run workflow run the same run id. Earlier attempts
+ * are listed under a synthetic id instead: the run id followed by the attempt number,
+ * zero-padded to three digits. These helpers build and decode those ids.
+ */
+
+const ATTEMPT_DIGITS = 3;
+const ATTEMPT_FACTOR = 10 ** ATTEMPT_DIGITS;
+
+// GitHub run ids are still well below this; anything larger carries an attempt suffix
+const MIN_ATTEMPT_RUN_ID = 10 ** 12;
+
+/**
+ * Synthetic id for an earlier attempt of a run
+ */
+export function toAttemptRunId(runId: number, attempt: number): number {
+  return runId * ATTEMPT_FACTOR + attempt;
+}
+
+/**
+ * Run id and attempt behind a synthetic attempt id, or null for a plain GitHub run id
+ */
+export function parseAttemptRunId(id: number): { runId: number; attempt: number } | null {
+  if (id < MIN_ATTEMPT_RUN_ID) {
+    return null;
+  }
+  const attempt = id % ATTEMPT_FACTOR;
+  return attempt > 0 ? { runId: Math.floor(id / ATTEMPT_FACTOR), attempt } : null;
+}
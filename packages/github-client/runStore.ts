@@ -0,0 +1,75 @@
+import type { GitHubWorkflowRun, GitHubWorkflowArtifact } from '@logflix/shared/schema';
+
+/**
+ * Agent test result as persisted per workflow job
+ */
+export interface StoredAgentTestResult {
+  jobId: number;
+  runAttempt: number; // Attempt of the run the job belongs to; re-runs keep the run id
+  agentName: string;
+  model: string | null;
+  status: 'PASS' | 'FAIL' | 'UNKNOWN';
+  source: 'artifact' | 'fallback' | 'unknown';
+  conclusion: string | null;
+  jobStatus: string;
+}
+
+/**
+ * Workflow job summary as returned by GitHubOctokitService.getWorkflowJobs
+ */
+export interface StoredWorkflowJob {
+  id: number;
+  name: string;
+  conclusion: string | null;
+  status: string;
+}
+
+/**
+ * File entry inside an artifact zip
+ */
+export interface StoredArtifactFile {
+  name: string;
+  path: string;
+  size: number;
+}
+
+/**
+ * Searchable task.yaml fields of a task touched by a PR
+ */
+export interface StoredTaskDefinition {
+  taskId: string;
+  instruction: string;
+  category: string | null;
+  difficulty: string | null;
+  tags: string[];
+}
+
+/**
+ * Tail of a failed agent job's log, kept for repo-wide failure search
+ */
+export interface StoredFailureLog {
+  jobId: number;
+  agentName: string;
+  model: string | null;
+  content: string;
+}
+
+/**
+ * Write-through store for GitHub workflow data
+ * Implemented by the API server on top of the drizzle tables in @logflix/shared/schema
+ * so that results survive GitHub's artifact and log retention window. Getters only return
+ * rows stored for the given "owner/repo", so a run id from another repository finds nothing.
+ */
+export interface WorkflowRunStore {
+  saveWorkflowRuns(repository: string, runs: GitHubWorkflowRun[], prNumber?: number): Promise<void>;
+  saveWorkflowJobs(repository: string, runId: number, jobs: StoredWorkflowJob[]): Promise<void>;
+  saveAgentTestResults(repository: string, runId: number, results: StoredAgentTestResult[]): Promise<void>;
+  getAgentTestResults(repository: string, runId: number): Promise<StoredAgentTestResult[]>;
+  saveWorkflowArtifacts(repository: string, runId: number, artifacts: GitHubWorkflowArtifact[]): Promise<void>;
+  getWorkflowArtifacts(repository: string, runId: number): Promise<GitHubWorkflowArtifact[]>;
+  saveArtifactFiles(artifactId: number, files: StoredArtifactFile[]): Promise<void>;
+  getArtifactFiles(repository: string, artifactId: number): Promise<StoredArtifactFile[]>;
+  saveTaskDefinitions(repository: string, prNumber: number, tasks: StoredTaskDefinition[]): Promise<void>;
+  saveFailureLogs(repository: string, runId: number, logs: StoredFailureLog[]): Promise<void>;
+  getFailureLogJobIds(repository: string, runId: number): Promise<number[]>;
+}
@@ -0,0 +1,340 @@
+import { StringDecoder } from 'string_decoder';
+import yauzl from 'yauzl';
+import type { Entry, ZipFile } from 'yauzl';
+
+/**
+ * Streaming zip access for artifact archives
+ * Entries are listed from the central directory and read one at a time,
+ * so memory use is bounded by the largest inlined entry rather than the archive size.
+ */
+
+export interface ZipEntryInfo {
+  name: string;
+  path: string;
+  size: number;
+  compressedSize: number;
+}
+
+/**
+ * Slice of an entry to read: a line window (0-based start line) or a byte window
+ */
+export interface ZipEntryRangeRequest {
+  unit: 'lines' | 'bytes';
+  start: number;
+  count: number;
+}
+
+export interface ZipEntryRange {
+  content: string;
+  unit: 'lines' | 'bytes';
+  start: number;
+  /** Exclusive end of the returned window, clamped to the entry */
+  end: number;
+  totalBytes: number;
+  totalLines: number;
+}
+
+/**
+ * Raised when an entry is bigger than the inline memory ceiling
+ */
+export class ArtifactEntryTooLargeError extends Error {
+  constructor(
+    public readonly entryPath: string,
+    public readonly size: number,
+    public readonly limit: number
+  ) {
+    super(`Artifact entry "${entryPath}" is ${size} bytes, which exceeds the ${limit} byte limit for inline reads`);
+    this.name = 'ArtifactEntryTooLargeError';
+  }
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * Largest entry that will be decompressed into memory (ARTIFACT_MAX_INLINE_MB, default 64 MB)
+ */
+export const MAX_INLINE_ENTRY_BYTES = (() => {
+  const parsed = parseInt(process.env.ARTIFACT_MAX_INLINE_MB || '', 10);
+  return (isNaN(parsed) || parsed <= 0 ? 64 : parsed) * MB;
+})();
+
+function openZip(zipPath: string): Promise<ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true, autoClose: false }, (error, zipFile) => {
+      if (error || !zipFile) {
+        reject(error || new Error(`Failed to open zip ${zipPath}`));
+        return;
+      }
+      resolve(zipFile);
+    });
+  });
+}
+
+/**
+ * Visits every central directory entry in order
+ */
+async function walkEntries(zipPath: string, visit: (entry: Entry) => void): Promise<void> {
+  const zipFile = await openZip(zipPath);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      zipFile.on('entry', (entry: Entry) => {
+        visit(entry);
+        zipFile.readEntry();
+      });
+      zipFile.on('end', () => resolve());
+      zipFile.on('error', reject);
+      zipFile.readEntry();
+    });
+  } finally {
+    zipFile.close();
+  }
+}
+
+function isDirectory(entry: Entry): boolean {
+  return entry.fileName.endsWith('/');
+}
+
+/**
+ * Lists file entries from the zip's central directory without decompressing anything
+ */
+export async function listZipEntries(zipPath: string): Promise<ZipEntryInfo[]> {
+  const entries: ZipEntryInfo[] = [];
+
+  await walkEntries(zipPath, (entry) => {
+    if (!isDirectory(entry)) {
+      entries.push({
+        name: entry.fileName.split('/').pop() || entry.fileName,
+        path: entry.fileName,
+        size: entry.uncompressedSize,
+        compressedSize: entry.compressedSize,
+      });
+    }
+  });
+
+  return entries;
+}
+
+function openEntryStream(zipFile: ZipFile, entry: Entry): Promise<AsyncIterable<Buffer>> {
+  return new Promise((resolve, reject) => {
+    zipFile.openReadStream(entry, (error, readStream) => {
+      if (error || !readStream) {
+        reject(error || new Error(`Failed to read ${entry.fileName}`));
+        return;
+      }
+      resolve(readStream);
+    });
+  });
+}
+
+/**
+ * Decompresses one entry into a UTF-8 string, enforcing the memory ceiling
+ * The declared size is checked up front and the actual byte count while streaming,
+ * since entry headers can under-report
+ */
+async function readEntryText(zipFile: ZipFile, entry: Entry, maxBytes: number): Promise<string> {
+  if (entry.uncompressedSize > maxBytes) {
+    throw new ArtifactEntryTooLargeError(entry.fileName, entry.uncompressedSize, maxBytes);
+  }
+
+  const stream = await openEntryStream(zipFile, entry);
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for await (const chunk of stream) {
+    total += chunk.length;
+    if (total > maxBytes) {
+      throw new ArtifactEntryTooLargeError(entry.fileName, total, maxBytes);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Streams one entry, keeping only the requested window while counting bytes and lines
+ * Only the window is held in memory, so arbitrarily large entries can be paged.
+ * Byte windows may split multi-byte characters at their edges.
+ */
+async function readEntryRange(
+  zipFile: ZipFile,
+  entry: Entry,
+  range: ZipEntryRangeRequest,
+  maxBytes: number
+): Promise<ZipEntryRange> {
+  const stream = await openEntryStream(zipFile, entry);
+  const end = range.start + range.count;
+  const chunks: Buffer[] = [];
+  let collected = 0;
+  let totalBytes = 0;
+  let newlines = 0;
+  let lastByte = -1;
+
+  const collect = (slice: Buffer) => {
+    if (slice.length === 0) return;
+    collected += slice.length;
+    if (collected > maxBytes) {
+      throw new ArtifactEntryTooLargeError(entry.fileName, collected, maxBytes);
+    }
+    chunks.push(slice);
+  };
+
+  for await (const chunk of stream) {
+    if (range.unit === 'bytes') {
+      const from = Math.max(range.start - totalBytes, 0);
+      const to = Math.min(end - totalBytes, chunk.length);
+      if (from < to) collect(chunk.subarray(from, to));
+    }
+
+    // Walk newlines; in line mode copy the segments that fall inside the window
+    let segmentStart = 0;
+    let newlineIndex = chunk.indexOf(10);
+    while (newlineIndex !== -1) {
+      if (range.unit === 'lines' && newlines >= range.start && newlines < end) {
+        collect(chunk.subarray(segmentStart, newlineIndex + 1));
+      }
+      newlines++;
+      segmentStart = newlineIndex + 1;
+      newlineIndex = chunk.indexOf(10, segmentStart);
+    }
+    if (range.unit === 'lines' && newlines >= range.start && newlines < end) {
+      collect(chunk.subarray(segmentStart));
+    }
+
+    totalBytes += chunk.length;
+    if (chunk.length > 0) lastByte = chunk[chunk.length - 1];
+  }
+
+  // A trailing line without a newline still counts
+  const totalLines = newlines + (totalBytes > 0 && lastByte !== 10 ? 1 : 0);
+  const total = range.unit === 'lines' ? totalLines : totalBytes;
+  let content = Buffer.concat(chunks).toString('utf8');
+
+  // Line windows exclude the newline terminating their last line
+  if (range.unit === 'lines' && content.endsWith('\n')) {
+    content = content.slice(0, -1);
+  }
+
+  return {
+    content,
+    unit: range.unit,
+    start: Math.min(range.start, total),
+    end: Math.min(end, total),
+    totalBytes,
+    totalLines,
+  };
+}
+
+/**
+ * Opens the first file entry accepted by `match` and hands it to `use`
+ */
+async function withMatchingEntry<T>(
+  zipPath: string,
+  match: (path: string) => boolean,
+  use: (zipFile: ZipFile, entry: Entry) => Promise<T>
+): Promise<T | null> {
+  const zipFile = await openZip(zipPath);
+
+  try {
+    return await new Promise<T | null>((resolve, reject) => {
+      zipFile.on('entry', (entry: Entry) => {
+        if (!isDirectory(entry) && match(entry.fileName)) {
+          use(zipFile, entry).then(resolve, reject);
+        } else {
+          zipFile.readEntry();
+        }
+      });
+      zipFile.on('end', () => resolve(null));
+      zipFile.on('error', reject);
+      zipFile.readEntry();
+    });
+  } finally {
+    zipFile.close();
+  }
+}
+
+/**
+ * Reads the first file entry accepted by `match`, or null when none matches
+ */
+export function readZipEntryText(
+  zipPath: string,
+  match: (path: string) => boolean,
+  maxBytes: number = MAX_INLINE_ENTRY_BYTES
+): Promise<string | null> {
+  return withMatchingEntry(zipPath, match, (zipFile, entry) => readEntryText(zipFile, entry, maxBytes));
+}
+
+/**
+ * Reads a line or byte window of the first file entry accepted by `match`
+ */
+export function readZipEntryRange(
+  zipPath: string,
+  match: (path: string) => boolean,
+  range: ZipEntryRangeRequest,
+  maxBytes: number = MAX_INLINE_ENTRY_BYTES
+): Promise<ZipEntryRange | null> {
+  return withMatchingEntry(zipPath, match, (zipFile, entry) => readEntryRange(zipFile, entry, range, maxBytes));
+}
+
+/**
+ * Streams every file entry accepted by `match` through `onEntry`, one at a time
+ * Stops early when `onEntry` resolves to false
+ */
+export async function scanZipEntries(
+  zipPath: string,
+  match: (path: string) => boolean,
+  onEntry: (entry: ZipEntryInfo, stream: AsyncIterable<Buffer>) => Promise<boolean>
+): Promise<void> {
+  const zipFile = await openZip(zipPath);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      zipFile.on('entry', (entry: Entry) => {
+        if (isDirectory(entry) || !match(entry.fileName)) {
+          zipFile.readEntry();
+          return;
+        }
+
+        const info: ZipEntryInfo = {
+          name: entry.fileName.split('/').pop() || entry.fileName,
+          path: entry.fileName,
+          size: entry.uncompressedSize,
+          compressedSize: entry.compressedSize,
+        };
+
+        openEntryStream(zipFile, entry)
+          .then(stream => onEntry(info, stream))
+          .then(keepGoing => keepGoing ? zipFile.readEntry() : resolve(), reject);
+      });
+      zipFile.on('end', () => resolve());
+      zipFile.on('error', reject);
+      zipFile.readEntry();
+    });
+  } finally {
+    zipFile.close();
+  }
+}
+
+/**
+ * Splits a byte stream into UTF-8 lines without buffering the whole stream
+ */
+export async function* readLines(stream: AsyncIterable<Buffer>): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let pending = '';
+
+  for await (const chunk of stream) {
+    // The decoder holds back multi-byte characters split across chunks
+    pending += decoder.write(chunk);
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+    for (const line of lines) {
+      yield line;
+    }
+  }
+
+  pending += decoder.end();
+  if (pending) {
+    yield pending;
+  }
+}
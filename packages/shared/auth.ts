@@ -3,7 +3,7 @@
  * Shared between frontend and backend for consistent RBAC implementation
  */
 
-// User roles in the system
+// Built-in user roles; organizations can define further roles (see RoleDefinition)
 export enum UserRole {
   ADMIN = 'admin',
   MEMBER = 'member',
@@ -19,8 +19,29 @@ export enum Permission {
   MANAGE_USERS = 'manage:users',
   MANAGE_PERMISSIONS = 'manage:permissions',
   MANAGE_ORGANIZATIONS = 'manage:organizations',
+
+  // Run content and actions within accessible repositories
+  DOWNLOAD_ARTIFACTS = 'download:artifacts',
+  VIEW_LOGS = 'view:logs',
+  VIEW_CASTS = 'view:casts',
+  ANNOTATE = 'annotate',
+  TRIAGE = 'triage',
+  RERUN_WORKFLOWS = 'rerun:workflows',
 }
 
+// Permissions a custom role can grant; repository visibility and management stay with the built-in roles
+export const CUSTOM_ROLE_PERMISSIONS: Permission[] = [
+  Permission.DOWNLOAD_ARTIFACTS,
+  Permission.VIEW_LOGS,
+  Permission.VIEW_CASTS,
+  Permission.ANNOTATE,
+  Permission.TRIAGE,
+  Permission.RERUN_WORKFLOWS,
+];
+
+// Scopes a personal API token can carry; repository visibility comes with every token
+export const API_TOKEN_SCOPES: Permission[] = CUSTOM_ROLE_PERMISSIONS;
+
 // Role to permissions mapping
 export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
   [UserRole.ADMIN]: [
@@ -28,15 +49,35 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     Permission.MANAGE_USERS,
     Permission.MANAGE_PERMISSIONS,
     Permission.MANAGE_ORGANIZATIONS,
+    ...CUSTOM_ROLE_PERMISSIONS,
   ],
   [UserRole.MEMBER]: [
     Permission.VIEW_ASSIGNED_REPOS,
+    Permission.DOWNLOAD_ARTIFACTS,
+    Permission.VIEW_LOGS,
+    Permission.VIEW_CASTS,
+    Permission.ANNOTATE,
+    Permission.TRIAGE,
   ],
 };
 
+// Organization-defined role, e.g. "reviewer" or "contractor"
+// Holders see their assigned repositories plus whatever the role grants.
+export interface RoleDefinition {
+  id: string; // Slug stored in user metadata; never one of the built-in role ids
+  name: string;
+  description?: string;
+  permissions: Permission[]; // Subset of CUSTOM_ROLE_PERMISSIONS
+}
+
+// Role as listed to clients: built-in roles are included so the UI can show one list
+export interface RoleSummary extends RoleDefinition {
+  builtIn: boolean;
+}
+
 // User metadata structure stored in Clerk
 export interface UserMetadata {
-  role: UserRole;
+  role: UserRole | string; // Built-in role or the id of a RoleDefinition in the user's organization
   assignedRepositories?: string[]; // Format: "owner/repo"
   organizationId?: string;
   lastGitHubSync?: string; // ISO timestamp of last GitHub sync
@@ -47,30 +88,83 @@ export interface UserMetadata {
 export interface ClerkOrganizationMetadata {
   githubOrganization: string; // The GitHub organization name to sync repos from
   defaultWorkflow?: string;   // Default workflow file name (e.g., "test-tasks.yaml")
+  roles?: RoleDefinition[];   // Custom roles, managed from the admin console
 }
 
 // Auth context for requests
 export interface AuthContext {
   userId: string;
-  role: UserRole;
+  role: UserRole | string;
   permissions: Permission[];
   assignedRepositories: string[];
   organizationId?: string;
   organizationMetadata?: ClerkOrganizationMetadata; // GitHub org settings from Clerk
+  displayName?: string; // Name shown on content the user creates, e.g. annotations
+  apiToken?: { id: number; repositories: string[] }; // Set when the request authenticated with a personal API token
+}
+
+// User as listed in the admin console
+export interface AdminUser {
+  id: string;
+  email?: string;
+  firstName: string | null;
+  lastName: string | null;
+  imageUrl?: string;
+  role: UserRole | string;
+  assignedRepositories: string[];
+  createdAt: number;
+  lastSignInAt: number | null;
+}
+
+// Edit applied to each selected user in the admin console; additions are applied before removals
+export interface BulkUserUpdate {
+  userIds: string[];
+  role?: UserRole | string;
+  addRepositories?: string[];
+  removeRepositories?: string[];
+}
+
+export interface BulkUserUpdateResult {
+  updated: string[];
+  failed: Array<{ userId: string; error: string }>;
+}
+
+// Personal API token as listed to its owner; the secret itself is only returned on creation
+export interface ApiToken {
+  id: number;
+  name: string;
+  prefix: string; // Start of the secret, to tell tokens apart
+  scopes: Permission[];
+  repositories: string[]; // Empty means every repository the owner can access
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreateApiTokenRequest {
+  name: string;
+  scopes: Permission[]; // Subset of API_TOKEN_SCOPES
+  repositories?: string[];
+  expiresInDays?: number | null; // Null or omitted for a token that doesn't expire
+}
+
+export interface CreatedApiToken {
+  token: string;
+  apiToken: ApiToken;
 }
 
 /**
  * Check if a role has a specific permission
  */
-export function hasPermission(role: UserRole, permission: Permission): boolean {
-  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+export function hasPermission(role: UserRole | string, permission: Permission, customRoles: RoleDefinition[] = []): boolean {
+  return getPermissionsForRole(role, customRoles).includes(permission);
 }
 
 /**
  * Check if a user has access to a specific repository
  */
 export function canAccessRepository(
-  role: UserRole,
+  role: UserRole | string,
   assignedRepositories: string[],
   targetRepo: string
 ): boolean {
@@ -92,9 +186,28 @@ export function canAccessRepository(
 
 /**
  * Get all permissions for a role
+ * Custom roles see their assigned repositories plus what they grant; a role that is no
+ * longer defined (e.g. deleted, or from another organization) keeps repository visibility only.
+ */
+export function getPermissionsForRole(role: UserRole | string, customRoles: RoleDefinition[] = []): Permission[] {
+  if (isValidRole(role)) {
+    return ROLE_PERMISSIONS[role];
+  }
+  const definition = customRoles.find(r => r.id === role);
+  const granted = definition ? definition.permissions.filter(p => CUSTOM_ROLE_PERMISSIONS.includes(p)) : [];
+  return [Permission.VIEW_ASSIGNED_REPOS, ...granted];
+}
+
+/**
+ * Permissions of a request made with an API token: repository visibility from the owner's role,
+ * plus the token's scopes that the role also grants. Management permissions never carry over.
  */
-export function getPermissionsForRole(role: UserRole): Permission[] {
-  return ROLE_PERMISSIONS[role] || [];
+export function getApiTokenPermissions(rolePermissions: Permission[], scopes: string[]): Permission[] {
+  return rolePermissions.filter(permission =>
+    permission === Permission.VIEW_ALL_REPOS
+    || permission === Permission.VIEW_ASSIGNED_REPOS
+    || (API_TOKEN_SCOPES.includes(permission) && scopes.includes(permission))
+  );
 }
 
 /**
@@ -104,6 +217,24 @@ export function isValidRole(role: string): role is UserRole {
   return Object.values(UserRole).includes(role as UserRole);
 }
 
+/**
+ * Check if a string is a built-in role or one of the organization's custom roles
+ */
+export function isKnownRole(role: string, customRoles: RoleDefinition[] = []): boolean {
+  return isValidRole(role) || customRoles.some(r => r.id === role);
+}
+
+/**
+ * Built-in and custom roles in one list, built-in first
+ */
+export function listRoles(customRoles: RoleDefinition[] = []): RoleSummary[] {
+  return [
+    { id: UserRole.ADMIN, name: 'Admin', description: 'All repositories, user management and every permission', permissions: ROLE_PERMISSIONS[UserRole.ADMIN], builtIn: true },
+    { id: UserRole.MEMBER, name: 'Member', description: 'Assigned repositories; can view, download and annotate', permissions: ROLE_PERMISSIONS[UserRole.MEMBER], builtIn: true },
+    ...customRoles.map(role => ({ ...role, builtIn: false })),
+  ];
+}
+
 /**
  * Parse repository identifier into owner and repo
  */
@@ -16,6 +16,13 @@ export interface GitHubTokenInfo {
   scopes?: string[];
 }
 
+/**
+ * Base URL of the GitHub REST API; GITHUB_API_URL points it at GitHub Enterprise or a local fake
+ */
+export function getGitHubApiUrl(): string {
+  return (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, '');
+}
+
 /**
  * Fetch all repositories the user has access to using the /user/repos endpoint
  * This includes repos accessible through team memberships, collaborator access, and ownership
@@ -33,7 +40,7 @@ export async function fetchAllUserAccessibleRepositories(
     while (hasMorePages) {
       // Use /user/repos with affiliation to get all repos the user has access to
       const response = await fetch(
-        `https://api.github.com/user/repos?affiliation=organization_member,collaborator&per_page=100&page=${page}`,
+        `${getGitHubApiUrl()}/user/repos?affiliation=organization_member,collaborator&per_page=100&page=${page}`,
         {
           headers: {
             Authorization: `Bearer ${accessToken}`,
@@ -91,7 +98,7 @@ export async function fetchUserOrgMembership(
 ): Promise<{ role: "admin" | "member" | null }> {
   try {
     const response = await fetch(
-      `https://api.github.com/orgs/${organization}/memberships/${username}`,
+      `${getGitHubApiUrl()}/orgs/${organization}/memberships/${username}`,
       {
         headers: {
           Authorization: `Bearer ${accessToken}`,
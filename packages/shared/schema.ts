@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { sql } from "drizzle-orm";
+import { pgTable, text, integer, bigint, boolean, timestamp, serial, doublePrecision, jsonb, uniqueIndex, index } from "drizzle-orm/pg-core";
 
 // Task metadata from task.yaml
 export const taskYamlSchema = z.object({
@@ -139,3 +141,524 @@ export const githubPRSelectionSchema = z.object({
 });
 
 export type GitHubPRSelection = z.infer<typeof githubPRSelectionSchema>;
+
+// Live update pushed to clients when a GitHub webhook changes run, job, PR or comment state
+export const liveUpdateEventSchema = z.object({
+  type: z.enum(['workflow_run', 'workflow_job', 'pull_request', 'issue_comment']),
+  action: z.string(),
+  repository: z.string(), // Format: "owner/repo"
+  pullRequests: z.array(z.number()),
+  runId: z.number().optional(),
+  jobId: z.number().optional(),
+  status: z.string().optional(),
+  conclusion: z.string().nullable().optional(),
+  receivedAt: z.string(),
+});
+
+export type LiveUpdateEvent = z.infer<typeof liveUpdateEventSchema>;
+
+// Full-text search across a run's artifact logs and casts
+export const runSearchMatchSchema = z.object({
+  artifactId: z.number(),
+  artifactName: z.string(),
+  agent: z.string(), // Artifact name without the "recordings-" prefix
+  filePath: z.string(),
+  fileName: z.string(),
+  fileType: z.enum(['log', 'txt', 'cast']),
+  lineNumber: z.number(), // 1-based; for casts, the line of reconstructed terminal output
+  timestamp: z.number().nullable(), // Seconds from the first cast event, null for logs
+  line: z.string(),
+  before: z.array(z.string()),
+  after: z.array(z.string()),
+});
+
+export const runSearchResponseSchema = z.object({
+  query: z.string(),
+  matches: z.array(runSearchMatchSchema),
+  filesSearched: z.number(),
+  truncated: z.boolean(),
+});
+
+export type RunSearchMatch = z.infer<typeof runSearchMatchSchema>;
+export type RunSearchResponse = z.infer<typeof runSearchResponseSchema>;
+
+// Repo-wide search over indexed task definitions and failure logs
+export const repoSearchTaskHitSchema = z.object({
+  prNumber: z.number(),
+  taskId: z.string(),
+  category: z.string().nullable(),
+  difficulty: z.string().nullable(),
+  tags: z.array(z.string()),
+  snippet: z.string(), // Instruction excerpt with matches wrapped in <<< >>>
+  indexedAt: z.string(),
+});
+
+export const repoSearchFailureHitSchema = z.object({
+  prNumber: z.number().nullable(),
+  taskIds: z.array(z.string()),
+  runId: z.number(),
+  runNumber: z.number().nullable(),
+  jobId: z.number(),
+  agentName: z.string(),
+  model: z.string().nullable(),
+  snippet: z.string(), // Log excerpt with matches wrapped in <<< >>>
+  runCreatedAt: z.string().nullable(),
+  htmlUrl: z.string().nullable(),
+});
+
+export const repoSearchResponseSchema = z.object({
+  query: z.string(),
+  tasks: z.array(repoSearchTaskHitSchema),
+  failures: z.array(repoSearchFailureHitSchema),
+});
+
+export type RepoSearchTaskHit = z.infer<typeof repoSearchTaskHitSchema>;
+export type RepoSearchFailureHit = z.infer<typeof repoSearchFailureHitSchema>;
+export type RepoSearchResponse = z.infer<typeof repoSearchResponseSchema>;
+
+// Side-by-side comparison of two workflow runs
+const agentStatusSchema = z.enum(['PASS', 'FAIL', 'UNKNOWN']);
+
+export const runComparisonAgentSchema = z.object({
+  agentKey: z.string(), // "Agent" or "Agent (model)"
+  agentName: z.string(),
+  model: z.string().nullable(),
+  base: agentStatusSchema.nullable(), // null when the agent did not run
+  head: agentStatusSchema.nullable(),
+  changed: z.boolean(),
+});
+
+export const runComparisonJobSchema = z.object({
+  name: z.string(),
+  baseConclusion: z.string().nullable(),
+  headConclusion: z.string().nullable(),
+  baseDurationSec: z.number().nullable(),
+  headDurationSec: z.number().nullable(),
+  deltaSec: z.number().nullable(), // head - base, null unless both finished
+});
+
+export const logDiffLineSchema = z.object({
+  type: z.enum(['context', 'added', 'removed']),
+  text: z.string(),
+  baseLine: z.number().nullable(),
+  headLine: z.number().nullable(),
+});
+
+export const logDiffHunkSchema = z.object({
+  baseStart: z.number(),
+  headStart: z.number(),
+  lines: z.array(logDiffLineSchema),
+});
+
+export const runComparisonLogDiffSchema = z.object({
+  agent: z.string(), // Recording artifact name without the "recordings-" prefix
+  taskId: z.string().nullable(),
+  status: z.enum(['changed', 'unchanged', 'added', 'removed', 'unavailable']), // unavailable: expired or too large
+  added: z.number(),
+  removed: z.number(),
+  hunks: z.array(logDiffHunkSchema),
+  truncated: z.boolean(),
+});
+
+export const runComparisonSchema = z.object({
+  base: githubWorkflowRunSchema,
+  head: githubWorkflowRunSchema,
+  durationDeltaSec: z.number(),
+  agents: z.array(runComparisonAgentSchema),
+  jobs: z.array(runComparisonJobSchema),
+  tasks: z.object({
+    added: z.array(z.string()),
+    removed: z.array(z.string()),
+    unchanged: z.array(z.string()),
+  }),
+  logDiffs: z.array(runComparisonLogDiffSchema),
+});
+
+export type RunComparisonAgent = z.infer<typeof runComparisonAgentSchema>;
+export type RunComparisonJob = z.infer<typeof runComparisonJobSchema>;
+export type LogDiffHunk = z.infer<typeof logDiffHunkSchema>;
+export type RunComparisonLogDiff = z.infer<typeof runComparisonLogDiffSchema>;
+export type RunComparison = z.infer<typeof runComparisonSchema>;
+
+// Agent pass-rate analytics rolled up from stored agent test results (UNKNOWN results excluded)
+const passCountsSchema = z.object({
+  passed: z.number(),
+  total: z.number(),
+});
+
+export const agentLeaderboardEntrySchema = passCountsSchema.extend({
+  agentKey: z.string(), // "Agent" or "Agent (model)"
+  agentName: z.string(),
+  model: z.string().nullable(),
+  passRate: z.number(), // 0-1
+});
+
+export const agentAnalyticsResponseSchema = z.object({
+  bucket: z.enum(['day', 'week', 'month']),
+  since: z.string().nullable(),
+  leaderboard: z.array(agentLeaderboardEntrySchema),
+  timeline: z.array(passCountsSchema.extend({ agentKey: z.string(), period: z.string() })),
+  byDifficulty: z.array(passCountsSchema.extend({ agentKey: z.string(), difficulty: z.string() })),
+  byCategory: z.array(passCountsSchema.extend({ agentKey: z.string(), category: z.string() })),
+});
+
+export type AgentLeaderboardEntry = z.infer<typeof agentLeaderboardEntrySchema>;
+export type AgentAnalyticsResponse = z.infer<typeof agentAnalyticsResponseSchema>;
+
+// Flakiness: resolved results that flip between attempts on the same head commit
+export const flakyCommitSchema = z.object({
+  headSha: z.string(),
+  prNumber: z.number().nullable(),
+  outcomes: z.array(z.enum(['PASS', 'FAIL'])), // In attempt order
+});
+
+export const agentFlakinessSchema = z.object({
+  agentKey: z.string(),
+  agentName: z.string(),
+  model: z.string().nullable(),
+  commits: z.number(), // Head commits with two or more resolved attempts
+  flakyCommits: z.array(flakyCommitSchema),
+  score: z.number(), // 0-1, flaky commits / commits
+});
+
+export const taskFlakinessSchema = z.object({
+  taskId: z.string(),
+  commits: z.number(),
+  flakyCommits: z.number(),
+  score: z.number(), // 0-1, over the repository's whole history
+  flakyAgents: z.array(z.string()), // Agent keys that flipped on this task
+});
+
+export const flakinessResponseSchema = z.object({
+  prNumber: z.number().nullable(), // When set, agents are scoped to this PR and tasks to its tasks
+  agents: z.array(agentFlakinessSchema),
+  tasks: z.array(taskFlakinessSchema),
+});
+
+export type FlakyCommit = z.infer<typeof flakyCommitSchema>;
+export type AgentFlakiness = z.infer<typeof agentFlakinessSchema>;
+export type TaskFlakiness = z.infer<typeof taskFlakinessSchema>;
+export type FlakinessResponse = z.infer<typeof flakinessResponseSchema>;
+
+// Reviewer notes on a log line range or a cast timestamp of a run's artifact
+export const annotationSchema = z.object({
+  id: z.number(),
+  runId: z.number(),
+  prNumber: z.number().nullable(),
+  artifactName: z.string(),
+  path: z.string(), // File inside the artifact
+  lineStart: z.number().nullable(), // 1-based, inclusive; set for log annotations
+  lineEnd: z.number().nullable(),
+  castTime: z.number().nullable(), // Seconds into the uncompressed recording; set for cast annotations
+  body: z.string(),
+  authorId: z.string().nullable(), // Clerk user id, null when auth is disabled
+  authorName: z.string(),
+  githubCommentUrl: z.string().nullable(), // Set when mirrored to the PR
+  createdAt: z.string(),
+  canDelete: z.boolean(), // Whether the requesting user may delete it (author or admin)
+});
+
+export const createAnnotationSchema = z.object({
+  prNumber: z.number().int().positive().optional(),
+  artifactName: z.string().min(1),
+  path: z.string().min(1),
+  lineStart: z.number().int().positive().optional(),
+  lineEnd: z.number().int().positive().optional(),
+  castTime: z.number().nonnegative().optional(),
+  body: z.string().trim().min(1).max(5000),
+  mirrorToPR: z.boolean().optional(),
+  link: z.string().url().optional(), // Deep link back to the annotated view, used in the PR comment
+}).refine(
+  (value) => (value.lineStart !== undefined) !== (value.castTime !== undefined),
+  { message: "An annotation needs either a line range or a cast time" }
+).refine(
+  (value) => value.lineStart === undefined || value.lineEnd === undefined || value.lineEnd >= value.lineStart,
+  { message: "lineEnd must not be before lineStart" }
+);
+
+export type Annotation = z.infer<typeof annotationSchema>;
+export type CreateAnnotationRequest = z.infer<typeof createAnnotationSchema>;
+
+// Review decision for a task a PR adds; tasks nobody has triaged yet count as needs-review
+export const TRIAGE_STATES = ['needs-review', 'changes-requested', 'approved', 'rejected'] as const;
+export const triageStateSchema = z.enum(TRIAGE_STATES);
+
+export const taskTriageSchema = z.object({
+  prNumber: z.number(),
+  taskId: z.string(),
+  state: triageStateSchema,
+  assigneeId: z.string().nullable(), // Clerk user id
+  assigneeName: z.string().nullable(),
+  reason: z.string().nullable(),
+  updatedByName: z.string().nullable(),
+  updatedAt: z.string().nullable(), // Null while the task has never been triaged
+});
+
+export const updateTaskTriageSchema = z.object({
+  state: triageStateSchema,
+  assigneeId: z.string().min(1).nullable(),
+  reason: z.string().trim().max(2000).nullable(),
+}).refine(
+  (value) => (value.state !== 'changes-requested' && value.state !== 'rejected') || !!value.reason,
+  { message: "A reason is required when requesting changes or rejecting a task" }
+);
+
+export const triageQueueItemSchema = taskTriageSchema.extend({
+  category: z.string().nullable(),
+  difficulty: z.string().nullable(),
+  instruction: z.string(), // First part of the instruction, for scanning the queue
+});
+
+export const triageAssigneeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export type TriageState = z.infer<typeof triageStateSchema>;
+export type TaskTriage = z.infer<typeof taskTriageSchema>;
+export type UpdateTaskTriageRequest = z.infer<typeof updateTaskTriageSchema>;
+export type TriageQueueItem = z.infer<typeof triageQueueItemSchema>;
+export type TriageAssignee = z.infer<typeof triageAssigneeSchema>;
+
+// Audit trail of admin changes and reads of sensitive run data (logs, casts, artifact downloads)
+export const AUDIT_ACTIONS = [
+  'user.role.update',
+  'user.repositories.update',
+  'user.bulk-update',
+  'role.save',
+  'role.delete',
+  'artifact.download',
+  'logs.view',
+  'cast.view',
+  'workflow.rerun',
+  'audit.export',
+  'token.create',
+  'token.revoke',
+] as const;
+export const auditActionSchema = z.enum(AUDIT_ACTIONS);
+
+export const auditLogEntrySchema = z.object({
+  id: z.number(),
+  actorId: z.string().nullable(), // Clerk user id
+  actorName: z.string(),
+  action: auditActionSchema,
+  organizationId: z.string().nullable(), // Clerk organization id
+  repository: z.string().nullable(), // Format: "owner/repo"; null for org-wide admin actions
+  target: z.string(), // What was acted on, e.g. "user:<id>" or "artifact:<id>/<path>"
+  details: z.record(z.unknown()).nullable(),
+  requestId: z.string().nullable(), // Matches the request id in the server logs
+  createdAt: z.string(),
+});
+
+export type AuditAction = z.infer<typeof auditActionSchema>;
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
+
+// ============= PERSISTENT RUN/RESULT STORE =============
+// Drizzle tables that mirror GitHub workflow data so results outlive artifact expiry.
+// GitHub ids are used as primary keys; synthetic attempt ids (runId * 1000 + attempt, see github-client/runAttempts.ts) fit in a bigint.
+
+export const workflowRuns = pgTable("workflow_runs", {
+  id: bigint("id", { mode: "number" }).primaryKey(),
+  repository: text("repository").notNull(), // Format: "owner/repo"
+  workflowId: bigint("workflow_id", { mode: "number" }),
+  workflowName: text("workflow_name"),
+  name: text("name"),
+  status: text("status").notNull(),
+  conclusion: text("conclusion"),
+  headSha: text("head_sha").notNull(),
+  headBranch: text("head_branch"),
+  prNumber: integer("pr_number"), // Set when the run was discovered through a PR
+  runNumber: integer("run_number").notNull(),
+  runAttempt: integer("run_attempt").notNull().default(1),
+  htmlUrl: text("html_url").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+  syncedAt: timestamp("synced_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("workflow_runs_repository_head_sha_idx").on(table.repository, table.headSha),
+]);
+
+export const workflowJobs = pgTable("workflow_jobs", {
+  id: bigint("id", { mode: "number" }).primaryKey(),
+  runId: bigint("run_id", { mode: "number" }).notNull(),
+  repository: text("repository").notNull(),
+  name: text("name").notNull(),
+  status: text("status").notNull(),
+  conclusion: text("conclusion"),
+  syncedAt: timestamp("synced_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("workflow_jobs_run_id_idx").on(table.runId),
+]);
+
+export const agentTestResults = pgTable("agent_test_results", {
+  id: serial("id").primaryKey(),
+  runId: bigint("run_id", { mode: "number" }).notNull(),
+  jobId: bigint("job_id", { mode: "number" }).notNull(),
+  runAttempt: integer("run_attempt").notNull().default(1), // Re-run jobs keep the run id, so results are told apart by attempt
+  repository: text("repository").notNull(),
+  agentName: text("agent_name").notNull(),
+  model: text("model"),
+  status: text("status").notNull(), // 'PASS' | 'FAIL' | 'UNKNOWN'
+  source: text("source").notNull(), // 'artifact' | 'fallback' | 'unknown'
+  conclusion: text("conclusion"),
+  jobStatus: text("job_status").notNull(),
+  recordedAt: timestamp("recorded_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("agent_test_results_run_job_idx").on(table.runId, table.jobId),
+]);
+
+export const workflowArtifacts = pgTable("workflow_artifacts", {
+  id: bigint("id", { mode: "number" }).primaryKey(),
+  runId: bigint("run_id", { mode: "number" }).notNull(),
+  repository: text("repository").notNull(),
+  name: text("name").notNull(),
+  sizeInBytes: bigint("size_in_bytes", { mode: "number" }).notNull(),
+  downloadUrl: text("download_url").notNull(),
+  expired: boolean("expired").notNull().default(false),
+  createdAt: timestamp("created_at", { withTimezone: true }),
+  updatedAt: timestamp("updated_at", { withTimezone: true }),
+  syncedAt: timestamp("synced_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("workflow_artifacts_run_id_idx").on(table.runId),
+]);
+
+export const artifactFiles = pgTable("artifact_files", {
+  id: serial("id").primaryKey(),
+  artifactId: bigint("artifact_id", { mode: "number" }).notNull(),
+  path: text("path").notNull(),
+  name: text("name").notNull(),
+  size: bigint("size", { mode: "number" }).notNull(),
+}, (table) => [
+  uniqueIndex("artifact_files_artifact_path_idx").on(table.artifactId, table.path),
+]);
+
+// Search index: task.yaml fields per PR task, and the tail of failed agent job logs.
+// search_text holds the concatenated searchable fields behind a full-text GIN index.
+
+export const taskDefinitions = pgTable("task_definitions", {
+  id: serial("id").primaryKey(),
+  repository: text("repository").notNull(),
+  prNumber: integer("pr_number").notNull(),
+  taskId: text("task_id").notNull(),
+  instruction: text("instruction").notNull(),
+  category: text("category"),
+  difficulty: text("difficulty"),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+  searchText: text("search_text").notNull(),
+  indexedAt: timestamp("indexed_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("task_definitions_repository_pr_task_idx").on(table.repository, table.prNumber, table.taskId),
+  index("task_definitions_search_idx").using("gin", sql`to_tsvector('english', ${table.searchText})`),
+  index("task_definitions_tags_idx").using("gin", table.tags),
+]);
+
+export const failureLogs = pgTable("failure_logs", {
+  jobId: bigint("job_id", { mode: "number" }).primaryKey(),
+  runId: bigint("run_id", { mode: "number" }).notNull(),
+  repository: text("repository").notNull(),
+  agentName: text("agent_name").notNull(),
+  model: text("model"),
+  content: text("content").notNull(),
+  indexedAt: timestamp("indexed_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("failure_logs_run_id_idx").on(table.runId),
+  index("failure_logs_search_idx").using("gin", sql`to_tsvector('english', ${table.content})`),
+]);
+
+export const annotations = pgTable("annotations", {
+  id: serial("id").primaryKey(),
+  repository: text("repository").notNull(),
+  runId: bigint("run_id", { mode: "number" }).notNull(),
+  prNumber: integer("pr_number"),
+  artifactName: text("artifact_name").notNull(),
+  path: text("path").notNull(),
+  lineStart: integer("line_start"),
+  lineEnd: integer("line_end"),
+  castTime: doublePrecision("cast_time"),
+  body: text("body").notNull(),
+  authorId: text("author_id"),
+  authorName: text("author_name").notNull(),
+  githubCommentId: bigint("github_comment_id", { mode: "number" }),
+  githubCommentUrl: text("github_comment_url"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("annotations_repository_run_idx").on(table.repository, table.runId),
+]);
+
+export const taskTriage = pgTable("task_triage", {
+  id: serial("id").primaryKey(),
+  repository: text("repository").notNull(),
+  prNumber: integer("pr_number").notNull(),
+  taskId: text("task_id").notNull(),
+  state: text("state").notNull(), // One of TRIAGE_STATES
+  assigneeId: text("assignee_id"),
+  assigneeName: text("assignee_name"),
+  reason: text("reason"),
+  updatedById: text("updated_by_id"),
+  updatedByName: text("updated_by_name"),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("task_triage_repository_pr_task_idx").on(table.repository, table.prNumber, table.taskId),
+  index("task_triage_assignee_idx").on(table.assigneeId),
+]);
+
+// Append-only: rows are inserted and read, never updated or deleted
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: text("actor_id"),
+  actorName: text("actor_name").notNull(),
+  action: text("action").notNull(), // One of AUDIT_ACTIONS
+  organizationId: text("organization_id"),
+  repository: text("repository"),
+  target: text("target").notNull(),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  requestId: text("request_id"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("audit_log_organization_created_idx").on(table.organizationId, table.createdAt),
+  index("audit_log_actor_idx").on(table.actorId),
+  index("audit_log_repository_idx").on(table.repository),
+]);
+
+// Personal API tokens; only a SHA-256 hash of the secret is stored. Revoked rows are kept for the audit trail.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(), // Clerk user id of the owner
+  organizationId: text("organization_id"), // Clerk organization the token was created in
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull(),
+  tokenPrefix: text("token_prefix").notNull(),
+  scopes: text("scopes").array().notNull().default(sql`'{}'::text[]`),
+  repositories: text("repositories").array().notNull().default(sql`'{}'::text[]`), // Empty means unrestricted
+  expiresAt: timestamp("expires_at", { withTimezone: true }),
+  lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("api_tokens_token_hash_idx").on(table.tokenHash),
+  index("api_tokens_user_idx").on(table.userId),
+]);
+
+// Persistent store row types
+export type WorkflowRunRow = typeof workflowRuns.$inferSelect;
+export type InsertWorkflowRun = typeof workflowRuns.$inferInsert;
+export type WorkflowJobRow = typeof workflowJobs.$inferSelect;
+export type InsertWorkflowJob = typeof workflowJobs.$inferInsert;
+export type AgentTestResultRow = typeof agentTestResults.$inferSelect;
+export type InsertAgentTestResult = typeof agentTestResults.$inferInsert;
+export type WorkflowArtifactRow = typeof workflowArtifacts.$inferSelect;
+export type InsertWorkflowArtifact = typeof workflowArtifacts.$inferInsert;
+export type ArtifactFileRow = typeof artifactFiles.$inferSelect;
+export type InsertArtifactFile = typeof artifactFiles.$inferInsert;
+export type TaskDefinitionRow = typeof taskDefinitions.$inferSelect;
+export type InsertTaskDefinition = typeof taskDefinitions.$inferInsert;
+export type FailureLogRow = typeof failureLogs.$inferSelect;
+export type InsertFailureLog = typeof failureLogs.$inferInsert;
+export type AnnotationRow = typeof annotations.$inferSelect;
+export type InsertAnnotation = typeof annotations.$inferInsert;
+export type TaskTriageRow = typeof taskTriage.$inferSelect;
+export type InsertTaskTriage = typeof taskTriage.$inferInsert;
+export type AuditLogRow = typeof auditLog.$inferSelect;
+export type InsertAuditLog = typeof auditLog.$inferInsert;
+export type ApiTokenRow = typeof apiTokens.$inferSelect;
+export type InsertApiToken = typeof apiTokens.$inferInsert;